@@ -1,22 +1,26 @@
 // mcp-agent-manager/src/providers/anthropic.ts
-// Anthropic Claude provider - sends prompts via @anthropic-ai/sdk
+// Anthropic Claude provider - sends prompts via @anthropic-ai/sdk, running the manager tool loop
+// (tool_use / tool_result blocks) when the skill allows tools
 
 import Anthropic from '@anthropic-ai/sdk';
-import { AgentConfig, AgentResponse } from '../types/index.js';
+import { AgentConfig, AgentResponse, SendPromptOptions, ToolCallRecord } from '../types/index.js';
 import { logger } from '../services/logger.js';
+import { estimateTokens } from '../services/contextWindow.js';
+import { rateLimiter } from './rateLimiter.js';
+import { runToolCalls } from './toolLoop.js';
 
 /** Cached Anthropic client instances keyed by API key */
 const clients: Map<string, Anthropic> = new Map();
 
-function getClient(apiKey?: string): Anthropic {
-  const key = apiKey || process.env.ANTHROPIC_API_KEY || '';
+function getClient(key: string): Anthropic {
   if (!key) {
     throw new Error('ANTHROPIC_API_KEY not set and no apiKey provided in agent config');
   }
 
   let client = clients.get(key);
   if (!client) {
-    client = new Anthropic({ apiKey: key });
+    // Retries are handled by the rate limiter, which shares backoff across agents on the key
+    client = new Anthropic({ apiKey: key, maxRetries: 0 });
     clients.set(key, client);
   }
   return client;
@@ -35,35 +39,107 @@ export async function sendAnthropicPrompt(
   agent: AgentConfig,
   prompt: string,
   maxTokens: number,
-  timeoutMs: number
+  timeoutMs: number,
+  options: SendPromptOptions = {}
 ): Promise<AgentResponse> {
   const startTime = Date.now();
+  const toolCalls: ToolCallRecord[] = [];
 
   try {
-    const apiKey = agent.env?.['ANTHROPIC_API_KEY'];
+    const apiKey = agent.env?.['ANTHROPIC_API_KEY'] || process.env.ANTHROPIC_API_KEY || '';
     const client = getClient(apiKey);
 
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), timeoutMs);
+    // Task cancellation aborts the request/stream the same way the timeout does
+    const onCancel = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', onCancel, { once: true });
+
+    const tools = options.tools?.definitions.length ? options.tools : undefined;
+    const messages: Anthropic.MessageParam[] = [
+      ...(options.history || []).map(m => ({ role: m.role, content: m.content })),
+      { role: 'user' as const, content: prompt },
+    ];
+    const baseParams = {
+      model: agent.model,
+      max_tokens: maxTokens,
+      ...(options.systemPrompt ? { system: options.systemPrompt } : {}),
+      ...(tools ? {
+        tools: tools.definitions.map(t => ({
+          name: t.name,
+          description: t.description,
+          input_schema: t.inputSchema as Anthropic.Tool.InputSchema,
+        })),
+      } : {}),
+    };
 
-    const message = await client.messages.create(
-      {
-        model: agent.model,
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content: prompt }],
-      },
-      { signal: controller.signal }
-    );
+    /** One request - streamed when the caller wants chunks, rate-limited per key */
+    const send = (): Promise<Anthropic.Message> => {
+      const params = { ...baseParams, messages };
+      const estimatedTokens = maxTokens + estimateTokens(options.systemPrompt || '')
+        + messages.reduce((sum, m) => sum + estimateTokens(typeof m.content === 'string' ? m.content : JSON.stringify(m.content)), 0);
+      // A stream that already forwarded output is not retried - the caller would see it twice
+      let streamed = false;
+      return rateLimiter.run(
+        { agent, provider: 'anthropic', apiKey, estimatedTokens, signal: controller.signal },
+        async () => {
+          if (!options.onChunk) return client.messages.create(params, { signal: controller.signal });
+          // Streaming: forward text deltas as they arrive, usage comes from the final message
+          const stream = client.messages.stream(params, { signal: controller.signal });
+          stream.on('text', (delta) => {
+            streamed = true;
+            options.onChunk!(delta);
+          });
+          return stream.finalMessage();
+        },
+        (m) => (m.usage ? m.usage.input_tokens + m.usage.output_tokens : undefined),
+        () => !streamed
+      );
+    };
 
-    clearTimeout(timer);
+    // Tool loop: run requested tools and send their results back until the model answers
+    let message: Anthropic.Message;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    try {
+      for (let iteration = 1; ; iteration++) {
+        message = await send();
+        inputTokens += message.usage?.input_tokens || 0;
+        outputTokens += message.usage?.output_tokens || 0;
+        const uses = message.content.filter((b): b is Anthropic.ToolUseBlock => b.type === 'tool_use');
+        if (!tools || message.stop_reason !== 'tool_use' || uses.length === 0) break;
+        if (iteration > tools.maxIterations + 1) {
+          throw new Error(`Tool call limit reached after ${tools.maxIterations} round(s)`);
+        }
+        const outcomes = await runToolCalls(tools, uses.map(u => ({
+          id: u.id,
+          name: u.name,
+          input: u.input && typeof u.input === 'object' ? u.input as Record<string, unknown> : {},
+        })), iteration, toolCalls);
+        messages.push(
+          { role: 'assistant', content: message.content as Anthropic.ContentBlockParam[] },
+          {
+            role: 'user',
+            content: outcomes.map(o => ({
+              type: 'tool_result' as const,
+              tool_use_id: o.id,
+              content: o.content,
+              ...(o.isError ? { is_error: true } : {}),
+            })),
+          },
+        );
+      }
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCancel);
+    }
 
     const content = message.content
       .filter(block => block.type === 'text')
       .map(block => (block as { type: 'text'; text: string }).text)
       .join('\n');
 
-    const inputTokens = message.usage?.input_tokens || 0;
-    const outputTokens = message.usage?.output_tokens || 0;
     const totalTokens = inputTokens + outputTokens;
 
     // Calculate cost units (in microdollars)
@@ -83,6 +159,7 @@ export async function sendAnthropicPrompt(
       premiumRequests: 0,
       success: true,
       timestamp: new Date(),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
     };
   } catch (err: any) {
     const latencyMs = Date.now() - startTime;
@@ -98,8 +175,9 @@ export async function sendAnthropicPrompt(
       costUnits: 0,
       premiumRequests: 0,
       success: false,
-      error: err.message || String(err),
+      error: options.signal?.aborted ? 'Task cancelled' : (err.message || String(err)),
       timestamp: new Date(),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
     };
   }
 }
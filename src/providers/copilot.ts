@@ -3,15 +3,20 @@
 // Communicates via JSON-RPC 2.0 (Agent Client Protocol)
 
 import { spawn, ChildProcess } from 'child_process';
-import { AgentConfig, AgentResponse } from '../types/index.js';
+import { AgentConfig, AgentResponse, SendPromptOptions } from '../types/index.js';
 import { logger } from '../services/logger.js';
+import { agentRegistry } from '../services/agentRegistry.js';
+import { withPreamble, withTranscript } from './promptText.js';
 import * as path from 'path';
 import * as fs from 'fs';
 import { getLogsDir } from '../services/dataDir.js';
 import * as readline from 'readline';
 
-/** Active ACP sessions keyed by agent ID */
-const sessions: Map<string, AcpSession> = new Map();
+/** ACP session pools keyed by agent ID - up to maxConcurrency processes per agent */
+const pools: Map<string, AcpPool> = new Map();
+
+/** Idle time before a pooled ACP process is stopped (COPILOT_ACP_IDLE_MS) */
+const DEFAULT_ACP_IDLE_MS = 5 * 60_000;
 
 interface AcpSession {
   process: ChildProcess;
@@ -23,6 +28,29 @@ interface AcpSession {
     timer: NodeJS.Timeout;
   }>;
   rl: readline.Interface;
+  /** Serving a task */
+  busy: boolean;
+  /** Stopped by the manager (idle eviction, cancellation, kill) - its exit is not a crash */
+  closing: boolean;
+  lastUsedAt: number;
+  idleTimer?: NodeJS.Timeout;
+  /** Receives session/update notifications for the task in flight */
+  onUpdate?: (params: any) => void;
+}
+
+/** A task waiting for a free session */
+interface AcpWaiter {
+  grant: (session: AcpSession) => void;
+  /** Stop waiting with an error - clears the timeout and abort listener */
+  fail: (err: Error) => void;
+}
+
+interface AcpPool {
+  /** Latest config of the agent - used when the pool spawns for a waiting task */
+  agent: AgentConfig;
+  sessions: AcpSession[];
+  /** Tasks waiting for a session while every one is busy and the pool is full */
+  waiters: AcpWaiter[];
 }
 
 /** Default copilot binary path (winget install location) */
@@ -74,15 +102,130 @@ interface JsonRpcResponse {
   error?: { code: number; message: string; data?: any };
 }
 
-/** Spawn a copilot ACP process if not already running */
-function ensureSession(agent: AgentConfig): AcpSession {
-  let session = sessions.get(agent.id);
-  if (session && session.process.exitCode === null) {
-    return session;
+function idleTimeoutMs(): number {
+  const n = Number(process.env.COPILOT_ACP_IDLE_MS);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_ACP_IDLE_MS;
+}
+
+function isAlive(session: AcpSession): boolean {
+  return !session.closing && session.process.exitCode === null && session.process.signalCode === null;
+}
+
+function claim(session: AcpSession): AcpSession {
+  session.busy = true;
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  session.idleTimer = undefined;
+  return session;
+}
+
+/** Spawn a pooled session; an exit the manager did not ask for is recorded as a crash on the agent */
+function spawnPooled(pool: AcpPool): AcpSession {
+  const agentId = pool.agent.id;
+  const session = spawnAcpProcess(pool.agent, (code, signal) => {
+    const index = pool.sessions.indexOf(session);
+    if (index >= 0) pool.sessions.splice(index, 1);
+    if (session.closing) return;
+    agentRegistry.recordSessionCrash(agentId, `ACP session exited unexpectedly (code=${code}, signal=${signal})`);
+    // Waiting tasks get a replacement process
+    if (pools.get(agentId) === pool) serveWaiters(pool);
+  });
+  pool.sessions.push(session);
+  return session;
+}
+
+/** Hand idle sessions, or new ones while the pool has room, to waiting tasks in order */
+function serveWaiters(pool: AcpPool): void {
+  while (pool.waiters.length > 0) {
+    const idle = pool.sessions.find(s => !s.busy && isAlive(s));
+    if (idle) {
+      pool.waiters.shift()!.grant(claim(idle));
+    } else if (pool.sessions.length < Math.max(1, pool.agent.maxConcurrency)) {
+      pool.waiters.shift()!.grant(claim(spawnPooled(pool)));
+    } else {
+      return;
+    }
+  }
+}
+
+/**
+ * Take a session from the agent's pool: an idle one, else a new process while the pool is
+ * below maxConcurrency, else wait (in order) until one is released or the timeout passes.
+ */
+function acquireSession(agent: AgentConfig, timeoutMs: number, signal?: AbortSignal): Promise<AcpSession> {
+  let pool = pools.get(agent.id);
+  if (!pool) {
+    pool = { agent, sessions: [], waiters: [] };
+    pools.set(agent.id, pool);
   }
+  pool.agent = agent;
 
+  const idle = pool.sessions.find(s => !s.busy && isAlive(s));
+  if (idle) return Promise.resolve(claim(idle));
+  if (pool.sessions.length < Math.max(1, agent.maxConcurrency)) return Promise.resolve(claim(spawnPooled(pool)));
+
+  const waiting = pool;
+  return new Promise<AcpSession>((resolve, reject) => {
+    const stopWaiting = (err: Error) => {
+      const index = waiting.waiters.indexOf(waiter);
+      if (index >= 0) waiting.waiters.splice(index, 1);
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+      reject(err);
+    };
+    const waiter: AcpWaiter = {
+      grant: (session) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onCancel);
+        resolve(session);
+      },
+      fail: stopWaiting,
+    };
+    const onCancel = () => stopWaiting(new Error('Task cancelled'));
+    const timer = setTimeout(() => {
+      stopWaiting(new Error(`No ACP session became free within ${timeoutMs}ms (${waiting.sessions.length} busy)`));
+    }, timeoutMs);
+    if (signal?.aborted) return onCancel();
+    signal?.addEventListener('abort', onCancel, { once: true });
+    waiting.waiters.push(waiter);
+  });
+}
+
+/** Return a session to its pool - dead sessions are dropped, idle ones stop after COPILOT_ACP_IDLE_MS */
+function releaseSession(agentId: string, session: AcpSession): void {
+  session.busy = false;
+  session.onUpdate = undefined;
+  session.lastUsedAt = Date.now();
+  const pool = pools.get(agentId);
+  if (!pool || !pool.sessions.includes(session)) {
+    if (isAlive(session)) stopSession(session);
+    return;
+  }
+  if (!isAlive(session)) pool.sessions.splice(pool.sessions.indexOf(session), 1);
+  serveWaiters(pool);
+  if (!session.busy && isAlive(session)) {
+    session.idleTimer = setTimeout(() => {
+      logger.info(`Stopping idle ACP session for ${agentId} (pid ${session.process.pid})`);
+      stopSession(session);
+    }, idleTimeoutMs());
+    session.idleTimer.unref();
+  }
+}
+
+/** Stop a session's process - not counted as a crash */
+function stopSession(session: AcpSession): void {
+  session.closing = true;
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  session.rl.close();
+  session.process.kill('SIGTERM');
+}
+
+/**
+ * Spawn a copilot --acp process and wire JSON-RPC responses to pending requests and
+ * session/update notifications to the task in flight. onExit runs after pending requests fail.
+ */
+function spawnAcpProcess(agent: AgentConfig, onExit?: (code: number | null, signal: NodeJS.Signals | null) => void): AcpSession {
   const binaryPath = agent.binaryPath || DEFAULT_COPILOT_PATH;
-  const args = ['--acp', ...(agent.cliArgs || [])];
+  const args = ['--acp', ...(agent.cliArgs || []).filter(a => a !== '--acp')];
 
   logger.info(`Spawning Copilot ACP: ${binaryPath} ${args.join(' ')}`);
 
@@ -94,23 +237,33 @@ function ensureSession(agent: AgentConfig): AcpSession {
 
   const rl = readline.createInterface({ input: proc.stdout! });
 
-  session = {
+  const session: AcpSession = {
     process: proc,
     sessionId: null,
     requestId: 0,
     pendingRequests: new Map(),
     rl,
+    busy: false,
+    closing: false,
+    lastUsedAt: Date.now(),
   };
 
-  // Handle incoming JSON-RPC responses
+  // Handle incoming JSON-RPC responses, notifications and agent requests
   rl.on('line', (line: string) => {
     try {
-      const msg: JsonRpcResponse = JSON.parse(line);
-      if (msg.id !== undefined) {
-        const pending = session!.pendingRequests.get(msg.id);
+      const msg: JsonRpcResponse & { method?: string; params?: any } = JSON.parse(line);
+      if (msg.method) {
+        if (msg.method === 'session/update') {
+          session.onUpdate?.(msg.params);
+        } else if (msg.id !== undefined) {
+          // Agent-to-client requests (permissions, file access) are not supported - answer so it does not hang
+          proc.stdin?.write(JSON.stringify({ jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: `Method not supported: ${msg.method}` } }) + '\n');
+        }
+      } else if (msg.id !== undefined) {
+        const pending = session.pendingRequests.get(msg.id);
         if (pending) {
           clearTimeout(pending.timer);
-          session!.pendingRequests.delete(msg.id);
+          session.pendingRequests.delete(msg.id);
           if (msg.error) {
             pending.reject(new Error(`ACP error ${msg.error.code}: ${msg.error.message}`));
           } else {
@@ -128,12 +281,35 @@ function ensureSession(agent: AgentConfig): AcpSession {
     logger.debug(`Copilot ACP stderr: ${chunk.toString().trim()}`);
   });
 
-  proc.on('exit', (code) => {
-    logger.warn(`Copilot ACP process exited: code=${code}`);
-    sessions.delete(agent.id);
+  // A missing binary fails pending requests instead of crashing the process
+  proc.on('error', (err) => {
+    logger.warn(`Copilot ACP process error: ${err.message}`);
+    for (const [id, pending] of session.pendingRequests) {
+      clearTimeout(pending.timer);
+      session.pendingRequests.delete(id);
+      pending.reject(err);
+    }
+    // A process that never started emits no exit - drop it here (a bad binary is not a crash)
+    if (proc.pid === undefined && !session.closing) {
+      session.closing = true;
+      onExit?.(null, null);
+    }
+  });
+  proc.stdin?.on('error', () => { /* reported through the process error */ });
+
+  proc.on('exit', (code, signal) => {
+    if (session.closing) logger.debug(`Copilot ACP process stopped: pid=${proc.pid}`);
+    else logger.warn(`Copilot ACP process exited: code=${code} signal=${signal}`);
+    if (session.idleTimer) clearTimeout(session.idleTimer);
+    // Requests in flight fail now rather than at their timeout
+    for (const [id, pending] of session.pendingRequests) {
+      clearTimeout(pending.timer);
+      session.pendingRequests.delete(id);
+      pending.reject(new Error(`ACP process exited (code=${code}, signal=${signal})`));
+    }
+    onExit?.(code, signal);
   });
 
-  sessions.set(agent.id, session);
   return session;
 }
 
@@ -160,16 +336,37 @@ function rpcCall(session: AcpSession, method: string, params: any, timeoutMs: nu
   });
 }
 
+const ACP_INITIALIZE_PARAMS = {
+  protocolVersion: '2025-01-01',
+  capabilities: {},
+  clientInfo: { name: 'mcp-agent-manager', version: '1.0.0' },
+};
+
+/** Path of the Copilot binary an agent would run, or null if it does not exist */
+export function checkCopilotBinary(agent: AgentConfig): string | null {
+  if (agent.binaryPath) return fs.existsSync(agent.binaryPath) ? agent.binaryPath : null;
+  return resolveCopilotBinary();
+}
+
+/**
+ * Health probe: run the ACP initialize handshake in a throwaway process, leaving any
+ * live session for the agent untouched. Rejects if the process fails or times out.
+ */
+export async function probeAcpInitialize(agent: AgentConfig, timeoutMs: number): Promise<void> {
+  const session = spawnAcpProcess(agent);
+  try {
+    await rpcCall(session, 'initialize', ACP_INITIALIZE_PARAMS, timeoutMs);
+  } finally {
+    stopSession(session);
+  }
+}
+
 /** Initialize an ACP session if not already initialized */
 async function initializeSession(session: AcpSession, agent: AgentConfig, timeoutMs: number): Promise<void> {
   if (session.sessionId) return;
 
   // ACP initialize
-  await rpcCall(session, 'initialize', {
-    protocolVersion: '2025-01-01',
-    capabilities: {},
-    clientInfo: { name: 'mcp-agent-manager', version: '1.0.0' },
-  }, timeoutMs);
+  await rpcCall(session, 'initialize', ACP_INITIALIZE_PARAMS, timeoutMs);
 
   // Create session
   const sessionResult = await rpcCall(session, 'session/create', {}, timeoutMs);
@@ -183,7 +380,8 @@ export async function sendCopilotPrompt(
   agent: AgentConfig,
   prompt: string,
   maxTokens: number,
-  timeoutMs: number
+  timeoutMs: number,
+  options: SendPromptOptions = {}
 ): Promise<AgentResponse> {
   const startTime = Date.now();
 
@@ -193,9 +391,9 @@ export async function sendCopilotPrompt(
     const useAcp = agent.cliArgs?.includes('--acp');
 
     if (useAcp) {
-      return await sendViaAcp(agent, prompt, maxTokens, timeoutMs);
+      return await sendViaAcp(agent, prompt, maxTokens, timeoutMs, options);
     } else {
-      return await sendViaCli(agent, prompt, maxTokens, timeoutMs, startTime);
+      return await sendViaCli(agent, withPreamble(withTranscript(prompt, options.history), options.systemPrompt), maxTokens, timeoutMs, startTime, options);
     }
   } catch (err: any) {
     const latencyMs = Date.now() - startTime;
@@ -221,7 +419,8 @@ async function sendViaCli(
   prompt: string,
   maxTokens: number,
   timeoutMs: number,
-  startTime: number
+  startTime: number,
+  options: SendPromptOptions = {}
 ): Promise<AgentResponse> {
   const binaryPath = agent.binaryPath || DEFAULT_COPILOT_PATH;
 
@@ -259,7 +458,12 @@ async function sendViaCli(
       ...(agent.cwd ? { cwd: agent.cwd } : {}),
     });
 
-    proc.stdout?.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+    proc.stdout?.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += text;
+      // --silent prints only the agent's answer, so raw stdout is safe to stream
+      options.onChunk?.(text);
+    });
     proc.stderr?.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
 
     const timer = setTimeout(() => {
@@ -288,8 +492,31 @@ async function sendViaCli(
       });
     }, timeoutMs);
 
+    // Task cancellation kills the CLI process and resolves with whatever it printed so far
+    const onCancel = () => {
+      clearTimeout(timer);
+      logger.info(`Copilot CLI ${agent.id} cancelled - killing pid ${proc.pid}`);
+      proc.kill('SIGTERM');
+      resolve({
+        agentId: agent.id,
+        model: agent.model || 'copilot',
+        content: stdout.trim(),
+        tokenCount: 0,
+        tokenCountEstimated: true,
+        latencyMs: Date.now() - startTime,
+        costUnits: 0,
+        premiumRequests: 1,
+        success: false,
+        error: 'Task cancelled',
+        timestamp: new Date(),
+      });
+    };
+    if (options.signal?.aborted) onCancel();
+    options.signal?.addEventListener('abort', onCancel, { once: true });
+
     proc.on('close', (code) => {
       clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCancel);
       const content = stdout.trim();
       const latencyMs = Date.now() - startTime;
       const estimatedTokens = Math.ceil((prompt.length + content.length) / 4);
@@ -336,24 +563,41 @@ async function sendViaAcp(
   agent: AgentConfig,
   prompt: string,
   maxTokens: number,
-  timeoutMs: number
+  timeoutMs: number,
+  options: SendPromptOptions = {}
 ): Promise<AgentResponse> {
   const startTime = Date.now();
 
+  let session: AcpSession | undefined;
   try {
-    const session = ensureSession(agent);
-    await initializeSession(session, agent, timeoutMs);
+    session = await acquireSession(agent, timeoutMs, options.signal);
+    const active = session;
+    await initializeSession(active, agent, timeoutMs);
+
+    // Streamed session/update chunks for this session are forwarded as they arrive
+    let streamed = '';
+    active.onUpdate = (params) => {
+      if (params?.sessionId && params.sessionId !== active.sessionId) return;
+      const text = updateText(params);
+      if (!text) return;
+      streamed += text;
+      options.onChunk?.(text);
+    };
 
-    // Send message via session/message
-    const result = await rpcCall(session, 'session/message', {
-      sessionId: session.sessionId,
+    // Send message via session/message - cancellation stops this session's process (pending calls cannot be withdrawn)
+    const result = await withCancel(active, options.signal, rpcCall(active, 'session/message', {
+      sessionId: active.sessionId,
       messages: [
+        ...(options.history || []).map(m => ({
+          role: m.role,
+          content: { type: 'text', text: m.content },
+        })),
         {
           role: 'user',
-          content: { type: 'text', text: prompt },
+          content: { type: 'text', text: withPreamble(prompt, options.systemPrompt) },
         },
       ],
-    }, timeoutMs);
+    }, timeoutMs));
 
     // Extract text content from response
     let content = '';
@@ -371,6 +615,8 @@ async function sendViaAcp(
     } else if (result?.content) {
       content = typeof result.content === 'string' ? result.content : JSON.stringify(result.content);
     }
+    // Agents that only stream (the result carries just a stop reason) answer through the updates
+    if (!content) content = streamed;
 
     // Copilot doesn't report tokens natively - estimate
     const estimatedTokens = Math.ceil((prompt.length + content.length) / 4);
@@ -406,25 +652,87 @@ async function sendViaAcp(
       error: err.message || String(err),
       timestamp: new Date(),
     };
+  } finally {
+    if (session) releaseSession(agent.id, session);
   }
 }
 
-/** Kill a specific ACP session */
+/** Text of a session/update notification - agent message chunks only (not thoughts, tool calls or plans) */
+function updateText(params: any): string {
+  const update = params?.update ?? params;
+  if (update?.sessionUpdate && update.sessionUpdate !== 'agent_message_chunk') return '';
+  const content = update?.content;
+  if (typeof content === 'string') return content;
+  return content?.type === 'text' && typeof content.text === 'string' ? content.text : '';
+}
+
+/** Race an ACP call against task cancellation - on cancel the session's process is stopped */
+function withCancel<T>(session: AcpSession, signal: AbortSignal | undefined, call: Promise<T>): Promise<T> {
+  if (!signal) return call;
+  return new Promise<T>((resolve, reject) => {
+    const onCancel = () => {
+      stopSession(session);
+      reject(new Error('Task cancelled'));
+    };
+    // Settle through the call first so its rejection after a cancel is always handled
+    call.then(resolve, reject).finally(() => signal.removeEventListener('abort', onCancel));
+    if (signal.aborted) return onCancel();
+    signal.addEventListener('abort', onCancel, { once: true });
+  });
+}
+
+/** Live ACP sessions in an agent's pool */
+export interface AcpPoolStatus {
+  /** Pool limit (the agent's maxConcurrency) */
+  maxSessions: number;
+  busy: number;
+  idle: number;
+  /** Tasks waiting for a free session */
+  waiting: number;
+  sessions: Array<{ pid?: number; sessionId: string | null; busy: boolean; idleMs?: number }>;
+}
+
+/** Pool state for an agent, or undefined when it has no ACP sessions */
+export function getAcpPoolStatus(agentId: string): AcpPoolStatus | undefined {
+  const pool = pools.get(agentId);
+  if (!pool || (pool.sessions.length === 0 && pool.waiters.length === 0)) return undefined;
+  const now = Date.now();
+  return {
+    maxSessions: Math.max(1, pool.agent.maxConcurrency),
+    busy: pool.sessions.filter(s => s.busy).length,
+    idle: pool.sessions.filter(s => !s.busy).length,
+    waiting: pool.waiters.length,
+    sessions: pool.sessions.map(s => ({
+      pid: s.process.pid,
+      sessionId: s.sessionId,
+      busy: s.busy,
+      ...(s.busy ? {} : { idleMs: now - s.lastUsedAt }),
+    })),
+  };
+}
+
+/** Stop a pool's sessions and fail the tasks waiting for one */
+function stopPool(pool: AcpPool): void {
+  for (const waiter of pool.waiters.splice(0)) waiter.fail(new Error(`Agent ${pool.agent.id} stopped`));
+  for (const session of pool.sessions) stopSession(session);
+}
+
+/** Kill an agent's ACP sessions - tasks in flight and tasks waiting for a session fail */
 export function killSession(agentId: string): boolean {
-  const session = sessions.get(agentId);
-  if (!session) return false;
+  const pool = pools.get(agentId);
+  if (!pool) return false;
 
-  session.process.kill('SIGTERM');
-  sessions.delete(agentId);
-  logger.info(`Killed ACP session for ${agentId}`);
-  return true;
+  pools.delete(agentId);
+  stopPool(pool);
+  logger.info(`Killed ${pool.sessions.length} ACP session(s) for ${agentId}`);
+  return pool.sessions.length > 0;
 }
 
 /** Kill all ACP sessions */
 export function killAllSessions(): void {
-  for (const [id, session] of sessions) {
-    session.process.kill('SIGTERM');
-    logger.info(`Killed ACP session: ${id}`);
+  for (const [id, pool] of pools) {
+    stopPool(pool);
+    logger.info(`Killed ACP sessions: ${id}`);
   }
-  sessions.clear();
+  pools.clear();
 }
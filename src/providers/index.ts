@@ -5,8 +5,11 @@ import { registerProvider } from '../services/taskRouter.js';
 import { sendAnthropicPrompt } from './anthropic.js';
 import { sendCopilotPrompt } from './copilot.js';
 import { sendOpenAIPrompt } from './openai.js';
+import { sendOllamaPrompt } from './ollama.js';
+import { sendMcpAgentPrompt } from './mcpAgent.js';
+import { discoverPluginSources, importProviderPlugin } from './plugins.js';
 import { logger } from '../services/logger.js';
-import type { ProviderCapabilities } from './types.js';
+import type { ProviderCapabilities, ProviderPluginInfo } from './types.js';
 
 /** Registry of provider capabilities */
 const capabilities: Map<string, ProviderCapabilities> = new Map();
@@ -16,7 +19,7 @@ const PROVIDER_CAPABILITIES: ProviderCapabilities[] = [
   {
     name: 'copilot',
     supportsTokenCounting: false,
-    supportsStreaming: false,
+    supportsStreaming: true,
     billingModel: 'premium-request',
     supportsConcurrency: true,
     supportsAcp: true,
@@ -40,13 +43,36 @@ const PROVIDER_CAPABILITIES: ProviderCapabilities[] = [
     supportsAcp: false,
     description: 'OpenAI-compatible API - OpenAI, Azure OpenAI, Ollama, LM Studio',
   },
+  {
+    name: 'ollama',
+    supportsTokenCounting: true,
+    supportsStreaming: true,
+    billingModel: 'free',
+    supportsConcurrency: true,
+    supportsAcp: false,
+    description: 'Ollama native API - local models, real token counts, keep-alive, model pull/list',
+  },
+  {
+    name: 'custom',
+    supportsTokenCounting: false,
+    supportsStreaming: false,
+    billingModel: 'unknown',
+    supportsConcurrency: true,
+    supportsAcp: false,
+    description: 'Any MCP server or JSON-RPC agent process over stdio, tcp or http - calls a configured tool, prompt or method',
+  },
 ];
 
+/** Outcome of every plugin load, in load order */
+const pluginInfo: ProviderPluginInfo[] = [];
+
 /** Initialize all provider backends */
 export function initializeProviders(): void {
   registerProvider('anthropic', sendAnthropicPrompt);
   registerProvider('copilot', sendCopilotPrompt);
   registerProvider('openai', sendOpenAIPrompt);
+  registerProvider('ollama', sendOllamaPrompt);
+  registerProvider('custom', sendMcpAgentPrompt);
 
   // Register capabilities
   for (const cap of PROVIDER_CAPABILITIES) {
@@ -56,6 +82,40 @@ export function initializeProviders(): void {
   logger.info('All providers initialized');
 }
 
+/**
+ * Load provider plugins (default: PROVIDER_PLUGINS_DIR files, then PROVIDER_PLUGINS entries) and
+ * register the valid ones. Call after initializeProviders - plugins cannot replace a provider
+ * that is already registered. Rejected plugins are logged and listed, never fatal.
+ */
+export async function loadProviderPlugins(sources: string[] = discoverPluginSources()): Promise<ProviderPluginInfo[]> {
+  const results: ProviderPluginInfo[] = [];
+  for (const source of sources) {
+    const { plugin, info } = await importProviderPlugin(source);
+    if (plugin && capabilities.has(plugin.name)) {
+      info.status = 'rejected';
+      info.error = `provider "${plugin.name}" is already registered`;
+    } else if (plugin) {
+      registerProvider(plugin.name, plugin.sendPrompt);
+      capabilities.set(plugin.name, { ...plugin.capabilities, name: plugin.name });
+      logger.info(`Loaded provider plugin ${plugin.name}${plugin.version ? ` v${plugin.version}` : ''} from ${source}`);
+    }
+    if (info.status === 'rejected') logger.warn(`Provider plugin ${source} rejected: ${info.error}`);
+    results.push(info);
+  }
+  pluginInfo.push(...results);
+  return results;
+}
+
+/** Outcome of every plugin load so far */
+export function getProviderPlugins(): ProviderPluginInfo[] {
+  return [...pluginInfo];
+}
+
+/** Whether agents can use a provider: a built-in, or a registered plugin */
+export function isKnownProvider(name: string): boolean {
+  return PROVIDER_CAPABILITIES.some(c => c.name === name) || capabilities.has(name);
+}
+
 /** Get capabilities for a specific provider */
 export function getProviderCapabilities(name: string): ProviderCapabilities | undefined {
   return capabilities.get(name);
@@ -67,6 +127,11 @@ export function getAllProviderCapabilities(): ProviderCapabilities[] {
 }
 
 export { sendAnthropicPrompt } from './anthropic.js';
-export { sendCopilotPrompt, killSession, killAllSessions, resolveCopilotBinary } from './copilot.js';
+export { sendCopilotPrompt, killSession, killAllSessions, getAcpPoolStatus, resolveCopilotBinary, checkCopilotBinary, probeAcpInitialize } from './copilot.js';
 export { sendOpenAIPrompt } from './openai.js';
-export type { ProviderCapabilities, BillingModel } from './types.js';
+export { sendOllamaPrompt, listLocalModels, pullModel, resolveOllamaHost } from './ollama.js';
+export type { LocalModel } from './ollama.js';
+export { sendMcpAgentPrompt, probeMcpAgent, closeMcpAgent, closeAllMcpAgents, TcpClientTransport } from './mcpAgent.js';
+export { discoverPluginSources, validateProviderPlugin } from './plugins.js';
+export { PROVIDER_PLUGIN_API_VERSION } from './types.js';
+export type { ProviderCapabilities, BillingModel, ProviderPlugin, ProviderPluginInfo } from './types.js';
@@ -0,0 +1,366 @@
+// mcp-agent-manager/src/providers/mcpAgent.ts
+// Custom provider - treats any MCP server or JSON-RPC agent process as an agent.
+// Spawns it over stdio or connects over TCP (newline-delimited JSON-RPC) or HTTP (Streamable HTTP),
+// then calls the configured tool, prompt or JSON-RPC method and maps the result into an AgentResponse.
+
+import * as net from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ReadBuffer, serializeMessage } from '@modelcontextprotocol/sdk/shared/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { AgentConfig, AgentResponse, McpAgentConfig, SendPromptOptions } from '../types/index.js';
+import { logger } from '../services/logger.js';
+import { withPreamble, withTranscript } from './promptText.js';
+
+const CLIENT_INFO = { name: 'mcp-agent-manager', version: '1.0.0' };
+
+/** Live connection to an agent's server - reused across tasks until it closes or the config changes */
+interface McpAgentSession {
+  transport: Transport;
+  /** MCP client (tool / prompt calls); absent for plain JSON-RPC agents */
+  client?: Client;
+  /** Transport + endpoint + args the session was opened with */
+  fingerprint: string;
+  requestId: number;
+  pendingRequests: Map<number, { resolve: (value: unknown) => void; reject: (reason: Error) => void }>;
+}
+
+/** Open (or opening) sessions keyed by agent ID */
+const sessions: Map<string, Promise<McpAgentSession>> = new Map();
+
+/** Newline-delimited JSON-RPC over a TCP socket - the stdio framing, on host:port */
+export class TcpClientTransport implements Transport {
+  private socket?: net.Socket;
+  private readonly readBuffer = new ReadBuffer();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private readonly host: string, private readonly port: number) {}
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: this.host, port: this.port });
+      this.socket = socket;
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        socket.on('error', (err) => this.onerror?.(err));
+        resolve();
+      });
+      socket.once('error', reject);
+      socket.on('data', (chunk: Buffer) => {
+        this.readBuffer.append(chunk);
+        for (;;) {
+          let message: JSONRPCMessage | null;
+          try {
+            message = this.readBuffer.readMessage();
+          } catch (err: any) {
+            this.onerror?.(err);
+            continue;
+          }
+          if (!message) break;
+          this.onmessage?.(message);
+        }
+      });
+      socket.on('close', () => {
+        this.readBuffer.clear();
+        this.onclose?.();
+      });
+    });
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.socket.destroyed) return reject(new Error('Not connected'));
+      this.socket.write(serializeMessage(message), (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.socket?.destroy();
+  }
+}
+
+/** Parse a tcp endpoint - "host:port", "tcp://host:port" or a bare port */
+export function parseTcpEndpoint(endpoint: string): { host: string; port: number } {
+  const raw = endpoint.replace(/^tcp:\/\//i, '').replace(/\/+$/, '');
+  const match = /^(?:\[?([^\]]*?)\]?:)?(\d+)$/.exec(raw);
+  if (!match) throw new Error(`Invalid tcp endpoint "${endpoint}" - expected host:port`);
+  return { host: match[1] || '127.0.0.1', port: Number(match[2]) };
+}
+
+/** stdio command and args - an endpoint with spaces is split when no args are configured */
+function stdioCommand(agent: AgentConfig): { command: string; args: string[] } {
+  if (agent.args?.length) return { command: agent.endpoint, args: agent.args };
+  const [command, ...args] = agent.endpoint.trim().split(/\s+/);
+  return { command, args };
+}
+
+function createTransport(agent: AgentConfig): Transport {
+  if (!agent.endpoint) throw new Error(`Agent ${agent.id} has no endpoint (${agent.transport} transport)`);
+  switch (agent.transport) {
+    case 'stdio': {
+      const { command, args } = stdioCommand(agent);
+      const transport = new StdioClientTransport({
+        command,
+        args,
+        env: { ...getDefaultEnvironment(), ...agent.env },
+        stderr: 'pipe',
+        ...(agent.cwd ? { cwd: agent.cwd } : {}),
+      });
+      transport.stderr?.on('data', (chunk: Buffer) => {
+        logger.debug(`MCP agent ${agent.id} stderr: ${chunk.toString().trim()}`);
+      });
+      return transport;
+    }
+    case 'tcp': {
+      const { host, port } = parseTcpEndpoint(agent.endpoint);
+      return new TcpClientTransport(host, port);
+    }
+    case 'http':
+      return new StreamableHTTPClientTransport(new URL(agent.endpoint), {
+        requestInit: { headers: agent.mcp?.headers ?? {} },
+      });
+    default:
+      throw new Error(`Unsupported transport: ${agent.transport}`);
+  }
+}
+
+function fingerprint(agent: AgentConfig): string {
+  return JSON.stringify([agent.transport, agent.endpoint, agent.args, agent.env, agent.cwd, agent.mcp?.call, agent.mcp?.headers]);
+}
+
+/** Connect a transport; MCP agents also complete the initialize handshake */
+function openSession(agent: AgentConfig, timeoutMs: number): Promise<McpAgentSession> {
+  const transport = createTransport(agent);
+  const session: McpAgentSession = { transport, fingerprint: fingerprint(agent), requestId: 0, pendingRequests: new Map() };
+  // Only forget the session this connection belongs to (a reconnect may have replaced it)
+  let current: Promise<McpAgentSession> | undefined;
+  const forget = () => {
+    if (sessions.get(agent.id) === current) sessions.delete(agent.id);
+  };
+
+  if ((agent.mcp?.call ?? 'tool') === 'rpc') {
+    transport.onmessage = (message: any) => {
+      if (message.id === undefined || !('result' in message || 'error' in message)) return;
+      const pending = session.pendingRequests.get(message.id);
+      if (!pending) return;
+      session.pendingRequests.delete(message.id);
+      if (message.error) pending.reject(new Error(`JSON-RPC error ${message.error.code}: ${message.error.message}`));
+      else pending.resolve(message.result);
+    };
+    transport.onclose = () => {
+      for (const pending of session.pendingRequests.values()) pending.reject(new Error('Connection closed'));
+      session.pendingRequests.clear();
+      forget();
+    };
+    transport.onerror = (err) => logger.debug(`MCP agent ${agent.id} transport error: ${err.message}`);
+    current = transport.start().then(() => session);
+  } else {
+    const client = new Client(CLIENT_INFO);
+    session.client = client;
+    client.onclose = forget;
+    client.onerror = (err) => logger.debug(`MCP agent ${agent.id} transport error: ${err.message}`);
+    current = client.connect(transport, { timeout: timeoutMs }).then(() => {
+      const server = client.getServerVersion();
+      logger.info(`MCP agent ${agent.id} connected (${agent.transport}): ${server?.name ?? 'unknown'} ${server?.version ?? ''}`.trim());
+      return session;
+    });
+  }
+  return current;
+}
+
+/** Reuse the agent's open session, or connect a new one */
+function ensureSession(agent: AgentConfig, timeoutMs: number): Promise<McpAgentSession> {
+  const existing = sessions.get(agent.id);
+  if (existing) return existing.then(s => {
+    if (s.fingerprint === fingerprint(agent)) return s;
+    closeMcpAgent(agent.id);
+    return ensureSession(agent, timeoutMs);
+  });
+
+  const opening = openSession(agent, timeoutMs);
+  sessions.set(agent.id, opening);
+  // A failed connect is not cached - the next task tries again
+  opening.catch(() => {
+    if (sessions.get(agent.id) === opening) sessions.delete(agent.id);
+  });
+  return opening;
+}
+
+/** Send a plain JSON-RPC request (no MCP framing of the result) */
+function rpcRequest(session: McpAgentSession, method: string, params: unknown, timeoutMs: number, signal?: AbortSignal): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const id = ++session.requestId;
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      session.pendingRequests.delete(id);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Request timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    const onAbort = () => {
+      cleanup();
+      reject(new Error('Task cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    session.pendingRequests.set(id, {
+      resolve: (value) => { cleanup(); resolve(value); },
+      reject: (err) => { cleanup(); reject(err); },
+    });
+    session.transport.send({ jsonrpc: '2.0', id, method, params: params as Record<string, unknown> })
+      .catch((err) => { cleanup(); reject(err); });
+  });
+}
+
+/** Text of MCP content blocks - non-text blocks become placeholders */
+function contentText(blocks: any[]): string {
+  return blocks.map(block => {
+    if (block?.type === 'text') return block.text ?? '';
+    if (block?.type === 'resource' && typeof block.resource?.text === 'string') return block.resource.text;
+    if (block?.type === 'resource_link') return `[resource: ${block.uri}]`;
+    return `[${block?.type ?? 'unknown'} content]`;
+  }).join('\n');
+}
+
+/** Text of a plain JSON-RPC result: a string, a { content } / { text } object, else the JSON */
+function rpcResultText(result: unknown): string {
+  if (typeof result === 'string') return result;
+  const obj = result as Record<string, unknown> | null;
+  if (obj && typeof obj.content === 'string') return obj.content;
+  if (obj && Array.isArray(obj.content)) return contentText(obj.content);
+  if (obj && typeof obj.text === 'string') return obj.text;
+  return JSON.stringify(result);
+}
+
+/** Build the call arguments: fixed arguments, the prompt, and the system prompt */
+function callArguments(config: McpAgentConfig, prompt: string, options: SendPromptOptions): Record<string, unknown> {
+  const text = withTranscript(prompt, options.history);
+  const args: Record<string, unknown> = { ...config.arguments };
+  if (config.systemArgument) {
+    if (options.systemPrompt) args[config.systemArgument] = options.systemPrompt;
+    args[config.promptArgument || 'prompt'] = text;
+  } else {
+    args[config.promptArgument || 'prompt'] = withPreamble(text, options.systemPrompt);
+  }
+  return args;
+}
+
+/** Call the configured tool / prompt / method - resolves with the response text, rejects on failure */
+async function invoke(session: McpAgentSession, config: McpAgentConfig, args: Record<string, unknown>, timeoutMs: number, options: SendPromptOptions): Promise<string> {
+  const call = config.call ?? 'tool';
+  if (call === 'rpc') {
+    return rpcResultText(await rpcRequest(session, config.name, args, timeoutMs, options.signal));
+  }
+
+  const client = session.client!;
+  const requestOptions = { timeout: timeoutMs, signal: options.signal };
+  if (call === 'prompt') {
+    // Prompt arguments are strings by spec
+    const stringArgs = Object.fromEntries(Object.entries(args).map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)]));
+    const result = await client.getPrompt({ name: config.name, arguments: stringArgs }, requestOptions);
+    return result.messages.map(m => contentText([m.content])).join('\n\n');
+  }
+
+  const result = await client.callTool({ name: config.name, arguments: args }, undefined, requestOptions);
+  const text = 'content' in result && Array.isArray(result.content) ? contentText(result.content) : JSON.stringify(result.toolResult ?? '');
+  if (result.isError) throw new Error(`Tool ${config.name} failed: ${text || 'no details'}`);
+  // JSON mode prefers the tool's structured output when it has one
+  if (options.responseFormat === 'json' && result.structuredContent) return JSON.stringify(result.structuredContent);
+  return text;
+}
+
+/** Send a prompt to an MCP server / JSON-RPC agent process */
+export async function sendMcpAgentPrompt(
+  agent: AgentConfig,
+  prompt: string,
+  _maxTokens: number,
+  timeoutMs: number,
+  options: SendPromptOptions = {}
+): Promise<AgentResponse> {
+  const startTime = Date.now();
+  const base = {
+    agentId: agent.id,
+    model: agent.model,
+    tokenCountEstimated: true,
+    costUnits: 0,
+    premiumRequests: 0,
+  };
+
+  try {
+    if (!agent.mcp?.name) throw new Error(`Agent ${agent.id} has no mcp.name (tool, prompt or method to call)`);
+    if (options.signal?.aborted) throw new Error('Task cancelled');
+    const args = callArguments(agent.mcp, prompt, options);
+    const session = await ensureSession(agent, timeoutMs);
+    const content = await invoke(session, agent.mcp, args, timeoutMs, options);
+    options.onChunk?.(content);
+
+    const tokenCount = Math.ceil((JSON.stringify(args).length + content.length) / 4);
+    logger.debug(`MCP agent ${agent.id}: ${agent.mcp.call ?? 'tool'} ${agent.mcp.name}, ${Date.now() - startTime}ms`);
+    return {
+      ...base,
+      content,
+      tokenCount,
+      // No price list for arbitrary servers - estimated tokens at the agent's cost multiplier
+      costUnits: agent.costMultiplier * tokenCount / 1_000_000,
+      latencyMs: Date.now() - startTime,
+      success: true,
+      timestamp: new Date(),
+    };
+  } catch (err: any) {
+    const error = options.signal?.aborted ? 'Task cancelled' : describeError(err, agent, timeoutMs);
+    logger.error(`MCP agent error for ${agent.id}: ${error}`, { latencyMs: Date.now() - startTime });
+    return {
+      ...base,
+      content: '',
+      tokenCount: 0,
+      tokenCountEstimated: false,
+      latencyMs: Date.now() - startTime,
+      success: false,
+      error,
+      timestamp: new Date(),
+    };
+  }
+}
+
+/**
+ * Connection-only check: connects (MCP agents complete initialize) and pings MCP servers.
+ * Never calls the configured tool / prompt / method, which may have side effects.
+ */
+export async function probeMcpAgent(agent: AgentConfig, timeoutMs: number): Promise<void> {
+  try {
+    const session = await ensureSession(agent, timeoutMs);
+    await session.client?.ping({ timeout: timeoutMs });
+  } catch (err: any) {
+    throw new Error(describeError(err, agent, timeoutMs));
+  }
+}
+
+/** Connection failures name the endpoint; SDK timeouts use the same wording as other providers */
+function describeError(err: any, agent: AgentConfig, timeoutMs: number): string {
+  const code = err?.code ?? err?.cause?.code;
+  if (code === -32001 || err?.name === 'TimeoutError') return `Request timed out after ${timeoutMs}ms`;
+  if (code === 'ECONNREFUSED' || code === 'ENOENT' || code === 'ENOTFOUND') {
+    return `MCP agent not reachable (${agent.transport} ${agent.endpoint}): ${code}`;
+  }
+  return err?.message || String(err);
+}
+
+/** Close an agent's connection (stdio servers are stopped) */
+export function closeMcpAgent(agentId: string): boolean {
+  const session = sessions.get(agentId);
+  if (!session) return false;
+  sessions.delete(agentId);
+  session.then(s => (s.client ?? s.transport).close()).catch(() => { /* never connected */ });
+  logger.info(`Closed MCP agent connection for ${agentId}`);
+  return true;
+}
+
+/** Close every MCP agent connection */
+export function closeAllMcpAgents(): void {
+  for (const id of [...sessions.keys()]) closeMcpAgent(id);
+}
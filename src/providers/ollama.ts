@@ -0,0 +1,294 @@
+// mcp-agent-manager/src/providers/ollama.ts
+// Native Ollama provider - /api/chat with real token counts (prompt_eval_count + eval_count),
+// per-agent keep_alive and num_ctx, NDJSON streaming and JSON mode, plus local model
+// management: installed / loaded models (/api/tags, /api/ps) and pulls (/api/pull).
+
+import { AgentConfig, AgentResponse, SendPromptOptions, StreamChunkCallback } from '../types/index.js';
+import { logger } from '../services/logger.js';
+
+const DEFAULT_HOST = 'http://127.0.0.1:11434';
+const DEFAULT_PULL_TIMEOUT_MS = 30 * 60_000;   // Multi-GB downloads
+
+/**
+ * Base URL of the Ollama server for an agent: its endpoint, else OLLAMA_HOST, else localhost.
+ * Accepts OLLAMA_HOST-style values without a scheme (127.0.0.1:11434) and endpoints that end
+ * in /api or /v1 (copied from OpenAI-compatible configs).
+ */
+export function resolveOllamaHost(agent?: Pick<AgentConfig, 'endpoint' | 'env'>): string {
+  const raw = agent?.endpoint || agent?.env?.['OLLAMA_HOST'] || process.env.OLLAMA_HOST || DEFAULT_HOST;
+  const withScheme = /^https?:\/\//i.test(raw) ? raw : `http://${raw}`;
+  return withScheme.replace(/\/+$/, '').replace(/\/(api|v1)$/, '');
+}
+
+/** An installed model, and whether it is currently loaded in memory */
+export interface LocalModel {
+  name: string;
+  sizeBytes: number;
+  modifiedAt?: string;
+  digest?: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  loaded: boolean;
+  /** When a loaded model is unloaded (keep_alive expiry) */
+  expiresAt?: string;
+  sizeVramBytes?: number;
+}
+
+interface TagsModel {
+  name: string;
+  model?: string;
+  size?: number;
+  modified_at?: string;
+  digest?: string;
+  details?: { family?: string; parameter_size?: string; quantization_level?: string };
+}
+
+interface RunningModel {
+  name: string;
+  model?: string;
+  expires_at?: string;
+  size_vram?: number;
+}
+
+async function request<T>(url: string, init: RequestInit, timeoutMs: number): Promise<T> {
+  let response: Response;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  try {
+    response = await fetch(url, { ...init, signal: init.signal ? AbortSignal.any([timeout, init.signal]) : timeout });
+  } catch (err: any) {
+    throw new Error(describeError(err, url));
+  }
+  if (!response.ok) throw new Error(await httpError(response));
+  return await response.json() as T;
+}
+
+/** Installed models on an Ollama server, with load state from /api/ps */
+export async function listLocalModels(host: string, timeoutMs = 10_000): Promise<LocalModel[]> {
+  const tags = await request<{ models?: TagsModel[] }>(`${host}/api/tags`, { method: 'GET' }, timeoutMs);
+  // Older servers have no /api/ps - load state is then unknown (reported as not loaded)
+  const running = await request<{ models?: RunningModel[] }>(`${host}/api/ps`, { method: 'GET' }, timeoutMs)
+    .catch(() => ({ models: [] as RunningModel[] }));
+  const loaded = new Map((running.models ?? []).map(m => [m.name, m]));
+
+  return (tags.models ?? []).map(m => {
+    const live = loaded.get(m.name);
+    return {
+      name: m.name,
+      sizeBytes: m.size ?? 0,
+      modifiedAt: m.modified_at,
+      digest: m.digest,
+      family: m.details?.family,
+      parameterSize: m.details?.parameter_size,
+      quantization: m.details?.quantization_level,
+      loaded: !!live,
+      ...(live ? { expiresAt: live.expires_at, sizeVramBytes: live.size_vram } : {}),
+    };
+  });
+}
+
+/** Download a model to the server - resolves with Ollama's final status ("success"); `signal` cancels the pull */
+export async function pullModel(host: string, model: string, timeoutMs = DEFAULT_PULL_TIMEOUT_MS, signal?: AbortSignal): Promise<string> {
+  logger.info(`Ollama: pulling ${model} on ${host}`);
+  const result = await request<{ status?: string; error?: string }>(`${host}/api/pull`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model, stream: false }),
+    signal,
+  }, timeoutMs);
+  if (result.error) throw new Error(`Pull failed for ${model}: ${result.error}`);
+  return result.status || 'success';
+}
+
+async function httpError(response: Response): Promise<string> {
+  const text = await response.text();
+  let detail = text.substring(0, 200);
+  try {
+    const parsed = JSON.parse(text) as { error?: string };
+    if (parsed.error) detail = parsed.error;
+  } catch {
+    // Not JSON - keep the raw text
+  }
+  return `HTTP ${response.status}: ${detail}`;
+}
+
+/** Connection failures name the host - a stopped `ollama serve` is the usual cause */
+function describeError(err: any, url: string): string {
+  if (err?.name === 'TimeoutError') return `Request timed out: ${url}`;
+  const cause = err?.cause;
+  if (err instanceof TypeError && cause) {
+    return `Ollama not reachable at ${new URL(url).origin} (${cause.code || cause.message || cause})`;
+  }
+  return err?.message || String(err);
+}
+
+/** Final (or only) /api/chat object - counts are on the done message */
+interface ChatDone {
+  message?: { content?: string };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/** Consume an NDJSON chat stream, forwarding content as it arrives; resolves with the totals */
+async function readChatStream(body: ReadableStream<Uint8Array>, onChunk: StreamChunkCallback): Promise<ChatDone & { content: string }> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+  let content = '';
+  let last: ChatDone = {};
+
+  const handleLine = (line: string): void => {
+    if (!line.trim()) return;
+    try {
+      const event = JSON.parse(line) as ChatDone;
+      if (event.error) throw new Error(event.error);
+      const delta = event.message?.content;
+      if (delta) {
+        content += delta;
+        onChunk(delta);
+      }
+      if (event.done) last = event;
+    } catch (err) {
+      if (err instanceof SyntaxError) {
+        logger.debug(`Ollama stream: skipping malformed line: ${line.substring(0, 100)}`);
+        return;
+      }
+      throw err;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  if (buffer) handleLine(buffer);
+  return { ...last, content };
+}
+
+/** Send a prompt to a model on an Ollama server */
+export async function sendOllamaPrompt(
+  agent: AgentConfig,
+  prompt: string,
+  maxTokens: number,
+  timeoutMs: number,
+  options: SendPromptOptions = {}
+): Promise<AgentResponse> {
+  const startTime = Date.now();
+  const host = resolveOllamaHost(agent);
+  const settings = agent.ollama ?? {};
+
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const armTimer = () => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  armTimer();
+  // Task cancellation aborts the request/stream the same way the timeout does
+  const onCancel = () => controller.abort();
+  if (options.signal?.aborted) controller.abort();
+  options.signal?.addEventListener('abort', onCancel, { once: true });
+
+  const numCtx = settings.numCtx ?? agent.contextWindow;
+  const body = JSON.stringify({
+    model: agent.model,
+    messages: [
+      ...(options.systemPrompt ? [{ role: 'system', content: options.systemPrompt }] : []),
+      ...(options.history || []).map(m => ({ role: m.role, content: m.content })),
+      { role: 'user', content: prompt },
+    ],
+    stream: !!options.onChunk,
+    options: { num_predict: maxTokens, ...(numCtx ? { num_ctx: numCtx } : {}) },
+    ...(settings.keepAlive !== undefined ? { keep_alive: settings.keepAlive } : {}),
+    ...(options.responseFormat === 'json' ? { format: 'json' } : {}),
+  });
+
+  const chat = async (): Promise<Response> => {
+    try {
+      return await fetch(`${host}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: controller.signal,
+      });
+    } catch (err: any) {
+      if (timedOut) throw new Error(`Request timed out after ${timeoutMs}ms`);
+      throw new Error(describeError(err, `${host}/api/chat`));
+    }
+  };
+
+  try {
+    let response = await chat();
+    // A model that is not installed is pulled once when the agent allows it
+    if (response.status === 404 && settings.autoPull) {
+      await response.text();
+      // The pull has its own timeout, so the request timer restarts for the retried chat;
+      // cancelling the task still stops the download
+      clearTimeout(timer);
+      await pullModel(host, agent.model, undefined, controller.signal);
+      armTimer();
+      response = await chat();
+    }
+    if (!response.ok) throw new Error(await httpError(response));
+
+    let result: ChatDone & { content: string };
+    if (options.onChunk && response.body) {
+      result = await readChatStream(response.body, options.onChunk);
+    } else {
+      const data = await response.json() as ChatDone;
+      if (data.error) throw new Error(data.error);
+      result = { ...data, content: data.message?.content || '' };
+    }
+
+    const { content } = result;
+    const hasRealTokens = result.prompt_eval_count !== undefined || result.eval_count !== undefined;
+    const totalTokens = (result.prompt_eval_count || 0) + (result.eval_count || 0);
+
+    logger.debug(`Ollama ${agent.model}: ${totalTokens} tokens, ${Date.now() - startTime}ms`);
+
+    return {
+      agentId: agent.id,
+      model: agent.model,
+      content,
+      tokenCount: hasRealTokens ? totalTokens : Math.ceil((prompt.length + content.length) / 4),
+      tokenCountEstimated: !hasRealTokens,
+      latencyMs: Date.now() - startTime,
+      // Local inference has no per-token bill
+      costUnits: 0,
+      premiumRequests: 0,
+      success: true,
+      timestamp: new Date(),
+    };
+  } catch (err: any) {
+    const error = options.signal?.aborted ? 'Task cancelled'
+      : timedOut ? `Request timed out after ${timeoutMs}ms`
+        : err?.message || String(err);
+    logger.error(`Ollama error for ${agent.id}: ${error}`, { latencyMs: Date.now() - startTime });
+    return {
+      agentId: agent.id,
+      model: agent.model,
+      content: '',
+      tokenCount: 0,
+      tokenCountEstimated: false,
+      latencyMs: Date.now() - startTime,
+      costUnits: 0,
+      premiumRequests: 0,
+      success: false,
+      error,
+      timestamp: new Date(),
+    };
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onCancel);
+  }
+}
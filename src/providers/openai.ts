@@ -1,74 +1,392 @@
 // mcp-agent-manager/src/providers/openai.ts
-// OpenAI-compatible provider stub - supports OpenAI, Azure OpenAI, Ollama, LM Studio, etc.
-// Skeleton implementation: wired for registration but requires configuration to use.
+// OpenAI-compatible provider - OpenAI, Azure OpenAI (deployment URLs + api-key auth), Ollama,
+// LM Studio and other local servers. System messages, JSON mode, SSE streaming, function
+// calling for the manager tool loop, per-model costs, and errors classified by cause
+// (auth, not found, context length, rate limit, ...).
 
-import { AgentConfig, AgentResponse } from '../types/index.js';
+import { AgentConfig, AgentResponse, SendPromptOptions, StreamChunkCallback, ToolCallRecord } from '../types/index.js';
 import { logger } from '../services/logger.js';
+import { estimateTokens } from '../services/contextWindow.js';
+import { parseRetryAfter, rateLimiter, RateLimitError } from './rateLimiter.js';
+import { parseToolArguments, runToolCalls } from './toolLoop.js';
+
+const DEFAULT_ENDPOINT = 'https://api.openai.com/v1';
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+/** Model cost multipliers (input $/Mtok, output $/Mtok) */
+const MODEL_COSTS: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1': { input: 15, output: 60 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+};
+
+/** Costs for a model - dated snapshots (gpt-4o-2024-08-06) use their base model's price */
+function modelCosts(model: string): { input: number; output: number } | undefined {
+  return MODEL_COSTS[model] ?? MODEL_COSTS[model.replace(/-\d{4}-\d{2}-\d{2}$/, '')];
+}
+
+/** Why a request failed - part of the error message */
+export type OpenAIErrorKind =
+  | 'auth' | 'not-found' | 'bad-request' | 'context-length' | 'content-filter'
+  | 'rate-limit' | 'server' | 'network' | 'timeout';
+
+/** A failed OpenAI-compatible request, classified by cause */
+export class OpenAIError extends Error {
+  constructor(message: string, readonly kind: OpenAIErrorKind, readonly status?: number) {
+    super(message);
+    this.name = 'OpenAIError';
+  }
+}
+
+/**
+ * Turn an error response into a classified error. 429 and 503 become RateLimitErrors so the
+ * rate limiter retries them; everything else is final.
+ */
+export function classifyHttpError(status: number, body: string, headers?: Headers): Error {
+  let detail = body.substring(0, 200);
+  let code = '';
+  try {
+    const parsed = JSON.parse(body) as { error?: { message?: string; code?: string | null; type?: string } | string };
+    const error = typeof parsed.error === 'string' ? { message: parsed.error } : parsed.error;
+    if (error?.message) detail = error.message;
+    code = String(error?.code || error?.type || '');
+  } catch {
+    // Not JSON - keep the raw text
+  }
+
+  let kind: OpenAIErrorKind;
+  if (status === 429 || status === 503) kind = 'rate-limit';
+  else if (status === 401 || status === 403) kind = 'auth';
+  else if (status === 404) kind = 'not-found';
+  else if (code === 'context_length_exceeded' || /maximum context length|context window/i.test(detail)) kind = 'context-length';
+  else if (code === 'content_filter' || code === 'content_policy_violation') kind = 'content-filter';
+  else if (status >= 500) kind = 'server';
+  else kind = 'bad-request';
+
+  const message = `HTTP ${status} (${kind}): ${detail}`;
+  if (kind === 'rate-limit') return new RateLimitError(message, status, parseRetryAfter(headers));
+  return new OpenAIError(message, kind, status);
+}
+
+/** Whether requests go to Azure OpenAI: configured explicitly or an Azure endpoint */
+function isAzure(agent: AgentConfig, endpoint: string): boolean {
+  return !!agent.azure || /\.(openai|cognitiveservices)\.azure\.com/i.test(endpoint);
+}
+
+function isLocal(endpoint: string): boolean {
+  return /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\]|0\.0\.0\.0)([:/]|$)/i.test(endpoint);
+}
+
+/** Where and how an agent's chat completions are sent */
+export interface ChatTarget {
+  url: string;
+  apiKey: string;
+  headers: Record<string, string>;
+  azure: boolean;
+  local: boolean;
+}
+
+/**
+ * Resolve the chat/completions URL and auth for an agent. Azure endpoints route to
+ * /openai/deployments/{deployment}/chat/completions?api-version=... with an api-key header;
+ * everything else posts to {endpoint}/chat/completions with a Bearer token.
+ */
+export function resolveChatTarget(agent: AgentConfig): ChatTarget {
+  const env = (name: string) => agent.env?.[name] || process.env[name] || '';
+  const azureEndpoint = agent.azure && !agent.endpoint ? env('AZURE_OPENAI_ENDPOINT') : '';
+  const endpoint = (agent.endpoint || azureEndpoint || env('OPENAI_API_BASE') || DEFAULT_ENDPOINT).replace(/\/+$/, '');
+  const local = isLocal(endpoint);
+
+  if (!isAzure(agent, endpoint)) {
+    const apiKey = env('OPENAI_API_KEY');
+    return {
+      url: `${endpoint}/chat/completions`,
+      apiKey,
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      azure: false,
+      local,
+    };
+  }
+
+  const apiKey = env('AZURE_OPENAI_API_KEY') || env('OPENAI_API_KEY');
+  const deployment = agent.azure?.deployment || agent.model;
+  const apiVersion = agent.azure?.apiVersion || env('AZURE_OPENAI_API_VERSION') || DEFAULT_AZURE_API_VERSION;
+  // An endpoint may already name the deployment
+  const base = /\/openai\/deployments\/[^/]+$/.test(endpoint)
+    ? endpoint
+    : `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}`;
+  return {
+    url: `${base}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+    apiKey,
+    headers: apiKey ? { 'api-key': apiKey } : {},
+    azure: true,
+    local,
+  };
+}
+
+/** o-series reasoning models take max_completion_tokens instead of max_tokens */
+function tokenLimitParam(model: string): 'max_tokens' | 'max_completion_tokens' {
+  return /^o\d/.test(model) ? 'max_completion_tokens' : 'max_tokens';
+}
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/** A function call requested by the model */
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatRequestMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatResult {
+  content: string;
+  usage?: ChatUsage;
+  finishReason?: string;
+  toolCalls?: ChatToolCall[];
+}
+
+/** Consume a chat/completions SSE stream, forwarding content deltas as they arrive */
+async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onChunk: StreamChunkCallback
+): Promise<ChatResult> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+  let content = '';
+  let usage: ChatUsage | undefined;
+  let finishReason: string | undefined;
+  // Tool calls arrive in fragments keyed by index - the name once, the arguments in pieces
+  const toolCalls: ChatToolCall[] = [];
+
+  const handleLine = (line: string): void => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+    try {
+      const event = JSON.parse(data) as {
+        choices?: Array<{
+          delta?: {
+            content?: string | null;
+            tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+          };
+          finish_reason?: string | null;
+        }>;
+        usage?: ChatUsage | null;
+      };
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onChunk(delta);
+      }
+      for (const part of event.choices?.[0]?.delta?.tool_calls ?? []) {
+        const call = toolCalls[part.index ?? 0] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.function.name += part.function.name;
+        if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      }
+      finishReason = event.choices?.[0]?.finish_reason || finishReason;
+      if (event.usage) usage = event.usage;
+    } catch {
+      logger.debug(`OpenAI stream: skipping malformed event: ${data.substring(0, 100)}`);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  if (buffer) handleLine(buffer);
+
+  return { content, usage, finishReason, toolCalls: toolCalls.length > 0 ? toolCalls.filter(Boolean) : undefined };
+}
+
+/** Describe a fetch failure - timeouts and connection errors get their own kinds */
+function describeError(err: any, timedOut: boolean, timeoutMs: number): string {
+  if (timedOut) return `Request timed out after ${timeoutMs}ms (timeout)`;
+  if (err instanceof OpenAIError || err instanceof RateLimitError) return err.message;
+  // fetch() rejects with "fetch failed" and puts the socket error in `cause`
+  const cause = err?.cause;
+  if (err instanceof TypeError && cause) return `Connection failed (network): ${cause.code || cause.message || cause}`;
+  return err?.message || String(err);
+}
 
 /** Send a prompt to an OpenAI-compatible API endpoint */
 export async function sendOpenAIPrompt(
   agent: AgentConfig,
   prompt: string,
   maxTokens: number,
-  timeoutMs: number
+  timeoutMs: number,
+  options: SendPromptOptions = {}
 ): Promise<AgentResponse> {
   const startTime = Date.now();
-  const endpoint = agent.endpoint || process.env.OPENAI_API_BASE || 'https://api.openai.com/v1';
-  const apiKey = agent.env?.['OPENAI_API_KEY'] || process.env.OPENAI_API_KEY || '';
+  const target = resolveChatTarget(agent);
+  const toolCalls: ToolCallRecord[] = [];
 
-  if (!apiKey && !endpoint.includes('localhost') && !endpoint.includes('127.0.0.1')) {
-    return {
-      agentId: agent.id,
-      model: agent.model,
-      content: '',
-      tokenCount: 0,
-      tokenCountEstimated: false,
-      latencyMs: Date.now() - startTime,
-      costUnits: 0,
-      premiumRequests: 0,
-      success: false,
-      error: 'OPENAI_API_KEY not set and endpoint is not local',
-      timestamp: new Date(),
-    };
+  const failed = (error: string): AgentResponse => ({
+    agentId: agent.id,
+    model: agent.model,
+    content: '',
+    tokenCount: 0,
+    tokenCountEstimated: false,
+    latencyMs: Date.now() - startTime,
+    costUnits: 0,
+    premiumRequests: 0,
+    success: false,
+    error,
+    timestamp: new Date(),
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+  });
+
+  if (!target.apiKey && !target.local) {
+    return failed(target.azure
+      ? 'AZURE_OPENAI_API_KEY not set and endpoint is not local'
+      : 'OPENAI_API_KEY not set and endpoint is not local');
   }
 
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  // Task cancellation aborts the request/stream the same way the timeout does
+  const onCancel = () => controller.abort();
+  if (options.signal?.aborted) controller.abort();
+  options.signal?.addEventListener('abort', onCancel, { once: true });
+
   try {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), timeoutMs);
-
-    const url = `${endpoint.replace(/\/$/, '')}/chat/completions`;
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
-      },
-      body: JSON.stringify({
-        model: agent.model,
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: maxTokens,
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timer);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText.substring(0, 200)}`);
-    }
+    const streaming = !!options.onChunk;
+    const tools = options.tools?.definitions.length ? options.tools : undefined;
+    const messages: ChatRequestMessage[] = [
+      ...(options.systemPrompt ? [{ role: 'system' as const, content: options.systemPrompt }] : []),
+      ...(options.history || []).map(m => ({ role: m.role, content: m.content })),
+      { role: 'user', content: prompt },
+    ];
+
+    /** One chat/completions request - rate-limited per key */
+    const send = (): Promise<ChatResult> => {
+      const estimatedTokens = maxTokens + messages.reduce(
+        (sum, m) => sum + estimateTokens((m.content || '') + (m.tool_calls ? JSON.stringify(m.tool_calls) : '')), 0);
+      // A stream that already forwarded output is not retried - the caller would see it twice
+      let streamed = false;
+      return rateLimiter.run(
+        // Keyless local servers get one bucket per endpoint
+        { agent, provider: 'openai', apiKey: target.apiKey || target.url, estimatedTokens, signal: controller.signal },
+        async () => {
+          const response = await fetch(target.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...target.headers },
+            body: JSON.stringify({
+              model: agent.model,
+              messages,
+              [tokenLimitParam(agent.model)]: maxTokens,
+              ...(options.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+              ...(tools ? {
+                tools: tools.definitions.map(t => ({
+                  type: 'function',
+                  function: { name: t.name, description: t.description, parameters: t.inputSchema },
+                })),
+              } : {}),
+              ...(streaming ? { stream: true, stream_options: { include_usage: true } } : {}),
+            }),
+            signal: controller.signal,
+          });
+
+          if (!response.ok) {
+            throw classifyHttpError(response.status, await response.text(), response.headers);
+          }
 
-    const data = await response.json() as {
-      choices?: Array<{ message?: { content?: string } }>;
-      usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+          if (streaming && response.body) {
+            return readChatStream(response.body, (delta) => {
+              streamed = true;
+              options.onChunk!(delta);
+            });
+          }
+          const data = await response.json() as {
+            choices?: Array<{ message?: { content?: string | null; tool_calls?: ChatToolCall[] }; finish_reason?: string | null }>;
+            usage?: ChatUsage;
+          };
+          const toolCalls = data.choices?.[0]?.message?.tool_calls;
+          return {
+            content: data.choices?.[0]?.message?.content || '',
+            usage: data.usage,
+            finishReason: data.choices?.[0]?.finish_reason || undefined,
+            toolCalls: toolCalls?.length ? toolCalls : undefined,
+          };
+        },
+        (r) => r.usage?.total_tokens ?? (r.usage ? (r.usage.prompt_tokens || 0) + (r.usage.completion_tokens || 0) : undefined),
+        () => !streamed
+      );
     };
 
-    const content = data.choices?.[0]?.message?.content || '';
-    const inputTokens = data.usage?.prompt_tokens || 0;
-    const outputTokens = data.usage?.completion_tokens || 0;
-    const totalTokens = data.usage?.total_tokens || (inputTokens + outputTokens);
+    // Tool loop: run requested functions and send their results back until the model answers
+    let result: ChatResult;
+    const usage: Required<ChatUsage> = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    try {
+      for (let iteration = 1; ; iteration++) {
+        result = await send();
+        usage.prompt_tokens += result.usage?.prompt_tokens || 0;
+        usage.completion_tokens += result.usage?.completion_tokens || 0;
+        usage.total_tokens += result.usage?.total_tokens
+          || (result.usage?.prompt_tokens || 0) + (result.usage?.completion_tokens || 0);
+        if (!tools || !result.toolCalls) break;
+        if (iteration > tools.maxIterations + 1) {
+          throw new Error(`Tool call limit reached after ${tools.maxIterations} round(s)`);
+        }
+        const outcomes = await runToolCalls(tools, result.toolCalls.map(c => ({
+          id: c.id,
+          name: c.function.name,
+          input: parseToolArguments(c.function.arguments),
+        })), iteration, toolCalls);
+        messages.push(
+          { role: 'assistant', content: result.content || null, tool_calls: result.toolCalls },
+          ...outcomes.map(o => ({ role: 'tool' as const, tool_call_id: o.id, content: o.content })),
+        );
+      }
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCancel);
+    }
+
+    const { content } = result;
+    if (result.finishReason === 'content_filter' && !content) {
+      throw new OpenAIError('Response blocked by content filter (content-filter)', 'content-filter');
+    }
+
+    const { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: totalTokens } = usage;
     const hasRealTokens = totalTokens > 0;
 
+    // Known models use their per-token price; others fall back to the agent's cost multiplier
+    const costs = modelCosts(agent.model);
+    const costUnits = costs
+      ? (inputTokens * costs.input + outputTokens * costs.output) / 1_000_000
+      : agent.costMultiplier * totalTokens / 1_000_000;
+
     logger.debug(`OpenAI ${agent.model}: ${totalTokens} tokens, ${Date.now() - startTime}ms`);
 
     return {
@@ -78,27 +396,15 @@ export async function sendOpenAIPrompt(
       tokenCount: hasRealTokens ? totalTokens : Math.ceil((prompt.length + content.length) / 4),
       tokenCountEstimated: !hasRealTokens,
       latencyMs: Date.now() - startTime,
-      costUnits: agent.costMultiplier * totalTokens / 1_000_000,
+      costUnits,
       premiumRequests: 0,
       success: true,
       timestamp: new Date(),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
     };
   } catch (err: any) {
-    const latencyMs = Date.now() - startTime;
-    logger.error(`OpenAI error for ${agent.id}: ${err.message}`, { latencyMs });
-
-    return {
-      agentId: agent.id,
-      model: agent.model,
-      content: '',
-      tokenCount: 0,
-      tokenCountEstimated: false,
-      latencyMs,
-      costUnits: 0,
-      premiumRequests: 0,
-      success: false,
-      error: err.message || String(err),
-      timestamp: new Date(),
-    };
+    const error = options.signal?.aborted ? 'Task cancelled' : describeError(err, timedOut, timeoutMs);
+    logger.error(`OpenAI error for ${agent.id}: ${error}`, { latencyMs: Date.now() - startTime });
+    return failed(error);
   }
 }
@@ -0,0 +1,101 @@
+// mcp-agent-manager/src/providers/plugins.ts
+// Provider plugin discovery and validation - modules in PROVIDER_PLUGINS_DIR plus packages / paths
+// listed in PROVIDER_PLUGINS, each exporting a SendPromptFn and its ProviderCapabilities.
+// Registration happens in providers/index.ts (loadProviderPlugins).
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { getPluginsDir } from '../services/dataDir.js';
+import { PROVIDER_PLUGIN_API_VERSION } from './types.js';
+import type { BillingModel, ProviderPlugin, ProviderPluginInfo } from './types.js';
+
+const PLUGIN_EXTENSIONS = new Set(['.js', '.mjs', '.cjs']);
+const NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+const BILLING_MODELS: BillingModel[] = ['per-token', 'premium-request', 'free', 'unknown'];
+const CAPABILITY_FLAGS = ['supportsTokenCounting', 'supportsStreaming', 'supportsConcurrency', 'supportsAcp'] as const;
+
+/**
+ * Plugin sources in load order: .js / .mjs / .cjs files and package directories (with a
+ * package.json) in the plugins directory, sorted by name, then the PROVIDER_PLUGINS list.
+ */
+export function discoverPluginSources(dir = getPluginsDir(), list = process.env.PROVIDER_PLUGINS): string[] {
+  const sources: string[] = [];
+  if (fs.existsSync(dir)) {
+    const entries = fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isFile() && PLUGIN_EXTENSIONS.has(path.extname(entry.name))) sources.push(full);
+      else if (entry.isDirectory() && fs.existsSync(path.join(full, 'package.json'))) sources.push(full);
+    }
+  }
+  for (const item of (list ?? '').split(',').map(s => s.trim()).filter(Boolean)) sources.push(item);
+  return sources;
+}
+
+/** Import specifier for a source - paths by file URL (directories via package.json), others as package names */
+function importSpecifier(source: string): string {
+  if (!path.isAbsolute(source) && !source.startsWith('.')) return source;
+  let full = path.resolve(source);
+  if (fs.statSync(full).isDirectory()) {
+    const pkg = JSON.parse(fs.readFileSync(path.join(full, 'package.json'), 'utf-8'));
+    full = path.join(full, typeof pkg.exports === 'string' ? pkg.exports : pkg.main || 'index.js');
+  }
+  return pathToFileURL(full).href;
+}
+
+/** Check a plugin export against the contract. Returns error messages (empty = valid). */
+export function validateProviderPlugin(candidate: unknown): string[] {
+  if (!candidate || typeof candidate !== 'object') return ['module does not export a provider plugin'];
+  const plugin = candidate as Record<string, any>;
+  const errors: string[] = [];
+
+  if (plugin.apiVersion === undefined) {
+    errors.push(`missing apiVersion (this manager supports ${PROVIDER_PLUGIN_API_VERSION})`);
+  } else if (plugin.apiVersion !== PROVIDER_PLUGIN_API_VERSION) {
+    errors.push(`apiVersion ${JSON.stringify(plugin.apiVersion)} is not supported (this manager supports ${PROVIDER_PLUGIN_API_VERSION})`);
+  }
+  if (typeof plugin.name !== 'string' || !NAME_PATTERN.test(plugin.name)) {
+    errors.push('name must be lowercase letters, digits and dashes, starting with a letter');
+  }
+  if (plugin.version !== undefined && typeof plugin.version !== 'string') errors.push('version must be a string');
+  if (typeof plugin.sendPrompt !== 'function') errors.push('sendPrompt must be a function');
+
+  const caps = plugin.capabilities;
+  if (!caps || typeof caps !== 'object') {
+    errors.push('capabilities is required');
+  } else {
+    for (const flag of CAPABILITY_FLAGS) {
+      if (typeof caps[flag] !== 'boolean') errors.push(`capabilities.${flag} must be a boolean`);
+    }
+    if (!BILLING_MODELS.includes(caps.billingModel)) {
+      errors.push(`capabilities.billingModel must be one of ${BILLING_MODELS.join(', ')}`);
+    }
+    if (typeof caps.description !== 'string' || !caps.description.trim()) errors.push('capabilities.description is required');
+    if (caps.name !== undefined && caps.name !== plugin.name) errors.push(`capabilities.name "${caps.name}" does not match name "${plugin.name}"`);
+  }
+  return errors;
+}
+
+/** Import and validate one plugin source - never throws; failures come back as a rejected info */
+export async function importProviderPlugin(source: string): Promise<{ plugin?: ProviderPlugin; info: ProviderPluginInfo }> {
+  let mod: any;
+  try {
+    mod = await import(importSpecifier(source));
+  } catch (err: any) {
+    return { info: { source, status: 'rejected', error: `import failed: ${err?.message || String(err)}` } };
+  }
+
+  // ESM default export, CommonJS module.exports (surfaces as default), or named exports
+  const candidate = mod?.default && typeof mod.default === 'object' ? mod.default : mod;
+  const info: ProviderPluginInfo = {
+    source,
+    status: 'rejected',
+    ...(typeof candidate?.name === 'string' ? { name: candidate.name } : {}),
+    ...(typeof candidate?.version === 'string' ? { version: candidate.version } : {}),
+    ...(typeof candidate?.apiVersion === 'number' ? { apiVersion: candidate.apiVersion } : {}),
+  };
+  const errors = validateProviderPlugin(candidate);
+  if (errors.length > 0) return { info: { ...info, error: errors.join('; ') } };
+  return { plugin: candidate as ProviderPlugin, info: { ...info, status: 'loaded' } };
+}
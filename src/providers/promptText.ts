@@ -0,0 +1,20 @@
+// mcp-agent-manager/src/providers/promptText.ts
+// Plain-text prompt shaping for backends with no message array or system role
+// (Copilot CLI / ACP, MCP tools and JSON-RPC agents).
+
+import type { ChatMessage } from '../types/index.js';
+
+/** Flatten prior turns into a transcript preamble */
+export function withTranscript(prompt: string, history?: ChatMessage[]): string {
+  if (!history || history.length === 0) return prompt;
+  const transcript = history
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+    .join('\n\n');
+  return `Conversation so far:\n\n${transcript}\n\nUser: ${prompt}`;
+}
+
+/** Prepend system instructions */
+export function withPreamble(prompt: string, systemPrompt?: string): string {
+  if (!systemPrompt) return prompt;
+  return `System instructions (follow these throughout):\n\n${systemPrompt}\n\n---\n\n${prompt}`;
+}
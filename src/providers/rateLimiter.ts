@@ -0,0 +1,288 @@
+// mcp-agent-manager/src/providers/rateLimiter.ts
+// Per-provider, per-API-key token buckets (requests/min + tokens/min) and retry of
+// 429 / overloaded responses with jittered exponential backoff that honors retry-after.
+
+import { createHash } from 'node:crypto';
+import type { AgentConfig, AgentRateLimit, RateLimitState } from '../types/index.js';
+import { logger } from '../services/logger.js';
+
+export const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+
+/** HTTP statuses treated as throttling: rate limited, unavailable, Anthropic overloaded */
+const RETRYABLE_STATUSES = new Set([429, 503, 529]);
+
+/** A throttled response from a provider API */
+export class RateLimitError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+type HeaderSource = { get(name: string): string | null } | Record<string, string | null | undefined>;
+
+/** Delay requested by retry-after-ms / retry-after (seconds or HTTP date) headers */
+export function parseRetryAfter(headers: HeaderSource | undefined, now = Date.now()): number | undefined {
+  if (!headers) return undefined;
+  const get = (name: string) =>
+    typeof headers.get === 'function'
+      ? (headers as { get(name: string): string | null }).get(name)
+      : (headers as Record<string, string | null | undefined>)[name];
+
+  const ms = Number(get('retry-after-ms'));
+  if (get('retry-after-ms') && Number.isFinite(ms) && ms >= 0) return ms;
+
+  const value = get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** The retry-after of a throttling error, or undefined when the error should not be retried */
+export function throttleInfo(err: any): { retryAfterMs?: number } | undefined {
+  if (err instanceof RateLimitError) return { retryAfterMs: err.retryAfterMs };
+  // Anthropic SDK errors carry status + headers; overloaded errors mid-stream carry only the error type
+  const type = err?.error?.error?.type ?? err?.error?.type;
+  if (RETRYABLE_STATUSES.has(err?.status) || type === 'rate_limit_error' || type === 'overloaded_error') {
+    return { retryAfterMs: parseRetryAfter(err?.headers) };
+  }
+  return undefined;
+}
+
+/**
+ * Delay before retry `attempt` (0-based): the server's retry-after when given, else
+ * exponential backoff from 1 s with full jitter (50-100% of the step), capped at 60 s.
+ */
+export function backoffDelay(attempt: number, retryAfterMs?: number, random: () => number = Math.random): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_BACKOFF_MS);
+  const step = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return Math.round(step * (0.5 + random() * 0.5));
+}
+
+/** Wait for `ms`, rejecting early if the signal aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Request aborted while waiting for rate limit'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted while waiting for rate limit'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Limits for an agent: its own rateLimit, else <PROVIDER>_RPM / _TPM / _MAX_RETRIES env defaults */
+function resolveLimits(agent: AgentConfig, provider: string): AgentRateLimit & { maxRetries: number } {
+  const env = (suffix: string) => {
+    const n = Number(process.env[`${provider.toUpperCase()}_${suffix}`]);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+  return {
+    requestsPerMinute: agent.rateLimit?.requestsPerMinute ?? env('RPM'),
+    tokensPerMinute: agent.rateLimit?.tokensPerMinute ?? env('TPM'),
+    maxRetries: agent.rateLimit?.maxRetries ?? env('MAX_RETRIES') ?? DEFAULT_MAX_RETRIES,
+  };
+}
+
+/** Requests and tokens per minute for one provider + API key, refilled continuously */
+class TokenBucket {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  requests = 0;
+  tokens = 0;
+  pausedUntil = 0;
+  private refilledAt = Date.now();
+  /** Limits asked for by each agent using the key - the bucket enforces the strictest */
+  private agentLimits: Map<string, AgentRateLimit> = new Map();
+
+  /** Record an agent's limits on this key and re-apply the strictest ones */
+  configure(agentId: string, limits: AgentRateLimit): void {
+    this.agentLimits.set(agentId, limits);
+    this.applyStrictest();
+  }
+
+  /** Forget an agent that moved to another key */
+  release(agentId: string): void {
+    if (this.agentLimits.delete(agentId)) this.applyStrictest();
+  }
+
+  /** A newly set limit starts with a full bucket; a changed one keeps its balance, capped at the new limit */
+  private applyStrictest(): void {
+    this.refill();
+    const strictest = (pick: (l: AgentRateLimit) => number | undefined) => {
+      const values = [...this.agentLimits.values()].map(pick).filter((n): n is number => n !== undefined);
+      return values.length > 0 ? Math.min(...values) : undefined;
+    };
+    const rpm = strictest(l => l.requestsPerMinute);
+    if (rpm !== this.requestsPerMinute) {
+      this.requests = rpm === undefined ? 0 : this.requestsPerMinute === undefined ? rpm : Math.min(this.requests, rpm);
+      this.requestsPerMinute = rpm;
+    }
+    const tpm = strictest(l => l.tokensPerMinute);
+    if (tpm !== this.tokensPerMinute) {
+      this.tokens = tpm === undefined ? 0 : this.tokensPerMinute === undefined ? tpm : Math.min(this.tokens, tpm);
+      this.tokensPerMinute = tpm;
+    }
+  }
+
+  refill(now = Date.now()): void {
+    const elapsed = now - this.refilledAt;
+    this.refilledAt = now;
+    if (this.requestsPerMinute) this.requests = Math.min(this.requestsPerMinute, this.requests + elapsed * this.requestsPerMinute / 60_000);
+    if (this.tokensPerMinute) this.tokens = Math.min(this.tokensPerMinute, this.tokens + elapsed * this.tokensPerMinute / 60_000);
+  }
+
+  /** Milliseconds until one request of `tokens` can be sent (0 = now) */
+  waitFor(tokens: number, now = Date.now()): number {
+    this.refill(now);
+    let wait = Math.max(0, this.pausedUntil - now);
+    if (this.requestsPerMinute && this.requests < 1) {
+      wait = Math.max(wait, (1 - this.requests) * 60_000 / this.requestsPerMinute);
+    }
+    if (this.tokensPerMinute && this.tokens < tokens) {
+      wait = Math.max(wait, (tokens - this.tokens) * 60_000 / this.tokensPerMinute);
+    }
+    return Math.ceil(wait);
+  }
+
+  take(tokens: number): void {
+    if (this.requestsPerMinute) this.requests -= 1;
+    if (this.tokensPerMinute) this.tokens -= tokens;
+  }
+
+  /** Return unused tokens (or charge extra ones) once the real usage is known */
+  adjust(tokens: number): void {
+    if (this.tokensPerMinute) this.tokens = Math.min(this.tokensPerMinute, this.tokens + tokens);
+  }
+}
+
+/** A provider call made through the limiter */
+export interface RateLimitedCall {
+  agent: AgentConfig;
+  provider: string;
+  /** API key (or endpoint, for keyless local servers) - only a fingerprint is kept */
+  apiKey: string;
+  /** Tokens the request may use - prompt estimate + max output tokens */
+  estimatedTokens: number;
+  /** Aborts waits and backoff (timeout / task cancellation) */
+  signal?: AbortSignal;
+}
+
+interface AgentThrottleStats {
+  bucket: string;
+  maxRetries: number;
+  throttled: number;
+  retries: number;
+  waitedMs: number;
+  lastThrottledAt?: string;
+}
+
+class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private agents: Map<string, AgentThrottleStats> = new Map();
+
+  private bucketFor(provider: string, apiKey: string): { key: string; bucket: TokenBucket } {
+    const fingerprint = apiKey ? createHash('sha256').update(apiKey).digest('hex').slice(0, 8) : 'no-key';
+    const key = `${provider}:${fingerprint}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket();
+      this.buckets.set(key, bucket);
+    }
+    return { key, bucket };
+  }
+
+  /**
+   * Send a request once the API key's bucket has room, retrying throttled responses.
+   * A throttled response pauses the whole bucket, so every agent sharing the key backs off.
+   * Agents sharing a key with different limits all get the strictest of them.
+   * `usedTokens` reports real usage to correct the estimate; `canRetry` returning false
+   * (e.g. after streamed output was already forwarded) makes the error final.
+   */
+  async run<T>(
+    call: RateLimitedCall,
+    send: () => Promise<T>,
+    usedTokens: (result: T) => number | undefined,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    const limits = resolveLimits(call.agent, call.provider);
+    const { key, bucket } = this.bucketFor(call.provider, call.apiKey);
+    bucket.configure(call.agent.id, limits);
+    const stats = this.statsFor(call.agent.id, key, limits.maxRetries);
+    const estimate = bucket.tokensPerMinute ? Math.min(call.estimatedTokens, bucket.tokensPerMinute) : call.estimatedTokens;
+
+    for (let attempt = 0; ; attempt++) {
+      for (let wait = bucket.waitFor(estimate); wait > 0; wait = bucket.waitFor(estimate)) {
+        stats.waitedMs += wait;
+        await sleep(wait, call.signal);
+      }
+      bucket.take(estimate);
+
+      try {
+        const result = await send();
+        const used = usedTokens(result);
+        if (used !== undefined) bucket.adjust(estimate - used);
+        return result;
+      } catch (err: any) {
+        const throttle = throttleInfo(err);
+        if (!throttle || call.signal?.aborted) throw err;
+        // The throttled request did not use its tokens
+        bucket.adjust(estimate);
+        stats.throttled++;
+        stats.lastThrottledAt = new Date().toISOString();
+        if (attempt >= limits.maxRetries || !canRetry()) throw err;
+
+        const delay = backoffDelay(attempt, throttle.retryAfterMs);
+        bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + delay);
+        stats.retries++;
+        logger.warn(`${call.provider} throttled ${call.agent.id} (${err.message}) - retry ${attempt + 1}/${limits.maxRetries} in ${delay}ms`);
+      }
+    }
+  }
+
+  private statsFor(agentId: string, bucket: string, maxRetries: number): AgentThrottleStats {
+    let stats = this.agents.get(agentId);
+    if (!stats) {
+      stats = { bucket, maxRetries, throttled: 0, retries: 0, waitedMs: 0 };
+      this.agents.set(agentId, stats);
+    } else if (stats.bucket !== bucket) {
+      this.buckets.get(stats.bucket)?.release(agentId);
+    }
+    stats.bucket = bucket;
+    stats.maxRetries = maxRetries;
+    return stats;
+  }
+
+  /** Rate-limit state for an agent that has made at least one rate-limited call */
+  getAgentState(agentId: string): RateLimitState | undefined {
+    const stats = this.agents.get(agentId);
+    if (!stats) return undefined;
+    const bucket = this.buckets.get(stats.bucket)!;
+    bucket.refill();
+    const now = Date.now();
+    return {
+      bucket: stats.bucket,
+      requestsPerMinute: bucket.requestsPerMinute,
+      tokensPerMinute: bucket.tokensPerMinute,
+      maxRetries: stats.maxRetries,
+      availableRequests: bucket.requestsPerMinute ? Math.floor(Math.max(0, bucket.requests)) : undefined,
+      availableTokens: bucket.tokensPerMinute ? Math.floor(Math.max(0, bucket.tokens)) : undefined,
+      pausedUntil: bucket.pausedUntil > now ? new Date(bucket.pausedUntil).toISOString() : undefined,
+      throttled: stats.throttled,
+      retries: stats.retries,
+      waitedMs: Math.round(stats.waitedMs),
+      lastThrottledAt: stats.lastThrottledAt,
+    };
+  }
+}
+
+/** Singleton rate limiter shared by the API providers */
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,76 @@
+// mcp-agent-manager/src/providers/toolLoop.ts
+// Shared tool-call execution for providers with function calling (Anthropic, OpenAI).
+// Each provider drives its own request loop; this runs one round of calls and records the trace.
+
+import type { ToolCallRecord, ToolLoopOptions } from '../types/index.js';
+
+/** Longest result kept in the task trace */
+const MAX_TRACE_OUTPUT = 500;
+
+/** A tool call requested by the model */
+export interface RequestedToolCall {
+  id: string;
+  name: string;
+  /** Parsed arguments, or the parse error for malformed JSON arguments */
+  input: Record<string, unknown> | Error;
+}
+
+/** Result of one call, ready to send back to the model */
+export interface ToolCallOutcome {
+  id: string;
+  content: string;
+  isError: boolean;
+}
+
+/** Parse a function-call argument string - malformed JSON becomes an Error result, not a throw */
+export function parseToolArguments(raw: string | undefined): Record<string, unknown> | Error {
+  if (!raw?.trim()) return {};
+  try {
+    const value = JSON.parse(raw);
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? value as Record<string, unknown>
+      : new Error('Tool arguments must be a JSON object');
+  } catch (err: any) {
+    return new Error(`Invalid tool arguments: ${err.message}`);
+  }
+}
+
+/**
+ * Run one round of tool calls in order, appending each to `trace`. Failures are returned to
+ * the model as error results. Past the iteration limit nothing runs: every call is answered
+ * with an error telling the model to respond without tools.
+ */
+export async function runToolCalls(
+  tools: ToolLoopOptions,
+  calls: RequestedToolCall[],
+  iteration: number,
+  trace: ToolCallRecord[]
+): Promise<ToolCallOutcome[]> {
+  const outcomes: ToolCallOutcome[] = [];
+  for (const call of calls) {
+    const start = Date.now();
+    const input = call.input instanceof Error ? {} : call.input;
+    let content: string;
+    let error: string | undefined;
+    try {
+      if (iteration > tools.maxIterations) {
+        throw new Error(`Tool call limit reached (${tools.maxIterations} rounds) - answer with the information you have`);
+      }
+      if (call.input instanceof Error) throw call.input;
+      content = await tools.execute(call.name, call.input);
+    } catch (err: any) {
+      error = err?.message || String(err);
+      content = `Error: ${error}`;
+    }
+    trace.push({
+      iteration,
+      name: call.name,
+      input,
+      success: !error,
+      ...(error ? { error } : { output: content.substring(0, MAX_TRACE_OUTPUT) }),
+      latencyMs: Date.now() - start,
+    });
+    outcomes.push({ id: call.id, content, isError: !!error });
+  }
+  return outcomes;
+}
@@ -3,6 +3,8 @@
 // Each provider declares what it supports so the router, metrics, and dashboard
 // can make informed decisions without hardcoded provider name checks.
 
+import type { SendPromptFn } from '../services/taskRouter.js';
+
 /** Billing model for the provider */
 export type BillingModel = 'per-token' | 'premium-request' | 'free' | 'unknown';
 
@@ -23,3 +25,35 @@ export interface ProviderCapabilities {
   /** Human-readable description */
   description: string;
 }
+
+/** Plugin contract version this manager loads - plugins declare it as apiVersion */
+export const PROVIDER_PLUGIN_API_VERSION = 1;
+
+/**
+ * A third-party provider backend, loaded at startup from PROVIDER_PLUGINS_DIR or PROVIDER_PLUGINS.
+ * The module's default export (or the module itself) supplies these fields.
+ */
+export interface ProviderPlugin {
+  /** Plugin contract version - must equal PROVIDER_PLUGIN_API_VERSION */
+  apiVersion: number;
+  /** Provider name agents use (lowercase letters, digits, dashes); must not collide with another provider */
+  name: string;
+  /** Plugin's own version, shown by mgr_list_providers */
+  version?: string;
+  /** Capabilities - `name` may be omitted and defaults to the plugin name */
+  capabilities: Omit<ProviderCapabilities, 'name'> & { name?: string };
+  /** Send function - same contract as the built-in providers */
+  sendPrompt: SendPromptFn;
+}
+
+/** Outcome of loading one plugin module */
+export interface ProviderPluginInfo {
+  /** File path or package name the plugin was loaded from */
+  source: string;
+  status: 'loaded' | 'rejected';
+  name?: string;
+  version?: string;
+  apiVersion?: number;
+  /** Why a rejected plugin was not registered */
+  error?: string;
+}
@@ -17,6 +17,14 @@ export function wireEvents(server: McpServer): void {
     server.sendLoggingMessage({ level: 'info', data: { event: 'agent:state-changed', ...data } });
     server.sendResourceListChanged();
   });
+  eventBus.onEvent('agent:health-changed', (data) => {
+    const level = data.status === 'unhealthy' ? 'warning' : 'info';
+    server.sendLoggingMessage({ level, data: { event: 'agent:health-changed', ...data } });
+    server.sendResourceListChanged();
+  });
+  eventBus.onEvent('pool:scaled', (data) => {
+    server.sendLoggingMessage({ level: 'info', data: { event: 'pool:scaled', ...data } });
+  });
   eventBus.onEvent('task:started', (data) => {
     server.sendLoggingMessage({ level: 'info', data: { event: 'task:started', ...data } });
   });
@@ -25,13 +33,18 @@ export function wireEvents(server: McpServer): void {
     server.sendLoggingMessage({ level, data: { event: 'task:completed', ...data } });
     server.sendResourceListChanged();
   });
+  // Tool list changes for skill events are sent by the SDK as dynamicSkillTools adds/removes skill tools
   eventBus.onEvent('skill:registered', (data) => {
     server.sendLoggingMessage({ level: 'info', data: { event: 'skill:registered', ...data } });
-    server.sendToolListChanged();
   });
   eventBus.onEvent('skill:removed', (data) => {
     server.sendLoggingMessage({ level: 'info', data: { event: 'skill:removed', ...data } });
-    server.sendToolListChanged();
+  });
+  eventBus.onEvent('budget:warning', (data) => {
+    server.sendLoggingMessage({ level: 'warning', data: { event: 'budget:warning', ...data } });
+  });
+  eventBus.onEvent('budget:exceeded', (data) => {
+    server.sendLoggingMessage({ level: 'error', data: { event: 'budget:exceeded', ...data } });
   });
   eventBus.onEvent('workspace:monitoring', (data) => {
     server.sendLoggingMessage({ level: 'info', data: { event: 'workspace:monitoring', ...data } });
@@ -4,8 +4,9 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { initializeProviders } from '../providers/index.js';
+import { initializeProviders, loadProviderPlugins } from '../providers/index.js';
 import { killAllSessions } from '../providers/copilot.js';
+import { closeAllMcpAgents } from '../providers/mcpAgent.js';
 import { logger } from '../services/logger.js';
 import { ensureDataDirs, DATA_DIR } from '../services/dataDir.js';
 import { initializeEventLog } from '../services/eventLog.js';
@@ -14,9 +15,17 @@ import { workspaceMonitor } from '../services/workspace/index.js';
 import { automationEngine } from '../services/automation/index.js';
 import { agentRegistry } from '../services/agentRegistry.js';
 import { skillStore } from '../services/skillStore.js';
+import { taskQueue } from '../services/taskQueue.js';
+import { adaptiveRouter } from '../services/adaptiveRouter.js';
+import { budgetManager } from '../services/budgetManager.js';
+import { startCircuitProbes, stopCircuitProbes } from '../services/circuitBreaker.js';
+import { healthMonitor } from '../services/healthMonitor.js';
+import { agentPools } from '../services/agentPools.js';
 
 // Tool registrations
 import { registerAgentTools } from './tools/agentTools.js';
+import { registerTemplateTools } from './tools/templateTools.js';
+import { registerPoolTools } from './tools/poolTools.js';
 import { registerTaskTools } from './tools/taskTools.js';
 import { registerSkillTools } from './tools/skillTools.js';
 import { registerAutomationTools } from './tools/automationTools.js';
@@ -26,6 +35,11 @@ import { registerMetaTools } from './tools/metaTools.js';
 import { registerCrossRepoTools } from './tools/crossRepoTools.js';
 import { registerMessagingTools } from './tools/messagingTools.js';
 import { registerBackupTools } from './tools/backupTools.js';
+import { registerConversationTools } from './tools/conversationTools.js';
+import { registerWorkflowTools } from './tools/workflowTools.js';
+import { registerQueueTools } from './tools/queueTools.js';
+import { registerBudgetTools } from './tools/budgetTools.js';
+import { registerDynamicSkillTools } from './tools/dynamicSkillTools.js';
 import { registerResources } from './resources.js';
 import { wireEvents } from './eventWiring.js';
 import { initFeedbackStore } from '../services/feedbackStore.js';
@@ -42,6 +56,8 @@ function createServer(): McpServer {
 
   // Register all tool groups
   registerAgentTools(server);
+  registerTemplateTools(server);
+  registerPoolTools(server);
   registerTaskTools(server);
   registerSkillTools(server);
   registerAutomationTools(server);
@@ -51,6 +67,13 @@ function createServer(): McpServer {
   registerCrossRepoTools(server);
   registerMessagingTools(server);
   registerBackupTools(server);
+  registerConversationTools(server);
+  registerWorkflowTools(server);
+  registerQueueTools(server);
+  registerBudgetTools(server);
+
+  // One tool per registered skill - last, so built-in tool names take precedence
+  registerDynamicSkillTools(server);
 
   // Register resources
   registerResources(server);
@@ -73,9 +96,29 @@ async function main(): Promise<void> {
   skillStore.load();
   agentRegistry.load();
   initializeProviders();
+  // Third-party backends from PROVIDER_PLUGINS_DIR / PROVIDER_PLUGINS (after the built-ins they may not replace)
+  await loadProviderPlugins();
   initializeEventLog();
   initFeedbackStore();
 
+  // Restore queued tasks (after agents + skills so capacity checks see them)
+  taskQueue.load();
+
+  // Restore learned adaptive routing stats and budgets
+  adaptiveRouter.load();
+  budgetManager.load();
+
+  // Probe quarantined agents once their circuit cooldown has passed
+  startCircuitProbes();
+
+  // Scheduled health probes (ping / binary / ACP initialize) with persisted history
+  healthMonitor.load();
+  healthMonitor.start();
+
+  // Autoscaling agent pools (scale on queue depth / saturation, stop idle extras)
+  agentPools.load();
+  agentPools.start();
+
   // Initialize automation engine (must be after skillStore)
   automationEngine.initialize();
 
@@ -142,10 +185,16 @@ async function main(): Promise<void> {
     logger.info(`Shutting down (${reason})...`);
     shutdownMetaCollector();
     cancelAllDispatches();
+    taskQueue.stop();
+    stopCircuitProbes();
+    healthMonitor.stop();
+    agentPools.stop();
+    adaptiveRouter.flush();
     automationEngine.shutdown();
     workspaceMonitor.stopAll(true);
     stopDashboard();
     killAllSessions();
+    closeAllMcpAgents();
     process.exit(0);
   }
 
@@ -1,13 +1,53 @@
 // mcp-agent-manager/src/server/tools/agentTools.ts
-// Agent lifecycle tools: spawn, stop, list, status, stop-all
+// Agent lifecycle tools: spawn, stop, list, status, stop-all, local (Ollama) models
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import type { AgentConfig, AgentTransport, ProviderName } from '../../types/index.js';
+import type { AgentConfig, AgentHealthReport, AgentTransport, ProviderName } from '../../types/index.js';
 import { agentRegistry } from '../../services/agentRegistry.js';
-import { killSession, killAllSessions } from '../../providers/copilot.js';
+import { getAcpPoolStatus, killSession, killAllSessions } from '../../providers/copilot.js';
+import { rateLimiter } from '../../providers/rateLimiter.js';
+import { listLocalModels, pullModel, resolveOllamaHost } from '../../providers/ollama.js';
+import { closeMcpAgent, closeAllMcpAgents } from '../../providers/mcpAgent.js';
+import { getAllProviderCapabilities, getProviderPlugins, isKnownProvider, PROVIDER_PLUGIN_API_VERSION } from '../../providers/index.js';
+import { healthMonitor } from '../../services/healthMonitor.js';
 import { toolError } from './toolErrors.js';
 
+export const rateLimitSchema = z.object({
+  requestsPerMinute: z.number().positive().optional().describe('Requests per minute on the API key'),
+  tokensPerMinute: z.number().positive().optional().describe('Tokens (prompt + max output) per minute on the API key'),
+  maxRetries: z.number().int().min(0).optional().describe('Retries after a 429 / overloaded response (default 3)'),
+});
+
+export const azureSchema = z.object({
+  deployment: z.string().optional().describe('Azure OpenAI deployment name (default: the agent model)'),
+  apiVersion: z.string().optional().describe('api-version query parameter (default AZURE_OPENAI_API_VERSION env, else 2024-10-21)'),
+});
+
+export const ollamaSchema = z.object({
+  keepAlive: z.union([z.string(), z.number()]).optional().describe('How long the model stays loaded after a request ("10m", "-1" = forever, or seconds)'),
+  numCtx: z.number().int().positive().optional().describe('Context size (num_ctx) - default: contextWindow, else the model default'),
+  autoPull: z.boolean().optional().describe('Pull the model if it is not installed, then retry (default false)'),
+});
+
+export const mcpSchema = z.object({
+  call: z.enum(['tool', 'prompt', 'rpc']).optional().describe('tools/call (default), prompts/get, or a plain JSON-RPC method with no MCP handshake'),
+  name: z.string().describe('Tool, prompt or method name'),
+  promptArgument: z.string().optional().describe('Argument that receives the task prompt (default "prompt")'),
+  systemArgument: z.string().optional().describe('Argument that receives the system prompt (default: prepended to the prompt)'),
+  arguments: z.record(z.unknown()).optional().describe('Fixed arguments merged into every call'),
+  headers: z.record(z.string()).optional().describe('Extra request headers (http transport)'),
+});
+
+export const healthCheckSchema = z.object({
+  enabled: z.boolean().optional().describe('Run scheduled probes (default true)'),
+  intervalMs: z.number().positive().optional().describe('Time between probes in ms (default 300000)'),
+  timeoutMs: z.number().positive().optional().describe('Timeout per check in ms (default 15000)'),
+  checks: z.array(z.enum(['ping', 'binary', 'acp', 'connect'])).optional()
+    .describe('Checks to run (default: copilot binary, plus acp for --acp agents; custom connect; none for other providers). ping sends a billed prompt, so it only runs when listed'),
+  openCircuitOnFailure: z.boolean().optional().describe('Open the agent circuit when a probe fails (default true)'),
+});
+
 export function registerAgentTools(server: McpServer): void {
   // ===== mgr_spawn_agent =====
   server.tool(
@@ -16,7 +56,7 @@ export function registerAgentTools(server: McpServer): void {
     {
       id: z.string().describe('Unique agent identifier'),
       name: z.string().describe('Human-readable agent name'),
-      provider: z.enum(['anthropic', 'copilot', 'openai', 'custom']).describe('LLM provider backend'),
+      provider: z.string().describe('LLM provider backend: anthropic | copilot | openai | ollama | custom, or a loaded provider plugin (see mgr_list_providers)'),
       model: z.string().describe('Model name (e.g. claude-sonnet-4-20250514, gpt-4o)'),
       transport: z.enum(['stdio', 'tcp', 'http']).default('stdio').describe('Connection mode'),
       endpoint: z.string().optional().describe('Endpoint: command for stdio, host:port for tcp, URL for http'),
@@ -28,8 +68,18 @@ export function registerAgentTools(server: McpServer): void {
       binaryPath: z.string().optional().describe('Path to CLI binary (for copilot provider)'),
       cliArgs: z.array(z.string()).optional().describe('Additional CLI args'),
       env: z.record(z.string()).optional().describe('Environment variables for the agent process'),
+      contextWindow: z.number().optional().describe('Context window in tokens (overrides the built-in per-model table for conversation trimming)'),
+      rateLimit: rateLimitSchema.optional().describe('Rate limits shared by agents on the same provider + API key (anthropic/openai; defaults from <PROVIDER>_RPM / _TPM env vars)'),
+      healthCheck: healthCheckSchema.optional().describe('Scheduled health probe settings'),
+      azure: azureSchema.optional().describe('Azure OpenAI deployment routing for the openai provider (implied by *.openai.azure.com endpoints)'),
+      ollama: ollamaSchema.optional().describe('Ollama settings for the ollama provider (endpoint defaults to OLLAMA_HOST, else http://127.0.0.1:11434)'),
+      mcp: mcpSchema.optional().describe('Tool / prompt / method to call for the custom provider (an MCP server or JSON-RPC process on the transport + endpoint)'),
+      systemPrompt: z.string().optional().describe('Persona / guardrail instructions sent as the system prompt, ahead of each skill\'s systemPrompt'),
     },
     async (params) => {
+      if (!isKnownProvider(params.provider)) {
+        return toolError('mgr_spawn_agent', `Unknown provider: ${params.provider}. Use mgr_list_providers to see built-in and plugin providers.`);
+      }
       const config: AgentConfig = {
         id: params.id,
         name: params.name,
@@ -46,6 +96,13 @@ export function registerAgentTools(server: McpServer): void {
         timeoutMs: params.timeoutMs,
         binaryPath: params.binaryPath,
         cliArgs: params.cliArgs,
+        contextWindow: params.contextWindow,
+        rateLimit: params.rateLimit,
+        healthCheck: params.healthCheck,
+        azure: params.azure,
+        ollama: params.ollama,
+        mcp: params.mcp,
+        systemPrompt: params.systemPrompt,
       };
 
       agentRegistry.register(config);
@@ -68,13 +125,14 @@ export function registerAgentTools(server: McpServer): void {
   // ===== mgr_stop_agent =====
   server.tool(
     'mgr_stop_agent',
-    'Stop and unregister an agent. Kills any active ACP sessions.',
+    'Stop and unregister an agent. Kills any active ACP sessions and MCP agent connections.',
     {
       agentId: z.string().describe('Agent ID to stop'),
     },
     async ({ agentId }) => {
       const existed = agentRegistry.unregister(agentId);
       killSession(agentId);
+      closeMcpAgent(agentId);
 
       return {
         content: [{
@@ -132,20 +190,32 @@ export function registerAgentTools(server: McpServer): void {
   // ===== mgr_agent_status =====
   server.tool(
     'mgr_agent_status',
-    'Get detailed status and health information for a specific agent.',
+    'Get detailed status and health information for a specific agent, including rate-limit state (bucket levels, throttled responses, retries), ACP session pool and crashes, and health probe history.',
     {
       agentId: z.string().describe('Agent ID to check'),
+      probe: z.boolean().default(false).describe('Run the agent health checks now instead of returning the last scheduled probe'),
     },
-    async ({ agentId }) => {
+    async ({ agentId, probe }) => {
       const health = agentRegistry.getHealth(agentId);
       if (!health) {
         return toolError('mgr_agent_status', `Agent ${agentId} not found.`);
       }
+      let healthChecks: AgentHealthReport | undefined;
+      try {
+        healthChecks = probe ? await healthMonitor.probe(agentId) : healthMonitor.getReport(agentId);
+      } catch (err: any) {
+        return toolError('mgr_agent_status', err.message);
+      }
 
       return {
         content: [{
           type: 'text' as const,
-          text: JSON.stringify(health, null, 2),
+          text: JSON.stringify({
+            ...health,
+            rateLimit: rateLimiter.getAgentState(agentId) ?? null,
+            acpPool: getAcpPoolStatus(agentId) ?? null,
+            healthChecks: healthChecks ?? null,
+          }, null, 2),
         }],
       };
     }
@@ -177,6 +247,8 @@ export function registerAgentTools(server: McpServer): void {
             startedAt: instance.startedAt,
             lastActivityAt: instance.lastActivityAt,
             error: instance.error,
+            sessionCrashes: instance.sessionCrashes,
+            lastSessionCrash: instance.lastSessionCrash,
           }, null, 2),
         }],
       };
@@ -197,6 +269,13 @@ export function registerAgentTools(server: McpServer): void {
       canMutate: z.boolean().optional().describe('New mutation permission'),
       timeoutMs: z.number().optional().describe('New timeout in ms'),
       env: z.record(z.string()).optional().describe('New environment variables'),
+      contextWindow: z.number().optional().describe('New context window in tokens'),
+      rateLimit: rateLimitSchema.optional().describe('New rate limits (replaces the existing ones)'),
+      healthCheck: healthCheckSchema.optional().describe('New health probe settings (replaces the existing ones)'),
+      azure: azureSchema.optional().describe('New Azure OpenAI deployment settings (replaces the existing ones)'),
+      ollama: ollamaSchema.optional().describe('New Ollama settings (replaces the existing ones)'),
+      mcp: mcpSchema.optional().describe('New custom provider call settings (replaces the existing ones)'),
+      systemPrompt: z.string().optional().describe('New system prompt (empty string removes it)'),
     },
     async (params) => {
       const { agentId, ...updates } = params;
@@ -240,6 +319,7 @@ export function registerAgentTools(server: McpServer): void {
         agentRegistry.unregister(inst.config.id);
       }
       killAllSessions();
+      closeAllMcpAgents();
 
       return {
         content: [{
@@ -249,4 +329,79 @@ export function registerAgentTools(server: McpServer): void {
       };
     }
   );
+
+  // ===== mgr_list_local_models =====
+  server.tool(
+    'mgr_list_local_models',
+    'List models installed on an Ollama server (size, family, quantization) and which are loaded in memory. Optionally pull a model first.',
+    {
+      agentId: z.string().optional().describe('Use this ollama agent\'s endpoint'),
+      endpoint: z.string().optional().describe('Ollama server URL (default OLLAMA_HOST, else http://127.0.0.1:11434)'),
+      pull: z.string().optional().describe('Model to download before listing (e.g. llama3.1:8b)'),
+    },
+    async (params) => {
+      let host: string;
+      if (params.agentId) {
+        const agent = agentRegistry.get(params.agentId);
+        if (!agent) return toolError('mgr_list_local_models', `Agent not found: ${params.agentId}`);
+        if (agent.config.provider !== 'ollama') {
+          return toolError('mgr_list_local_models', `Agent ${params.agentId} uses provider ${agent.config.provider}, not ollama`);
+        }
+        host = resolveOllamaHost(agent.config);
+      } else {
+        host = resolveOllamaHost({ endpoint: params.endpoint || '' });
+      }
+
+      try {
+        const pulled = params.pull ? await pullModel(host, params.pull) : undefined;
+        const models = await listLocalModels(host);
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              host,
+              ...(params.pull ? { pulled: { model: params.pull, status: pulled } } : {}),
+              count: models.length,
+              models,
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_list_local_models', err.message);
+      }
+    }
+  );
+
+  // ===== mgr_list_providers =====
+  server.tool(
+    'mgr_list_providers',
+    'List provider backends - built-ins and loaded plugins - with their capabilities and agent counts, plus plugins that were rejected and why.',
+    {},
+    async () => {
+      const plugins = getProviderPlugins();
+      const loaded = new Map(plugins.filter(p => p.status === 'loaded').map(p => [p.name!, p]));
+      const agents = agentRegistry.getAll();
+      const providers = getAllProviderCapabilities().map(cap => {
+        const plugin = loaded.get(cap.name);
+        return {
+          name: cap.name,
+          source: plugin ? 'plugin' : 'builtin',
+          ...(plugin ? { version: plugin.version, pluginSource: plugin.source } : {}),
+          agents: agents.filter(a => a.config.provider === cap.name).length,
+          capabilities: cap,
+        };
+      });
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            pluginApiVersion: PROVIDER_PLUGIN_API_VERSION,
+            providers,
+            rejectedPlugins: plugins.filter(p => p.status === 'rejected'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
 }
@@ -4,6 +4,8 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { automationEngine } from '../../services/automation/index.js';
+import { skillStore } from '../../services/skillStore.js';
+import { paramMappingErrors } from '../../services/skillParams.js';
 import { toolError } from './toolErrors.js';
 
 export function registerAutomationTools(server: McpServer): void {
@@ -37,6 +39,14 @@ export function registerAutomationTools(server: McpServer): void {
       tags: z.array(z.string()).default([]).describe('Tags for filtering and categorization'),
     },
     async (params) => {
+      const skill = skillStore.get(params.skillId);
+      const mappingErrors = skill
+        ? paramMappingErrors(skill, { static: params.staticParams, fromEvent: params.eventParams, templates: params.templateParams })
+        : [];
+      if (mappingErrors.length > 0) {
+        return toolError('mgr_create_automation', `Param mapping does not satisfy skill ${params.skillId}: ${mappingErrors.join('; ')}`);
+      }
+
       const rule = automationEngine.registerRule(params);
       return {
         content: [{
@@ -111,6 +121,20 @@ export function registerAutomationTools(server: McpServer): void {
     },
     async (params) => {
       const { id, ...updates } = params;
+      const existing = automationEngine.getRule(id);
+      const skillId = updates.skillId ?? existing?.skillId;
+      const skill = existing && skillId ? skillStore.get(skillId) : undefined;
+      const mappingErrors = skill
+        ? paramMappingErrors(skill, {
+          static: updates.staticParams ?? existing!.paramMapping.static,
+          fromEvent: updates.eventParams ?? existing!.paramMapping.fromEvent,
+          templates: updates.templateParams ?? existing!.paramMapping.templates,
+        })
+        : [];
+      if (mappingErrors.length > 0) {
+        return toolError('mgr_update_automation', `Param mapping does not satisfy skill ${skillId}: ${mappingErrors.join('; ')}`);
+      }
+
       const rule = automationEngine.updateRule(id, updates);
       if (!rule) {
         return toolError('mgr_update_automation', `Automation rule not found: ${id}`);
@@ -0,0 +1,52 @@
+// mcp-agent-manager/src/server/tools/budgetTools.ts
+// Budget tools: set and remove spending limits (status is in mgr_get_metrics)
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { budgetManager } from '../../services/budgetManager.js';
+import { toolError } from './toolErrors.js';
+
+export function registerBudgetTools(server: McpServer): void {
+  // ===== mgr_set_budget =====
+  server.tool(
+    'mgr_set_budget',
+    'Create or replace a spending budget for an agent, skill, provider, or everything, over a daily / weekly / monthly window (UTC). Reaching softLimit emits a budget:warning event; at hardLimit routing rejects the task or reroutes it to agents still under budget. Usage is shown by mgr_get_metrics.',
+    {
+      id: z.string().describe('Budget ID (existing budgets are replaced)'),
+      scope: z.enum(['global', 'agent', 'skill', 'provider']).describe('What the budget covers'),
+      target: z.string().optional().describe('Agent, skill, or provider ID (required unless scope is global)'),
+      window: z.enum(['daily', 'weekly', 'monthly']).describe('Reset window'),
+      metric: z.enum(['cost', 'tokens', 'premiumRequests']).default('cost').describe('What to count'),
+      softLimit: z.number().positive().optional().describe('Warn at this usage'),
+      hardLimit: z.number().positive().optional().describe('Block at this usage'),
+      onExceeded: z.enum(['reject', 'reroute']).optional()
+        .describe('At hardLimit: reject tasks, or reroute (drop the exhausted agents / provider; global and skill budgets keep only the cheapest agents). Default: reject for global and skill budgets, reroute for agent and provider budgets'),
+    },
+    async (params) => {
+      try {
+        const budget = budgetManager.set(params);
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ status: 'saved', budget: budgetManager.get(budget.id) }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_set_budget', err.message);
+      }
+    }
+  );
+
+  // ===== mgr_remove_budget =====
+  server.tool(
+    'mgr_remove_budget',
+    'Remove a spending budget and its usage record.',
+    {
+      id: z.string().describe('Budget ID to remove'),
+    },
+    async ({ id }) => {
+      if (!budgetManager.remove(id)) return toolError('mgr_remove_budget', `Budget not found: ${id}`);
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ status: 'removed', id }) }] };
+    }
+  );
+}
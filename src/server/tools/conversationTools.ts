@@ -0,0 +1,167 @@
+// mcp-agent-manager/src/server/tools/conversationTools.ts
+// Conversation tools: start, continue, get, list, close multi-turn sessions
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { Conversation } from '../../types/index.js';
+import { conversationStore } from '../../services/conversationStore.js';
+import { toolError } from './toolErrors.js';
+import { streamingOptions } from './toolProgress.js';
+
+/** Compact listing shape - transcripts are only returned by mgr_get_conversation */
+function summarize(conv: Conversation) {
+  const last = conv.messages[conv.messages.length - 1];
+  return {
+    id: conv.id,
+    title: conv.title,
+    agentId: conv.agentId,
+    skillId: conv.skillId,
+    status: conv.status,
+    turns: conv.messages.filter(m => m.role === 'user').length,
+    totalTokens: conv.totalTokens,
+    totalCost: conv.totalCost,
+    lastMessagePreview: last ? last.content.substring(0, 120) : undefined,
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+    closedAt: conv.closedAt,
+  };
+}
+
+export function registerConversationTools(server: McpServer): void {
+  // ===== mgr_start_conversation =====
+  server.tool(
+    'mgr_start_conversation',
+    'Start a persisted multi-turn conversation against an agent or a skill. Optionally sends the first message. Follow up with mgr_continue_conversation.',
+    {
+      agentId: z.string().optional().describe('Agent to converse with directly (specify agentId OR skillId)'),
+      skillId: z.string().optional().describe('Skill whose routing handles each turn; the first turn fills its prompt template'),
+      title: z.string().optional().describe('Optional conversation title'),
+      message: z.string().optional().describe('First user message (available as {message} in skill templates)'),
+      params: z.record(z.string()).default({}).describe('Template parameters for the first turn of a skill conversation'),
+    },
+    async ({ agentId, skillId, title, message, params }, extra) => {
+      let conv: Conversation;
+      try {
+        conv = conversationStore.create({ agentId, skillId, title });
+      } catch (err: any) {
+        return toolError('mgr_start_conversation', err.message);
+      }
+
+      if (!message) {
+        return { content: [{ type: 'text' as const, text: JSON.stringify(summarize(conv), null, 2) }] };
+      }
+
+      try {
+        const { result } = await conversationStore.send(conv.id, message, params, streamingOptions(extra));
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              conversationId: conv.id,
+              success: result.success,
+              turns: conv.messages.length / 2,
+              totalTokens: result.totalTokens,
+              latencyMs: result.totalLatencyMs,
+              content: result.finalContent,
+              error: result.success ? undefined : result.responses.map(r => r.error).filter(Boolean).join('; '),
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_start_conversation', `${err.message} (conversationId: ${conv.id})`);
+      }
+    }
+  );
+
+  // ===== mgr_continue_conversation =====
+  server.tool(
+    'mgr_continue_conversation',
+    'Send the next message in a conversation. Prior turns are sent as context, trimmed to the target model\'s context window.',
+    {
+      conversationId: z.string().describe('Conversation ID from mgr_start_conversation'),
+      message: z.string().describe('Next user message'),
+    },
+    async ({ conversationId, message }, extra) => {
+      try {
+        const { conversation, result } = await conversationStore.send(conversationId, message, {}, streamingOptions(extra));
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              conversationId,
+              success: result.success,
+              turns: conversation.messages.length / 2,
+              totalTokens: result.totalTokens,
+              latencyMs: result.totalLatencyMs,
+              content: result.finalContent,
+              error: result.success ? undefined : result.responses.map(r => r.error).filter(Boolean).join('; '),
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_continue_conversation', err.message);
+      }
+    }
+  );
+
+  // ===== mgr_get_conversation =====
+  server.tool(
+    'mgr_get_conversation',
+    'Get a conversation with its message history.',
+    {
+      conversationId: z.string().describe('Conversation ID'),
+      limit: z.number().optional().describe('Return only the last N messages'),
+    },
+    async ({ conversationId, limit }) => {
+      const conv = conversationStore.get(conversationId);
+      if (!conv) {
+        return toolError('mgr_get_conversation', `Conversation not found: ${conversationId}`);
+      }
+      const messages = limit ? conv.messages.slice(-limit) : conv.messages;
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...summarize(conv), messages }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // ===== mgr_list_conversations =====
+  server.tool(
+    'mgr_list_conversations',
+    'List conversations, most recently active first.',
+    {
+      status: z.enum(['open', 'closed']).optional().describe('Filter by status'),
+      limit: z.number().default(20).describe('Max conversations to return (default: 20)'),
+    },
+    async ({ status, limit }) => {
+      const all = conversationStore.list(status);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            count: all.length,
+            conversations: all.slice(0, limit).map(summarize),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // ===== mgr_close_conversation =====
+  server.tool(
+    'mgr_close_conversation',
+    'Close a conversation. History is kept on disk; further messages are rejected.',
+    {
+      conversationId: z.string().describe('Conversation ID to close'),
+    },
+    async ({ conversationId }) => {
+      const conv = conversationStore.close(conversationId);
+      if (!conv) {
+        return toolError('mgr_close_conversation', `Conversation not found: ${conversationId}`);
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(summarize(conv), null, 2) }] };
+    }
+  );
+}
@@ -0,0 +1,137 @@
+// mcp-agent-manager/src/server/tools/dynamicSkillTools.ts
+// Exposes every registered skill as its own MCP tool (named after the skill ID),
+// with an input schema derived from the skill's parameters. Tools follow skill
+// registration/removal live; clients receive notifications/tools/list_changed.
+
+import { McpServer, type RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z, type ZodTypeAny } from 'zod';
+import type { SkillDefinition, SkillParameter, TaskRequest } from '../../types/index.js';
+import { skillStore } from '../../services/skillStore.js';
+import { skillParameters, resolveSkillParams, formatParamErrors } from '../../services/skillParams.js';
+import { taskQueue } from '../../services/taskQueue.js';
+import { eventBus } from '../../services/events.js';
+import { logger } from '../../services/logger.js';
+import { toolError } from './toolErrors.js';
+import { streamingOptions } from './toolProgress.js';
+
+/** MCP tool name rules (SEP-986): 1-128 chars of A-Z a-z 0-9 _ - . */
+const TOOL_NAME = /^[A-Za-z0-9_.-]{1,128}$/;
+
+let taskCounter = 0;
+
+/** Skills registered internally for one-off prompts (_direct_, _conv_, _ask_) are not exposed */
+function isExposed(skill: SkillDefinition): boolean {
+  return !skill.id.startsWith('_') && TOOL_NAME.test(skill.id);
+}
+
+/** Zod type for one parameter. Non-string JSON values are accepted and stringified for the template. */
+function paramType(param: SkillParameter): ZodTypeAny {
+  let type: ZodTypeAny;
+  switch (param.type ?? 'string') {
+    case 'number': type = z.number(); break;
+    case 'integer': type = z.number().int(); break;
+    case 'boolean': type = z.boolean(); break;
+    case 'json': type = z.any(); break;
+    case 'list': type = z.union([z.array(z.any()), z.string()]); break;
+    default:
+      type = param.enum && param.enum.length > 0 ? z.enum(param.enum as [string, ...string[]]) : z.string();
+  }
+  const hints = [
+    param.description,
+    param.default !== undefined ? `default: ${param.default}` : undefined,
+    param.type === 'list' ? 'array, or one item per line' : undefined,
+  ].filter(Boolean).join(' - ');
+  if (hints) type = type.describe(hints);
+  return param.required && param.default === undefined ? type : type.optional();
+}
+
+/** Input schema shape for a skill tool */
+export function skillToolShape(skill: SkillDefinition): Record<string, ZodTypeAny> {
+  const shape: Record<string, ZodTypeAny> = {};
+  for (const param of skillParameters(skill)) shape[param.name] = paramType(param);
+  return shape;
+}
+
+/** Tool arguments → template params (strings) */
+function toParams(args: Record<string, unknown>): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (value === undefined) continue;
+    params[key] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  return params;
+}
+
+function describeSkill(skill: SkillDefinition): string {
+  return `${skill.description || skill.name} (skill "${skill.id}", ${skill.strategy} routing; queued like mgr_assign_task)`;
+}
+
+export function registerDynamicSkillTools(server: McpServer): void {
+  const tools = new Map<string, RegisteredTool>();
+
+  const add = (skill: SkillDefinition) => {
+    if (!isExposed(skill)) return;
+    tools.get(skill.id)?.remove();
+    tools.delete(skill.id);
+
+    try {
+      const tool = server.tool(
+        skill.id,
+        describeSkill(skill),
+        skillToolShape(skill),
+        async (args, extra) => {
+          const current = skillStore.get(skill.id);
+          if (!current) return toolError(skill.id, `Skill not found: ${skill.id}`);
+          const checked = resolveSkillParams(current, toParams(args));
+          if (checked.errors.length > 0) return toolError(skill.id, formatParamErrors(current, checked.errors));
+
+          const taskId = `skill-${++taskCounter}-${Date.now()}`;
+          const request: TaskRequest = {
+            taskId,
+            skillId: current.id,
+            params: checked.params,
+            priority: 0,
+            createdAt: new Date(),
+          };
+          try {
+            const result = await taskQueue.submit(request, streamingOptions(extra));
+            return {
+              content: [{
+                type: 'text' as const,
+                text: JSON.stringify({
+                  taskId: result.taskId,
+                  success: result.success,
+                  strategy: result.strategy,
+                  agentCount: result.responses.length,
+                  totalTokens: result.totalTokens,
+                  totalCost: result.totalCost,
+                  latencyMs: result.totalLatencyMs,
+                  content: result.finalContent,
+                  parsed: result.parsed,
+                  consensus: result.consensus,
+                }, null, 2),
+              }],
+            };
+          } catch (err: any) {
+            return toolError(skill.id, `${err.message} (taskId: ${taskId})`);
+          }
+        }
+      );
+      tools.set(skill.id, tool);
+    } catch (err: any) {
+      // Name taken by a built-in tool (e.g. a skill called mgr_list_agents)
+      logger.warn(`Skill ${skill.id} not exposed as a tool: ${err.message}`);
+    }
+  };
+
+  for (const skill of skillStore.list()) add(skill);
+
+  eventBus.onEvent('skill:registered', ({ skillId }) => {
+    const skill = skillStore.get(skillId);
+    if (skill) add(skill);
+  });
+  eventBus.onEvent('skill:removed', ({ skillId }) => {
+    tools.get(skillId)?.remove();
+    tools.delete(skillId);
+  });
+}
@@ -0,0 +1,76 @@
+// mcp-agent-manager/src/server/tools/poolTools.ts
+// Agent pool tools: save, list and remove autoscaling pools of template agents per tag
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { agentPools } from '../../services/agentPools.js';
+import { toolError } from './toolErrors.js';
+
+export function registerPoolTools(server: McpServer): void {
+  // ===== mgr_save_agent_pool =====
+  server.tool(
+    'mgr_save_agent_pool',
+    'Create or replace an autoscaling agent pool: keeps between minInstances and maxInstances agents from a template serving a tag. The pool adds agents when tasks for the tag queue up beyond its free slots or its agents are saturated, stops extra agents after they stay idle, and emits pool:scaled for every action.',
+    {
+      id: z.string().describe('Pool ID (lowercase) - its agents are named {id}-1, {id}-2, ...'),
+      template: z.string().describe('Agent template the pool spawns from'),
+      tag: z.string().describe('Tag the pool serves - added to every pool agent'),
+      minInstances: z.number().int().default(0).describe('Agents kept running even when idle (default 0)'),
+      maxInstances: z.number().int().describe('Upper bound on pool agents'),
+      scaleUpQueueDepth: z.number().optional().describe('Queued tasks for the tag per extra agent started (default 1)'),
+      scaleUpUtilization: z.number().optional().describe('Share of pool concurrency in use that adds an agent, 0-1 (default 0.8)'),
+      scaleDownIdleMs: z.number().optional().describe('Idle time before an agent above minInstances is stopped (default 300000)'),
+      cooldownMs: z.number().optional().describe('Minimum time between scale actions (default 30000)'),
+      enabled: z.boolean().optional().describe('Disabled pools keep their agents but never scale (default true)'),
+    },
+    async (params) => {
+      try {
+        const pool = agentPools.save(params);
+        const actions = agentPools.evaluate();
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              status: 'saved',
+              pool: agentPools.status(pool.id),
+              actions,
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_save_agent_pool', err.message);
+      }
+    }
+  );
+
+  // ===== mgr_list_agent_pools =====
+  server.tool(
+    'mgr_list_agent_pools',
+    'List agent pools with their agents, load (active tasks vs capacity), queued tasks for the tag and last scale action.',
+    {},
+    async () => {
+      const pools = agentPools.list().map(p => agentPools.status(p.id));
+      return { content: [{ type: 'text' as const, text: JSON.stringify(pools, null, 2) }] };
+    }
+  );
+
+  // ===== mgr_remove_agent_pool =====
+  server.tool(
+    'mgr_remove_agent_pool',
+    'Remove an agent pool and stop its agents. With stopAgents false the agents stay registered as ordinary agents.',
+    {
+      poolId: z.string().describe('Pool ID to remove'),
+      stopAgents: z.boolean().default(true).describe('Stop and unregister the pool\'s agents (default true)'),
+    },
+    async ({ poolId, stopAgents }) => {
+      const instances = agentPools.status(poolId)?.instances ?? [];
+      if (!agentPools.remove(poolId, stopAgents)) return toolError('mgr_remove_agent_pool', `Pool not found: ${poolId}`);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Pool ${poolId} removed${instances.length > 0 ? ` - ${stopAgents ? 'stopped' : 'kept'} ${instances.join(', ')}` : ''}.`,
+        }],
+      };
+    }
+  );
+}
@@ -0,0 +1,84 @@
+// mcp-agent-manager/src/server/tools/queueTools.ts
+// Task queue tools: inspect, reprioritize, cancel queued tasks
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { taskQueue } from '../../services/taskQueue.js';
+import { toolError } from './toolErrors.js';
+
+export function registerQueueTools(server: McpServer): void {
+  // ===== mgr_list_queue =====
+  server.tool(
+    'mgr_list_queue',
+    'List tasks waiting for agent capacity (in dispatch order: priority desc, then submission order) and queued tasks currently running.',
+    {
+      status: z.enum(['queued', 'running']).optional().describe('Filter by queue status'),
+    },
+    async ({ status }) => {
+      const entries = taskQueue.list().filter(e => !status || e.status === status);
+      const now = Date.now();
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            queued: entries.filter(e => e.status === 'queued').length,
+            running: entries.filter(e => e.status === 'running').length,
+            tasks: entries.map(e => ({
+              taskId: e.taskId,
+              skillId: e.skillId,
+              priority: e.priority,
+              status: e.status,
+              position: e.status === 'queued' ? taskQueue.positionOf(e.taskId) : undefined,
+              waitMs: e.status === 'queued' ? now - new Date(e.enqueuedAt).getTime() : undefined,
+              enqueuedAt: e.enqueuedAt,
+              startedAt: e.startedAt,
+              restored: e.restored,
+            })),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // ===== mgr_reprioritize_task =====
+  server.tool(
+    'mgr_reprioritize_task',
+    'Change the priority of a queued task (higher = dispatched sooner). Tasks already running cannot be reprioritized.',
+    {
+      taskId: z.string().describe('Queued task ID'),
+      priority: z.number().describe('New priority (higher = more important)'),
+    },
+    async ({ taskId, priority }) => {
+      try {
+        const entry = taskQueue.reprioritize(taskId, priority);
+        if (!entry) return toolError('mgr_reprioritize_task', `Task not in queue: ${taskId}`);
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ taskId, priority: entry.priority, status: entry.status, position: taskQueue.positionOf(taskId) }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_reprioritize_task', err.message);
+      }
+    }
+  );
+
+  // ===== mgr_cancel_queued_task =====
+  server.tool(
+    'mgr_cancel_queued_task',
+    'Remove a task from the queue before it is dispatched. The caller waiting on the task receives an error.',
+    {
+      taskId: z.string().describe('Queued task ID'),
+    },
+    async ({ taskId }) => {
+      const queued = taskQueue.get(taskId);
+      if (!queued) return toolError('mgr_cancel_queued_task', `Task not in queue: ${taskId}`);
+      if (queued.status !== 'queued') {
+        return toolError('mgr_cancel_queued_task', `Task ${taskId} is already running - use mgr_cancel_task to abort it`);
+      }
+      taskQueue.cancel(taskId);
+      return { content: [{ type: 'text' as const, text: `Queued task ${taskId} cancelled.` }] };
+    }
+  );
+}
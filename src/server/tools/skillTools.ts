@@ -3,10 +3,39 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import type { RoutingStrategy, SkillDefinition } from '../../types/index.js';
+import type { OutputSchema, QualityEvaluatorConfig, RoutingStrategy, SkillDefinition } from '../../types/index.js';
 import { skillStore } from '../../services/skillStore.js';
+import { skillParameters } from '../../services/skillParams.js';
 import { toolError } from './toolErrors.js';
 
+const parameterSchema = z.object({
+  name: z.string().describe('Parameter name, referenced as {name} in the template'),
+  type: z.enum(['string', 'number', 'integer', 'boolean', 'json', 'list']).optional().describe('Value type (default: string)'),
+  required: z.boolean().optional().describe('Must be supplied unless a default is set'),
+  default: z.string().optional().describe('Value used when the caller omits the parameter'),
+  enum: z.array(z.string()).optional().describe('Allowed values'),
+  description: z.string().optional().describe('What to pass'),
+});
+
+const evaluatorSchema = z.object({
+  type: z.string().describe('heuristic | llm-judge | assertions | json-schema, or a registered custom evaluator'),
+  threshold: z.number().min(0).max(1).optional().describe('Minimum passing score 0-1 (default: qualityThreshold, then 0.5)'),
+  judgeTags: z.array(z.string()).optional().describe('llm-judge: tags selecting the judge agent'),
+  rubric: z.string().optional().describe('llm-judge: grading rubric'),
+  assertions: z.array(z.object({
+    kind: z.enum(['contains', 'not-contains', 'matches', 'not-matches', 'min-length', 'max-length']),
+    value: z.string().describe('Substring, regex, or character count'),
+    flags: z.string().optional().describe('Regex flags'),
+  })).optional().describe('assertions: checks that must all pass'),
+  schema: z.record(z.any()).optional().describe('json-schema: JSON Schema (default: the skill outputSchema)'),
+});
+
+const adaptiveWeightsSchema = z.object({
+  success: z.number().min(0).optional(),
+  latency: z.number().min(0).optional(),
+  cost: z.number().min(0).optional(),
+});
+
 export function registerSkillTools(server: McpServer): void {
   // ===== mgr_register_skill =====
   server.tool(
@@ -16,8 +45,20 @@ export function registerSkillTools(server: McpServer): void {
       id: z.string().describe('Unique skill identifier'),
       name: z.string().describe('Human-readable skill name'),
       description: z.string().describe('What this skill does'),
-      promptTemplate: z.string().describe('Prompt template with {param} placeholders'),
-      strategy: z.enum(['single', 'race', 'fan-out', 'consensus', 'fallback', 'cost-optimized'])
+      promptTemplate: z.string().describe('Prompt template: {param} placeholders, {param | filter}, {#if}/{#each} blocks, {> fragment} includes'),
+      systemPrompt: z.string().optional().describe('Role instructions sent as the system prompt, after the agent\'s own systemPrompt (same template syntax)'),
+      parameters: z.array(parameterSchema).optional().describe('Parameter schema - validated on mgr_assign_task; every placeholder must be declared'),
+      outputSchema: z.record(z.any()).optional().describe('JSON Schema for structured output - responses are validated and repaired by re-prompting'),
+      outputRepairAttempts: z.number().int().min(0).max(5).optional().describe('Re-prompts per agent when output fails the schema (default 2)'),
+      evaluator: evaluatorSchema.optional().describe('Quality evaluator for cost-optimized escalation and fallback'),
+      consensusMode: z.enum(['synthesis', 'majority', 'weighted']).optional().describe('Consensus: synthesizer agent (default) or deterministic majority / success-rate-weighted vote'),
+      agreementThreshold: z.number().min(0).max(1).optional().describe('Vote modes: escalate to synthesis below this agreement ratio'),
+      voteExtract: z.string().optional().describe('Vote modes: regex whose first group is the answer to vote on'),
+      exploration: z.number().min(0).optional().describe('Adaptive: exploration bonus for rarely-tried agents (default 0.5, 0 = always pick the best score)'),
+      adaptiveWeights: adaptiveWeightsSchema.optional().describe('Adaptive: relative weight of success rate, latency and cost (default 0.6 / 0.25 / 0.15)'),
+      tools: z.array(z.string()).optional().describe('Manager tools agents may call mid-task: mgr_search_knowledge, mgr_read_messages, mgr_send_message, mgr_run_skill (Anthropic / OpenAI agents)'),
+      maxToolIterations: z.number().int().min(1).max(20).optional().describe('Rounds of tool calls per agent call before it must answer (default 5)'),
+      strategy: z.enum(['single', 'race', 'fan-out', 'consensus', 'fallback', 'cost-optimized', 'adaptive'])
         .default('single').describe('Routing strategy'),
       targetAgents: z.array(z.string()).optional().describe('Specific agent IDs to target'),
       targetTags: z.array(z.string()).optional().describe('Agent tags to match'),
@@ -32,6 +73,18 @@ export function registerSkillTools(server: McpServer): void {
         name: params.name,
         description: params.description,
         promptTemplate: params.promptTemplate,
+        systemPrompt: params.systemPrompt,
+        parameters: params.parameters,
+        outputSchema: params.outputSchema as OutputSchema | undefined,
+        outputRepairAttempts: params.outputRepairAttempts,
+        evaluator: params.evaluator as QualityEvaluatorConfig | undefined,
+        consensusMode: params.consensusMode,
+        agreementThreshold: params.agreementThreshold,
+        voteExtract: params.voteExtract,
+        exploration: params.exploration,
+        adaptiveWeights: params.adaptiveWeights,
+        tools: params.tools,
+        maxToolIterations: params.maxToolIterations,
         strategy: params.strategy as RoutingStrategy,
         targetAgents: params.targetAgents,
         targetTags: params.targetTags,
@@ -42,7 +95,11 @@ export function registerSkillTools(server: McpServer): void {
         categories: params.categories,
       };
 
-      skillStore.register(skill);
+      try {
+        skillStore.register(skill);
+      } catch (err: any) {
+        return toolError('mgr_register_skill', err.message);
+      }
 
       return {
         content: [{
@@ -56,7 +113,7 @@ export function registerSkillTools(server: McpServer): void {
   // ===== mgr_get_skill =====
   server.tool(
     'mgr_get_skill',
-    'Get a single skill definition by ID, including its full prompt template and configuration.',
+    'Get a single skill definition by ID, including its full prompt template, configuration, and parameter schema (inferred from {placeholders} when none is declared).',
     {
       id: z.string().describe('Skill ID to retrieve'),
     },
@@ -68,7 +125,7 @@ export function registerSkillTools(server: McpServer): void {
       return {
         content: [{
           type: 'text' as const,
-          text: JSON.stringify(skill, null, 2),
+          text: JSON.stringify({ ...skill, parameters: skillParameters(skill) }, null, 2),
         }],
       };
     }
@@ -83,7 +140,19 @@ export function registerSkillTools(server: McpServer): void {
       name: z.string().optional().describe('New human-readable name'),
       description: z.string().optional().describe('New description'),
       promptTemplate: z.string().optional().describe('New prompt template'),
-      strategy: z.enum(['single', 'race', 'fan-out', 'consensus', 'fallback', 'cost-optimized'])
+      systemPrompt: z.string().optional().describe('New system prompt (empty string removes it)'),
+      parameters: z.array(parameterSchema).optional().describe('New parameter schema'),
+      outputSchema: z.record(z.any()).optional().describe('New output JSON Schema'),
+      outputRepairAttempts: z.number().int().min(0).max(5).optional().describe('New repair attempt limit'),
+      evaluator: evaluatorSchema.optional().describe('New quality evaluator'),
+      consensusMode: z.enum(['synthesis', 'majority', 'weighted']).optional().describe('New consensus mode'),
+      agreementThreshold: z.number().min(0).max(1).optional().describe('New agreement threshold'),
+      voteExtract: z.string().optional().describe('New vote extraction regex'),
+      exploration: z.number().min(0).optional().describe('New adaptive exploration strength'),
+      adaptiveWeights: adaptiveWeightsSchema.optional().describe('New adaptive score weights'),
+      tools: z.array(z.string()).optional().describe('New manager tool allowlist (empty array removes tools)'),
+      maxToolIterations: z.number().int().min(1).max(20).optional().describe('New tool round limit'),
+      strategy: z.enum(['single', 'race', 'fan-out', 'consensus', 'fallback', 'cost-optimized', 'adaptive'])
         .optional().describe('New routing strategy'),
       targetAgents: z.array(z.string()).optional().describe('New target agent IDs'),
       targetTags: z.array(z.string()).optional().describe('New target tags'),
@@ -109,6 +178,18 @@ export function registerSkillTools(server: McpServer): void {
         ...(params.name !== undefined && { name: params.name }),
         ...(params.description !== undefined && { description: params.description }),
         ...(params.promptTemplate !== undefined && { promptTemplate: params.promptTemplate }),
+        ...(params.systemPrompt !== undefined && { systemPrompt: params.systemPrompt || undefined }),
+        ...(params.parameters !== undefined && { parameters: params.parameters }),
+        ...(params.outputSchema !== undefined && { outputSchema: params.outputSchema as OutputSchema }),
+        ...(params.outputRepairAttempts !== undefined && { outputRepairAttempts: params.outputRepairAttempts }),
+        ...(params.evaluator !== undefined && { evaluator: params.evaluator as QualityEvaluatorConfig }),
+        ...(params.consensusMode !== undefined && { consensusMode: params.consensusMode }),
+        ...(params.agreementThreshold !== undefined && { agreementThreshold: params.agreementThreshold }),
+        ...(params.voteExtract !== undefined && { voteExtract: params.voteExtract }),
+        ...(params.exploration !== undefined && { exploration: params.exploration }),
+        ...(params.adaptiveWeights !== undefined && { adaptiveWeights: params.adaptiveWeights }),
+        ...(params.tools !== undefined && { tools: params.tools.length > 0 ? params.tools : undefined }),
+        ...(params.maxToolIterations !== undefined && { maxToolIterations: params.maxToolIterations }),
         ...(params.strategy !== undefined && { strategy: params.strategy as RoutingStrategy }),
         ...(params.targetAgents !== undefined && { targetAgents: params.targetAgents }),
         ...(params.targetTags !== undefined && { targetTags: params.targetTags }),
@@ -119,7 +200,11 @@ export function registerSkillTools(server: McpServer): void {
         version: vParts.join('.'),
       };
 
-      skillStore.register(updated);
+      try {
+        skillStore.register(updated);
+      } catch (err: any) {
+        return toolError('mgr_update_skill', err.message);
+      }
 
       return {
         content: [{
@@ -166,6 +251,8 @@ export function registerSkillTools(server: McpServer): void {
         categories: s.categories,
         targetTags: s.targetTags,
         targetAgents: s.targetAgents,
+        parameters: skillParameters(s).map(p => p.name),
+        structuredOutput: !!s.outputSchema,
       }));
 
       return {
@@ -1,14 +1,19 @@
 // mcp-agent-manager/src/server/tools/taskTools.ts
-// Task execution tools: assign, send prompt, history, metrics
+// Task execution tools: assign, send prompt, history, metrics, routing explanations
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { SkillDefinition, TaskRequest } from '../../types/index.js';
 import { agentRegistry } from '../../services/agentRegistry.js';
 import { skillStore } from '../../services/skillStore.js';
-import { routeTask, getRouterMetrics } from '../../services/taskRouter.js';
+import { getRouterMetrics, resolveCandidateAgents } from '../../services/taskRouter.js';
+import { adaptiveRouter } from '../../services/adaptiveRouter.js';
+import { budgetManager } from '../../services/budgetManager.js';
+import { taskQueue } from '../../services/taskQueue.js';
+import { resolveSkillParams, formatParamErrors } from '../../services/skillParams.js';
 import { automationEngine } from '../../services/automation/index.js';
 import { toolError } from './toolErrors.js';
+import { streamingOptions } from './toolProgress.js';
 
 let taskCounter = 0;
 const startTime = Date.now();
@@ -17,25 +22,50 @@ export function registerTaskTools(server: McpServer): void {
   // ===== mgr_assign_task =====
   server.tool(
     'mgr_assign_task',
-    'Execute a registered skill. Routes to appropriate agent(s) based on the skill\'s routing strategy.',
+    'Execute a registered skill. Queued by priority until a target agent has capacity, then routed to agent(s) based on the skill\'s routing strategy. Partial output streams as progress notifications when a progressToken is supplied. With async=true, returns the taskId immediately - poll with mgr_get_task, stop with mgr_cancel_task. Skills with an outputSchema also return the validated JSON as parsed.',
     {
       skillId: z.string().describe('Skill ID to execute'),
       params: z.record(z.string()).default({}).describe('Parameters to fill into the skill\'s prompt template'),
       priority: z.number().default(0).describe('Task priority (higher = more important)'),
+      async: z.boolean().default(false).describe('Return the taskId immediately instead of waiting for the result'),
     },
-    async ({ skillId, params, priority }) => {
+    async ({ skillId, params, priority, async: submitOnly }, extra) => {
+      const skill = skillStore.get(skillId);
+      if (!skill) return toolError('mgr_assign_task', `Skill not found: ${skillId}`);
+      const checked = resolveSkillParams(skill, params);
+      if (checked.errors.length > 0) {
+        return toolError('mgr_assign_task', formatParamErrors(skill, checked.errors));
+      }
+
       const taskId = `task-${++taskCounter}-${Date.now()}`;
 
       const request: TaskRequest = {
         taskId,
         skillId,
-        params,
+        params: checked.params,
         priority,
         createdAt: new Date(),
       };
 
+      if (submitOnly) {
+        // Outcome (including failure/cancellation) is read back via mgr_get_task
+        const pending = taskQueue.submit(request);
+        pending.catch(() => { /* recorded in task status */ });
+        const status = taskQueue.getStatus(taskId);
+        if (!status) {
+          const err = await pending.then(() => undefined, (e: Error) => e);
+          return toolError('mgr_assign_task', `${err?.message ?? 'Submission failed'} (taskId: ${taskId})`);
+        }
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ taskId, status: status.status, position: status.position }, null, 2),
+          }],
+        };
+      }
+
       try {
-        const result = await routeTask(request);
+        const result = await taskQueue.submit(request, streamingOptions(extra));
 
         return {
           content: [{
@@ -49,6 +79,8 @@ export function registerTaskTools(server: McpServer): void {
               totalCost: result.totalCost,
               latencyMs: result.totalLatencyMs,
               content: result.finalContent,
+              parsed: result.parsed,
+              consensus: result.consensus,
             }, null, 2),
           }],
         };
@@ -61,13 +93,14 @@ export function registerTaskTools(server: McpServer): void {
   // ===== mgr_send_prompt =====
   server.tool(
     'mgr_send_prompt',
-    'Send a raw prompt directly to a specific agent, bypassing the skill system.',
+    'Send a raw prompt directly to a specific agent, bypassing the skill system. Queued by priority until the agent has capacity; the returned taskId works with mgr_get_task.',
     {
       agentId: z.string().describe('Target agent ID'),
       prompt: z.string().describe('The prompt text to send'),
       maxTokens: z.number().default(4000).describe('Max response tokens'),
+      priority: z.number().default(0).describe('Task priority (higher = more important)'),
     },
-    async ({ agentId, prompt, maxTokens }) => {
+    async ({ agentId, prompt, maxTokens, priority }, extra) => {
       const taskId = `direct-${++taskCounter}-${Date.now()}`;
       const instance = agentRegistry.get(agentId);
 
@@ -93,16 +126,17 @@ export function registerTaskTools(server: McpServer): void {
           taskId,
           skillId: skill.id,
           params: { prompt },
-          priority: 0,
+          priority,
           createdAt: new Date(),
         };
-        const result = await routeTask(request);
+        const result = await taskQueue.submit(request, streamingOptions(extra));
         const primary = result.responses[0];
 
         return {
           content: [{
             type: 'text' as const,
             text: JSON.stringify({
+              taskId,
               success: primary?.success ?? false,
               agentId: primary?.agentId ?? agentId,
               model: primary?.model ?? instance.config.model,
@@ -119,6 +153,81 @@ export function registerTaskTools(server: McpServer): void {
     }
   );
 
+  // ===== mgr_get_task =====
+  server.tool(
+    'mgr_get_task',
+    'Get the status of a task submitted with mgr_assign_task: queued (with position), running, completed, failed, or cancelled, plus its result once finished.',
+    {
+      taskId: z.string().describe('Task ID returned by mgr_assign_task'),
+    },
+    async ({ taskId }) => {
+      const status = taskQueue.getStatus(taskId);
+      if (!status) return toolError('mgr_get_task', `Task not found: ${taskId}`);
+      return { content: [{ type: 'text' as const, text: JSON.stringify(status, null, 2) }] };
+    }
+  );
+
+  // ===== mgr_cancel_task =====
+  server.tool(
+    'mgr_cancel_task',
+    'Cancel a task. Queued tasks are removed; running tasks have in-flight provider calls aborted (Copilot CLI processes are killed).',
+    {
+      taskId: z.string().describe('Task ID to cancel'),
+    },
+    async ({ taskId }) => {
+      const entry = taskQueue.cancel(taskId);
+      if (!entry) {
+        const status = taskQueue.getStatus(taskId);
+        return toolError('mgr_cancel_task', status
+          ? `Task ${taskId} already finished (${status.status})`
+          : `Task not found: ${taskId}`);
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            taskId,
+            cancelled: true,
+            wasRunning: entry.status === 'running',
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // ===== mgr_explain_routing =====
+  server.tool(
+    'mgr_explain_routing',
+    'Explain adaptive routing: with taskId, why the adaptive strategy ranked agents as it did for that task; with skillId, how current candidates would rank now. Shows per-agent success rate, latency, cost, exploration bonus, and learned stats.',
+    {
+      taskId: z.string().optional().describe('Task ID routed with the adaptive strategy'),
+      skillId: z.string().optional().describe('Skill ID to rank current candidates for'),
+    },
+    async ({ taskId, skillId }) => {
+      if (taskId) {
+        const decision = adaptiveRouter.explain(taskId);
+        if (!decision) {
+          return toolError('mgr_explain_routing', `No adaptive routing decision recorded for task ${taskId} (only recent tasks routed with strategy "adaptive" are kept)`);
+        }
+        return { content: [{ type: 'text' as const, text: JSON.stringify(decision, null, 2) }] };
+      }
+      if (!skillId) return toolError('mgr_explain_routing', 'Provide taskId or skillId');
+
+      const skill = skillStore.get(skillId);
+      if (!skill) return toolError('mgr_explain_routing', `Skill not found: ${skillId}`);
+      const agents = resolveCandidateAgents(skill);
+      if (agents.length === 0) return toolError('mgr_explain_routing', `No available agents for skill: ${skillId}`);
+
+      const ranking = adaptiveRouter.rank(skill, agents);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...ranking, strategy: skill.strategy, learned: adaptiveRouter.getStats(skillId) }, null, 2),
+        }],
+      };
+    }
+  );
+
   // ===== mgr_list_task_history =====
   server.tool(
     'mgr_list_task_history',
@@ -163,7 +272,7 @@ export function registerTaskTools(server: McpServer): void {
   // ===== mgr_get_metrics =====
   server.tool(
     'mgr_get_metrics',
-    'Get aggregate metrics: total tasks, tokens, costs, per-agent breakdown.',
+    'Get aggregate metrics: total tasks, tokens, costs, per-agent breakdown, and budget usage.',
     {},
     async () => {
       const routerMetrics = getRouterMetrics();
@@ -194,6 +303,7 @@ export function registerTaskTools(server: McpServer): void {
         skillCount: skills.length,
         uptimeMs: Date.now() - startTime,
         agentMetrics,
+        budgets: budgetManager.list(),
       };
 
       return {
@@ -0,0 +1,183 @@
+// mcp-agent-manager/src/server/tools/templateTools.ts
+// Agent template tools: save, list, remove templates, spawn agents from them, upgrade derived agents
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { AgentTemplateSettings } from '../../types/index.js';
+import { agentRegistry } from '../../services/agentRegistry.js';
+import { agentTemplateStore } from '../../services/agentTemplateStore.js';
+import { isKnownProvider } from '../../providers/index.js';
+import { azureSchema, healthCheckSchema, mcpSchema, ollamaSchema, rateLimitSchema } from './agentTools.js';
+import { toolError } from './toolErrors.js';
+
+/** Agent settings a template sets, or a spawn overrides - all optional */
+const settingsShape = {
+  provider: z.string().optional().describe('LLM provider backend: anthropic | copilot | openai | ollama | custom, or a loaded provider plugin'),
+  model: z.string().optional().describe('Model name (e.g. claude-sonnet-4-20250514, gpt-4o)'),
+  transport: z.enum(['stdio', 'tcp', 'http']).optional().describe('Connection mode (default stdio)'),
+  endpoint: z.string().optional().describe('Endpoint: command for stdio, host:port for tcp, URL for http'),
+  tags: z.array(z.string()).optional().describe('Capability tags for routing'),
+  canMutate: z.boolean().optional().describe('Whether agents can write/mutate (default false)'),
+  costMultiplier: z.number().optional().describe('Relative cost (default 1)'),
+  maxConcurrency: z.number().optional().describe('Max simultaneous tasks (default 1)'),
+  timeoutMs: z.number().optional().describe('Request timeout in ms (default 60000)'),
+  binaryPath: z.string().optional().describe('Path to CLI binary (for copilot provider)'),
+  cliArgs: z.array(z.string()).optional().describe('Additional CLI args'),
+  env: z.record(z.string()).optional().describe('Environment variables for the agent process'),
+  contextWindow: z.number().optional().describe('Context window in tokens'),
+  rateLimit: rateLimitSchema.optional().describe('Rate limits shared by agents on the same provider + API key'),
+  healthCheck: healthCheckSchema.optional().describe('Scheduled health probe settings'),
+  azure: azureSchema.optional().describe('Azure OpenAI deployment routing (openai provider)'),
+  ollama: ollamaSchema.optional().describe('Ollama settings (ollama provider)'),
+  mcp: mcpSchema.optional().describe('Tool / prompt / method to call (custom provider)'),
+  systemPrompt: z.string().optional().describe('Persona / guardrail instructions sent as the system prompt'),
+};
+
+/** Settings from tool params, without unset fields */
+function pickSettings(params: Record<string, unknown>): AgentTemplateSettings {
+  const settings: Record<string, unknown> = {};
+  for (const key of Object.keys(settingsShape)) {
+    if (params[key] !== undefined) settings[key] = params[key];
+  }
+  return settings as AgentTemplateSettings;
+}
+
+export function registerTemplateTools(server: McpServer): void {
+  // ===== mgr_save_agent_template =====
+  server.tool(
+    'mgr_save_agent_template',
+    'Create or replace a named agent template (e.g. copilot-readonly-sonnet). Templates may extend another template and override its settings. Saving a template bumps its version and the versions of templates extending it; use mgr_upgrade_template_agents to apply the change to existing agents.',
+    {
+      id: z.string().describe('Template ID (lowercase, e.g. anthropic-haiku-cheap)'),
+      description: z.string().optional().describe('What agents from this template are for'),
+      extends: z.string().optional().describe('Parent template whose settings this template inherits and overrides'),
+      ...settingsShape,
+    },
+    async (params) => {
+      const settings = pickSettings(params);
+      if (settings.provider && !isKnownProvider(settings.provider)) {
+        return toolError('mgr_save_agent_template', `Unknown provider: ${settings.provider}. Use mgr_list_providers to see built-in and plugin providers.`);
+      }
+      try {
+        const template = agentTemplateStore.save({ id: params.id, description: params.description, extends: params.extends, settings });
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              status: 'saved',
+              template: template.id,
+              version: template.version,
+              resolved: agentTemplateStore.resolve(template.id),
+              outdatedAgents: agentTemplateStore.derivedAgents(template.id)
+                .filter(a => agentTemplateStore.isOutdated(a.config)).map(a => a.config.id),
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_save_agent_template', err.message);
+      }
+    }
+  );
+
+  // ===== mgr_list_agent_templates =====
+  server.tool(
+    'mgr_list_agent_templates',
+    'List agent templates with their resolved settings (inheritance applied), versions, and the agents created from them - including agents built from an older version.',
+    {},
+    async () => {
+      const templates = agentTemplateStore.list().map(t => {
+        const agents = agentRegistry.getAll().filter(a => a.config.template?.id === t.id);
+        return {
+          ...t,
+          resolved: agentTemplateStore.resolve(t.id),
+          agents: agents.map(a => a.config.id),
+          outdatedAgents: agents.filter(a => agentTemplateStore.isOutdated(a.config)).map(a => a.config.id),
+        };
+      });
+      return { content: [{ type: 'text' as const, text: JSON.stringify(templates, null, 2) }] };
+    }
+  );
+
+  // ===== mgr_remove_agent_template =====
+  server.tool(
+    'mgr_remove_agent_template',
+    'Remove an agent template. Refused while other templates extend it; agents created from it keep their current config.',
+    {
+      templateId: z.string().describe('Template ID to remove'),
+    },
+    async ({ templateId }) => {
+      try {
+        const removed = agentTemplateStore.remove(templateId);
+        if (!removed) return toolError('mgr_remove_agent_template', `Template not found: ${templateId}`);
+      } catch (err: any) {
+        return toolError('mgr_remove_agent_template', err.message);
+      }
+      return { content: [{ type: 'text' as const, text: `Template ${templateId} removed.` }] };
+    }
+  );
+
+  // ===== mgr_spawn_from_template =====
+  server.tool(
+    'mgr_spawn_from_template',
+    'Register a new agent from a template. Settings passed here override the template for this agent and are kept when the template is upgraded.',
+    {
+      templateId: z.string().describe('Template to create the agent from'),
+      id: z.string().describe('Unique agent identifier'),
+      name: z.string().optional().describe('Human-readable agent name (default: the id)'),
+      ...settingsShape,
+    },
+    async (params) => {
+      const overrides = pickSettings(params);
+      try {
+        const config = agentTemplateStore.buildAgentConfig(params.templateId, params.id, params.name || params.id, overrides);
+        if (!isKnownProvider(config.provider)) {
+          return toolError('mgr_spawn_from_template', `Unknown provider: ${config.provider}. Use mgr_list_providers to see built-in and plugin providers.`);
+        }
+        agentRegistry.register(config);
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              status: 'registered',
+              agent: config.id,
+              template: config.template,
+              provider: config.provider,
+              model: config.model,
+              tags: config.tags,
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_spawn_from_template', err.message);
+      }
+    }
+  );
+
+  // ===== mgr_upgrade_template_agents =====
+  server.tool(
+    'mgr_upgrade_template_agents',
+    'Rebuild every agent created from a template (or a template extending it) from the current template settings, keeping each agent\'s own overrides and runtime state. Use dryRun to preview the changed fields.',
+    {
+      templateId: z.string().describe('Template whose derived agents to upgrade'),
+      agentIds: z.array(z.string()).optional().describe('Only upgrade these agents (default: all derived agents)'),
+      dryRun: z.boolean().default(false).describe('Report what would change without applying it'),
+    },
+    async ({ templateId, agentIds, dryRun }) => {
+      try {
+        const results = agentTemplateStore.upgradeAgents(templateId, { agentIds, dryRun });
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              status: dryRun ? 'dry-run' : 'upgraded',
+              template: templateId,
+              agents: results,
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_upgrade_template_agents', err.message);
+      }
+    }
+  );
+}
@@ -13,7 +13,7 @@ const TOOL_SCHEMAS: Record<string, Record<string, string>> = {
   mgr_spawn_agent: {
     id: 'string (required) - unique agent identifier',
     name: 'string (required) - human-readable agent name',
-    provider: 'enum (required) - "anthropic" | "copilot" | "openai" | "custom"',
+    provider: 'string (required) - "anthropic" | "copilot" | "openai" | "ollama" | "custom", or a loaded provider plugin name',
     model: 'string (required) - model name e.g. "claude-sonnet-4-20250514"',
     transport: 'enum (default: "stdio") - "stdio" | "tcp" | "http"',
     endpoint: 'string (optional) - command, host:port, or URL',
@@ -25,6 +25,13 @@ const TOOL_SCHEMAS: Record<string, Record<string, string>> = {
     binaryPath: 'string (optional) - path to CLI binary',
     cliArgs: 'string[] (optional) - additional CLI args',
     env: 'Record<string,string> (optional) - environment variables',
+    contextWindow: 'number (optional) - context window in tokens for conversation trimming',
+    rateLimit: '{requestsPerMinute?, tokensPerMinute?, maxRetries?} (optional) - API key rate limits and 429 retries',
+    healthCheck: '{enabled?, intervalMs?, timeoutMs?, checks?, openCircuitOnFailure?} (optional) - scheduled health probes',
+    azure: '{deployment?, apiVersion?} (optional) - Azure OpenAI deployment routing (openai provider)',
+    ollama: '{keepAlive?, numCtx?, autoPull?} (optional) - Ollama settings (ollama provider)',
+    mcp: '{call?: "tool"|"prompt"|"rpc", name, promptArgument?, systemArgument?, arguments?, headers?} (optional) - what to call (custom provider)',
+    systemPrompt: 'string (optional) - persona / guardrail instructions sent as the system prompt',
   },
   mgr_stop_agent: {
     agentId: 'string (required) - agent ID to stop',
@@ -35,6 +42,7 @@ const TOOL_SCHEMAS: Record<string, Record<string, string>> = {
   },
   mgr_agent_status: {
     agentId: 'string (required) - agent ID to check',
+    probe: 'boolean (optional) - run the health checks now (default false)',
   },
   mgr_get_agent: {
     agentId: 'string (required) - agent ID to retrieve',
@@ -49,8 +57,70 @@ const TOOL_SCHEMAS: Record<string, Record<string, string>> = {
     canMutate: 'boolean (optional) - new mutation permission',
     timeoutMs: 'number (optional) - new timeout in ms',
     env: 'Record<string,string> (optional) - new env vars',
+    contextWindow: 'number (optional) - new context window in tokens',
+    rateLimit: '{requestsPerMinute?, tokensPerMinute?, maxRetries?} (optional) - new rate limits',
+    healthCheck: '{enabled?, intervalMs?, timeoutMs?, checks?, openCircuitOnFailure?} (optional) - new health probe settings',
+    azure: '{deployment?, apiVersion?} (optional) - new Azure OpenAI deployment settings',
+    ollama: '{keepAlive?, numCtx?, autoPull?} (optional) - new Ollama settings',
+    mcp: '{call?, name, promptArgument?, systemArgument?, arguments?, headers?} (optional) - new custom provider call settings',
+    systemPrompt: 'string (optional) - new system prompt (empty string removes it)',
   },
   mgr_stop_all: {},
+  mgr_list_local_models: {
+    agentId: 'string (optional) - use this ollama agent\'s endpoint',
+    endpoint: 'string (optional) - Ollama server URL (default OLLAMA_HOST, else http://127.0.0.1:11434)',
+    pull: 'string (optional) - model to download before listing',
+  },
+  mgr_list_providers: {},
+
+  // ----- templateTools -----
+  mgr_save_agent_template: {
+    id: 'string (required) - template ID (lowercase letters, digits, ".", "_", "-")',
+    description: 'string (optional) - what agents from this template are for',
+    extends: 'string (optional) - parent template ID',
+    provider: 'string (optional) - provider backend (required here or in a parent before spawning)',
+    model: 'string (optional) - model name (required here or in a parent before spawning)',
+    tags: 'string[] (optional) - capability tags',
+    costMultiplier: 'number (optional) - relative cost',
+    timeoutMs: 'number (optional) - request timeout in ms',
+    cliArgs: 'string[] (optional) - additional CLI args',
+    systemPrompt: 'string (optional) - persona / guardrail instructions',
+    other: 'any other mgr_spawn_agent setting (optional) - transport, endpoint, canMutate, maxConcurrency, env, rateLimit, ...',
+  },
+  mgr_list_agent_templates: {},
+  mgr_remove_agent_template: {
+    templateId: 'string (required) - template ID to remove',
+  },
+  mgr_spawn_from_template: {
+    templateId: 'string (required) - template to create the agent from',
+    id: 'string (required) - unique agent identifier',
+    name: 'string (optional) - human-readable name (default: the id)',
+    other: 'any mgr_spawn_agent setting (optional) - provider, model, tags, ... override the template for this agent',
+  },
+  mgr_upgrade_template_agents: {
+    templateId: 'string (required) - template whose derived agents to upgrade',
+    agentIds: 'string[] (optional) - only upgrade these agents',
+    dryRun: 'boolean (default: false) - report changes without applying them',
+  },
+
+  // ----- poolTools -----
+  mgr_save_agent_pool: {
+    id: 'string (required) - pool ID (lowercase); agents are named {id}-1, {id}-2, ...',
+    template: 'string (required) - agent template the pool spawns from',
+    tag: 'string (required) - tag the pool serves',
+    minInstances: 'integer (default: 0) - agents kept running even when idle',
+    maxInstances: 'integer (required) - upper bound on pool agents',
+    scaleUpQueueDepth: 'number (optional, default 1) - queued tasks for the tag per extra agent',
+    scaleUpUtilization: 'number (optional, default 0.8) - busy share of pool concurrency that adds an agent',
+    scaleDownIdleMs: 'number (optional, default 300000) - idle time before an extra agent is stopped',
+    cooldownMs: 'number (optional, default 30000) - minimum time between scale actions',
+    enabled: 'boolean (optional, default true) - disabled pools never scale',
+  },
+  mgr_list_agent_pools: {},
+  mgr_remove_agent_pool: {
+    poolId: 'string (required) - pool ID to remove',
+    stopAgents: 'boolean (default: true) - stop the pool agents instead of keeping them',
+  },
 
   // ----- automationTools -----
   mgr_create_automation: {
@@ -188,8 +258,12 @@ const TOOL_SCHEMAS: Record<string, Record<string, string>> = {
     id: 'string (required) - unique skill identifier',
     name: 'string (required) - human-readable name',
     description: 'string (required) - what this skill does',
-    promptTemplate: 'string (required) - prompt template with {param} placeholders',
-    strategy: 'enum (default: "single") - "single"|"race"|"fan-out"|"consensus"|"fallback"|"cost-optimized"',
+    promptTemplate: 'string (required) - prompt template: {param}, {param | truncate:N|indent:N|json|join:", "|default:"x"|upper|lower|trim}, {#if p}..{:else}..{/if}, {#each list as item}..{/each}, {> fragment}',
+    systemPrompt: 'string (optional) - role instructions sent as the system prompt after the agent systemPrompt (template syntax)',
+    parameters: 'Array<{name, type?: "string"|"number"|"integer"|"boolean"|"json"|"list", required?, default?, enum?, description?}> (optional) - parameter schema; every template variable must be declared',
+    tools: 'string[] (optional) - manager tools agents may call: "mgr_search_knowledge"|"mgr_read_messages"|"mgr_send_message"|"mgr_run_skill"',
+    maxToolIterations: 'integer 1-20 (default: 5) - rounds of tool calls per agent call',
+    strategy: 'enum (default: "single") - "single"|"race"|"fan-out"|"consensus"|"fallback"|"cost-optimized"|"adaptive"',
     targetAgents: 'string[] (optional) - specific agent IDs',
     targetTags: 'string[] (optional) - agent tags to match',
     maxTokens: 'number (optional) - max response tokens',
@@ -214,14 +288,25 @@ const TOOL_SCHEMAS: Record<string, Record<string, string>> = {
   // ----- taskTools -----
   mgr_assign_task: {
     skillId: 'string (required) - skill ID to execute',
-    params: 'Record<string,string> (default: {}) - template parameters',
+    params: 'Record<string,string> (default: {}) - template parameters, validated against the skill\'s schema (see mgr_get_skill)',
     priority: 'number (default: 0) - task priority (higher = more important)',
+    async: 'boolean (default: false) - return the taskId immediately; poll with mgr_get_task',
+  },
+  mgr_get_task: {
+    taskId: 'string (required) - task ID returned by mgr_assign_task',
+  },
+  mgr_cancel_task: {
+    taskId: 'string (required) - task ID to cancel (queued or running)',
   },
   mgr_send_prompt: {
     agentId: 'string (required) - target agent ID',
     prompt: 'string (required) - prompt text to send',
     maxTokens: 'number (default: 4000) - max response tokens',
   },
+  mgr_explain_routing: {
+    taskId: 'string (optional) - task routed with the adaptive strategy',
+    skillId: 'string (optional) - rank current candidates for this skill',
+  },
   mgr_list_task_history: {
     ruleId: 'string (optional) - filter by automation rule ID',
     status: 'enum (optional) - "pending"|"running"|"success"|"failed"|"skipped"',
@@ -229,6 +314,83 @@ const TOOL_SCHEMAS: Record<string, Record<string, string>> = {
   },
   mgr_get_metrics: {},
 
+  // ----- queueTools -----
+  mgr_list_queue: {
+    status: '"queued"|"running" (optional) - filter by queue status',
+  },
+  mgr_reprioritize_task: {
+    taskId: 'string (required) - queued task ID',
+    priority: 'number (required) - new priority (higher = more important)',
+  },
+  mgr_cancel_queued_task: {
+    taskId: 'string (required) - queued task ID',
+  },
+
+  // ----- budgetTools -----
+  mgr_set_budget: {
+    id: 'string (required) - budget ID; an existing budget is replaced',
+    scope: '"global"|"agent"|"skill"|"provider" (required)',
+    target: 'string (required unless scope is global) - agent, skill, or provider ID',
+    window: '"daily"|"weekly"|"monthly" (required) - UTC reset window',
+    metric: '"cost"|"tokens"|"premiumRequests" (default: "cost")',
+    softLimit: 'number (optional) - emit budget:warning at this usage',
+    hardLimit: 'number (optional) - reject/reroute at this usage (one of softLimit/hardLimit required)',
+    onExceeded: '"reject"|"reroute" (default: "reject" for global/skill, "reroute" for agent/provider)',
+  },
+  mgr_remove_budget: {
+    id: 'string (required) - budget ID',
+  },
+
+  // ----- workflowTools -----
+  mgr_register_workflow: {
+    id: 'string (required) - unique workflow ID',
+    name: 'string (required) - human-readable name',
+    description: 'string (default: "") - what the workflow does',
+    steps: 'Array<{id, skillId, params?, dependsOn?, condition?: {step, when, value?}, continueOnError?}> (required)',
+    outputStep: 'string (optional) - step whose output is the run result',
+    categories: 'string[] (default: []) - categories',
+    version: 'string (default: "1.0.0") - workflow version',
+    _note: 'Params may reference {{inputs.name}}, {{steps.<id>.output}}, {{steps.<id>.status}}; condition.when is "success"|"failure"|"contains"|"not-contains"|"matches"',
+  },
+  mgr_get_workflow: {
+    workflowId: 'string (required) - workflow ID',
+  },
+  mgr_list_workflows: {
+    category: 'string (optional) - filter by category',
+  },
+  mgr_remove_workflow: {
+    workflowId: 'string (required) - workflow ID to remove',
+  },
+  mgr_run_workflow: {
+    workflowId: 'string (required) - workflow ID to run',
+    inputs: 'Record<string,string> (default: {}) - workflow inputs',
+  },
+
+  // ----- conversationTools -----
+  mgr_start_conversation: {
+    agentId: 'string (optional) - agent to converse with directly',
+    skillId: 'string (optional) - skill whose routing handles each turn',
+    title: 'string (optional) - conversation title',
+    message: 'string (optional) - first user message',
+    params: 'Record<string,string> (default: {}) - template parameters for the first skill turn',
+    _note: 'Provide exactly one of: agentId or skillId',
+  },
+  mgr_continue_conversation: {
+    conversationId: 'string (required) - conversation ID',
+    message: 'string (required) - next user message',
+  },
+  mgr_get_conversation: {
+    conversationId: 'string (required) - conversation ID',
+    limit: 'number (optional) - return only the last N messages',
+  },
+  mgr_list_conversations: {
+    status: 'enum (optional) - "open" | "closed"',
+    limit: 'number (default: 20) - max results',
+  },
+  mgr_close_conversation: {
+    conversationId: 'string (required) - conversation ID to close',
+  },
+
   // ----- messagingTools -----
   mgr_send_message: {
     channel: 'string (required) - channel name e.g. "general"',
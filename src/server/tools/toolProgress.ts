@@ -0,0 +1,29 @@
+// mcp-agent-manager/src/server/tools/toolProgress.ts
+// Shared MCP request helper - streams task chunks to clients that sent a progressToken
+// and cancels the task when the client cancels the request.
+
+import type { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import type { RouteTaskOptions } from '../../types/index.js';
+
+/** Tool handler `extra` subset needed to emit MCP progress notifications */
+export interface ProgressExtra {
+  _meta?: { progressToken?: string | number };
+  /** Aborted when the client sends notifications/cancelled for this request */
+  signal?: AbortSignal;
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+}
+
+/** Routing options for a tool call: request cancellation, plus progress notifications when the client sent a progressToken */
+export function streamingOptions(extra: ProgressExtra | undefined): RouteTaskOptions {
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined) return { signal: extra?.signal };
+  return {
+    signal: extra!.signal,
+    onChunk: ({ agentId, index, chunk }) => {
+      extra!.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress: index + 1, message: `[${agentId}] ${chunk}` },
+      } as ServerNotification).catch(() => { /* client may have disconnected */ });
+    },
+  };
+}
@@ -0,0 +1,142 @@
+// mcp-agent-manager/src/server/tools/workflowTools.ts
+// Workflow tools: register, get, list, remove, run multi-skill DAG pipelines
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { WorkflowDefinition } from '../../types/index.js';
+import { workflowStore } from '../../services/workflowStore.js';
+import { runWorkflow } from '../../services/workflowRunner.js';
+import { toolError } from './toolErrors.js';
+import { streamingOptions } from './toolProgress.js';
+
+const stepSchema = z.object({
+  id: z.string().describe('Unique step ID within the workflow'),
+  skillId: z.string().describe('Skill to invoke for this step'),
+  params: z.record(z.string()).optional().describe('Skill params; may use {{inputs.name}}, {{steps.<id>.output}}, {{steps.<id>.status}}'),
+  dependsOn: z.array(z.string()).optional().describe('Explicit dependencies (steps referenced in params/condition are added automatically)'),
+  condition: z.object({
+    step: z.string().describe('Step whose outcome is tested'),
+    when: z.enum(['success', 'failure', 'contains', 'not-contains', 'matches']).describe('Test to apply'),
+    value: z.string().optional().describe('Substring (contains/not-contains) or regex (matches)'),
+  }).optional().describe('Run only when the condition holds; otherwise skip'),
+  continueOnError: z.boolean().optional().describe('A failure of this step does not fail the workflow'),
+});
+
+export function registerWorkflowTools(server: McpServer): void {
+  // ===== mgr_register_workflow =====
+  server.tool(
+    'mgr_register_workflow',
+    'Register or replace a workflow: a DAG of skill steps with output passing ({{steps.<id>.output}}), conditional branches, and parallel execution of independent steps.',
+    {
+      id: z.string().describe('Unique workflow ID (kebab-case)'),
+      name: z.string().describe('Human-readable name'),
+      description: z.string().default('').describe('What the workflow does'),
+      steps: z.array(stepSchema).min(1).describe('Workflow steps'),
+      outputStep: z.string().optional().describe('Step whose output is the run result (default: last successful step)'),
+      categories: z.array(z.string()).default([]).describe('Categories for filtering'),
+      version: z.string().default('1.0.0').describe('Workflow version'),
+    },
+    async (params) => {
+      const def: WorkflowDefinition = { ...params };
+      try {
+        workflowStore.register(def);
+      } catch (err: any) {
+        return toolError('mgr_register_workflow', err.message);
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ status: 'registered', workflow: def.id, steps: def.steps.map(s => s.id) }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // ===== mgr_get_workflow =====
+  server.tool(
+    'mgr_get_workflow',
+    'Get a workflow definition by ID.',
+    {
+      workflowId: z.string().describe('Workflow ID'),
+    },
+    async ({ workflowId }) => {
+      const def = workflowStore.get(workflowId);
+      if (!def) return toolError('mgr_get_workflow', `Workflow not found: ${workflowId}`);
+      return { content: [{ type: 'text' as const, text: JSON.stringify(def, null, 2) }] };
+    }
+  );
+
+  // ===== mgr_list_workflows =====
+  server.tool(
+    'mgr_list_workflows',
+    'List registered workflows.',
+    {
+      category: z.string().optional().describe('Filter by category'),
+    },
+    async ({ category }) => {
+      const list = workflowStore.list(category);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify(list.map(w => ({
+            id: w.id,
+            name: w.name,
+            description: w.description,
+            steps: w.steps.map(s => `${s.id}:${s.skillId}`),
+            version: w.version,
+            categories: w.categories,
+          })), null, 2),
+        }],
+      };
+    }
+  );
+
+  // ===== mgr_remove_workflow =====
+  server.tool(
+    'mgr_remove_workflow',
+    'Remove a workflow by ID.',
+    {
+      workflowId: z.string().describe('Workflow ID to remove'),
+    },
+    async ({ workflowId }) => {
+      const removed = workflowStore.remove(workflowId);
+      if (!removed) return toolError('mgr_remove_workflow', `Workflow not found: ${workflowId}`);
+      return { content: [{ type: 'text' as const, text: `Workflow ${workflowId} removed.` }] };
+    }
+  );
+
+  // ===== mgr_run_workflow =====
+  server.tool(
+    'mgr_run_workflow',
+    'Run a registered workflow. Returns per-step results (success/failed/skipped) and records the run in task history.',
+    {
+      workflowId: z.string().describe('Workflow ID to run'),
+      inputs: z.record(z.string()).default({}).describe('Workflow inputs, referenced in step params as {{inputs.name}}'),
+    },
+    async ({ workflowId, inputs }, extra) => {
+      const def = workflowStore.get(workflowId);
+      if (!def) return toolError('mgr_run_workflow', `Workflow not found: ${workflowId}`);
+
+      try {
+        const run = await runWorkflow(def, inputs, streamingOptions(extra));
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              runId: run.runId,
+              workflowId: run.workflowId,
+              success: run.success,
+              totalTokens: run.totalTokens,
+              totalCost: run.totalCost,
+              latencyMs: run.totalLatencyMs,
+              steps: run.steps,
+              content: run.finalContent,
+            }, null, 2),
+          }],
+        };
+      } catch (err: any) {
+        return toolError('mgr_run_workflow', err.message);
+      }
+    }
+  );
+}
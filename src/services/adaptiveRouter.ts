@@ -0,0 +1,265 @@
+// mcp-agent-manager/src/services/adaptiveRouter.ts
+// Learned routing for the adaptive strategy - a UCB bandit per skill that scores
+// candidate agents on success rate, latency and cost, learns from every routed task,
+// and keeps recent decisions so mgr_explain_routing can say why an agent was picked.
+
+import type {
+  AdaptiveArmStats,
+  AdaptiveCandidateScore,
+  AdaptiveWeights,
+  AgentConfig,
+  AgentResponse,
+  QualityEvaluation,
+  RoutingExplanation,
+  SkillDefinition,
+} from '../types/index.js';
+import { getAgentSkillStats } from './metaCollector.js';
+import { isUsable } from './outputSchema.js';
+import { persistAdaptiveRouting, readAdaptiveRouting } from './sharedState.js';
+import { logger } from './logger.js';
+
+export const DEFAULT_EXPLORATION = 0.5;
+export const DEFAULT_ADAPTIVE_WEIGHTS: Required<AdaptiveWeights> = { success: 0.6, latency: 0.25, cost: 0.15 };
+
+/** Decisions kept in memory for explanation, oldest dropped first */
+const MAX_DECISIONS = 200;
+
+/** Learned stats are written at most this often - every routed task updates them */
+const PERSIST_DELAY_MS = 5000;
+
+/** Validate a skill's adaptive routing settings. Returns error messages (empty = valid). */
+export function validateAdaptiveConfig(skill: Pick<SkillDefinition, 'exploration' | 'adaptiveWeights'>): string[] {
+  const errors: string[] = [];
+  if (skill.exploration !== undefined && !(skill.exploration >= 0)) {
+    errors.push('exploration must be a number >= 0');
+  }
+  if (skill.adaptiveWeights) {
+    const weights = resolveWeights(skill.adaptiveWeights, false);
+    const invalid = Object.entries(weights).filter(([, value]) => !(value >= 0));
+    for (const [key] of invalid) errors.push(`adaptiveWeights.${key} must be a number >= 0`);
+    if (invalid.length === 0 && weights.success + weights.latency + weights.cost === 0) {
+      errors.push('adaptiveWeights must not all be 0');
+    }
+  }
+  return errors;
+}
+
+/** Skill weights over the defaults, optionally normalized to sum to 1 */
+function resolveWeights(overrides: AdaptiveWeights | undefined, normalize = true): Required<AdaptiveWeights> {
+  const weights = { ...DEFAULT_ADAPTIVE_WEIGHTS, ...overrides };
+  if (!normalize) return weights;
+  const sum = weights.success + weights.latency + weights.cost;
+  return { success: weights.success / sum, latency: weights.latency / sum, cost: weights.cost / sum };
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+class AdaptiveRouter {
+  /** skillId -> agentId -> learned stats */
+  private arms: Map<string, Map<string, AdaptiveArmStats>> = new Map();
+  /** Recent decisions by taskId, oldest first */
+  private decisions: Map<string, RoutingExplanation> = new Map();
+  private loaded = false;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Restore learned stats from the state dir - stats learned before loading are kept */
+  load(): void {
+    this.loaded = true;
+    const snapshot = readAdaptiveRouting();
+    if (!snapshot?.skills) return;
+    let restored = 0;
+    for (const [skillId, agents] of Object.entries(snapshot.skills)) {
+      const arms = this.armsFor(skillId);
+      for (const [agentId, stats] of Object.entries(agents)) {
+        if (arms.has(agentId)) continue;
+        arms.set(agentId, stats);
+        restored++;
+      }
+    }
+    if (restored > 0) logger.info(`Restored adaptive routing stats for ${restored} skill/agent pair(s)`);
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) this.load();
+  }
+
+  private armsFor(skillId: string): Map<string, AdaptiveArmStats> {
+    let arms = this.arms.get(skillId);
+    if (!arms) {
+      arms = new Map();
+      this.arms.set(skillId, arms);
+    }
+    return arms;
+  }
+
+  /** Learned stats, else the meta collector's history of the agent on this skill */
+  private statsFor(skillId: string, agentId: string): { stats?: AdaptiveArmStats; source: AdaptiveCandidateScore['source'] } {
+    const learned = this.arms.get(skillId)?.get(agentId);
+    if (learned) return { stats: learned, source: 'learned' };
+    const meta = getAgentSkillStats(agentId, skillId);
+    if (meta && meta.tasks > 0) {
+      return {
+        stats: { pulls: meta.tasks, successes: meta.successes, totalLatencyMs: meta.totalLatencyMs, totalCost: 0, lastUpdated: new Date().toISOString() },
+        source: 'meta',
+      };
+    }
+    return { source: 'none' };
+  }
+
+  /**
+   * Score candidates for a skill, best first. Each agent gets a weighted sum of its
+   * smoothed success rate and its latency and cost relative to the best candidate,
+   * plus a UCB bonus c * sqrt(ln(N + 1) / (n + 1)) that favours rarely-tried agents.
+   * Cost uses measured cost per task when every candidate has one, else costMultiplier.
+   */
+  rank(skill: SkillDefinition, agents: AgentConfig[]): RoutingExplanation {
+    this.ensureLoaded();
+    const weights = resolveWeights(skill.adaptiveWeights);
+    const exploration = skill.exploration ?? DEFAULT_EXPLORATION;
+
+    const rows = agents.map(agent => {
+      const { stats, source } = this.statsFor(skill.id, agent.id);
+      const pulls = stats?.pulls ?? 0;
+      return {
+        agent,
+        source,
+        pulls,
+        successRate: ((stats?.successes ?? 0) + 1) / (pulls + 2),
+        avgLatencyMs: pulls > 0 ? stats!.totalLatencyMs / pulls : undefined,
+        avgCost: pulls > 0 && stats!.totalCost > 0 ? stats!.totalCost / pulls : undefined,
+      };
+    });
+
+    const latencies = rows.map(r => r.avgLatencyMs).filter((l): l is number => l !== undefined);
+    const fastest = latencies.length > 0 ? Math.min(...latencies) : 0;
+    const measuredCost = rows.every(r => r.avgCost !== undefined);
+    const costBasis = (r: typeof rows[number]) => measuredCost ? r.avgCost! : r.agent.costMultiplier;
+    const cheapest = Math.min(...rows.map(costBasis));
+    const totalPulls = rows.reduce((sum, r) => sum + r.pulls, 0);
+
+    const candidates: AdaptiveCandidateScore[] = rows.map(r => {
+      const latencyScore = r.avgLatencyMs === undefined ? 0.5 : r.avgLatencyMs <= 0 ? 1 : fastest / r.avgLatencyMs;
+      const basis = costBasis(r);
+      const costScore = basis <= 0 ? 1 : Math.max(0, cheapest) / basis;
+      const exploitation = weights.success * r.successRate + weights.latency * latencyScore + weights.cost * costScore;
+      const bonus = exploration * Math.sqrt(Math.log(totalPulls + 1) / (r.pulls + 1));
+      return {
+        agentId: r.agent.id,
+        source: r.source,
+        pulls: r.pulls,
+        successRate: round(r.successRate),
+        avgLatencyMs: r.avgLatencyMs === undefined ? undefined : Math.round(r.avgLatencyMs),
+        avgCost: r.avgCost === undefined ? undefined : round(r.avgCost),
+        successScore: round(r.successRate),
+        latencyScore: round(latencyScore),
+        costScore: round(costScore),
+        exploitation: round(exploitation),
+        exploration: round(bonus),
+        total: round(exploitation + bonus),
+      };
+    });
+    // Array.sort is stable, so ties keep the candidate order
+    candidates.sort((a, b) => b.total - a.total);
+
+    return {
+      skillId: skill.id,
+      weights: { success: round(weights.success), latency: round(weights.latency), cost: round(weights.cost) },
+      exploration,
+      candidates,
+      reason: describe(skill.id, candidates),
+      decidedAt: new Date().toISOString(),
+    };
+  }
+
+  /** Rank candidates for a task and remember the decision for explain() */
+  decide(taskId: string, skill: SkillDefinition, agents: AgentConfig[]): RoutingExplanation {
+    const decision = { ...this.rank(skill, agents), taskId };
+    this.decisions.set(taskId, decision);
+    if (this.decisions.size > MAX_DECISIONS) {
+      this.decisions.delete(this.decisions.keys().next().value!);
+    }
+    return decision;
+  }
+
+  /**
+   * Learn from a finished task (any strategy). A response counts as a success only when
+   * it succeeded, matched any output schema and passed any quality evaluation it was given.
+   */
+  recordOutcome(
+    taskId: string,
+    skillId: string,
+    responses: AgentResponse[],
+    evaluations: QualityEvaluation[],
+    accepted?: AgentResponse
+  ): void {
+    this.ensureLoaded();
+    const arms = this.armsFor(skillId);
+    const now = new Date().toISOString();
+
+    for (const r of responses) {
+      let arm = arms.get(r.agentId);
+      if (!arm) {
+        // Start from the meta collector's history so learning builds on what is already known
+        arm = { ...(this.statsFor(skillId, r.agentId).stats ?? { pulls: 0, successes: 0, totalLatencyMs: 0, totalCost: 0 }), lastUpdated: now };
+        arms.set(r.agentId, arm);
+      }
+      const failedEvaluation = evaluations.some(e => e.agentId === r.agentId && !e.pass);
+      arm.pulls++;
+      if (isUsable(r) && !failedEvaluation) arm.successes++;
+      arm.totalLatencyMs += r.latencyMs;
+      arm.totalCost += r.costUnits;
+      arm.lastUpdated = now;
+    }
+
+    const decision = this.decisions.get(taskId);
+    if (decision) decision.chosenAgentId = (accepted ?? responses.find(isUsable))?.agentId;
+    this.schedulePersist();
+  }
+
+  /** The recorded decision for an adaptive task */
+  explain(taskId: string): RoutingExplanation | undefined {
+    return this.decisions.get(taskId);
+  }
+
+  /** Learned stats for a skill, by agent ID */
+  getStats(skillId: string): Record<string, AdaptiveArmStats> {
+    this.ensureLoaded();
+    return Object.fromEntries(this.arms.get(skillId) ?? []);
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  /** Write learned stats now (on shutdown, or to skip the write delay) */
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    const skills: Record<string, Record<string, AdaptiveArmStats>> = {};
+    for (const [skillId, arms] of this.arms) {
+      if (arms.size > 0) skills[skillId] = Object.fromEntries(arms);
+    }
+    persistAdaptiveRouting({ skills, lastUpdated: new Date().toISOString() });
+  }
+}
+
+/** One-line summary of why the top candidate ranked first */
+function describe(skillId: string, candidates: AdaptiveCandidateScore[]): string {
+  const [best] = candidates;
+  if (!best) return 'No candidates';
+  if (candidates.length === 1) return `${best.agentId} is the only candidate`;
+  if (candidates.every(c => c.pulls === 0)) return `No candidate has history on ${skillId} yet - ${best.agentId} is the cheapest`;
+  if (best.pulls === 0) return `${best.agentId} has no history on ${skillId} - tried first to explore`;
+  const leader = candidates.reduce((a, b) => (b.exploitation > a.exploitation ? b : a));
+  const record = `success ${Math.round(best.successRate * 100)}% over ${best.pulls} task(s)` +
+    (best.avgLatencyMs !== undefined ? `, avg ${best.avgLatencyMs}ms` : '');
+  if (leader.agentId === best.agentId) return `${best.agentId} has the best learned score (${record})`;
+  return `${best.agentId} chosen to explore (${record}) - its bonus outweighs ${leader.agentId}'s higher learned score`;
+}
+
+/** Singleton adaptive router */
+export const adaptiveRouter = new AdaptiveRouter();
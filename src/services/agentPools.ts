@@ -0,0 +1,296 @@
+// mcp-agent-manager/src/services/agentPools.ts
+// Autoscaling agent pools - keep between min and max agents from a template serving a tag.
+// Pools scale up when tasks for the tag wait beyond the pool's free slots or its agents are
+// saturated, stop agents that stayed idle above the minimum, and emit pool:scaled per action.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentInstance, AgentPoolDefinition, PoolScaleAction } from '../types/index.js';
+import { killSession } from '../providers/copilot.js';
+import { closeMcpAgent } from '../providers/mcpAgent.js';
+import { agentRegistry } from './agentRegistry.js';
+import { agentTemplateStore } from './agentTemplateStore.js';
+import { eventBus } from './events.js';
+import { skillStore } from './skillStore.js';
+import { taskQueue } from './taskQueue.js';
+import { logger } from './logger.js';
+import { getAgentsDir } from './dataDir.js';
+
+const POOLS_FILE = path.join(getAgentsDir(), 'pools.json');
+
+const POOL_ID = /^[a-z0-9][a-z0-9._-]*$/;
+
+const DEFAULT_SCALE_UP_QUEUE_DEPTH = 1;
+const DEFAULT_SCALE_UP_UTILIZATION = 0.8;
+const DEFAULT_SCALE_DOWN_IDLE_MS = 300_000;  // Stop extra agents idle for 5 minutes
+const DEFAULT_COOLDOWN_MS = 30_000;
+const SCAN_INTERVAL_MS = 15_000;             // How often pools are re-evaluated
+
+/** Live pool state, as reported by mgr_list_agent_pools */
+export interface AgentPoolStatus extends AgentPoolDefinition {
+  /** Agents the pool currently runs */
+  instances: string[];
+  /** Pool agents findAvailable would route to */
+  available: string[];
+  activeTasks: number;
+  /** Sum of maxConcurrency over live pool agents */
+  capacity: number;
+  utilization: number;
+  /** Queued tasks for the tag */
+  queuedTasks: number;
+  lastScale?: PoolScaleAction & { at: string };
+}
+
+/** Agent states that count toward a pool's capacity */
+const LIVE_STATES = new Set(['idle', 'running', 'busy']);
+
+class AgentPoolManager {
+  private pools: Map<string, AgentPoolDefinition> = new Map();
+  private lastScale: Map<string, PoolScaleAction & { at: string }> = new Map();
+  private scanTimer: ReturnType<typeof setInterval> | null = null;
+  private listening = false;
+  private loaded = false;
+
+  constructor() {
+    agentTemplateStore.setPoolTagResolver(id => this.get(id)?.tag);
+  }
+
+  /** Load pool definitions from disk - their agents are restored by the agent registry */
+  load(): void {
+    this.loaded = true;
+    if (!fs.existsSync(POOLS_FILE)) return;
+    try {
+      const arr: AgentPoolDefinition[] = JSON.parse(fs.readFileSync(POOLS_FILE, 'utf-8'));
+      if (!Array.isArray(arr)) throw new Error('pools.json is not an array');
+      for (const p of arr) this.pools.set(p.id, p);
+      logger.info(`Loaded ${this.pools.size} agent pools from disk`);
+    } catch (err) {
+      logger.error('Failed to load agent pools', { error: String(err) });
+    }
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) this.load();
+  }
+
+  private persist(): void {
+    try {
+      fs.mkdirSync(path.dirname(POOLS_FILE), { recursive: true });
+      const arr = Array.from(this.pools.values());
+      fs.writeFileSync(POOLS_FILE, JSON.stringify(arr, null, 2), 'utf-8');
+      logger.debug(`Persisted ${arr.length} agent pools`);
+    } catch (err) {
+      logger.error('Failed to persist agent pools', { error: String(err) });
+    }
+  }
+
+  /** Structural validation: id format, known template, tag, instance bounds and thresholds */
+  validate(def: AgentPoolDefinition): string[] {
+    const errors: string[] = [];
+    if (!def.id) errors.push('Pool id is required');
+    else if (!POOL_ID.test(def.id)) errors.push(`Pool id "${def.id}" must be lowercase letters, digits, ".", "_" or "-"`);
+    if (!def.template) errors.push('template is required');
+    else if (!agentTemplateStore.get(def.template)) errors.push(`Unknown template "${def.template}"`);
+    if (!def.tag) errors.push('tag is required');
+
+    if (!Number.isInteger(def.minInstances) || def.minInstances < 0) errors.push('minInstances must be an integer >= 0');
+    if (!Number.isInteger(def.maxInstances) || def.maxInstances < 1) errors.push('maxInstances must be an integer >= 1');
+    else if (def.minInstances > def.maxInstances) errors.push(`minInstances (${def.minInstances}) exceeds maxInstances (${def.maxInstances})`);
+
+    if (def.scaleUpQueueDepth !== undefined && !(def.scaleUpQueueDepth >= 1)) errors.push('scaleUpQueueDepth must be >= 1');
+    if (def.scaleUpUtilization !== undefined && !(def.scaleUpUtilization > 0 && def.scaleUpUtilization <= 1)) {
+      errors.push('scaleUpUtilization must be greater than 0 and at most 1');
+    }
+    if (def.scaleDownIdleMs !== undefined && !(def.scaleDownIdleMs >= 0)) errors.push('scaleDownIdleMs must be >= 0');
+    if (def.cooldownMs !== undefined && !(def.cooldownMs >= 0)) errors.push('cooldownMs must be >= 0');
+    return errors;
+  }
+
+  /** Create or replace a pool - throws with all validation errors */
+  save(def: AgentPoolDefinition): AgentPoolDefinition {
+    this.ensureLoaded();
+    const errors = this.validate(def);
+    if (errors.length > 0) {
+      throw new Error(`Invalid pool ${def.id}: ${errors.join('; ')}`);
+    }
+    const pool = Object.fromEntries(Object.entries(def).filter(([, v]) => v !== undefined)) as AgentPoolDefinition;
+    this.pools.set(pool.id, pool);
+    this.persist();
+    logger.info(`Saved agent pool: ${pool.id} (${pool.template} x${pool.minInstances}-${pool.maxInstances} for tag ${pool.tag})`);
+    return pool;
+  }
+
+  /** Remove a pool, stopping its agents - or keeping them as ordinary agents with stopAgents false */
+  remove(id: string, stopAgents = true): boolean {
+    this.ensureLoaded();
+    if (!this.pools.has(id)) return false;
+    for (const agent of this.members(id)) {
+      if (stopAgents) this.stopAgent(agent.config.id);
+      else agentRegistry.update(agent.config.id, { pool: undefined });
+    }
+    this.pools.delete(id);
+    this.lastScale.delete(id);
+    this.persist();
+    logger.info(`Removed agent pool: ${id}`);
+    return true;
+  }
+
+  get(id: string): AgentPoolDefinition | undefined {
+    this.ensureLoaded();
+    return this.pools.get(id);
+  }
+
+  list(): AgentPoolDefinition[] {
+    this.ensureLoaded();
+    return Array.from(this.pools.values());
+  }
+
+  /** Current size, load and last scale action of a pool */
+  status(id: string): AgentPoolStatus | undefined {
+    const pool = this.get(id);
+    if (!pool) return undefined;
+    const members = this.members(id);
+    const live = members.filter(a => LIVE_STATES.has(a.state));
+    const activeTasks = live.reduce((sum, a) => sum + a.activeTasks, 0);
+    const capacity = live.reduce((sum, a) => sum + a.config.maxConcurrency, 0);
+    return {
+      ...pool,
+      instances: members.map(a => a.config.id),
+      available: this.available(pool).map(a => a.config.id),
+      activeTasks,
+      capacity,
+      utilization: capacity > 0 ? activeTasks / capacity : 0,
+      queuedTasks: this.queuedTasks(pool),
+      lastScale: this.lastScale.get(id),
+    };
+  }
+
+  /** Evaluate every enabled pool and apply the scale actions it needs */
+  evaluate(now = Date.now()): PoolScaleAction[] {
+    this.ensureLoaded();
+    const actions: PoolScaleAction[] = [];
+    for (const pool of this.pools.values()) {
+      if (pool.enabled === false) continue;
+      try {
+        const action = this.evaluatePool(pool, now);
+        if (action) actions.push(action);
+      } catch (err: any) {
+        logger.warn(`Agent pool ${pool.id}: ${err.message}`);
+      }
+    }
+    return actions;
+  }
+
+  private evaluatePool(pool: AgentPoolDefinition, now: number): PoolScaleAction | undefined {
+    const members = this.members(pool.id);
+    const status = this.status(pool.id)!;
+
+    if (members.length < pool.minInstances) {
+      return this.scaleUp(pool, pool.minInstances - members.length, `below minInstances (${members.length}/${pool.minInstances})`, now);
+    }
+
+    // A pool scaled to zero cannot serve its waiting tasks, so starting one skips the cooldown and queue depth
+    const fromZero = members.length === 0 && status.queuedTasks > 0;
+    const last = this.lastScale.get(pool.id);
+    if (!fromZero && last && now - Date.parse(last.at) < (pool.cooldownMs ?? DEFAULT_COOLDOWN_MS)) return undefined;
+
+    // Tasks waiting beyond the free slots of available pool agents
+    const freeSlots = this.available(pool).reduce((sum, a) => sum + a.config.maxConcurrency - a.activeTasks, 0);
+    const waiting = Math.max(0, status.queuedTasks - freeSlots);
+    const room = pool.maxInstances - members.length;
+    const depth = pool.scaleUpQueueDepth ?? DEFAULT_SCALE_UP_QUEUE_DEPTH;
+    if (room > 0 && (fromZero || waiting >= depth)) {
+      const count = Math.min(room, Math.max(1, Math.floor(waiting / depth)));
+      return this.scaleUp(pool, count, `${waiting} task(s) waiting for tag ${pool.tag}`, now);
+    }
+    if (room > 0 && status.capacity > 0 && status.utilization >= (pool.scaleUpUtilization ?? DEFAULT_SCALE_UP_UTILIZATION)) {
+      return this.scaleUp(pool, 1, `${status.activeTasks}/${status.capacity} slots busy`, now);
+    }
+
+    // Extra agents idle for scaleDownIdleMs, newest first, keeping minInstances
+    if (waiting > 0 || members.length <= pool.minInstances) return undefined;
+    const idleMs = pool.scaleDownIdleMs ?? DEFAULT_SCALE_DOWN_IDLE_MS;
+    const idle = members
+      .filter(a => a.activeTasks === 0 && a.state !== 'busy' && a.state !== 'running'
+        && now - (a.lastActivityAt ?? a.startedAt ?? new Date(0)).getTime() >= idleMs)
+      .reverse()
+      .slice(0, members.length - pool.minInstances);
+    if (idle.length === 0) return undefined;
+    for (const agent of idle) this.stopAgent(agent.config.id);
+    return this.record(pool, 'down', idle.map(a => a.config.id), `idle for ${Math.round(idleMs / 1000)}s`, now);
+  }
+
+  /** Register agents from the pool's template - the template store adds the pool's tag */
+  private scaleUp(pool: AgentPoolDefinition, count: number, reason: string, now: number): PoolScaleAction | undefined {
+    const started: string[] = [];
+    for (let n = 1; started.length < count; n++) {
+      const id = `${pool.id}-${n}`;
+      if (agentRegistry.get(id)) continue;
+      agentRegistry.register(agentTemplateStore.buildAgentConfig(pool.template, id, id, {}, pool.id));
+      started.push(id);
+    }
+    return started.length > 0 ? this.record(pool, 'up', started, reason, now) : undefined;
+  }
+
+  private record(pool: AgentPoolDefinition, direction: PoolScaleAction['direction'], agentIds: string[], reason: string, now: number): PoolScaleAction {
+    const action: PoolScaleAction = {
+      poolId: pool.id,
+      tag: pool.tag,
+      direction,
+      agentIds,
+      instances: this.members(pool.id).length,
+      reason,
+    };
+    this.lastScale.set(pool.id, { ...action, at: new Date(now).toISOString() });
+    logger.info(`Agent pool ${pool.id} scaled ${direction} to ${action.instances}: ${agentIds.join(', ')} (${reason})`);
+    eventBus.emitEvent('pool:scaled', action);
+    return action;
+  }
+
+  private stopAgent(agentId: string): void {
+    agentRegistry.unregister(agentId);
+    killSession(agentId);
+    closeMcpAgent(agentId);
+  }
+
+  /** Registered agents the pool spawned, oldest first */
+  private members(poolId: string): AgentInstance[] {
+    return agentRegistry.getAll()
+      .filter(a => a.config.pool === poolId)
+      .sort((a, b) => (a.startedAt?.getTime() ?? 0) - (b.startedAt?.getTime() ?? 0));
+  }
+
+  private available(pool: AgentPoolDefinition): AgentInstance[] {
+    return agentRegistry.findAvailable([pool.tag]).filter(a => a.config.pool === pool.id);
+  }
+
+  /** Queued tasks whose skill routes to the pool's tag or one of its agents */
+  private queuedTasks(pool: AgentPoolDefinition): number {
+    return taskQueue.list().filter(entry => {
+      if (entry.status !== 'queued') return false;
+      const skill = skillStore.get(entry.skillId);
+      return !!skill && (!!skill.targetTags?.includes(pool.tag)
+        || !!skill.targetAgents?.some(id => agentRegistry.get(id)?.config.pool === pool.id));
+    }).length;
+  }
+
+  /** Start scheduled evaluation - also on every queued task, so a spike scales up before dispatch */
+  start(): void {
+    if (this.scanTimer) return;
+    if (!this.listening) eventBus.onEvent('task:queued', () => { if (this.scanTimer) this.evaluate(); });
+    this.listening = true;
+    this.scanTimer = setInterval(() => { this.evaluate(); }, SCAN_INTERVAL_MS);
+    this.scanTimer.unref();
+    this.evaluate();
+    logger.info(`Agent pool autoscaling started (${this.pools.size} pool(s))`);
+  }
+
+  /** Stop the evaluation timer (shutdown) - pool agents keep running until the process exits */
+  stop(): void {
+    if (this.scanTimer) clearInterval(this.scanTimer);
+    this.scanTimer = null;
+  }
+}
+
+/** Singleton agent pool manager */
+export const agentPools = new AgentPoolManager();
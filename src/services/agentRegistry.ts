@@ -3,7 +3,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { AgentConfig, AgentInstance, AgentState, AgentHealth } from '../types/index.js';
+import { AgentConfig, AgentCircuit, AgentInstance, AgentState, AgentHealth } from '../types/index.js';
 import { logger } from './logger.js';
 import { eventBus } from './events.js';
 import { getAgentsDir } from './dataDir.js';
@@ -12,6 +12,16 @@ import { watchConfigFile, ConfigWatcher } from './configWatcher.js';
 const AGENTS_DIR = getAgentsDir();
 const AGENTS_FILE = path.join(AGENTS_DIR, 'agents.json');
 
+/** Consecutive failed responses that open an agent's circuit */
+const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 3;
+
+export function circuitFailureThreshold(): number {
+  const n = Number(process.env.MCP_CIRCUIT_FAILURE_THRESHOLD);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_CIRCUIT_FAILURE_THRESHOLD;
+}
+
+const closedCircuit = (trips = 0): AgentCircuit => ({ state: 'closed', failures: 0, openedAt: 0, trips });
+
 /** In-memory registry of all known agents and their runtime state */
 class AgentRegistry {
   private agents: Map<string, AgentInstance> = new Map();
@@ -88,6 +98,7 @@ class AgentRegistry {
       costAccumulated: 0,
       premiumRequests: 0,
       startedAt: new Date(),
+      circuit: closedCircuit(),
     };
   }
 
@@ -181,6 +192,7 @@ class AgentRegistry {
       costAccumulated: 0,
       premiumRequests: 0,
       startedAt: new Date(),
+      circuit: closedCircuit(),
     };
 
     this.agents.set(config.id, instance);
@@ -201,6 +213,17 @@ class AgentRegistry {
     if (!instance) return undefined;
 
     const prev = { ...instance.config };
+    // Changed settings of a template-derived agent become overrides, so template upgrades keep them -
+    // a cleared setting is recorded as null so the template cannot bring it back
+    const ref = instance.config.template;
+    if (ref && !('template' in partial)) {
+      const changed = Object.entries(partial)
+        .filter(([key, value]) => key !== 'name' && key !== 'pool' && JSON.stringify(value) !== JSON.stringify((prev as any)[key]))
+        .map(([key, value]) => [key, value === undefined ? null : value]);
+      if (changed.length > 0) {
+        partial = { ...partial, template: { ...ref, overrides: { ...ref.overrides, ...Object.fromEntries(changed) } } };
+      }
+    }
     Object.assign(instance.config, partial, { id: agentId }); // id is immutable
     this.save();
     logger.info(`Updated agent config: ${agentId}`);
@@ -252,10 +275,11 @@ class AgentRegistry {
     return this.getAll().filter(a => a.config.provider === provider);
   }
 
-  /** Find agents available for work (not stopped/error, below concurrency limit) */
+  /** Find agents available for work (not stopped/error, circuit closed, below concurrency limit) */
   findAvailable(tags?: string[]): AgentInstance[] {
     return this.getAll().filter(a => {
       const available = (a.state === 'idle' || a.state === 'running') &&
+        a.circuit.state === 'closed' &&
         a.activeTasks < a.config.maxConcurrency;
       if (!available) return false;
       if (tags && tags.length > 0) {
@@ -265,10 +289,26 @@ class AgentRegistry {
     });
   }
 
-  /** Update agent state */
+  /**
+   * Update agent state. Setting 'error' opens the agent's circuit so half-open probes can
+   * recover it; setting 'idle' or 'running' closes an open circuit (manual recovery).
+   */
   setState(agentId: string, state: AgentState, error?: string): void {
     const instance = this.agents.get(agentId);
     if (!instance) return;
+    if (state === 'error' && instance.circuit.state === 'closed') {
+      this.openCircuit(agentId, error || 'Agent set to error');
+      return;
+    }
+    let circuit: AgentCircuit | undefined;
+    if ((state === 'idle' || state === 'running') && instance.circuit.state !== 'closed') {
+      circuit = closedCircuit(instance.circuit.trips);
+    }
+    this.transition(instance, state, error, circuit, circuit ? 'Agent state reset' : undefined);
+  }
+
+  /** Apply a state (and circuit) change and emit agent:state-changed when anything changed */
+  private transition(instance: AgentInstance, state: AgentState, error?: string, circuit?: AgentCircuit, reason?: string): void {
     const previousState = instance.state;
     instance.state = state;
     instance.lastActivityAt = new Date();
@@ -276,13 +316,53 @@ class AgentRegistry {
     if (state === 'running' && !instance.startedAt) {
       instance.startedAt = new Date();
     }
-    if (previousState !== state) {
-      eventBus.emitEvent('agent:state-changed', { agentId, previousState, newState: state, error });
+    if (circuit) instance.circuit = circuit;
+    if (previousState !== state || circuit) {
+      eventBus.emitEvent('agent:state-changed', {
+        agentId: instance.config.id,
+        previousState,
+        newState: state,
+        error,
+        ...(circuit ? { circuit: circuit.state, reason } : {}),
+      });
     }
   }
 
-  /** Record task completion for an agent */
-  recordTaskComplete(agentId: string, tokens: number, cost: number, success: boolean, premiumRequests = 0): void {
+  /** Quarantine an agent: open its circuit and put it in the error state until a probe succeeds */
+  openCircuit(agentId: string, reason: string): void {
+    const instance = this.agents.get(agentId);
+    if (!instance) return;
+    const { circuit } = instance;
+    // A failed half-open probe re-opens without counting a new trip
+    const trips = circuit.state === 'half-open' ? circuit.trips : circuit.trips + 1;
+    logger.warn(`Agent ${agentId} circuit OPEN: ${reason}`);
+    this.transition(instance, 'error', reason, { ...circuit, state: 'open', openedAt: Date.now(), trips, reason }, reason);
+  }
+
+  /** Mark an open circuit half-open while a probe prompt is in flight */
+  halfOpenCircuit(agentId: string): void {
+    const instance = this.agents.get(agentId);
+    if (!instance || instance.circuit.state !== 'open') return;
+    const now = Date.now();
+    this.transition(instance, instance.state, undefined, { ...instance.circuit, state: 'half-open', lastProbeAt: now }, 'Cooldown elapsed - probing');
+  }
+
+  /** Close an agent's circuit and return it to service */
+  closeCircuit(agentId: string, reason: string): void {
+    const instance = this.agents.get(agentId);
+    if (!instance || instance.circuit.state === 'closed') return;
+    logger.info(`Agent ${agentId} circuit CLOSED: ${reason}`);
+    this.transition(instance, instance.activeTasks > 0 ? 'running' : 'idle', undefined, {
+      ...closedCircuit(instance.circuit.trips),
+      lastProbeAt: instance.circuit.lastProbeAt,
+    }, reason);
+  }
+
+  /**
+   * Record task completion for an agent. Consecutive failures (other than cancellations)
+   * open the agent's circuit once they reach the threshold; a success resets the count.
+   */
+  recordTaskComplete(agentId: string, tokens: number, cost: number, success: boolean, premiumRequests = 0, error?: string): void {
     const instance = this.agents.get(agentId);
     if (!instance) return;
 
@@ -294,8 +374,10 @@ class AgentRegistry {
 
     if (success) {
       instance.tasksCompleted++;
+      instance.circuit.failures = 0;
     } else {
       instance.tasksFailed++;
+      if (error !== 'Task cancelled') instance.circuit.failures++;
     }
 
     // Return to idle if no active tasks
@@ -304,6 +386,31 @@ class AgentRegistry {
     } else if (instance.activeTasks > 0 && instance.state === 'busy' && instance.activeTasks < instance.config.maxConcurrency) {
       instance.state = 'running';
     }
+
+    const threshold = circuitFailureThreshold();
+    if (instance.circuit.state === 'closed' && instance.circuit.failures >= threshold) {
+      this.openCircuit(agentId, `${instance.circuit.failures} consecutive failures${error ? ` (last: ${error})` : ''}`);
+    }
+  }
+
+  /**
+   * Record an ACP session process that exited without being stopped. The pool replaces it on
+   * the next task; the crash shows in the agent's error, health and agent:state-changed.
+   */
+  recordSessionCrash(agentId: string, reason: string): void {
+    const instance = this.agents.get(agentId);
+    if (!instance) return;
+    instance.sessionCrashes = (instance.sessionCrashes ?? 0) + 1;
+    instance.lastSessionCrash = { at: new Date().toISOString(), reason };
+    instance.error = reason;
+    logger.warn(`Agent ${agentId}: ${reason} (${instance.sessionCrashes} crash(es))`);
+    eventBus.emitEvent('agent:state-changed', {
+      agentId,
+      previousState: instance.state,
+      newState: instance.state,
+      error: reason,
+      reason: 'ACP session crashed - restarting on next task',
+    });
   }
 
   /** Mark an agent as working on a task */
@@ -330,6 +437,8 @@ class AgentRegistry {
         tasksCompleted: instance.tasksCompleted,
         tasksFailed: instance.tasksFailed,
         avgLatencyMs: undefined,
+        circuit: { ...instance.circuit },
+        ...(instance.sessionCrashes ? { sessionCrashes: instance.sessionCrashes, lastSessionCrash: instance.lastSessionCrash } : {}),
       };
     }
     return this.getAll().map(a => ({
@@ -340,6 +449,7 @@ class AgentRegistry {
       tasksCompleted: a.tasksCompleted,
       tasksFailed: a.tasksFailed,
       avgLatencyMs: undefined,
+      circuit: { ...a.circuit },
     }));
   }
 
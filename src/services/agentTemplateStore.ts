@@ -0,0 +1,275 @@
+// mcp-agent-manager/src/services/agentTemplateStore.ts
+// Manages agent templates - named, inheritable agent settings persisted alongside agents.json
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentConfig, AgentInstance, AgentTemplate, AgentTemplateOverrides, AgentTemplateSettings } from '../types/index.js';
+import { logger } from './logger.js';
+import { agentRegistry } from './agentRegistry.js';
+import { getAgentsDir } from './dataDir.js';
+
+const TEMPLATES_FILE = path.join(getAgentsDir(), 'templates.json');
+
+const TEMPLATE_ID = /^[a-z0-9][a-z0-9._-]*$/;
+
+/** Required agent fields not set by the template chain or overrides - the mgr_spawn_agent defaults */
+const AGENT_DEFAULTS: AgentTemplateSettings = {
+  transport: 'stdio',
+  tags: [],
+  canMutate: false,
+  costMultiplier: 1,
+  maxConcurrency: 1,
+  timeoutMs: 60000,
+};
+
+/** One agent in a template upgrade */
+export interface TemplateUpgradeResult {
+  agentId: string;
+  /** Template the agent was created from (the upgraded one or a template extending it) */
+  template: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Config fields whose value changes */
+  changedFields: string[];
+}
+
+/** Later layers win; nested settings (rateLimit, healthCheck, ...) are replaced whole, not merged, and null clears a setting */
+function mergeSettings(...layers: Array<AgentTemplateOverrides | undefined>): AgentTemplateSettings {
+  const merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value === null) delete merged[key];
+      else if (value !== undefined) merged[key] = value;
+    }
+  }
+  return merged as AgentTemplateSettings;
+}
+
+class AgentTemplateStore {
+  private templates: Map<string, AgentTemplate> = new Map();
+  private loaded = false;
+  /** Tag a pool adds to its agents - set by agentPools, which builds on this store */
+  private poolTag: (poolId: string) => string | undefined = () => undefined;
+
+  /** Load templates from disk */
+  load(): void {
+    this.loaded = true;
+    if (!fs.existsSync(TEMPLATES_FILE)) return;
+    try {
+      const arr: AgentTemplate[] = JSON.parse(fs.readFileSync(TEMPLATES_FILE, 'utf-8'));
+      if (!Array.isArray(arr)) throw new Error('templates.json is not an array');
+      for (const t of arr) this.templates.set(t.id, t);
+      logger.info(`Loaded ${this.templates.size} agent templates from disk`);
+    } catch (err) {
+      logger.error('Failed to load agent templates', { error: String(err) });
+    }
+  }
+
+  private persist(): void {
+    try {
+      fs.mkdirSync(path.dirname(TEMPLATES_FILE), { recursive: true });
+      const arr = Array.from(this.templates.values());
+      fs.writeFileSync(TEMPLATES_FILE, JSON.stringify(arr, null, 2), 'utf-8');
+      logger.debug(`Persisted ${arr.length} agent templates`);
+    } catch (err) {
+      logger.error('Failed to persist agent templates', { error: String(err) });
+    }
+  }
+
+  /** Structural validation: id format, settings shape, known parent, no inheritance cycle */
+  validate(def: Pick<AgentTemplate, 'id' | 'extends' | 'settings'>): string[] {
+    if (!this.loaded) this.load();
+    const errors: string[] = [];
+    if (!def.id) errors.push('Template id is required');
+    else if (!TEMPLATE_ID.test(def.id)) errors.push(`Template id "${def.id}" must be lowercase letters, digits, ".", "_" or "-"`);
+
+    if (!def.settings || typeof def.settings !== 'object' || Array.isArray(def.settings)) {
+      errors.push('settings must be an object');
+    } else {
+      for (const key of ['id', 'name', 'template', 'pool']) {
+        if (key in def.settings) errors.push(`settings cannot set ${key} - it belongs to each agent`);
+      }
+    }
+
+    if (def.extends) {
+      const chain = [def.id];
+      let parent: string | undefined = def.extends;
+      while (parent) {
+        chain.push(parent);
+        if (parent === def.id) {
+          errors.push(`Inheritance cycle: ${chain.join(' -> ')}`);
+          break;
+        }
+        const next = this.templates.get(parent);
+        if (!next) {
+          errors.push(`extends unknown template "${parent}"`);
+          break;
+        }
+        parent = next.extends;
+      }
+    }
+    return errors;
+  }
+
+  /** Create or replace a template - throws with all validation errors. Templates extending it get a new version too */
+  save(def: Pick<AgentTemplate, 'id' | 'description' | 'extends' | 'settings'>): AgentTemplate {
+    const errors = this.validate(def);
+    if (errors.length > 0) {
+      throw new Error(`Invalid template ${def.id}: ${errors.join('; ')}`);
+    }
+
+    const previous = this.templates.get(def.id);
+    const updatedAt = new Date().toISOString();
+    const template: AgentTemplate = {
+      id: def.id,
+      ...(def.description ? { description: def.description } : {}),
+      ...(def.extends ? { extends: def.extends } : {}),
+      settings: mergeSettings(def.settings),
+      version: (previous?.version ?? 0) + 1,
+      updatedAt,
+    };
+    this.templates.set(def.id, template);
+    if (previous) {
+      for (const id of this.descendants(def.id)) {
+        const child = this.templates.get(id)!;
+        this.templates.set(id, { ...child, version: child.version + 1, updatedAt });
+      }
+    }
+    this.persist();
+    logger.info(`Saved agent template: ${def.id} (v${template.version})`);
+    return template;
+  }
+
+  /** Remove a template - refused while other templates extend it. Agents created from it keep their config */
+  remove(id: string): boolean {
+    if (!this.loaded) this.load();
+    if (!this.templates.has(id)) return false;
+    const children = Array.from(this.templates.values()).filter(t => t.extends === id).map(t => t.id);
+    if (children.length > 0) {
+      throw new Error(`Template ${id} is extended by ${children.join(', ')} - remove or re-parent them first`);
+    }
+    this.templates.delete(id);
+    this.persist();
+    logger.info(`Removed agent template: ${id}`);
+    return true;
+  }
+
+  get(id: string): AgentTemplate | undefined {
+    if (!this.loaded) this.load();
+    return this.templates.get(id);
+  }
+
+  list(): AgentTemplate[] {
+    if (!this.loaded) this.load();
+    return Array.from(this.templates.values());
+  }
+
+  /** Effective settings: the root ancestor's first, each descendant overriding, this template's last */
+  resolve(id: string): AgentTemplateSettings {
+    const chain: AgentTemplate[] = [];
+    for (let t = this.get(id); t; t = t.extends ? this.templates.get(t.extends) : undefined) chain.unshift(t);
+    if (chain.length === 0) throw new Error(`Template not found: ${id}`);
+    return mergeSettings(...chain.map(t => t.settings));
+  }
+
+  /** Templates that extend this one, directly or through other templates */
+  descendants(id: string): string[] {
+    if (!this.loaded) this.load();
+    const found: string[] = [];
+    const queue = [id];
+    while (queue.length > 0) {
+      const parent = queue.shift()!;
+      for (const t of this.templates.values()) {
+        if (t.extends === parent && !found.includes(t.id)) {
+          found.push(t.id);
+          queue.push(t.id);
+        }
+      }
+    }
+    return found;
+  }
+
+  /** Look up a pool's tag, so pool agents get it on every build without it becoming an override */
+  setPoolTagResolver(resolve: (poolId: string) => string | undefined): void {
+    this.poolTag = resolve;
+  }
+
+  /**
+   * Agent config from a template: spawn defaults, then the resolved template settings, then the overrides
+   * (a null override clears the template's setting).
+   * Agents of a pool also get the pool's tag.
+   */
+  buildAgentConfig(templateId: string, id: string, name: string, overrides: AgentTemplateOverrides = {}, pool?: string): AgentConfig {
+    const template = this.get(templateId);
+    if (!template) throw new Error(`Template not found: ${templateId}`);
+    const settings = mergeSettings(AGENT_DEFAULTS, this.resolve(templateId), overrides);
+    if (!settings.provider) throw new Error(`Template ${templateId} does not set a provider - pass one as an override`);
+    if (!settings.model) throw new Error(`Template ${templateId} does not set a model - pass one as an override`);
+
+    // Null markers are kept so cleared settings stay cleared on the next build
+    const cleanOverrides = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+    const tag = pool && this.poolTag(pool);
+    if (tag && !settings.tags!.includes(tag)) settings.tags = [...settings.tags!, tag];
+    return {
+      ...settings,
+      id,
+      name,
+      ...(pool ? { pool } : {}),
+      endpoint: settings.endpoint || settings.binaryPath || '',
+      ...(settings.args || settings.cliArgs ? { args: settings.args ?? settings.cliArgs } : {}),
+      template: {
+        id: templateId,
+        version: template.version,
+        ...(Object.keys(cleanOverrides).length > 0 ? { overrides: cleanOverrides } : {}),
+      },
+    } as AgentConfig;
+  }
+
+  /** Registered agents created from this template or a template extending it */
+  derivedAgents(id: string): AgentInstance[] {
+    const ids = new Set([id, ...this.descendants(id)]);
+    return agentRegistry.getAll().filter(a => a.config.template && ids.has(a.config.template.id));
+  }
+
+  /** Whether an agent was built from an older version of its template */
+  isOutdated(config: AgentConfig): boolean {
+    const template = config.template && this.get(config.template.id);
+    return !!template && template.version !== config.template!.version;
+  }
+
+  /**
+   * Rebuild derived agents from the current template chain, keeping each agent's overrides.
+   * Settings the template no longer has are cleared. dryRun reports the changes without applying them.
+   */
+  upgradeAgents(id: string, options: { agentIds?: string[]; dryRun?: boolean } = {}): TemplateUpgradeResult[] {
+    if (!this.get(id)) throw new Error(`Template not found: ${id}`);
+
+    const results: TemplateUpgradeResult[] = [];
+    for (const instance of this.derivedAgents(id)) {
+      const current = instance.config;
+      if (options.agentIds && !options.agentIds.includes(current.id)) continue;
+      const ref = current.template!;
+      const next = this.buildAgentConfig(ref.id, current.id, current.name, ref.overrides, current.pool);
+
+      const keys = new Set([...Object.keys(current), ...Object.keys(next)]);
+      keys.delete('template');
+      const changedFields = [...keys].filter(k =>
+        JSON.stringify((current as any)[k]) !== JSON.stringify((next as any)[k]));
+      results.push({ agentId: current.id, template: ref.id, fromVersion: ref.version, toVersion: next.template!.version, changedFields });
+      if (options.dryRun || (changedFields.length === 0 && ref.version === next.template!.version)) continue;
+
+      const update: Record<string, unknown> = { ...next };
+      delete update.id;
+      for (const key of Object.keys(current)) {
+        if (!(key in next)) update[key] = undefined;
+      }
+      agentRegistry.update(current.id, update);
+    }
+
+    if (!options.dryRun) logger.info(`Upgraded ${results.length} agent(s) from template ${id}`);
+    return results;
+  }
+}
+
+/** Singleton agent template store */
+export const agentTemplateStore = new AgentTemplateStore();
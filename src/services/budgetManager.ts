@@ -0,0 +1,300 @@
+// mcp-agent-manager/src/services/budgetManager.ts
+// Spending limits per agent, skill, provider or globally over daily / weekly / monthly
+// windows (UTC). Soft limits emit budget:warning; hard limits make routeTask reject the
+// task or reroute it to agents still under budget. Budgets and usage persist to the state dir.
+
+import type {
+  AgentConfig,
+  AgentResponse,
+  BudgetAction,
+  BudgetDefinition,
+  BudgetMetric,
+  BudgetScope,
+  BudgetStatus,
+  BudgetWindow,
+  SkillDefinition,
+} from '../types/index.js';
+import { agentRegistry } from './agentRegistry.js';
+import { eventBus } from './events.js';
+import { logger } from './logger.js';
+import { persistBudgets, readBudgets, type BudgetsSnapshot } from './sharedState.js';
+
+const SCOPES: BudgetScope[] = ['global', 'agent', 'skill', 'provider'];
+const WINDOWS: BudgetWindow[] = ['daily', 'weekly', 'monthly'];
+const METRICS: BudgetMetric[] = ['cost', 'tokens', 'premiumRequests'];
+const ACTIONS: BudgetAction[] = ['reject', 'reroute'];
+
+type BudgetInput = Omit<BudgetDefinition, 'createdAt' | 'updatedAt'>;
+type Usage = BudgetsSnapshot['usage'][string];
+
+/** Validate a budget definition. Returns error messages (empty = valid). */
+export function validateBudget(budget: Partial<BudgetInput>): string[] {
+  const errors: string[] = [];
+  if (!budget.id) errors.push('id is required');
+  if (!SCOPES.includes(budget.scope!)) errors.push(`scope must be one of ${SCOPES.join(' | ')}`);
+  if (budget.scope && budget.scope !== 'global' && !budget.target) errors.push(`${budget.scope} budgets require a target`);
+  if (!WINDOWS.includes(budget.window!)) errors.push(`window must be one of ${WINDOWS.join(' | ')}`);
+  if (!METRICS.includes(budget.metric!)) errors.push(`metric must be one of ${METRICS.join(' | ')}`);
+  if (budget.onExceeded !== undefined && !ACTIONS.includes(budget.onExceeded)) {
+    errors.push(`onExceeded must be one of ${ACTIONS.join(' | ')}`);
+  }
+  if (budget.softLimit === undefined && budget.hardLimit === undefined) errors.push('softLimit or hardLimit is required');
+  for (const key of ['softLimit', 'hardLimit'] as const) {
+    const value = budget[key];
+    if (value !== undefined && !(value > 0)) errors.push(`${key} must be a number > 0`);
+  }
+  if (budget.softLimit !== undefined && budget.hardLimit !== undefined && budget.softLimit > budget.hardLimit) {
+    errors.push('softLimit must not exceed hardLimit');
+  }
+  return errors;
+}
+
+/** Start of the window containing `at` - UTC midnight, Monday, or the 1st of the month */
+export function windowStart(window: BudgetWindow, at: Date = new Date()): Date {
+  const y = at.getUTCFullYear();
+  const m = at.getUTCMonth();
+  const d = at.getUTCDate();
+  switch (window) {
+    case 'daily': return new Date(Date.UTC(y, m, d));
+    case 'weekly': return new Date(Date.UTC(y, m, d - ((at.getUTCDay() + 6) % 7)));
+    case 'monthly': return new Date(Date.UTC(y, m, 1));
+  }
+}
+
+function windowEnd(window: BudgetWindow, start: Date): Date {
+  const y = start.getUTCFullYear();
+  const m = start.getUTCMonth();
+  const d = start.getUTCDate();
+  switch (window) {
+    case 'daily': return new Date(Date.UTC(y, m, d + 1));
+    case 'weekly': return new Date(Date.UTC(y, m, d + 7));
+    case 'monthly': return new Date(Date.UTC(y, m + 1, 1));
+  }
+}
+
+/** Amount a response adds to a metric */
+function measure(response: AgentResponse, metric: BudgetMetric): number {
+  switch (metric) {
+    case 'cost': return response.costUnits;
+    case 'tokens': return response.tokenCount;
+    case 'premiumRequests': return response.premiumRequests || 0;
+  }
+}
+
+/** Does an agent-scoped or provider-scoped budget cover this agent */
+function coversAgent(budget: BudgetDefinition, agent: Pick<AgentConfig, 'id' | 'provider'>): boolean {
+  return (budget.scope === 'agent' && budget.target === agent.id)
+    || (budget.scope === 'provider' && budget.target === agent.provider);
+}
+
+/** Does a global or skill-scoped budget cover this skill */
+function coversSkill(budget: BudgetDefinition, skillId: string): boolean {
+  return budget.scope === 'global' || (budget.scope === 'skill' && budget.target === skillId);
+}
+
+/** Hard-limit behaviour - unset, global/skill budgets reject (narrowing would keep spending) and agent/provider budgets reroute */
+export function exceededAction(budget: BudgetDefinition): BudgetAction {
+  return budget.onExceeded ?? (budget.scope === 'global' || budget.scope === 'skill' ? 'reject' : 'reroute');
+}
+
+/** Human-readable budget summary for errors and logs */
+export function describeBudget(status: BudgetStatus): string {
+  return `"${status.id}" (${status.scope}${status.target ? ` ${status.target}` : ''}, ${status.window} ${status.metric}) ` +
+    `used ${status.used} of ${status.hardLimit ?? status.softLimit}`;
+}
+
+/** Candidates left after hard limits are applied */
+export interface BudgetCheck {
+  agents: AgentConfig[];
+  /** Exhausted budgets that removed agents or narrowed routing to the cheapest ones */
+  rerouted: BudgetStatus[];
+  /** Exhausted budget that blocks the task (onExceeded 'reject', or no agent left under budget) */
+  rejected?: BudgetStatus;
+}
+
+const round = (n: number) => Math.round(n * 1e6) / 1e6;
+
+class BudgetManager {
+  private budgets: Map<string, BudgetDefinition> = new Map();
+  private usage: Map<string, Usage> = new Map();
+  private loaded = false;
+
+  /** Restore budgets and their current-window usage from the state dir */
+  load(): void {
+    this.loaded = true;
+    const snapshot = readBudgets();
+    if (!snapshot) return;
+    for (const budget of snapshot.budgets ?? []) {
+      if (this.budgets.has(budget.id)) continue;
+      this.budgets.set(budget.id, budget);
+      const usage = snapshot.usage?.[budget.id];
+      if (usage) this.usage.set(budget.id, usage);
+    }
+    if (this.budgets.size > 0) logger.info(`Loaded ${this.budgets.size} budget(s)`);
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) this.load();
+  }
+
+  /** Create or replace a budget. Usage carries over unless what it counts changed. */
+  set(input: BudgetInput): BudgetDefinition {
+    this.ensureLoaded();
+    const errors = validateBudget(input);
+    if (errors.length > 0) throw new Error(`Invalid budget ${input.id || '(no id)'}: ${errors.join('; ')}`);
+
+    const existing = this.budgets.get(input.id);
+    const now = new Date().toISOString();
+    const budget: BudgetDefinition = {
+      ...input,
+      target: input.scope === 'global' ? undefined : input.target,
+      createdAt: existing?.createdAt ?? now,
+      ...(existing && { updatedAt: now }),
+    };
+    const sameMeasure = existing && existing.scope === budget.scope && existing.target === budget.target
+      && existing.metric === budget.metric && existing.window === budget.window;
+    const usage = this.usage.get(budget.id);
+    if (!sameMeasure) {
+      this.usage.delete(budget.id);
+    } else if (usage) {
+      // Limits may have moved - re-arm the one-shot events
+      usage.warned = budget.softLimit !== undefined && usage.used >= budget.softLimit;
+      usage.exceeded = budget.hardLimit !== undefined && usage.used >= budget.hardLimit;
+    }
+
+    this.budgets.set(budget.id, budget);
+    this.persist();
+    logger.info(`Budget ${existing ? 'updated' : 'created'}: ${budget.id} (${budget.scope}${budget.target ? ` ${budget.target}` : ''}, ${budget.window} ${budget.metric})`);
+    return budget;
+  }
+
+  /** Remove a budget and its usage */
+  remove(id: string): boolean {
+    this.ensureLoaded();
+    if (!this.budgets.delete(id)) return false;
+    this.usage.delete(id);
+    this.persist();
+    logger.info(`Budget removed: ${id}`);
+    return true;
+  }
+
+  get(id: string): BudgetStatus | undefined {
+    this.ensureLoaded();
+    const budget = this.budgets.get(id);
+    return budget ? this.status(budget) : undefined;
+  }
+
+  /** All budgets with usage in their current window */
+  list(): BudgetStatus[] {
+    this.ensureLoaded();
+    return [...this.budgets.values()].map(b => this.status(b));
+  }
+
+  /**
+   * Apply hard limits to a task's candidate agents. Exhausted agent/provider budgets drop
+   * their agents; exhausted global/skill budgets block the task, or keep only the cheapest
+   * candidates when set to 'reroute'. Budgets set to 'reject' - or leaving no candidate - block it.
+   */
+  check(skill: SkillDefinition, agents: AgentConfig[]): BudgetCheck {
+    this.ensureLoaded();
+    const exhausted = [...this.budgets.values()]
+      .filter(b => b.hardLimit !== undefined && this.currentUsage(b).used >= b.hardLimit);
+    const result: BudgetCheck = { agents, rerouted: [] };
+    if (exhausted.length === 0) return result;
+
+    // Agent / provider budgets first, so skill-wide narrowing picks among agents still under budget
+    const ordered = [...exhausted.filter(b => !coversSkill(b, skill.id)), ...exhausted.filter(b => coversSkill(b, skill.id))];
+    for (const budget of ordered) {
+      const isSkillWide = coversSkill(budget, skill.id);
+      if (!isSkillWide && !result.agents.some(a => coversAgent(budget, a))) continue;
+
+      const status = this.status(budget);
+      if (exceededAction(budget) === 'reject') return { ...result, rejected: status };
+
+      const remaining = isSkillWide
+        ? result.agents.filter(a => a.costMultiplier === Math.min(...result.agents.map(c => c.costMultiplier)))
+        : result.agents.filter(a => !coversAgent(budget, a));
+      if (remaining.length === 0) return { ...result, rejected: status };
+      result.agents = remaining;
+      result.rerouted.push(status);
+    }
+    return result;
+  }
+
+  /** Add a finished task's usage to every budget that covers it */
+  recordUsage(skillId: string, responses: AgentResponse[]): void {
+    this.ensureLoaded();
+    if (this.budgets.size === 0) return;
+    let changed = false;
+
+    for (const budget of this.budgets.values()) {
+      const covered = coversSkill(budget, skillId)
+        ? responses
+        : responses.filter(r => {
+          const agent = agentRegistry.get(r.agentId)?.config;
+          return agent ? coversAgent(budget, agent) : budget.scope === 'agent' && budget.target === r.agentId;
+        });
+      const amount = covered.reduce((sum, r) => sum + measure(r, budget.metric), 0);
+      if (amount <= 0) continue;
+
+      const usage = this.currentUsage(budget);
+      usage.used = round(usage.used + amount);
+      changed = true;
+
+      if (budget.softLimit !== undefined && !usage.warned && usage.used >= budget.softLimit) {
+        usage.warned = true;
+        logger.warn(`Budget ${budget.id} reached its soft limit: ${budget.metric} ${usage.used} / ${budget.softLimit}`);
+        eventBus.emitEvent('budget:warning', this.event(budget, usage.used, budget.softLimit));
+      }
+      if (budget.hardLimit !== undefined && !usage.exceeded && usage.used >= budget.hardLimit) {
+        usage.exceeded = true;
+        logger.warn(`Budget ${budget.id} reached its hard limit: ${budget.metric} ${usage.used} / ${budget.hardLimit}`);
+        eventBus.emitEvent('budget:exceeded', this.event(budget, usage.used, budget.hardLimit));
+      }
+    }
+
+    if (changed) this.persist();
+  }
+
+  /** Usage in the current window - a new window starts from zero */
+  private currentUsage(budget: BudgetDefinition): Usage {
+    const start = windowStart(budget.window).toISOString();
+    let usage = this.usage.get(budget.id);
+    if (!usage || usage.windowStart !== start) {
+      usage = { windowStart: start, used: 0 };
+      this.usage.set(budget.id, usage);
+    }
+    return usage;
+  }
+
+  private status(budget: BudgetDefinition): BudgetStatus {
+    const usage = this.currentUsage(budget);
+    const limit = budget.hardLimit ?? budget.softLimit!;
+    const state = budget.hardLimit !== undefined && usage.used >= budget.hardLimit ? 'exceeded'
+      : budget.softLimit !== undefined && usage.used >= budget.softLimit ? 'warning'
+        : 'ok';
+    return {
+      ...budget,
+      used: usage.used,
+      windowStart: usage.windowStart,
+      resetsAt: windowEnd(budget.window, new Date(usage.windowStart)).toISOString(),
+      utilization: round(usage.used / limit),
+      state,
+    };
+  }
+
+  private event(budget: BudgetDefinition, used: number, limit: number) {
+    return { budgetId: budget.id, scope: budget.scope, target: budget.target, window: budget.window, metric: budget.metric, used, limit };
+  }
+
+  private persist(): void {
+    persistBudgets({
+      budgets: [...this.budgets.values()],
+      usage: Object.fromEntries(this.usage),
+      lastUpdated: new Date().toISOString(),
+    });
+  }
+}
+
+/** Singleton budget manager */
+export const budgetManager = new BudgetManager();
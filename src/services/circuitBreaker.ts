@@ -0,0 +1,75 @@
+// mcp-agent-manager/src/services/circuitBreaker.ts
+// Half-open probes for quarantined agents. agentRegistry opens an agent's circuit after
+// consecutive failures; once the cooldown has passed this sends the agent a short probe
+// prompt (custom agents: a connection check) and closes the circuit on success or re-opens
+// it for another cooldown on failure.
+
+import type { AgentConfig } from '../types/index.js';
+import { probeMcpAgent } from '../providers/index.js';
+import { agentRegistry } from './agentRegistry.js';
+import { probeAgent } from './taskRouter.js';
+import { logger } from './logger.js';
+
+const DEFAULT_COOLDOWN_MS = 60_000;     // Wait 60s before probing an open circuit (half-open)
+const PROBE_SCAN_INTERVAL_MS = 5_000;   // How often open circuits are checked for an elapsed cooldown
+
+export const PROBE_PROMPT = 'Health check: reply with the single word OK.';
+
+let scanTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Cooldown before an open circuit is probed (MCP_CIRCUIT_COOLDOWN_MS) */
+export function circuitCooldownMs(): number {
+  const n = Number(process.env.MCP_CIRCUIT_COOLDOWN_MS);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_COOLDOWN_MS;
+}
+
+/** Send the probe prompt - custom agents only get a connection check, as their tool may have side effects */
+async function sendProbe(agent: AgentConfig): Promise<{ success: boolean; latencyMs: number; error?: string }> {
+  if (agent.provider !== 'custom') return probeAgent(agent, PROBE_PROMPT);
+  const start = Date.now();
+  try {
+    await probeMcpAgent(agent, agent.timeoutMs || 180000);
+    return { success: true, latencyMs: Date.now() - start };
+  } catch (err: any) {
+    return { success: false, latencyMs: Date.now() - start, error: err?.message || String(err) };
+  }
+}
+
+/** Probe one agent whose circuit is open - a successful response closes the circuit */
+async function probe(agentId: string): Promise<void> {
+  const instance = agentRegistry.get(agentId);
+  if (!instance) return;
+  agentRegistry.halfOpenCircuit(agentId);
+  const response = await sendProbe(instance.config);
+
+  // The agent may have been removed or reset while the probe was in flight
+  if (agentRegistry.get(agentId)?.circuit.state !== 'half-open') return;
+  if (response.success) {
+    agentRegistry.closeCircuit(agentId, `Probe succeeded in ${response.latencyMs}ms`);
+  } else {
+    agentRegistry.openCircuit(agentId, `Probe failed: ${response.error || 'no response'}`);
+  }
+}
+
+/** Probe every agent whose circuit has been open for at least the cooldown */
+export async function runDueProbes(now = Date.now()): Promise<void> {
+  const cooldown = circuitCooldownMs();
+  const due = agentRegistry.getAll().filter(a => a.circuit.state === 'open' && now - a.circuit.openedAt >= cooldown);
+  await Promise.all(due.map(a => probe(a.config.id).catch(err => {
+    logger.warn(`Circuit probe for ${a.config.id} failed: ${err}`);
+  })));
+}
+
+/** Start checking open circuits for probes */
+export function startCircuitProbes(): void {
+  if (scanTimer) return;
+  scanTimer = setInterval(() => { void runDueProbes(); }, PROBE_SCAN_INTERVAL_MS);
+  scanTimer.unref();
+  logger.info(`Circuit breaker probes started (cooldown ${circuitCooldownMs() / 1000}s)`);
+}
+
+/** Stop the probe timer (shutdown) */
+export function stopCircuitProbes(): void {
+  if (scanTimer) clearInterval(scanTimer);
+  scanTimer = null;
+}
@@ -0,0 +1,102 @@
+// mcp-agent-manager/src/services/consensusVote.ts
+// Deterministic consensus - normalizes agent answers and tallies majority or
+// success-rate-weighted votes, reporting agreement and dissenting agents.
+
+import type { AgentResponse, ConsensusMode, ConsensusReport, SkillDefinition } from '../types/index.js';
+
+const CONSENSUS_MODES: ConsensusMode[] = ['synthesis', 'majority', 'weighted'];
+
+/** Validate a skill's consensus settings. Returns error messages (empty = valid). */
+export function validateConsensusConfig(
+  skill: Pick<SkillDefinition, 'consensusMode' | 'agreementThreshold' | 'voteExtract'>
+): string[] {
+  const errors: string[] = [];
+  if (skill.consensusMode !== undefined && !CONSENSUS_MODES.includes(skill.consensusMode)) {
+    errors.push(`Unknown consensusMode "${skill.consensusMode}" (expected ${CONSENSUS_MODES.join(' | ')})`);
+  }
+  if (skill.agreementThreshold !== undefined && !(skill.agreementThreshold >= 0 && skill.agreementThreshold <= 1)) {
+    errors.push('agreementThreshold must be between 0 and 1');
+  }
+  if (skill.voteExtract !== undefined) {
+    try { new RegExp(skill.voteExtract); } catch { errors.push(`voteExtract is not a valid regular expression: ${skill.voteExtract}`); }
+  }
+  return errors;
+}
+
+/** JSON with object keys sorted, so equal values compare equal */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Comparable form of an answer: structured output as canonical JSON, otherwise the
+ * voteExtract match (or whole text) lowercased with markdown, quotes, surrounding
+ * punctuation and repeated whitespace removed - "**Positive.**" and "positive" vote together.
+ */
+export function normalizeAnswer(response: AgentResponse, skill: Pick<SkillDefinition, 'voteExtract'>): string {
+  if (response.parsed !== undefined) return canonicalJson(response.parsed);
+  let text = response.content;
+  if (skill.voteExtract) {
+    const match = new RegExp(skill.voteExtract, 'im').exec(text);
+    if (match) text = match[1] ?? match[0];
+  }
+  return text
+    .toLowerCase()
+    .replace(/[*_`~#>"'‘’“”]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[\s.,;:!?()[\]-]+|[\s.,;:!?()[\]-]+$/g, '');
+}
+
+/**
+ * Tally votes over successful responses. Majority counts each agent once; weighted
+ * counts each agent by weightOf(agentId). Ties go to more voters, then the answer seen first.
+ * The winning response is the strongest voter for the winning answer.
+ */
+export function tallyVotes(
+  responses: AgentResponse[],
+  skill: Pick<SkillDefinition, 'voteExtract'>,
+  mode: 'majority' | 'weighted',
+  weightOf: (agentId: string) => number
+): { report: ConsensusReport; winner: AgentResponse } {
+  const groups = new Map<string, { answer: string; weight: number; agents: string[]; best: AgentResponse; bestWeight: number }>();
+
+  for (const r of responses) {
+    const answer = normalizeAnswer(r, skill);
+    const weight = mode === 'weighted' ? weightOf(r.agentId) : 1;
+    const group = groups.get(answer);
+    if (!group) {
+      groups.set(answer, { answer, weight, agents: [r.agentId], best: r, bestWeight: weight });
+      continue;
+    }
+    group.weight += weight;
+    group.agents.push(r.agentId);
+    if (weight > group.bestWeight) {
+      group.best = r;
+      group.bestWeight = weight;
+    }
+  }
+
+  // Array.sort is stable, so equal groups keep first-seen order
+  const ranked = [...groups.values()].sort((a, b) => b.weight - a.weight || b.agents.length - a.agents.length);
+  const total = ranked.reduce((sum, g) => sum + g.weight, 0);
+  const top = ranked[0];
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+
+  return {
+    winner: top.best,
+    report: {
+      mode,
+      answer: top.answer,
+      agreement: total > 0 ? round(top.weight / total) : 0,
+      votes: ranked.map(g => ({ answer: g.answer, weight: round(g.weight), agents: g.agents })),
+      dissenters: ranked.slice(1).flatMap(g => g.agents),
+      escalated: false,
+    },
+  };
+}
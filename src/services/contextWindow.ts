@@ -0,0 +1,70 @@
+// mcp-agent-manager/src/services/contextWindow.ts
+// Per-model context window sizes and conversation history trimming
+
+import { AgentConfig, ChatMessage } from '../types/index.js';
+
+/** Fallback when the model is unknown and the agent sets no contextWindow */
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+/** Known context windows (tokens), matched by model-name prefix - longest prefix wins */
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'claude-': 200_000,
+  'gpt-4o': 128_000,
+  'gpt-4.1': 1_000_000,
+  'gpt-4-turbo': 128_000,
+  'gpt-4': 8_192,
+  'gpt-3.5-turbo': 16_385,
+  'gpt-5': 400_000,
+  'o1': 200_000,
+  'o3': 200_000,
+  'o4-mini': 200_000,
+  'gemini-': 1_000_000,
+  'llama3': 8_192,
+  'llama3.1': 128_000,
+  'mistral': 32_000,
+  'qwen2.5': 32_000,
+};
+
+/** Rough token estimate - same chars/4 heuristic the providers use */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Resolve the context window for an agent: explicit config, then Ollama num_ctx, then model table, then default */
+export function getContextWindow(agent: AgentConfig): number {
+  if (agent.contextWindow && agent.contextWindow > 0) return agent.contextWindow;
+  if (agent.ollama?.numCtx && agent.ollama.numCtx > 0) return agent.ollama.numCtx;
+
+  const model = (agent.model || '').toLowerCase();
+  let best = '';
+  for (const prefix of Object.keys(MODEL_CONTEXT_WINDOWS)) {
+    if (model.startsWith(prefix) && prefix.length > best.length) best = prefix;
+  }
+  return best ? MODEL_CONTEXT_WINDOWS[best] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Keep the newest history turns that fit alongside the prompt and the response budget.
+ * The oldest turns are dropped first; a leading assistant turn is dropped so the
+ * history always starts with a user message (required by the Anthropic API).
+ */
+export function trimHistory(
+  history: ChatMessage[],
+  agent: AgentConfig,
+  prompt: string,
+  maxTokens: number
+): ChatMessage[] {
+  if (history.length === 0) return history;
+
+  let budget = getContextWindow(agent) - maxTokens - estimateTokens(prompt);
+  let start = history.length;
+  while (start > 0) {
+    const cost = estimateTokens(history[start - 1].content);
+    if (cost > budget) break;
+    budget -= cost;
+    start--;
+  }
+
+  while (start < history.length && history[start].role !== 'user') start++;
+  return history.slice(start);
+}
@@ -0,0 +1,224 @@
+// mcp-agent-manager/src/services/conversationStore.ts
+// Persisted multi-turn conversations against an agent or skill.
+// One JSON file per conversation under the conversations data dir.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatMessage, Conversation, RouteTaskOptions, SkillDefinition, TaskRequest, TaskResult } from '../types/index.js';
+import { logger } from './logger.js';
+import { getConversationsDir } from './dataDir.js';
+import { agentRegistry } from './agentRegistry.js';
+import { skillStore } from './skillStore.js';
+import { resolveSkillParams, formatParamErrors } from './skillParams.js';
+import { taskQueue } from './taskQueue.js';
+
+/** Upper bound on stored turns - what is sent is further trimmed per model context window */
+const MAX_STORED_MESSAGES = 500;
+
+export interface StartConversationInput {
+  agentId?: string;
+  skillId?: string;
+  title?: string;
+}
+
+export interface ConversationTurnResult {
+  conversation: Conversation;
+  result: TaskResult;
+}
+
+class ConversationStore {
+  private conversations: Map<string, Conversation> = new Map();
+  private loaded = false;
+  private turnCounter = 0;
+
+  private get dir(): string {
+    return getConversationsDir();
+  }
+
+  /** Load all conversation files from disk */
+  load(): void {
+    this.loaded = true;
+    if (!fs.existsSync(this.dir)) return;
+
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const conv: Conversation = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8'));
+        if (conv?.id && Array.isArray(conv.messages)) this.conversations.set(conv.id, conv);
+      } catch (err: any) {
+        logger.warn(`[Conversations] Skipping corrupt file ${file}: ${err.message}`);
+      }
+    }
+    logger.info(`Loaded ${this.conversations.size} conversations from disk`);
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) this.load();
+  }
+
+  /** Atomic write of a single conversation file */
+  private persist(conv: Conversation): void {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      const file = path.join(this.dir, `${conv.id}.json`);
+      const tmp = file + '.tmp';
+      fs.writeFileSync(tmp, JSON.stringify(conv, null, 2), 'utf-8');
+      fs.renameSync(tmp, file);
+    } catch (err: any) {
+      logger.error(`[Conversations] Failed to persist ${conv.id}: ${err.message}`);
+    }
+  }
+
+  /** Start a new conversation against exactly one agent or skill */
+  create(input: StartConversationInput): Conversation {
+    this.ensureLoaded();
+    if (!!input.agentId === !!input.skillId) {
+      throw new Error('Specify exactly one of agentId or skillId');
+    }
+    if (input.agentId && !agentRegistry.get(input.agentId)) {
+      throw new Error(`Agent not found: ${input.agentId}`);
+    }
+    if (input.skillId && !skillStore.get(input.skillId)) {
+      throw new Error(`Skill not found: ${input.skillId}`);
+    }
+
+    const now = new Date().toISOString();
+    const conv: Conversation = {
+      id: `conv-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      title: input.title,
+      agentId: input.agentId,
+      skillId: input.skillId,
+      status: 'open',
+      messages: [],
+      totalTokens: 0,
+      totalCost: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.conversations.set(conv.id, conv);
+    this.persist(conv);
+    logger.info(`Started conversation ${conv.id} (${conv.agentId ? `agent=${conv.agentId}` : `skill=${conv.skillId}`})`);
+    return conv;
+  }
+
+  get(id: string): Conversation | undefined {
+    this.ensureLoaded();
+    return this.conversations.get(id);
+  }
+
+  /** List conversations, most recently updated first */
+  list(status?: Conversation['status']): Conversation[] {
+    this.ensureLoaded();
+    return Array.from(this.conversations.values())
+      .filter(c => !status || c.status === status)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /** Close a conversation - history is kept on disk, further turns are rejected */
+  close(id: string): Conversation | undefined {
+    const conv = this.get(id);
+    if (!conv) return undefined;
+    if (conv.status !== 'closed') {
+      conv.status = 'closed';
+      conv.closedAt = new Date().toISOString();
+      conv.updatedAt = conv.closedAt;
+      this.persist(conv);
+      logger.info(`Closed conversation ${id}`);
+    }
+    return conv;
+  }
+
+  /**
+   * Send the next user turn. Agent conversations send the message as-is; skill
+   * conversations fill the template on the first turn (message available as {message})
+   * and send follow-ups raw through the skill's routing. Failed turns are not recorded.
+   */
+  async send(
+    id: string,
+    message: string,
+    params: Record<string, string> = {},
+    options: Pick<RouteTaskOptions, 'onChunk'> = {}
+  ): Promise<ConversationTurnResult> {
+    const conv = this.get(id);
+    if (!conv) throw new Error(`Conversation not found: ${id}`);
+    if (conv.status === 'closed') throw new Error(`Conversation ${id} is closed`);
+
+    const taskId = `conv-task-${++this.turnCounter}-${Date.now()}`;
+    const history: ChatMessage[] = conv.messages.map(m => ({ role: m.role, content: m.content }));
+
+    let prompt = message;
+    let turnParams = params;
+    let skillId: string;
+    let ephemeral: SkillDefinition | undefined;
+
+    if (conv.agentId) {
+      if (!agentRegistry.get(conv.agentId)) throw new Error(`Agent not found: ${conv.agentId}`);
+      // Ephemeral skill → task queue → clean up (same pattern as mgr_send_prompt)
+      ephemeral = {
+        id: `_conv_${taskId}`,
+        name: 'Conversation Turn',
+        description: `Turn in conversation ${conv.id}`,
+        promptTemplate: '{prompt}',
+        targetAgents: [conv.agentId],
+        strategy: 'single',
+        version: '0',
+        categories: [],
+      };
+      skillStore.register(ephemeral);
+      skillId = ephemeral.id;
+    } else {
+      const skill = skillStore.get(conv.skillId!);
+      if (!skill) throw new Error(`Skill not found: ${conv.skillId}`);
+      skillId = skill.id;
+      if (conv.messages.length === 0) {
+        // Same checks and defaults as mgr_assign_task - a missing param must not render as ''
+        const checked = resolveSkillParams(skill, { ...params, message });
+        if (checked.errors.length > 0) throw new Error(formatParamErrors(skill, checked.errors));
+        prompt = skillStore.resolvePrompt(skill, checked.params);
+        turnParams = checked.params;
+      } else {
+        turnParams = { ...conv.params, ...params };
+      }
+    }
+
+    const request: TaskRequest = {
+      taskId,
+      skillId,
+      params: { ...turnParams, prompt: message, message },
+      resolvedPrompt: prompt,
+      priority: 0,
+      createdAt: new Date(),
+      callerContext: `conversation:${conv.id}`,
+    };
+
+    let result: TaskResult;
+    try {
+      // Queued like any other task: priority order, agent capacity, mgr_cancel_task
+      result = await taskQueue.submit(request, { ...options, history });
+    } finally {
+      if (ephemeral) skillStore.remove(ephemeral.id);
+    }
+
+    if (result.success) {
+      const now = new Date().toISOString();
+      if (conv.skillId && conv.messages.length === 0) conv.params = turnParams;
+      const answeredBy = result.responses.find(r => r.success)?.agentId;
+      conv.messages.push(
+        { role: 'user', content: prompt, timestamp: now },
+        { role: 'assistant', content: result.finalContent, timestamp: now, agentId: answeredBy },
+      );
+      if (conv.messages.length > MAX_STORED_MESSAGES) {
+        conv.messages.splice(0, conv.messages.length - MAX_STORED_MESSAGES);
+      }
+      conv.totalTokens += result.totalTokens;
+      conv.totalCost += result.totalCost;
+      conv.updatedAt = now;
+      this.persist(conv);
+    }
+
+    return { conversation: conv, result };
+  }
+}
+
+/** Singleton conversation store */
+export const conversationStore = new ConversationStore();
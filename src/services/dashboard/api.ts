@@ -6,11 +6,16 @@ import { readFile } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
 import { logger } from '../logger.js';
 import { agentRegistry } from '../agentRegistry.js';
-import { getRouterMetrics, routeTask, clearTaskHistory } from '../taskRouter.js';
+import { getRouterMetrics, clearTaskHistory } from '../taskRouter.js';
+import { taskQueue } from '../taskQueue.js';
 import { killSession, killAllSessions } from '../../providers/copilot.js';
+import { closeMcpAgent, closeAllMcpAgents } from '../../providers/mcpAgent.js';
+import { isKnownProvider } from '../../providers/index.js';
+import { agentTemplateStore } from '../agentTemplateStore.js';
 import { workspaceMonitor, workspaceHistory } from '../workspace/index.js';
 import { automationEngine } from '../automation/index.js';
 import { skillStore } from '../skillStore.js';
+import { paramMappingErrors } from '../skillParams.js';
 import { createIssueFromReview, isAutoIssueEnabled } from '../githubIssues.js';
 import { agentMailbox, MAX_TTL_SECONDS } from '../agentMailbox.js';
 import type { AgentMessage } from '../agentMailbox.js';
@@ -121,6 +126,7 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
           cliArgs: params.cliArgs,
           args: params.cliArgs,
           env: params.env,
+          systemPrompt: params.systemPrompt || undefined,
         };
         agentRegistry.register(config as any);
         sendJSON(res, { status: 'registered', agent: config.id, provider: config.provider, model: config.model });
@@ -199,6 +205,18 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
         name: params.name,
         description: params.description || '',
         promptTemplate: params.promptTemplate,
+        systemPrompt: params.systemPrompt || undefined,
+        parameters: params.parameters,
+        outputSchema: params.outputSchema,
+        outputRepairAttempts: params.outputRepairAttempts,
+        evaluator: params.evaluator,
+        consensusMode: params.consensusMode,
+        agreementThreshold: params.agreementThreshold,
+        voteExtract: params.voteExtract,
+        exploration: params.exploration,
+        adaptiveWeights: params.adaptiveWeights,
+        tools: params.tools?.length ? params.tools : undefined,
+        maxToolIterations: params.maxToolIterations,
         strategy: params.strategy || 'single',
         targetAgents: params.targetAgents,
         targetTags: params.targetTags,
@@ -280,6 +298,7 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
     }
     const existed = agentRegistry.unregister(agentId);
     killSession(agentId);
+    closeMcpAgent(agentId);
     logger.info(`Dashboard: killed agent ${agentId}`);
     sendJSON(res, { killed: true, agentId, existed });
     return true;
@@ -293,11 +312,102 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
       agentRegistry.unregister(inst.config.id);
     }
     killAllSessions();
+    closeAllMcpAgents();
     logger.info(`Dashboard: killed all ${ids.length} agents`);
     sendJSON(res, { killed: true, count: ids.length, agents: ids });
     return true;
   }
 
+  // List agent templates with resolved settings and derived agents
+  if (url === '/api/agent-templates' && req.method === 'GET') {
+    sendJSON(res, agentTemplateStore.list().map(t => {
+      const agents = agentRegistry.getAll().filter(a => a.config.template?.id === t.id);
+      return {
+        ...t,
+        resolved: agentTemplateStore.resolve(t.id),
+        agents: agents.map(a => a.config.id),
+        outdatedAgents: agents.filter(a => agentTemplateStore.isOutdated(a.config)).map(a => a.config.id),
+      };
+    }));
+    return true;
+  }
+
+  // Create or replace an agent template
+  if (url === '/api/agent-templates' && req.method === 'POST') {
+    const body = await readBody(req);
+    try {
+      const params = JSON.parse(body);
+      if (params.settings?.provider && !isKnownProvider(params.settings.provider)) {
+        send400(res, `Unknown provider: ${params.settings.provider}`);
+        return true;
+      }
+      const template = agentTemplateStore.save({
+        id: params.id,
+        description: params.description || undefined,
+        extends: params.extends || undefined,
+        settings: params.settings || {},
+      });
+      sendJSON(res, { status: 'saved', template: template.id, version: template.version });
+    } catch (err: any) {
+      send400(res, err.message);
+    }
+    return true;
+  }
+
+  // POST /api/agent-templates/:id/spawn - register an agent from a template
+  if (req.method === 'POST' && url.match(/^\/api\/agent-templates\/[^/]+\/spawn$/)) {
+    const templateId = decodeURIComponent(url.split('/')[3]);
+    const body = await readBody(req);
+    try {
+      const params = JSON.parse(body);
+      if (!params.id) {
+        send400(res, 'Missing required field: id');
+        return true;
+      }
+      const config = agentTemplateStore.buildAgentConfig(templateId, params.id, params.name || params.id, params.overrides || {});
+      if (!isKnownProvider(config.provider)) {
+        send400(res, `Unknown provider: ${config.provider}`);
+        return true;
+      }
+      agentRegistry.register(config);
+      sendJSON(res, { status: 'registered', agent: config.id, template: config.template, provider: config.provider, model: config.model });
+      broadcastSSE('snapshot', buildSnapshot());
+    } catch (err: any) {
+      send400(res, err.message);
+    }
+    return true;
+  }
+
+  // POST /api/agent-templates/:id/upgrade - rebuild derived agents from the current template
+  if (req.method === 'POST' && url.match(/^\/api\/agent-templates\/[^/]+\/upgrade$/)) {
+    const templateId = decodeURIComponent(url.split('/')[3]);
+    const body = await readBody(req);
+    try {
+      const params = body ? JSON.parse(body) : {};
+      const agents = agentTemplateStore.upgradeAgents(templateId, { agentIds: params.agentIds, dryRun: params.dryRun });
+      sendJSON(res, { status: params.dryRun ? 'dry-run' : 'upgraded', template: templateId, agents });
+      if (!params.dryRun) broadcastSSE('snapshot', buildSnapshot());
+    } catch (err: any) {
+      send400(res, err.message);
+    }
+    return true;
+  }
+
+  // Delete an agent template
+  if (req.method === 'DELETE' && url.startsWith('/api/agent-templates/')) {
+    const templateId = decodeURIComponent(url.slice('/api/agent-templates/'.length));
+    try {
+      if (!agentTemplateStore.remove(templateId)) {
+        send404(res, `Template not found: ${templateId}`);
+        return true;
+      }
+      sendJSON(res, { deleted: true, id: templateId });
+    } catch (err: any) {
+      send400(res, err.message);
+    }
+    return true;
+  }
+
   if (url === '/api/workspaces' && req.method === 'GET') {
     sendJSON(res, workspaceMonitor.getStatus());
     return true;
@@ -406,6 +516,14 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
         send400(res, 'Missing required fields: id, name, skillId, events');
         return true;
       }
+      const skill = skillStore.get(params.skillId);
+      const mappingErrors = skill
+        ? paramMappingErrors(skill, { static: params.staticParams, fromEvent: params.eventParams, templates: params.templateParams })
+        : [];
+      if (mappingErrors.length > 0) {
+        send400(res, `Param mapping does not satisfy skill ${params.skillId}: ${mappingErrors.join('; ')}`);
+        return true;
+      }
       const rule = automationEngine.registerRule(params);
       sendJSON(res, { status: 'created', rule: { id: rule.id, name: rule.name, version: rule.version } });
       broadcastSSE('snapshot', buildSnapshot());
@@ -439,6 +557,20 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
       const body = await readBody(req);
       try {
         const updates = JSON.parse(body);
+        const existing = automationEngine.getRule(ruleId);
+        const skillId = updates.skillId ?? existing?.skillId;
+        const skill = existing && skillId ? skillStore.get(skillId) : undefined;
+        const mappingErrors = skill
+          ? paramMappingErrors(skill, {
+            static: updates.staticParams ?? existing!.paramMapping.static,
+            fromEvent: updates.eventParams ?? existing!.paramMapping.fromEvent,
+            templates: updates.templateParams ?? existing!.paramMapping.templates,
+          })
+          : [];
+        if (mappingErrors.length > 0) {
+          send400(res, `Param mapping does not satisfy skill ${skillId}: ${mappingErrors.join('; ')}`);
+          return true;
+        }
         const updated = automationEngine.updateRule(ruleId, updates);
         if (!updated) {
           send404(res, `Automation rule not found: ${ruleId}`);
@@ -609,8 +741,11 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
         }
       }
 
-      // Create ephemeral skill → routeTask → clean up (same pattern as mgr_send_prompt)
-      const taskId = `ask-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+      // Create ephemeral skill → task queue → clean up (same pattern as mgr_send_prompt)
+      // Dashboard supplies its own taskId so it can match streamed task:chunk events
+      const taskId = typeof params.taskId === 'string' && /^[\w-]{1,64}$/.test(params.taskId)
+        ? params.taskId
+        : `ask-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
       const skill: SkillDefinition = {
         id: `_ask_${taskId}`,
         name: 'Ask Agent',
@@ -632,9 +767,10 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
           priority: 0,
           createdAt: new Date(),
         };
-        const result = await routeTask(request);
+        const result = await taskQueue.submit(request, { stream: true });
         const primary = result.responses[0];
         sendJSON(res, {
+          taskId,
           success: primary?.success ?? false,
           agentId: primary?.agentId ?? agentId,
           content: result.finalContent || primary?.content || '',
@@ -774,6 +910,79 @@ export async function handleAPI(req: IncomingMessage, res: ServerResponse): Prom
     return true;
   }
 
+  // GET /api/queue - queued + running queue entries in dispatch order
+  if (url === '/api/queue' && req.method === 'GET') {
+    sendJSON(res, taskQueue.list());
+    return true;
+  }
+
+  // PUT /api/queue/:taskId - reprioritize a queued task { priority }
+  if (req.method === 'PUT' && url.startsWith('/api/queue/') && url !== '/api/queue/') {
+    const taskId = decodeURIComponent(url.slice('/api/queue/'.length));
+    try {
+      const { priority } = JSON.parse(await readBody(req) || '{}');
+      if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+        send400(res, 'priority must be a number');
+        return true;
+      }
+      const entry = taskQueue.reprioritize(taskId, priority);
+      if (!entry) {
+        send404(res, `Task not in queue: ${taskId}`);
+        return true;
+      }
+      sendJSON(res, entry);
+      broadcastSSE('snapshot', buildSnapshot());
+    } catch (err: any) {
+      send400(res, err.message);
+    }
+    return true;
+  }
+
+  // DELETE /api/queue/:taskId - cancel a queued task
+  if (req.method === 'DELETE' && url.startsWith('/api/queue/') && url !== '/api/queue/') {
+    const taskId = decodeURIComponent(url.slice('/api/queue/'.length));
+    const queued = taskQueue.get(taskId);
+    if (!queued) {
+      send404(res, `Task not in queue: ${taskId}`);
+      return true;
+    }
+    if (queued.status !== 'queued') {
+      send400(res, `Task ${taskId} is already running - use DELETE /api/tasks/${taskId} to abort it`);
+      return true;
+    }
+    taskQueue.cancel(taskId);
+    sendJSON(res, { cancelled: true, taskId });
+    broadcastSSE('snapshot', buildSnapshot());
+    return true;
+  }
+
+  // GET /api/tasks/:taskId - task status (queued/running/completed/failed/cancelled)
+  if (req.method === 'GET' && url.startsWith('/api/tasks/') && url !== '/api/tasks/') {
+    const taskId = decodeURIComponent(url.slice('/api/tasks/'.length));
+    const status = taskQueue.getStatus(taskId);
+    if (!status) {
+      send404(res, `Task not found: ${taskId}`);
+      return true;
+    }
+    sendJSON(res, status);
+    return true;
+  }
+
+  // DELETE /api/tasks/:taskId - cancel a queued or running task
+  if (req.method === 'DELETE' && url.startsWith('/api/tasks/') && url !== '/api/tasks/') {
+    const taskId = decodeURIComponent(url.slice('/api/tasks/'.length));
+    const entry = taskQueue.cancel(taskId);
+    if (!entry) {
+      const status = taskQueue.getStatus(taskId);
+      if (status) send400(res, `Task ${taskId} already finished (${status.status})`);
+      else send404(res, `Task not found: ${taskId}`);
+      return true;
+    }
+    sendJSON(res, { taskId, cancelled: true, wasRunning: entry.status === 'running' });
+    broadcastSSE('snapshot', buildSnapshot());
+    return true;
+  }
+
   // DELETE /api/task-history - clear task history
   if (url === '/api/task-history' && req.method === 'DELETE') {
     clearTaskHistory();
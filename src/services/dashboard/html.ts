@@ -43,6 +43,7 @@ export function getDashboardHTML(): string {
   <div class="card full">
     <h2>Agents <a class="doc-link" href="/api/docs/agents" target="_blank" title="Panel documentation">?</a> <span id="killAllBtn"></span>
       <button class="btn-add" onclick="openAgentModal()">+ Add Agent</button>
+      <button class="btn-add" onclick="openTemplatesModal()">Templates</button>
     </h2>
     <div id="agentsTable"><div class="empty">No agents registered</div></div>
   </div>
@@ -70,6 +71,14 @@ export function getDashboardHTML(): string {
     <div id="automationTable"><div class="empty">No automation rules - use mgr_create_automation tool to add event-driven skill triggers</div></div>
     <div id="automationExecLog" style="margin-top:12px"></div>
   </div>
+  <div class="card full" id="taskQueueCard" style="border-left: 3px solid var(--muted)">
+    <h2>Task Queue <a class="doc-link" href="/api/docs/task-queue" target="_blank" title="Panel documentation">?</a> <span style="font-size:12px;font-weight:normal;margin-left:8px" id="taskQueueStatus"></span></h2>
+    <div id="taskQueueTable" style="max-height:300px;overflow-y:auto;overflow-x:hidden"><div class="empty">Queue is empty - tasks wait here when every target agent is at maxConcurrency</div></div>
+  </div>
+  <div class="card full" id="budgetsCard" style="border-left: 3px solid var(--muted)">
+    <h2>Budgets <a class="doc-link" href="/api/docs/budgets" target="_blank" title="Panel documentation">?</a> <span style="font-size:12px;font-weight:normal;margin-left:8px" id="budgetsStatus"></span></h2>
+    <div id="budgetsTable"><div class="empty">No budgets - use mgr_set_budget to cap spending per agent, skill, provider, or globally</div></div>
+  </div>
   <div class="card full" id="taskHistoryCard" style="border-left: 3px solid var(--yellow)">
     <h2>Task History <a class="doc-link" href="/api/docs/task-history" target="_blank" title="Panel documentation">?</a> <span style="font-size:12px;font-weight:normal;margin-left:8px" id="taskHistoryStatus"></span>
       <button class="btn-action danger" onclick="clearTaskHistory()" style="float:right;margin-top:-2px">Clear</button>
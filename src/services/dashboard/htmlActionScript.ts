@@ -49,9 +49,12 @@ function connectSSE() {
     // NOTE: This list mirrors ALL_EVENT_NAMES from events.ts
     // It must be inline here because this is client-side browser JS
     var eventNames = [
-      'agent:registered', 'agent:unregistered', 'agent:state-changed',
-      'task:started', 'task:completed',
+      'agent:registered', 'agent:unregistered', 'agent:state-changed', 'agent:health-changed',
+      'pool:scaled',
+      'task:queued', 'task:dequeued', 'task:reprioritized',
+      'task:started', 'task:tool-call', 'task:completed',
       'skill:registered', 'skill:removed',
+      'budget:warning', 'budget:exceeded',
       'workspace:monitoring', 'workspace:stopped', 'workspace:file-changed',
       'workspace:session-updated', 'workspace:git-event', 'workspace:remote-update',
       'crossrepo:dispatched', 'crossrepo:completed',
@@ -67,6 +70,12 @@ function connectSSE() {
       })(eventNames[i]);
     }
 
+    // task:chunk is streaming-only: it feeds live output, not the event log
+    es.addEventListener('task:chunk', function(e) {
+      var data = JSON.parse(e.data);
+      if (pendingAskTaskId && data.taskId === pendingAskTaskId) appendAskChunk(data.chunk);
+    });
+
     es.onerror = function() {
       dot.className = 'dot disconnected';
       status.textContent = 'Reconnecting... (polling active)';
@@ -105,13 +114,14 @@ function openAgentModal(existing) {
   var body =
     fieldHTML('agentId', 'ID', 'text', existing ? existing.id : '', { required: true, placeholder: 'my-agent' }) +
     fieldHTML('agentName', 'Name', 'text', existing ? existing.name : '', { required: true }) +
-    fieldHTML('agentProvider', 'Provider', 'select', existing ? existing.provider : 'copilot', { options: ['copilot', 'anthropic', 'openai', 'custom'] }) +
+    fieldHTML('agentProvider', 'Provider', 'select', existing ? existing.provider : 'copilot', { options: ['copilot', 'anthropic', 'openai', 'ollama', 'custom'] }) +
     fieldHTML('agentModel', 'Model', 'text', existing ? existing.model : 'gpt-4o', { required: true }) +
     fieldHTML('agentTags', 'Tags (comma-separated)', 'text', existing ? (existing.tags || []).join(', ') : '') +
     fieldHTML('agentMaxConcurrency', 'Max Concurrency', 'number', existing ? existing.maxConcurrency : '1') +
     fieldHTML('agentCostMultiplier', 'Cost Multiplier', 'number', existing ? existing.costMultiplier : '1') +
     fieldHTML('agentTimeoutMs', 'Timeout (ms)', 'number', existing ? existing.timeoutMs : '60000') +
-    fieldHTML('agentCanMutate', 'Can Mutate', 'select', existing ? String(existing.canMutate) : 'false', { options: ['false', 'true'] });
+    fieldHTML('agentCanMutate', 'Can Mutate', 'select', existing ? String(existing.canMutate) : 'false', { options: ['false', 'true'] }) +
+    fieldHTML('agentSystemPrompt', 'System Prompt (persona / guardrails, sent before each skill system prompt)', 'textarea', existing ? existing.systemPrompt || '' : '', { rows: 3 });
   openModal(title, body, function() { submitAgent(isEdit); }, 'agent');
   if (isEdit) setTimeout(function() { var el = document.getElementById('f_agentId'); if (el) el.disabled = true; }, 0);
 }
@@ -124,6 +134,7 @@ async function submitAgent(isEdit) {
     model: getField('agentModel'),
     tags: getField('agentTags').split(',').map(function(s) { return s.trim(); }).filter(Boolean),
     canMutate: getField('agentCanMutate') === 'true',
+    systemPrompt: getField('agentSystemPrompt').trim(),
   };
   var maxC = parseInt(getField('agentMaxConcurrency'), 10);
   if (!isNaN(maxC) && maxC > 0) payload.maxConcurrency = maxC;
@@ -154,6 +165,128 @@ async function editAgent(id) {
   } catch(e) { alert('Failed: ' + e.message); }
 }
 
+// ── Agent templates ────────────────────────────────────────────────────
+var _agentTemplates = [];
+
+async function openTemplatesModal() {
+  try {
+    var res = await fetch('/api/agent-templates');
+    _agentTemplates = await res.json();
+  } catch(e) { alert('Failed: ' + e.message); return; }
+  var list = _agentTemplates.length === 0
+    ? '<div class="empty">No templates yet</div>'
+    : '<table class="agent-table"><tr><th>Template</th><th>Provider / Model</th><th>Agents</th><th></th></tr>' +
+      _agentTemplates.map(function(t) {
+        var outdated = t.outdatedAgents.length;
+        return '<tr><td><strong>' + esc(t.id) + '</strong> <span style="color:var(--muted);font-size:11px">v' + t.version + (t.extends ? ' extends ' + esc(t.extends) : '') + '</span>' +
+          (t.description ? '<br><span style="color:var(--muted);font-size:11px">' + esc(t.description) + '</span>' : '') + '</td>' +
+          '<td>' + esc(t.resolved.provider || '-') + ' / ' + esc(t.resolved.model || '-') + '</td>' +
+          '<td>' + t.agents.length + (outdated ? ' <span class="badge busy">' + outdated + ' outdated</span>' : '') + '</td>' +
+          '<td><button class="btn-action" data-template-id="' + esc(t.id) + '" onclick="openSpawnFromTemplateModal(this.dataset.templateId)">Spawn</button>' +
+          (outdated ? '<button class="btn-action" data-template-id="' + esc(t.id) + '" onclick="upgradeTemplateAgents(this.dataset.templateId)">Upgrade</button>' : '') +
+          '<button class="btn-kill" data-template-id="' + esc(t.id) + '" onclick="deleteAgentTemplate(this.dataset.templateId)">Delete</button></td></tr>';
+      }).join('') + '</table>';
+  var body = list +
+    '<h3 style="margin:16px 0 8px;font-size:13px">Save template (an existing ID is replaced)</h3>' +
+    fieldHTML('tplId', 'Template ID', 'text', '', { required: true, placeholder: 'copilot-readonly-sonnet' }) +
+    fieldHTML('tplDescription', 'Description', 'text', '') +
+    fieldHTML('tplExtends', 'Extends', 'select', '', { options: [''].concat(_agentTemplates.map(function(t) { return t.id; })) }) +
+    fieldHTML('tplProvider', 'Provider (blank = inherit)', 'select', '', { options: ['', 'copilot', 'anthropic', 'openai', 'ollama', 'custom'] }) +
+    fieldHTML('tplModel', 'Model', 'text', '') +
+    fieldHTML('tplTags', 'Tags (comma-separated)', 'text', '') +
+    fieldHTML('tplCostMultiplier', 'Cost Multiplier', 'number', '') +
+    fieldHTML('tplTimeoutMs', 'Timeout (ms)', 'number', '') +
+    fieldHTML('tplMaxConcurrency', 'Max Concurrency', 'number', '') +
+    fieldHTML('tplCanMutate', 'Can Mutate', 'select', '', { options: ['', 'false', 'true'] }) +
+    fieldHTML('tplCliArgs', 'CLI Args (space-separated)', 'text', '', { placeholder: '--acp' }) +
+    fieldHTML('tplSystemPrompt', 'System Prompt', 'textarea', '', { rows: 2 });
+  openModal('Agent Templates', body, submitAgentTemplate, '');
+  document.getElementById('modalSubmit').textContent = 'Save Template';
+}
+
+async function submitAgentTemplate() {
+  var settings = {};
+  if (getField('tplProvider')) settings.provider = getField('tplProvider');
+  if (getField('tplModel').trim()) settings.model = getField('tplModel').trim();
+  var tags = getField('tplTags').split(',').map(function(s) { return s.trim(); }).filter(Boolean);
+  if (tags.length) settings.tags = tags;
+  var costM = parseFloat(getField('tplCostMultiplier'));
+  if (!isNaN(costM) && costM > 0) settings.costMultiplier = costM;
+  var timeout = parseInt(getField('tplTimeoutMs'), 10);
+  if (!isNaN(timeout) && timeout > 0) settings.timeoutMs = timeout;
+  var maxC = parseInt(getField('tplMaxConcurrency'), 10);
+  if (!isNaN(maxC) && maxC > 0) settings.maxConcurrency = maxC;
+  if (getField('tplCanMutate')) settings.canMutate = getField('tplCanMutate') === 'true';
+  var cliArgs = getField('tplCliArgs').split(' ').filter(Boolean);
+  if (cliArgs.length) settings.cliArgs = cliArgs;
+  if (getField('tplSystemPrompt').trim()) settings.systemPrompt = getField('tplSystemPrompt').trim();
+  try {
+    var res = await fetch('/api/agent-templates', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: getField('tplId').trim(), description: getField('tplDescription').trim(), extends: getField('tplExtends'), settings: settings }),
+    });
+    var data = await res.json();
+    if (!res.ok) { alert('Error: ' + (data.error || res.statusText)); return; }
+    openTemplatesModal();
+  } catch(e) { alert('Failed: ' + e.message); }
+}
+
+function openSpawnFromTemplateModal(templateId) {
+  var t = _agentTemplates.find(function(x) { return x.id === templateId; }) || { resolved: {} };
+  var body =
+    fieldHTML('spawnId', 'Agent ID', 'text', '', { required: true, placeholder: templateId + '-1' }) +
+    fieldHTML('spawnName', 'Name (default: ID)', 'text', '') +
+    '<div style="margin:8px 0;font-size:12px;color:var(--muted)">Leave blank to use the template. Filled fields override it for this agent and survive template upgrades.</div>' +
+    fieldHTML('spawnModel', 'Model', 'text', '', { placeholder: t.resolved.model || '' }) +
+    fieldHTML('spawnTags', 'Tags (comma-separated)', 'text', '', { placeholder: (t.resolved.tags || []).join(', ') });
+  openModal('Spawn from ' + templateId, body, function() { spawnFromTemplate(templateId); }, '');
+  document.getElementById('modalSubmit').textContent = 'Spawn';
+}
+
+async function spawnFromTemplate(templateId) {
+  var overrides = {};
+  if (getField('spawnModel').trim()) overrides.model = getField('spawnModel').trim();
+  var tags = getField('spawnTags').split(',').map(function(s) { return s.trim(); }).filter(Boolean);
+  if (tags.length) overrides.tags = tags;
+  try {
+    var res = await fetch('/api/agent-templates/' + encodeURIComponent(templateId) + '/spawn', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: getField('spawnId').trim(), name: getField('spawnName').trim(), overrides: overrides }),
+    });
+    var data = await res.json();
+    if (!res.ok) { alert('Error: ' + (data.error || res.statusText)); return; }
+    closeModal();
+  } catch(e) { alert('Failed: ' + e.message); }
+}
+
+async function upgradeTemplateAgents(templateId) {
+  try {
+    var url = '/api/agent-templates/' + encodeURIComponent(templateId) + '/upgrade';
+    var preview = await (await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ dryRun: true }) })).json();
+    if (preview.error) { alert('Error: ' + preview.error); return; }
+    var changes = preview.agents.filter(function(a) { return a.changedFields.length || a.fromVersion !== a.toVersion; })
+      .map(function(a) { return a.agentId + ' (v' + a.fromVersion + ' -> v' + a.toVersion + '): ' + (a.changedFields.join(', ') || 'no field changes'); });
+    if (changes.length === 0) { alert('All agents from ' + templateId + ' are up to date'); return; }
+    if (!confirm('Upgrade ' + changes.length + ' agent(s) from ' + templateId + '?\\n\\n' + changes.join('\\n'))) return;
+    var res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+    var data = await res.json();
+    if (!res.ok) { alert('Error: ' + (data.error || res.statusText)); return; }
+    openTemplatesModal();
+  } catch(e) { alert('Failed: ' + e.message); }
+}
+
+async function deleteAgentTemplate(templateId) {
+  if (!confirm('Delete template "' + templateId + '"? Agents created from it keep their config.')) return;
+  try {
+    var res = await fetch('/api/agent-templates/' + encodeURIComponent(templateId), { method: 'DELETE' });
+    var data = await res.json();
+    if (!res.ok) { alert('Error: ' + (data.error || res.statusText)); return; }
+    openTemplatesModal();
+  } catch(e) { alert('Failed: ' + e.message); }
+}
+
 function filterReviews(filter) {
   window._reviewFilter = filter;
   render();
@@ -215,6 +348,40 @@ async function clearEvents() {
   pollSnapshot();
 }
 
+async function reprioritizeQueuedTask(taskId, current) {
+  var value = prompt('New priority for ' + taskId + ' (higher runs sooner):', current);
+  if (value === null || value.trim() === '') return;
+  var priority = Number(value);
+  if (!isFinite(priority)) { alert('Priority must be a number'); return; }
+  try {
+    var res = await fetch('/api/queue/' + encodeURIComponent(taskId), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ priority: priority }),
+    });
+    if (!res.ok) { var err = await res.json(); alert('Failed: ' + (err.error || res.status)); }
+    pollSnapshot();
+  } catch(e) { alert('Failed: ' + e.message); }
+}
+
+async function cancelQueuedTask(taskId) {
+  if (!confirm('Cancel queued task ' + taskId + '?')) return;
+  try {
+    var res = await fetch('/api/queue/' + encodeURIComponent(taskId), { method: 'DELETE' });
+    if (!res.ok) { var err = await res.json(); alert('Failed: ' + (err.error || res.status)); }
+    pollSnapshot();
+  } catch(e) { alert('Failed: ' + e.message); }
+}
+
+async function cancelRunningTask(taskId) {
+  if (!confirm('Stop running task ' + taskId + '? In-flight provider calls will be aborted.')) return;
+  try {
+    var res = await fetch('/api/tasks/' + encodeURIComponent(taskId), { method: 'DELETE' });
+    if (!res.ok) { var err = await res.json(); alert('Failed: ' + (err.error || res.status)); }
+    pollSnapshot();
+  } catch(e) { alert('Failed: ' + e.message); }
+}
+
 async function clearTaskHistory() {
   if (!confirm('Clear task history?')) return;
   try {
@@ -253,6 +420,7 @@ function openModal(title, bodyHtml, onSubmit, entityType) {
   document.getElementById('modalTitle').textContent = title;
   document.getElementById('modalBody').innerHTML = bodyHtml;
   document.getElementById('modalSubmit').onclick = onSubmit;
+  document.getElementById('modalSubmit').textContent = 'Save';
   document.getElementById('askAgentResponse').style.display = 'none';
   document.getElementById('askAgentResponse').innerHTML = '';
   _modalEntityType = entityType || '';
@@ -290,6 +458,7 @@ function collectFormData() {
       costMultiplier: getField('agentCostMultiplier'),
       timeoutMs: getField('agentTimeoutMs'),
       canMutate: getField('agentCanMutate'),
+      systemPrompt: getField('agentSystemPrompt'),
     };
   }
   if (_modalEntityType === 'skill') {
@@ -299,9 +468,12 @@ function collectFormData() {
       name: getField('name'),
       description: getField('description'),
       promptTemplate: getField('promptTemplate'),
+      systemPrompt: getField('systemPrompt'),
       strategy: getField('strategy'),
       targetTags: getField('targetTags'),
       categories: getField('categories'),
+      tools: getField('tools'),
+      maxToolIterations: getField('maxToolIterations'),
       maxTokens: getField('maxTokens'),
       timeoutMs: getField('timeoutMs'),
     };
@@ -346,6 +518,16 @@ function buildAskPrompt(formData) {
   return lines.join('\\n');
 }
 
+var pendingAskTaskId = null;
+var askStreamText = '';
+
+function appendAskChunk(chunk) {
+  var respDiv = document.getElementById('askAgentResponse');
+  askStreamText += chunk;
+  respDiv.textContent = askStreamText;
+  respDiv.scrollTop = respDiv.scrollHeight;
+}
+
 async function askAgent() {
   var btn = document.getElementById('modalAskAgent');
   var respDiv = document.getElementById('askAgentResponse');
@@ -356,12 +538,15 @@ async function askAgent() {
 
   var formData = collectFormData();
   var prompt = buildAskPrompt(formData);
+  // Client-chosen task ID lets streamed task:chunk events be matched to this request
+  pendingAskTaskId = 'ask-' + Date.now() + '-' + Math.random().toString(36).slice(2, 6);
+  askStreamText = '';
 
   try {
     var res = await fetch('/api/ask-agent', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt: prompt }),
+      body: JSON.stringify({ prompt: prompt, taskId: pendingAskTaskId }),
     });
     var data = await res.json();
     if (!res.ok) {
@@ -379,6 +564,7 @@ async function askAgent() {
   } catch(e) {
     respDiv.innerHTML = '<span class="ask-error">Failed: ' + esc(e.message) + '</span>';
   } finally {
+    pendingAskTaskId = null;
     btn.disabled = false;
     btn.textContent = '\\ud83e\\udd16 Ask Agent';
   }
@@ -393,9 +579,14 @@ function openSkillModal(existing) {
     fieldHTML('name', 'Name', 'text', existing ? existing.name : '', { required: true }) +
     fieldHTML('description', 'Description', 'text', existing ? existing.description : '') +
     fieldHTML('promptTemplate', 'Prompt Template', 'textarea', existing ? existing.promptTemplate : '', { rows: 4, required: true }) +
-    fieldHTML('strategy', 'Strategy', 'select', existing ? existing.strategy : 'single', { options: ['single', 'race', 'fan-out', 'consensus', 'fallback', 'cost-optimized'] }) +
+    fieldHTML('systemPrompt', 'System Prompt (role instructions, optional - same {param} syntax)', 'textarea', existing ? existing.systemPrompt || '' : '', { rows: 2 }) +
+    fieldHTML('parameters', 'Parameters (JSON array of {name, type, required, default, enum, description})', 'textarea', existing && existing.parameters ? JSON.stringify(existing.parameters, null, 2) : '', { rows: 3 }) +
+    fieldHTML('outputSchema', 'Output Schema (JSON Schema, optional - responses must be JSON that validates)', 'textarea', existing && existing.outputSchema ? JSON.stringify(existing.outputSchema, null, 2) : '', { rows: 3 }) +
+    fieldHTML('strategy', 'Strategy', 'select', existing ? existing.strategy : 'single', { options: ['single', 'race', 'fan-out', 'consensus', 'fallback', 'cost-optimized', 'adaptive'] }) +
     fieldHTML('targetTags', 'Target Tags (comma-separated)', 'text', existing ? (existing.targetTags || []).join(', ') : '') +
     fieldHTML('categories', 'Categories (comma-separated)', 'text', existing ? (existing.categories || []).join(', ') : '') +
+    fieldHTML('tools', 'Agent Tools (comma-separated: mgr_search_knowledge, mgr_read_messages, mgr_send_message, mgr_run_skill)', 'text', existing ? (existing.tools || []).join(', ') : '') +
+    fieldHTML('maxToolIterations', 'Max Tool Iterations (default 5)', 'number', existing ? existing.maxToolIterations || '' : '') +
     fieldHTML('maxTokens', 'Max Tokens', 'number', existing ? existing.maxTokens || '' : '') +
     fieldHTML('timeoutMs', 'Timeout (ms)', 'number', existing ? existing.timeoutMs || '' : '');
   if (isEdit) document.getElementById && setTimeout(function() { var el = document.getElementById('f_id'); if (el) el.disabled = true; }, 0);
@@ -409,14 +600,26 @@ async function submitSkill(isEdit) {
     name: getField('name'),
     description: getField('description'),
     promptTemplate: getField('promptTemplate'),
+    systemPrompt: getField('systemPrompt').trim(),
     strategy: getField('strategy'),
     targetTags: getField('targetTags').split(',').map(function(s) { return s.trim(); }).filter(Boolean),
     categories: getField('categories').split(',').map(function(s) { return s.trim(); }).filter(Boolean),
+    tools: getField('tools').split(',').map(function(s) { return s.trim(); }).filter(Boolean),
   };
+  var maxIter = parseInt(getField('maxToolIterations'), 10);
+  if (!isNaN(maxIter) && maxIter > 0) payload.maxToolIterations = maxIter;
   var maxT = parseInt(getField('maxTokens'), 10);
   if (!isNaN(maxT) && maxT > 0) payload.maxTokens = maxT;
   var timeout = parseInt(getField('timeoutMs'), 10);
   if (!isNaN(timeout) && timeout > 0) payload.timeoutMs = timeout;
+  var paramsJson = getField('parameters').trim();
+  if (paramsJson) {
+    try { payload.parameters = JSON.parse(paramsJson); } catch(e) { alert('Parameters must be valid JSON: ' + e.message); return; }
+  }
+  var outputSchemaJson = getField('outputSchema').trim();
+  if (outputSchemaJson) {
+    try { payload.outputSchema = JSON.parse(outputSchemaJson); } catch(e) { alert('Output Schema must be valid JSON: ' + e.message); return; }
+  }
 
   try {
     var url = isEdit ? '/api/skills/' + encodeURIComponent(payload.id) : '/api/skills';
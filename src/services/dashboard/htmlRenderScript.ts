@@ -70,10 +70,10 @@ function render() {
     kab.innerHTML = '<button class="btn-kill-all" onclick="killAllAgents()">Kill All</button>';
     at.innerHTML = '<table class="agent-table"><tr><th>ID</th><th>Provider</th><th>Model</th><th>State</th><th>Tags</th><th>Tasks</th><th>Tokens</th><th></th></tr>' +
       s.agents.map(function(a) {
-        return '<tr><td><strong>' + esc(a.id) + '</strong><br><span style="color:var(--muted);font-size:11px">' + esc(a.name || '') + '</span></td>' +
+        return '<tr><td><strong>' + esc(a.id) + '</strong><br><span style="color:var(--muted);font-size:11px">' + esc(a.name || '') + '</span>' + templateCell(a.template) + poolCell(a.pool) + '</td>' +
         '<td>' + esc(a.provider) + '</td>' +
         '<td>' + esc(a.model) + '</td>' +
-        '<td><span class="badge ' + a.state + '">' + a.state + '</span></td>' +
+        '<td><span class="badge ' + a.state + '">' + a.state + '</span>' + circuitCell(a.circuit) + healthCell(a.health) + '</td>' +
         '<td>' + (a.tags || []).map(function(t) { return '<span class="tag">' + esc(t) + '</span>'; }).join('') + '</td>' +
         '<td>' + a.tasksCompleted + ' / ' + (a.tasksCompleted + a.tasksFailed) + '</td>' +
         '<td>' + (a.tokensEstimated ? '~' : '') + (a.totalTokens || 0).toLocaleString() + (a.premiumRequests ? '<br><span style="color:var(--muted);font-size:10px">' + a.premiumRequests + ' premium reqs</span>' : '') + '</td>' +
@@ -303,6 +303,68 @@ function render() {
     }).join('');
   }
 
+  // Task Queue
+  var tqStatus = document.getElementById('taskQueueStatus');
+  var tqTable = document.getElementById('taskQueueTable');
+  var queue = s.queue || [];
+  if (queue.length === 0) {
+    tqTable.innerHTML = '<div class="empty">Queue is empty \\u2014 tasks wait here when every target agent is at maxConcurrency</div>';
+    tqStatus.textContent = '';
+  } else {
+    var tqWaiting = queue.filter(function(q) { return q.status === 'queued'; }).length;
+    var tqRunning = queue.length - tqWaiting;
+    tqStatus.innerHTML = (tqWaiting > 0 ? '<span class="badge busy">' + tqWaiting + ' waiting</span> ' : '') +
+      (tqRunning > 0 ? '<span class="badge running">' + tqRunning + ' running</span>' : '');
+    var tqNow = Date.now();
+    tqTable.innerHTML = '<table><tr><th>#</th><th>Task ID</th><th>Skill</th><th>Priority</th><th>Status</th><th>Waiting</th><th>Actions</th></tr>' +
+      queue.map(function(q, i) {
+        var waiting = q.status === 'queued';
+        var waitMs = (waiting ? tqNow : new Date(q.startedAt).getTime()) - new Date(q.enqueuedAt).getTime();
+        return '<tr>' +
+          '<td>' + (waiting ? (i + 1) : '-') + '</td>' +
+          '<td><code style="font-size:11px">' + esc(q.taskId) + '</code>' + (q.restored ? ' <span class="tag" title="Restored after restart">restored</span>' : '') + '</td>' +
+          '<td><span class="badge running">' + esc(q.skillId) + '</span></td>' +
+          '<td>' + q.priority + '</td>' +
+          '<td><span class="badge ' + (waiting ? 'busy' : 'running') + '">' + esc(q.status) + '</span></td>' +
+          '<td>' + (Math.max(0, waitMs) / 1000).toFixed(1) + 's</td>' +
+          '<td>' + (waiting
+            ? '<button class="btn-action" data-tid="' + esc(q.taskId) + '" data-priority="' + q.priority + '" onclick="reprioritizeQueuedTask(this.dataset.tid, this.dataset.priority)">Priority</button> ' +
+              '<button class="btn-action danger" data-tid="' + esc(q.taskId) + '" onclick="cancelQueuedTask(this.dataset.tid)">Cancel</button>'
+            : '<button class="btn-action danger" data-tid="' + esc(q.taskId) + '" onclick="cancelRunningTask(this.dataset.tid)">Stop</button>') + '</td>' +
+          '</tr>';
+      }).join('') + '</table>';
+  }
+
+  // Budgets
+  var bgStatus = document.getElementById('budgetsStatus');
+  var bgTable = document.getElementById('budgetsTable');
+  var budgets = s.budgets || [];
+  if (budgets.length === 0) {
+    bgTable.innerHTML = '<div class="empty">No budgets \u2014 use mgr_set_budget to cap spending per agent, skill, provider, or globally</div>';
+    bgStatus.textContent = '';
+  } else {
+    var bgWarn = budgets.filter(function(b) { return b.state === 'warning'; }).length;
+    var bgOver = budgets.filter(function(b) { return b.state === 'exceeded'; }).length;
+    bgStatus.innerHTML = (bgOver > 0 ? '<span class="badge error">' + bgOver + ' exceeded</span> ' : '') +
+      (bgWarn > 0 ? '<span class="badge busy">' + bgWarn + ' warning</span>' : '');
+    var bgBadge = { ok: 'running', warning: 'busy', exceeded: 'error' };
+    bgTable.innerHTML = '<table><tr><th>Budget</th><th>Scope</th><th>Window</th><th>Used</th><th>Soft</th><th>Hard</th><th>On Exceeded</th><th>State</th><th>Resets</th></tr>' +
+      budgets.map(function(b) {
+        var pct = Math.min(100, Math.round(b.utilization * 100));
+        return '<tr>' +
+          '<td><code style="font-size:11px">' + esc(b.id) + '</code></td>' +
+          '<td>' + esc(b.scope) + (b.target ? ' <span class="tag">' + esc(b.target) + '</span>' : '') + '</td>' +
+          '<td>' + esc(b.window) + '</td>' +
+          '<td title="' + pct + '% of limit">' + b.used + ' ' + esc(b.metric) + '</td>' +
+          '<td>' + (b.softLimit != null ? b.softLimit : '-') + '</td>' +
+          '<td>' + (b.hardLimit != null ? b.hardLimit : '-') + '</td>' +
+          '<td>' + esc(b.onExceeded || (b.scope === 'global' || b.scope === 'skill' ? 'reject' : 'reroute')) + '</td>' +
+          '<td><span class="badge ' + bgBadge[b.state] + '">' + esc(b.state) + '</span></td>' +
+          '<td>' + esc((b.resetsAt || '').replace('T', ' ').substring(0, 16)) + '</td>' +
+          '</tr>';
+      }).join('') + '</table>';
+  }
+
   // Task History
   var thStatus = document.getElementById('taskHistoryStatus');
   var thTable = document.getElementById('taskHistoryTable');
@@ -332,6 +394,9 @@ function render() {
           '</tr>' +
           '<tr id="' + tid + '" style="display:none"><td colspan="9"><div style="padding:8px;background:var(--surface);border-radius:4px;font-size:12px;white-space:pre-wrap;max-height:200px;overflow-y:auto">' +
           (t.error ? '<span style="color:var(--red)">Error: ' + esc(t.error) + '</span>\\n' : '') +
+          (t.toolCalls && t.toolCalls.length ? '<span style="color:var(--muted)">Tool calls: ' + t.toolCalls.map(function(c) {
+            return esc(c.agentId + ' -> ' + c.name + (c.success ? '' : ' (failed: ' + (c.error || 'error') + ')'));
+          }).join(', ') + '</span>\\n' : '') +
           esc(t.contentPreview) +
           '</div></td></tr>';
       }).join('') + '</table>';
@@ -434,6 +499,34 @@ function render() {
 function esc(s) { var d = document.createElement('div'); d.textContent = s || ''; return d.innerHTML; }
 function jsStr(s) { return (s || '').replace(/\\\\/g, '\\\\\\\\'); }
 
+function circuitCell(c) {
+  if (!c) return '';
+  if (c.state === 'open') {
+    var wait = c.probeAt ? c.probeAt - Date.now() : 0;
+    return '<br><span class="badge error" title="' + esc(c.reason) + '">circuit open</span>' +
+      '<br><span style="color:var(--muted);font-size:10px">' + (wait > 0 ? 'probe in ' + fmt(wait) : 'probe due') + '</span>';
+  }
+  if (c.state === 'half-open') return '<br><span class="badge busy" title="' + esc(c.reason) + '">half-open (probing)</span>';
+  return c.failures > 0 ? '<br><span style="color:var(--muted);font-size:10px">' + c.failures + ' consecutive failure(s)</span>' : '';
+}
+
+function templateCell(t) {
+  if (!t) return '';
+  return '<br><span style="color:var(--muted);font-size:10px">from ' + esc(t.id) + ' v' + t.version + '</span>' +
+    (t.outdated ? ' <span class="badge busy" title="Template changed since this agent was built - upgrade from Templates">outdated</span>' : '');
+}
+
+function poolCell(pool) {
+  return pool ? '<br><span style="color:var(--muted);font-size:10px" title="Started by an autoscaling pool">pool ' + esc(pool) + '</span>' : '';
+}
+
+function healthCell(h) {
+  if (!h) return '';
+  var title = 'Last probe ' + h.lastProbeAt + (h.avgLatencyMs != null ? ', avg ' + fmt(h.avgLatencyMs) : '');
+  if (h.status === 'unhealthy') return '<br><span class="badge error" title="' + esc(title + ' - ' + (h.error || '')) + '">unhealthy</span>';
+  return '<br><span style="color:var(--muted);font-size:10px" title="' + esc(title) + '">healthy' + (h.avgLatencyMs != null ? ' ' + fmt(h.avgLatencyMs) : '') + '</span>';
+}
+
 function renderSkillsTable(skills, filter) {
   var st = document.getElementById('skillsTable');
   var filtered = filter === 'all' ? skills : skills.filter(function(sk) { return (sk.categories || []).includes(filter); });
@@ -466,11 +559,19 @@ function summarize(event, data) {
   switch (event) {
     case 'agent:registered': return data.agentId + ' (' + data.provider + '/' + data.model + ')';
     case 'agent:unregistered': return data.agentId;
-    case 'agent:state-changed': return data.agentId + ': ' + data.previousState + ' -> ' + data.newState;
+    case 'agent:state-changed': return data.agentId + ': ' + data.previousState + ' -> ' + data.newState + (data.circuit ? ' [circuit ' + data.circuit + (data.reason ? ': ' + data.reason : '') + ']' : '');
+    case 'pool:scaled': return data.poolId + ' ' + data.direction + ' to ' + data.instances + ': ' + (data.agentIds || []).join(', ') + ' (' + data.reason + ')';
+    case 'agent:health-changed': return data.agentId + ': ' + data.previousStatus + ' -> ' + data.status + (data.error ? ' (' + data.error + ')' : '');
+    case 'task:queued': return data.taskId + ' (' + data.skillId + ') priority ' + data.priority + ', position ' + data.position;
+    case 'task:dequeued': return data.taskId + ' ' + data.reason + ' after ' + data.waitMs + 'ms';
+    case 'task:reprioritized': return data.taskId + ' priority ' + data.previousPriority + ' -> ' + data.priority;
     case 'task:started': return data.taskId + ' [' + data.strategy + '] ' + data.agentCount + ' agent(s)';
+    case 'task:tool-call': return data.taskId + ' ' + data.agentId + ' -> ' + data.tool + ' ' + (data.success ? 'OK' : 'FAIL') + ' ' + data.latencyMs + 'ms' + (data.error ? ' (' + data.error + ')' : '');
     case 'task:completed': return data.taskId + ' ' + (data.success ? 'OK' : 'FAIL') + ' ' + data.totalTokens + ' tokens ' + data.totalLatencyMs + 'ms';
     case 'skill:registered': return data.skillId + ' (' + data.strategy + ')';
     case 'skill:removed': return data.skillId;
+    case 'budget:warning':
+    case 'budget:exceeded': return data.budgetId + ' ' + data.metric + ' ' + data.used + ' / ' + data.limit + ' (' + data.window + ')';
     case 'workspace:monitoring': return data.path + ' (' + data.sessionCount + ' sessions)';
     case 'workspace:stopped': return data.path;
     case 'workspace:file-changed': return data.kind + ': ' + data.file;
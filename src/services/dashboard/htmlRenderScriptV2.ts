@@ -51,6 +51,10 @@ function updateTabBadges() {
   }
   setBadge('badge-automation', activeExec, 'yellow');
 
+  // Tasks: waiting in the queue
+  var queuedTasks = (s.queue || []).filter(function(q) { return q.status === 'queued'; }).length;
+  setBadge('badge-tasks', queuedTasks, 'yellow');
+
   // Cross-repo: active dispatches
   var activeCR = (s.crossRepo && s.crossRepo.active) ? s.crossRepo.active.length : 0;
   setBadge('badge-crossrepo', activeCR, 'yellow');
@@ -35,7 +35,7 @@ export function getDashboardHTMLV2(): string {
   <button class="tab-btn" data-tab="skills" onclick="switchTab('skills')">Skills</button>
   <button class="tab-btn" data-tab="workspaces" onclick="switchTab('workspaces')">Workspaces</button>
   <button class="tab-btn" data-tab="automation" onclick="switchTab('automation')">Automation <span class="tab-badge" id="badge-automation"></span></button>
-  <button class="tab-btn" data-tab="tasks" onclick="switchTab('tasks')">Tasks</button>
+  <button class="tab-btn" data-tab="tasks" onclick="switchTab('tasks')">Tasks <span class="tab-badge" id="badge-tasks"></span></button>
   <button class="tab-btn" data-tab="crossrepo" onclick="switchTab('crossrepo')">Cross-Repo <span class="tab-badge" id="badge-crossrepo"></span></button>
   <button class="tab-btn" data-tab="review" onclick="switchTab('review')">Review <span class="tab-badge" id="badge-review"></span></button>
   <button class="tab-btn" data-tab="messaging" onclick="switchTab('messaging')">Messaging <span class="tab-badge" id="badge-messaging"></span></button>
@@ -69,6 +69,7 @@ export function getDashboardHTMLV2(): string {
     <div class="card full">
       <h2>Agents <a class="doc-link" href="/api/docs/agents" target="_blank" title="Panel documentation">?</a> <span id="killAllBtn"></span>
         <button class="btn-add" onclick="openAgentModal()">+ Add Agent</button>
+      <button class="btn-add" onclick="openTemplatesModal()">Templates</button>
       </h2>
       <div id="agentsTable"><div class="empty">No agents registered</div></div>
     </div>
@@ -112,6 +113,14 @@ export function getDashboardHTMLV2(): string {
 
   <!-- ═══ Tasks Tab ═══ -->
   <div class="tab-panel" id="tab-tasks">
+    <div class="card full" id="taskQueueCard" style="border-left: 3px solid var(--muted)">
+      <h2>Task Queue <a class="doc-link" href="/api/docs/task-queue" target="_blank" title="Panel documentation">?</a> <span style="font-size:12px;font-weight:normal;margin-left:8px" id="taskQueueStatus"></span></h2>
+      <div id="taskQueueTable" style="max-height:400px;overflow-y:auto;overflow-x:hidden"><div class="empty">Queue is empty - tasks wait here when every target agent is at maxConcurrency</div></div>
+    </div>
+    <div class="card full" id="budgetsCard" style="border-left: 3px solid var(--muted)">
+      <h2>Budgets <a class="doc-link" href="/api/docs/budgets" target="_blank" title="Panel documentation">?</a> <span style="font-size:12px;font-weight:normal;margin-left:8px" id="budgetsStatus"></span></h2>
+      <div id="budgetsTable"><div class="empty">No budgets - use mgr_set_budget to cap spending per agent, skill, provider, or globally</div></div>
+    </div>
     <div class="card full" id="taskHistoryCard" style="border-left: 3px solid var(--yellow)">
       <h2>Task History <a class="doc-link" href="/api/docs/task-history" target="_blank" title="Panel documentation">?</a> <span style="font-size:12px;font-weight:normal;margin-left:8px" id="taskHistoryStatus"></span>
         <button class="btn-action danger" onclick="clearTaskHistory()" style="float:right;margin-top:-2px">Clear</button>
@@ -3,8 +3,13 @@
 // for the REST API and SSE broadcasts.
 
 import { agentRegistry } from '../agentRegistry.js';
+import { agentTemplateStore } from '../agentTemplateStore.js';
 import { skillStore } from '../skillStore.js';
 import { getRouterMetrics } from '../taskRouter.js';
+import { taskQueue } from '../taskQueue.js';
+import { budgetManager } from '../budgetManager.js';
+import { circuitCooldownMs } from '../circuitBreaker.js';
+import { healthMonitor } from '../healthMonitor.js';
 import { workspaceMonitor } from '../workspace/index.js';
 import { automationEngine } from '../automation/index.js';
 import { getInsightsSummary, isMetaEnabled } from '../metaCollector.js';
@@ -12,6 +17,19 @@ import { getDispatchHistory, getActiveDispatches } from '../crossRepoDispatcher.
 import { agentMailbox } from '../agentMailbox.js';
 import { persistAgentStats, readAgentStats, type AgentStatsSnapshot } from '../sharedState.js';
 import { getRecentEvents } from '../eventLog.js';
+import type { AgentCircuit, AgentHealthReport } from '../../types/index.js';
+
+/** Dashboard view of an agent's health probes - status, latency and the last failure */
+function healthSummary(report: AgentHealthReport | undefined) {
+  if (!report) return undefined;
+  const last = report.history[report.history.length - 1];
+  return {
+    status: report.status,
+    lastProbeAt: report.lastProbeAt,
+    avgLatencyMs: report.avgLatencyMs,
+    error: last?.checks.filter(c => !c.success).map(c => `${c.kind}: ${c.error}`).join('; ') || undefined,
+  };
+}
 
 export function buildSnapshot() {
   const registryAgents = agentRegistry.getAll();
@@ -58,6 +76,13 @@ export function buildSnapshot() {
     error: a.error,
     premiumRequests: a.premiumRequests,
     tokensEstimated: a.tokensEstimated,
+    circuit: { ...a.circuit, probeAt: a.circuit.state === 'open' ? a.circuit.openedAt + circuitCooldownMs() : undefined } as
+      (AgentCircuit & { probeAt?: number }) | undefined,
+    health: healthSummary(healthMonitor.getReport(a.config.id)),
+    template: a.config.template
+      ? { id: a.config.template.id, version: a.config.template.version, outdated: agentTemplateStore.isOutdated(a.config) }
+      : undefined,
+    pool: a.config.pool,
   }));
 
   // If no agents in memory, try disk
@@ -84,6 +109,10 @@ export function buildSnapshot() {
         error: undefined as string | undefined,
         premiumRequests: a.premiumRequests || 0,
         tokensEstimated: a.tokensEstimated ?? true,
+        circuit: undefined,
+        health: undefined,
+        template: undefined,
+        pool: undefined as string | undefined,
       }));
     }
   }
@@ -113,6 +142,8 @@ export function buildSnapshot() {
     agents,
     skills,
     router,
+    queue: taskQueue.list(),
+    budgets: budgetManager.list(),
     agentCount: agents.length,
     activeAgents: agents.filter(a => a.state === 'idle' || a.state === 'running' || a.state === 'busy').length,
     skillCount: skills.length,
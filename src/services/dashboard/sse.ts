@@ -2,7 +2,7 @@
 // SSE client management and event bus → SSE broadcasting.
 
 import { ServerResponse } from 'node:http';
-import { ALL_EVENT_NAMES, eventBus, ManagerEvents } from '../events.js';
+import { ALL_EVENT_NAMES, STREAMING_EVENT_NAMES, eventBus, ManagerEvents } from '../events.js';
 import { sseClients, eventCounts } from './state.js';
 import { buildSnapshot } from './snapshot.js';
 
@@ -30,6 +30,8 @@ for (const evt of ALL_EVENT_NAMES) {
   eventBus.onEvent(evt, (data: ManagerEvents[typeof evt]) => {
     eventCounts[evt] = (eventCounts[evt] || 0) + 1;
     broadcastSSE(evt, data);
+    // Streaming chunks do not change state - skip the (expensive) snapshot rebuild
+    if (STREAMING_EVENT_NAMES.has(evt)) return;
     broadcastSSE('snapshot', buildSnapshot());
   });
 }
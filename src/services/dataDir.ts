@@ -76,6 +76,15 @@ export function getBackupsDir(): string {
   return process.env.BACKUP_DIR || path.join(DATA_DIR, 'backups');
 }
 
+export function getConversationsDir(): string {
+  return process.env.CONVERSATIONS_DIR || path.join(DATA_DIR, 'conversations');
+}
+
+/** Provider plugin modules - optional, not created by ensureDataDirs */
+export function getPluginsDir(): string {
+  return process.env.PROVIDER_PLUGINS_DIR || path.join(DATA_DIR, 'plugins');
+}
+
 // ---------------------------------------------------------------------------
 // Seed data — copy defaults from repo seed/ into DATA_DIR on first run
 // ---------------------------------------------------------------------------
@@ -112,7 +121,7 @@ function seedDefaults(): void {
 
 /** Ensure the base data directory and all subdirectories exist, then seed defaults. */
 export function ensureDataDirs(): void {
-  const dirs = [DATA_DIR, getAgentsDir(), getSkillsDir(), getAutomationDir(), getConfigDir(), getLogsDir(), getMetaDir(), getStateDir(), getBackupsDir()];
+  const dirs = [DATA_DIR, getAgentsDir(), getSkillsDir(), getAutomationDir(), getConfigDir(), getLogsDir(), getMetaDir(), getStateDir(), getBackupsDir(), getConversationsDir()];
   for (const dir of dirs) {
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
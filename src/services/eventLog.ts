@@ -4,7 +4,7 @@
 
 import { appendFileSync, mkdirSync, readFileSync, existsSync, writeFileSync, renameSync } from 'node:fs';
 import { join } from 'node:path';
-import { ALL_EVENT_NAMES, eventBus } from './events.js';
+import { ALL_EVENT_NAMES, STREAMING_EVENT_NAMES, eventBus } from './events.js';
 import { logger } from './logger.js';
 import { getLogsDir } from './dataDir.js';
 
@@ -103,6 +103,8 @@ function seedRecentEvents(): void {
 /** Subscribe to all event bus events and log them to the JSONL file */
 export function initializeEventLog(): void {
   for (const eventName of ALL_EVENT_NAMES) {
+    // Streaming chunks would flood the log - the completed task is logged instead
+    if (STREAMING_EVENT_NAMES.has(eventName)) continue;
     eventBus.onEvent(eventName, (data) => {
       writeEvent(eventName, data as Record<string, unknown>);
     });
@@ -4,13 +4,39 @@
 // MCP notifications, write to the JSONL log, etc.
 
 import { EventEmitter } from 'node:events';
+import type {
+  AgentHealthStatus,
+  BudgetMetric,
+  BudgetScope,
+  BudgetWindow,
+  CircuitState,
+  HealthCheckKind,
+  PoolScaleAction,
+  QualityEvaluation,
+} from '../types/index.js';
 
 /** Event types emitted by agent-manager subsystems */
 export interface ManagerEvents {
   'agent:registered': { agentId: string; provider: string; model: string; tags: string[] };
   'agent:unregistered': { agentId: string };
-  'agent:state-changed': { agentId: string; previousState: string; newState: string; error?: string; configUpdated?: boolean };
+  'agent:state-changed': {
+    agentId: string;
+    previousState: string;
+    newState: string;
+    error?: string;
+    configUpdated?: boolean;
+    /** Circuit breaker transition, with why it happened */
+    circuit?: CircuitState;
+    reason?: string;
+  };
+  'agent:health-changed': { agentId: string; previousStatus: AgentHealthStatus; status: AgentHealthStatus; failedChecks: HealthCheckKind[]; error?: string };
+  'pool:scaled': PoolScaleAction;
+  'task:queued': { taskId: string; skillId: string; priority: number; position: number };
+  'task:dequeued': { taskId: string; skillId: string; reason: 'dispatched' | 'cancelled'; waitMs: number };
+  'task:reprioritized': { taskId: string; skillId: string; previousPriority: number; priority: number; position: number };
   'task:started': { taskId: string; skillId: string; strategy: string; agentCount: number };
+  'task:chunk': { taskId: string; skillId: string; agentId: string; index: number; chunk: string };
+  'task:tool-call': { taskId: string; skillId: string; agentId: string; tool: string; success: boolean; latencyMs: number; error?: string };
   'task:completed': {
     taskId: string;
     skillId: string;
@@ -20,8 +46,14 @@ export interface ManagerEvents {
     totalCost: number;
     totalLatencyMs: number;
     agentCount: number;
+    /** Quality scores when the skill's evaluator ran */
+    evaluations?: QualityEvaluation[];
+    /** Per-agent outcome of each response in the task */
+    agentResults?: Array<{ agentId: string; success: boolean; tokenCount: number; costUnits: number; latencyMs: number }>;
   };
   'skill:registered': { skillId: string; name: string; strategy: string };
+  'budget:warning': BudgetEvent;
+  'budget:exceeded': BudgetEvent;
   'skill:removed': { skillId: string };
   'workspace:monitoring': { path: string; workspaceId?: string; sessionCount: number };
   'workspace:stopped': { path: string };
@@ -34,13 +66,27 @@ export interface ManagerEvents {
   'message:received': { messageId: string; channel: string; sender: string; recipients: string[] };
 }
 
+/** Payload of budget:warning (soft limit reached) and budget:exceeded (hard limit reached) - once per window */
+export interface BudgetEvent {
+  budgetId: string;
+  scope: BudgetScope;
+  target?: string;
+  window: BudgetWindow;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+}
+
 export type ManagerEventName = keyof ManagerEvents;
 
 /** Canonical list of all event names - single source of truth (DRY) */
 export const ALL_EVENT_NAMES: ManagerEventName[] = [
-  'agent:registered', 'agent:unregistered', 'agent:state-changed',
-  'task:started', 'task:completed',
+  'agent:registered', 'agent:unregistered', 'agent:state-changed', 'agent:health-changed',
+  'pool:scaled',
+  'task:queued', 'task:dequeued', 'task:reprioritized',
+  'task:started', 'task:chunk', 'task:tool-call', 'task:completed',
   'skill:registered', 'skill:removed',
+  'budget:warning', 'budget:exceeded',
   'workspace:monitoring', 'workspace:stopped',
   'workspace:file-changed', 'workspace:session-updated', 'workspace:git-event',
   'workspace:remote-update',
@@ -48,6 +94,9 @@ export const ALL_EVENT_NAMES: ManagerEventName[] = [
   'message:received',
 ];
 
+/** Per-token streaming events - broadcast live but never persisted or snapshotted */
+export const STREAMING_EVENT_NAMES: ReadonlySet<ManagerEventName> = new Set<ManagerEventName>(['task:chunk']);
+
 class ManagerEventBus extends EventEmitter {
   /** Type-safe emit */
   emitEvent<K extends ManagerEventName>(event: K, data: ManagerEvents[K]): void {
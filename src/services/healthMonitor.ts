@@ -0,0 +1,203 @@
+// mcp-agent-manager/src/services/healthMonitor.ts
+// Scheduled health probes per agent: an opt-in ping prompt, Copilot binary existence, the
+// ACP initialize handshake and the custom agent connection. Keeps a latency history per agent, emits agent:health-changed
+// when an agent turns healthy / unhealthy, and opens its circuit on failure (configurable).
+
+import type {
+  AgentConfig,
+  AgentHealthReport,
+  AgentHealthStatus,
+  HealthCheckKind,
+  HealthCheckResult,
+  HealthProbeRecord,
+} from '../types/index.js';
+import { checkCopilotBinary, probeAcpInitialize, probeMcpAgent } from '../providers/index.js';
+import { agentRegistry } from './agentRegistry.js';
+import { eventBus } from './events.js';
+import { probeAgent } from './taskRouter.js';
+import { PROBE_PROMPT } from './circuitBreaker.js';
+import { logger } from './logger.js';
+import { persistAgentHealth, readAgentHealth } from './sharedState.js';
+
+const DEFAULT_INTERVAL_MS = 300_000;   // Probe each agent every 5 minutes
+const DEFAULT_TIMEOUT_MS = 15_000;     // Per-check timeout
+const SCAN_INTERVAL_MS = 10_000;       // How often agents are checked for a due probe
+const MAX_HISTORY = 20;                // Probes kept per agent
+
+/**
+ * Checks an agent runs when its healthCheck config does not list them. A ping is a real,
+ * billed completion, so it only runs when listed. Custom agents only get a connection check,
+ * since calling their tool may have side effects; other providers get no default checks.
+ */
+export function defaultChecks(agent: AgentConfig): HealthCheckKind[] {
+  if (agent.healthCheck?.checks?.length) return agent.healthCheck.checks;
+  if (agent.provider === 'custom') return ['connect'];
+  if (agent.provider !== 'copilot') return [];
+  return agent.cliArgs?.includes('--acp') ? ['binary', 'acp'] : ['binary'];
+}
+
+function intervalMs(agent: AgentConfig): number {
+  return agent.healthCheck?.intervalMs ?? DEFAULT_INTERVAL_MS;
+}
+
+/** Run one check, timing it - failures are returned, never thrown */
+async function runCheck(agent: AgentConfig, kind: HealthCheckKind, timeoutMs: number): Promise<HealthCheckResult> {
+  const start = Date.now();
+  const result = (error?: string): HealthCheckResult => ({
+    kind,
+    success: !error,
+    latencyMs: Date.now() - start,
+    ...(error ? { error } : {}),
+  });
+  try {
+    switch (kind) {
+      case 'ping': {
+        const response = await probeAgent(agent, PROBE_PROMPT, 16, timeoutMs);
+        return result(response.success ? undefined : response.error || 'no response');
+      }
+      case 'binary':
+        if (agent.provider !== 'copilot') return result(`binary check is only supported for copilot agents`);
+        return result(checkCopilotBinary(agent) ? undefined : `Copilot binary not found${agent.binaryPath ? `: ${agent.binaryPath}` : ''}`);
+      case 'acp':
+        if (agent.provider !== 'copilot') return result(`acp check is only supported for copilot agents`);
+        await probeAcpInitialize(agent, timeoutMs);
+        return result();
+      case 'connect':
+        if (agent.provider !== 'custom') return result(`connect check is only supported for custom agents`);
+        await probeMcpAgent(agent, timeoutMs);
+        return result();
+    }
+  } catch (err: any) {
+    return result(err?.message || String(err));
+  }
+}
+
+class HealthMonitor {
+  private reports: Map<string, AgentHealthReport> = new Map();
+  private inFlight: Map<string, Promise<AgentHealthReport>> = new Map();
+  private scanTimer: ReturnType<typeof setInterval> | null = null;
+  private loaded = false;
+
+  /** Restore probe history from the state dir */
+  load(): void {
+    this.loaded = true;
+    const snapshot = readAgentHealth();
+    if (!snapshot) return;
+    for (const [id, report] of Object.entries(snapshot.agents ?? {})) {
+      if (!this.reports.has(id)) this.reports.set(id, report);
+    }
+    if (this.reports.size > 0) logger.info(`Loaded health history for ${this.reports.size} agent(s)`);
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) this.load();
+  }
+
+  /** Probe an agent now. Concurrent calls for the same agent share one probe. */
+  probe(agentId: string): Promise<AgentHealthReport> {
+    const running = this.inFlight.get(agentId);
+    if (running) return running;
+    const promise = this.runProbe(agentId).finally(() => this.inFlight.delete(agentId));
+    this.inFlight.set(agentId, promise);
+    return promise;
+  }
+
+  private async runProbe(agentId: string): Promise<AgentHealthReport> {
+    this.ensureLoaded();
+    const instance = agentRegistry.get(agentId);
+    if (!instance) throw new Error(`Agent not found: ${agentId}`);
+    const config = instance.config;
+    const timeoutMs = config.healthCheck?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const kinds = defaultChecks(config);
+    if (kinds.length === 0) {
+      throw new Error(`No health checks for ${agentId} - list them in healthCheck.checks (ping sends a billed prompt)`);
+    }
+
+    const start = Date.now();
+    const checks = await Promise.all(kinds.map(kind => runCheck(config, kind, timeoutMs)));
+    const failed = checks.filter(c => !c.success);
+    const record: HealthProbeRecord = {
+      at: new Date().toISOString(),
+      status: failed.length === 0 ? 'healthy' : 'unhealthy',
+      latencyMs: Date.now() - start,
+      checks,
+    };
+
+    const previous = this.reports.get(agentId);
+    const history = [...(previous?.history ?? []), record].slice(-MAX_HISTORY);
+    const report: AgentHealthReport = {
+      agentId,
+      status: record.status,
+      lastProbeAt: record.at,
+      nextProbeAt: new Date(Date.parse(record.at) + intervalMs(config)).toISOString(),
+      consecutiveFailures: record.status === 'healthy' ? 0 : (previous?.consecutiveFailures ?? 0) + 1,
+      avgLatencyMs: Math.round(history.reduce((sum, h) => sum + h.latencyMs, 0) / history.length),
+      history,
+    };
+    // The agent may have been removed while the probe was in flight
+    if (!agentRegistry.get(agentId)) return report;
+    this.reports.set(agentId, report);
+
+    const previousStatus: AgentHealthStatus = previous?.status ?? 'unknown';
+    const error = failed.map(c => `${c.kind}: ${c.error}`).join('; ') || undefined;
+    if (previousStatus !== report.status) {
+      eventBus.emitEvent('agent:health-changed', {
+        agentId,
+        previousStatus,
+        status: report.status,
+        failedChecks: failed.map(c => c.kind),
+        error,
+      });
+    }
+    if (failed.length > 0 && config.healthCheck?.openCircuitOnFailure !== false
+        && agentRegistry.get(agentId)?.circuit.state === 'closed') {
+      agentRegistry.openCircuit(agentId, `Health check failed (${error})`);
+    }
+    this.persist();
+    return report;
+  }
+
+  /** Probe every enabled agent with checks whose interval has elapsed since its last probe */
+  async runDueProbes(now = Date.now()): Promise<void> {
+    this.ensureLoaded();
+    const due = agentRegistry.getAll().filter(a => {
+      if (a.config.healthCheck?.enabled === false || a.state === 'stopped') return false;
+      if (defaultChecks(a.config).length === 0) return false;
+      const last = this.reports.get(a.config.id)?.lastProbeAt;
+      return !last || now - Date.parse(last) >= intervalMs(a.config);
+    });
+    await Promise.all(due.map(a => this.probe(a.config.id).catch(err => {
+      logger.warn(`Health probe for ${a.config.id} failed: ${err}`);
+    })));
+  }
+
+  /** Current health and probe history for an agent (undefined until its first probe) */
+  getReport(agentId: string): AgentHealthReport | undefined {
+    this.ensureLoaded();
+    return this.reports.get(agentId);
+  }
+
+  /** Start scheduled probes */
+  start(): void {
+    if (this.scanTimer) return;
+    this.scanTimer = setInterval(() => { void this.runDueProbes(); }, SCAN_INTERVAL_MS);
+    this.scanTimer.unref();
+    logger.info(`Agent health probes started (default interval ${DEFAULT_INTERVAL_MS / 1000}s)`);
+  }
+
+  /** Stop the probe timer (shutdown) */
+  stop(): void {
+    if (this.scanTimer) clearInterval(this.scanTimer);
+    this.scanTimer = null;
+  }
+
+  private persist(): void {
+    persistAgentHealth({
+      agents: Object.fromEntries(this.reports),
+      lastUpdated: new Date().toISOString(),
+    });
+  }
+}
+
+/** Singleton health monitor */
+export const healthMonitor = new HealthMonitor();
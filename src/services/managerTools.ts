@@ -0,0 +1,202 @@
+// mcp-agent-manager/src/services/managerTools.ts
+// Manager capabilities agents can call mid-task through provider function calling:
+// knowledge search, mailbox read / send, and running other skills. Skills opt in with
+// an allowlist (tools) and cap the rounds of calls per agent call (maxToolIterations).
+
+import type { AgentToolDefinition, SkillDefinition, TaskResult } from '../types/index.js';
+import { agentMailbox } from './agentMailbox.js';
+import { indexClient } from './indexClient.js';
+import { logger } from './logger.js';
+import { responseError } from './outputSchema.js';
+
+/** Default rounds of tool calls per agent call */
+export const DEFAULT_TOOL_ITERATIONS = 5;
+export const MAX_TOOL_ITERATIONS = 20;
+/** Deepest chain of skills started by mgr_run_skill from inside other tasks */
+export const MAX_TOOL_DEPTH = 2;
+/** Longest tool result handed back to the model */
+const MAX_RESULT_CHARS = 8000;
+
+/** Who is calling a tool, and how to start nested skill runs */
+export interface ToolCallContext {
+  taskId: string;
+  skillId: string;
+  agentId: string;
+  /** Nesting depth of the calling task (0 = top level) */
+  depth: number;
+  /** Route a nested task for mgr_run_skill */
+  runSkill: (skillId: string, params: Record<string, string>) => Promise<TaskResult>;
+}
+
+interface ManagerTool extends AgentToolDefinition {
+  run: (input: Record<string, unknown>, ctx: ToolCallContext) => Promise<unknown>;
+}
+
+function stringArg(input: Record<string, unknown>, name: string): string {
+  const value = input[name];
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`${name} is required`);
+  return value;
+}
+
+function optionalNumber(input: Record<string, unknown>, name: string, fallback: number): number {
+  const value = input[name];
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+const TOOLS: ManagerTool[] = [
+  {
+    name: 'mgr_search_knowledge',
+    description: 'Search cross-repo knowledge in mcp-index-server (agent performance, skill effectiveness, learned insights).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query' },
+        category: { type: 'string', description: 'Optional knowledge category filter' },
+        limit: { type: 'number', description: 'Max results (default 5)' },
+      },
+      required: ['query'],
+    },
+    run: async (input) => {
+      if (!indexClient.isConfigured()) throw new Error('Index-server not configured');
+      if (indexClient.isCircuitOpen()) throw new Error('Index-server unreachable (circuit open)');
+      const category = typeof input.category === 'string' ? input.category : undefined;
+      const results = await indexClient.searchKnowledge(stringArg(input, 'query'), {
+        category,
+        limit: Math.min(optionalNumber(input, 'limit', 5), 20),
+      });
+      return { resultCount: results.length, results };
+    },
+  },
+  {
+    name: 'mgr_read_messages',
+    description: 'Read messages addressed to you (or broadcast) on a mailbox channel. Messages are marked read.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel: { type: 'string', description: 'Channel to read from' },
+        unreadOnly: { type: 'boolean', description: 'Only messages not yet read by you (default true)' },
+        limit: { type: 'number', description: 'Max messages (default 10)' },
+      },
+      required: ['channel'],
+    },
+    run: async (input, ctx) => {
+      const messages = await agentMailbox.read({
+        channel: stringArg(input, 'channel'),
+        reader: ctx.agentId,
+        unreadOnly: input.unreadOnly !== false,
+        limit: Math.min(optionalNumber(input, 'limit', 10), 50),
+        markRead: true,
+      });
+      return {
+        count: messages.length,
+        messages: messages.map(m => ({ id: m.id, sender: m.sender, body: m.body, createdAt: m.createdAt, payload: m.payload })),
+      };
+    },
+  },
+  {
+    name: 'mgr_send_message',
+    description: 'Send a message on a mailbox channel to other agents. recipients defaults to ["*"] (broadcast).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel: { type: 'string', description: 'Channel / topic name' },
+        body: { type: 'string', description: 'Message text' },
+        recipients: { type: 'array', items: { type: 'string' }, description: 'Recipient agent IDs, or ["*"]' },
+      },
+      required: ['channel', 'body'],
+    },
+    run: async (input, ctx) => {
+      const recipients = Array.isArray(input.recipients) && input.recipients.length > 0
+        ? input.recipients.map(String)
+        : ['*'];
+      const messageId = await agentMailbox.send({
+        channel: stringArg(input, 'channel'),
+        sender: ctx.agentId,
+        recipients,
+        body: stringArg(input, 'body'),
+      });
+      return { messageId, status: 'sent' };
+    },
+  },
+  {
+    name: 'mgr_run_skill',
+    description: 'Run another registered skill as a sub-task and return its final output.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        skillId: { type: 'string', description: 'Skill to run' },
+        params: { type: 'object', additionalProperties: { type: 'string' }, description: 'Skill parameters' },
+      },
+      required: ['skillId'],
+    },
+    run: async (input, ctx) => {
+      const skillId = stringArg(input, 'skillId');
+      if (skillId === ctx.skillId) throw new Error(`A skill cannot run itself (${skillId})`);
+      if (ctx.depth >= MAX_TOOL_DEPTH) throw new Error(`Nested skill limit reached (depth ${MAX_TOOL_DEPTH})`);
+      const raw = input.params && typeof input.params === 'object' ? input.params as Record<string, unknown> : {};
+      const params = Object.fromEntries(Object.entries(raw).map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)]));
+      const result = await ctx.runSkill(skillId, params);
+      if (!result.success) {
+        throw new Error(`Skill ${skillId} failed: ${result.responses.map(responseError).filter(Boolean).join('; ') || 'no successful response'}`);
+      }
+      return { taskId: result.taskId, content: result.finalContent, parsed: result.parsed };
+    },
+  },
+];
+
+const toolsByName = new Map(TOOLS.map(t => [t.name, t]));
+
+/** Names of every manager tool agents can be given */
+export const MANAGER_TOOL_NAMES: string[] = TOOLS.map(t => t.name);
+
+/** Server-wide allowlist from MCP_AGENT_TOOLS (comma-separated); unset allows every tool */
+function serverAllowlist(): Set<string> | undefined {
+  const raw = process.env.MCP_AGENT_TOOLS;
+  if (raw === undefined) return undefined;
+  return new Set(raw.split(',').map(s => s.trim()).filter(Boolean));
+}
+
+/** Check a skill's tools and maxToolIterations. Returns error messages (empty = valid). */
+export function validateToolConfig(skill: Pick<SkillDefinition, 'tools' | 'maxToolIterations'>): string[] {
+  const errors: string[] = [];
+  for (const name of skill.tools ?? []) {
+    if (!toolsByName.has(name)) errors.push(`unknown tool "${name}" (available: ${MANAGER_TOOL_NAMES.join(', ')})`);
+  }
+  const max = skill.maxToolIterations;
+  if (max !== undefined && (!Number.isInteger(max) || max < 1 || max > MAX_TOOL_ITERATIONS)) {
+    errors.push(`maxToolIterations must be an integer from 1 to ${MAX_TOOL_ITERATIONS}`);
+  }
+  return errors;
+}
+
+/** Tool definitions for a skill: its allowlist, narrowed by MCP_AGENT_TOOLS */
+export function resolveSkillTools(skill: Pick<SkillDefinition, 'id' | 'tools'>): AgentToolDefinition[] {
+  const allowed = serverAllowlist();
+  const tools: AgentToolDefinition[] = [];
+  for (const name of skill.tools ?? []) {
+    const tool = toolsByName.get(name);
+    if (!tool) continue;
+    if (allowed && !allowed.has(name)) {
+      logger.debug(`Skill ${skill.id}: tool ${name} not in MCP_AGENT_TOOLS, not offered`);
+      continue;
+    }
+    tools.push({ name: tool.name, description: tool.description, inputSchema: tool.inputSchema });
+  }
+  return tools;
+}
+
+/** Run a manager tool for an agent - resolves with the result as JSON text, rejects on failure */
+export async function executeManagerTool(
+  name: string,
+  input: Record<string, unknown>,
+  ctx: ToolCallContext
+): Promise<string> {
+  const tool = toolsByName.get(name);
+  if (!tool) throw new Error(`Unknown tool: ${name}`);
+  const allowed = serverAllowlist();
+  if (allowed && !allowed.has(name)) throw new Error(`Tool ${name} is not allowed (MCP_AGENT_TOOLS)`);
+
+  logger.debug(`Task ${ctx.taskId}: ${ctx.agentId} calling ${name}`);
+  const text = JSON.stringify(await tool.run(input, ctx));
+  return text.length > MAX_RESULT_CHARS ? `${text.substring(0, MAX_RESULT_CHARS)}... [truncated]` : text;
+}
@@ -17,6 +17,7 @@ import { eventBus, ManagerEventName } from './events.js';
 import { logger } from './logger.js';
 import { getMetaDir } from './dataDir.js';
 import { IndexClient, indexClient } from './indexClient.js';
+import type { QualityEvaluation } from '../types/index.js';
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -54,6 +55,8 @@ export interface AgentMeta {
   premiumRequests: number;
   /** Whether this agent's token counts are estimated */
   tokensEstimated: boolean;
+  /** Quality evaluations of this agent's responses (cost-optimized / fallback evaluators) */
+  quality?: QualityStats;
   /** Breakdown by skill */
   skillBreakdown: Record<string, {
     tasks: number;
@@ -82,10 +85,22 @@ export interface SkillMeta {
   premiumRequests: number;
   bestAgentId?: string;
   bestAgentSuccessRate?: number;
+  /** Quality evaluations of this skill's responses */
+  quality?: QualityStats;
   firstSeenAt: string;
   lastSeenAt: string;
 }
 
+/** Accumulated evaluator scores */
+export interface QualityStats {
+  evaluations: number;
+  passCount: number;
+  scoreSum: number;
+  avgScore: number;
+  /** Evaluator types seen (e.g. heuristic, llm-judge) */
+  evaluators: string[];
+}
+
 /** Per-automation-rule accumulated stats */
 export interface AutomationMeta {
   ruleId: string;
@@ -128,6 +143,8 @@ export interface TaskMeta {
   tokensEstimated?: boolean;
   /** Premium requests consumed */
   premiumRequests?: number;
+  /** Mean evaluator score across graded responses */
+  avgQualityScore?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -241,10 +258,51 @@ function onAgentRegistered(data: { agentId: string; provider: string; model: str
   }
 }
 
+/** Fold evaluator scores into a quality accumulator */
+function addQuality(stats: QualityStats | undefined, evaluations: QualityEvaluation[]): QualityStats {
+  const q = stats ?? { evaluations: 0, passCount: 0, scoreSum: 0, avgScore: 0, evaluators: [] };
+  for (const e of evaluations) {
+    q.evaluations++;
+    if (e.pass) q.passCount++;
+    q.scoreSum += e.score;
+    if (!q.evaluators.includes(e.evaluator)) q.evaluators.push(e.evaluator);
+  }
+  q.avgScore = q.evaluations > 0 ? Math.round(q.scoreSum / q.evaluations * 1000) / 1000 : 0;
+  return q;
+}
+
+/** Agent stats entry, created on first sight when agent:registered was missed (e.g. before init) */
+function ensureAgentMeta(agentId: string): AgentMeta {
+  let meta = agentStats.get(agentId);
+  if (!meta) {
+    const now = new Date().toISOString();
+    meta = {
+      agentId,
+      totalTasks: 0,
+      successCount: 0,
+      failureCount: 0,
+      totalTokens: 0,
+      totalCost: 0,
+      totalLatencyMs: 0,
+      avgLatencyMs: 0,
+      avgTokensPerTask: 0,
+      premiumRequests: 0,
+      tokensEstimated: false,
+      skillBreakdown: {},
+      firstSeenAt: now,
+      lastSeenAt: now,
+    };
+    agentStats.set(agentId, meta);
+  }
+  return meta;
+}
+
 function onTaskCompleted(data: {
   taskId: string; skillId: string; strategy: string;
   success: boolean; totalTokens: number; totalCost: number;
   totalLatencyMs: number; agentCount: number;
+  evaluations?: QualityEvaluation[];
+  agentResults?: Array<{ agentId: string; success: boolean; tokenCount: number; costUnits: number; latencyMs: number }>;
 }): void {
   const now = new Date().toISOString();
 
@@ -281,6 +339,16 @@ function onTaskCompleted(data: {
   sk.avgLatencyMs = sk.totalTasks > 0 ? Math.round(sk.totalLatencyMs / sk.totalTasks) : 0;
   sk.lastSeenAt = now;
 
+  // --- Quality scores (per skill, and per graded agent) ---
+  const evaluations = data.evaluations ?? [];
+  if (evaluations.length > 0) {
+    sk.quality = addQuality(sk.quality, evaluations);
+    for (const e of evaluations) {
+      const agent = ensureAgentMeta(e.agentId);
+      agent.quality = addQuality(agent.quality, [e]);
+    }
+  }
+
   // --- Per-task record (for fine-grained trends) ---
   pendingTaskRecords.push({
     taskId: data.taskId,
@@ -292,14 +360,31 @@ function onTaskCompleted(data: {
     totalLatencyMs: data.totalLatencyMs,
     agentCount: data.agentCount,
     completedAt: now,
+    avgQualityScore: evaluations.length > 0
+      ? Math.round(evaluations.reduce((sum, e) => sum + e.score, 0) / evaluations.length * 1000) / 1000
+      : undefined,
   });
 
-  // NOTE: We can't break down per-agent here because task:completed only has
-  // aggregate data. Agent-level breakdown is updated when agent:state-changed fires
-  // after task completion (the registry tracks per-agent in memory).
-  // For a deeper breakdown, we'd need to emit richer events from taskRouter.
-  // For now, agent stats are accumulated from the agent:registered event +
-  // periodic flush pulls latest from agentRegistry.
+  // --- Per-agent outcomes and skill breakdown ---
+  for (const r of data.agentResults ?? []) {
+    const agent = ensureAgentMeta(r.agentId);
+    agent.totalTasks++;
+    if (r.success) agent.successCount++;
+    else agent.failureCount++;
+    agent.totalTokens += r.tokenCount;
+    agent.totalCost += r.costUnits;
+    agent.totalLatencyMs += r.latencyMs;
+    agent.avgLatencyMs = Math.round(agent.totalLatencyMs / agent.totalTasks);
+    agent.avgTokensPerTask = Math.round(agent.totalTokens / agent.totalTasks);
+    agent.lastSeenAt = now;
+
+    const breakdown = agent.skillBreakdown[data.skillId] ??= { tasks: 0, successes: 0, failures: 0, totalTokens: 0, totalLatencyMs: 0 };
+    breakdown.tasks++;
+    if (r.success) breakdown.successes++;
+    else breakdown.failures++;
+    breakdown.totalTokens += r.tokenCount;
+    breakdown.totalLatencyMs += r.latencyMs;
+  }
 }
 
 function onSkillRegistered(data: { skillId: string; name: string; strategy: string }): void {
@@ -394,7 +479,8 @@ async function syncToIndex(): Promise<void> {
       await indexClient.storeKnowledge(
         `skill-performance:${skill.skillId}`,
         `Skill ${skill.skillId} (${skill.strategy}): ` +
-        `${skill.totalTasks} executions, ${skill.successCount} success, avg ${skill.avgLatencyMs}ms`,
+        `${skill.totalTasks} executions, ${skill.successCount} success, avg ${skill.avgLatencyMs}ms` +
+        (skill.quality ? `, quality ${skill.quality.avgScore} (${skill.quality.passCount}/${skill.quality.evaluations} passed)` : ''),
         {
           category: 'skill-performance',
           skillId: skill.skillId,
@@ -516,6 +602,24 @@ export function getInsightsSummary(): {
   };
 }
 
+/**
+ * Historical success rate of an agent, Laplace-smoothed so agents without history score 0.5.
+ * Uses the agent's record on the given skill when it has one, else its overall record.
+ */
+export function getAgentSuccessRate(agentId: string, skillId?: string): number {
+  const meta = agentStats.get(agentId);
+  const onSkill = skillId ? meta?.skillBreakdown[skillId] : undefined;
+  const [successes, total] = onSkill && onSkill.tasks > 0
+    ? [onSkill.successes, onSkill.tasks]
+    : [meta?.successCount ?? 0, meta?.totalTasks ?? 0];
+  return (successes + 1) / (total + 2);
+}
+
+/** An agent's recorded history on one skill, if any */
+export function getAgentSkillStats(agentId: string, skillId: string): AgentMeta['skillBreakdown'][string] | undefined {
+  return agentStats.get(agentId)?.skillBreakdown[skillId];
+}
+
 /** Force an immediate flush (useful for testing) */
 export function flushNow(): void {
   flush();
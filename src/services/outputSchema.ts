@@ -0,0 +1,227 @@
+// mcp-agent-manager/src/services/outputSchema.ts
+// Structured skill output - JSON extraction from free-text responses, validation
+// against a JSON Schema subset, and the prompts used to request and repair it.
+
+import type { AgentResponse, JsonSchemaType, OutputSchema, SkillDefinition } from '../types/index.js';
+
+const SCHEMA_TYPES: JsonSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+const SCHEMA_KEYWORDS = new Set([
+  'type', 'properties', 'required', 'additionalProperties', 'items', 'enum', 'const',
+  'minLength', 'maxLength', 'pattern', 'minimum', 'maximum', 'minItems', 'maxItems',
+  'anyOf', 'oneOf', 'allOf', 'title', 'description', '$schema', 'default', 'examples', 'format',
+]);
+const COUNT_KEYWORDS = ['minLength', 'maxLength', 'minItems', 'maxItems'] as const;
+
+/** Default re-prompts per agent call when output fails validation */
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+export const MAX_REPAIR_ATTEMPTS = 5;
+
+/** Check that a schema only uses supported keywords with well-formed values. Returns error messages (empty = valid). */
+export function validateOutputSchema(schema: unknown, path = '#'): string[] {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return [`${path}: schema must be an object`];
+  const s = schema as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(s)) {
+    if (!SCHEMA_KEYWORDS.has(key)) errors.push(`${path}: unsupported keyword "${key}"`);
+  }
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type : [s.type];
+    for (const t of types) {
+      if (!SCHEMA_TYPES.includes(t as JsonSchemaType)) errors.push(`${path}: unknown type "${t}" (expected ${SCHEMA_TYPES.join(' | ')})`);
+    }
+  }
+  if (s.properties !== undefined) {
+    if (!s.properties || typeof s.properties !== 'object' || Array.isArray(s.properties)) {
+      errors.push(`${path}: properties must be an object`);
+    } else {
+      for (const [name, sub] of Object.entries(s.properties)) errors.push(...validateOutputSchema(sub, `${path}/properties/${name}`));
+    }
+  }
+  if (s.required !== undefined && (!Array.isArray(s.required) || s.required.some(r => typeof r !== 'string'))) {
+    errors.push(`${path}: required must be an array of property names`);
+  }
+  if (s.additionalProperties !== undefined && typeof s.additionalProperties !== 'boolean') {
+    errors.push(...validateOutputSchema(s.additionalProperties, `${path}/additionalProperties`));
+  }
+  if (s.items !== undefined) errors.push(...validateOutputSchema(s.items, `${path}/items`));
+  if (s.enum !== undefined && (!Array.isArray(s.enum) || s.enum.length === 0)) errors.push(`${path}: enum must be a non-empty array`);
+  for (const key of COUNT_KEYWORDS) {
+    const v = s[key];
+    if (v !== undefined && (!Number.isInteger(v) || (v as number) < 0)) errors.push(`${path}: ${key} must be a non-negative integer`);
+  }
+  for (const key of ['minimum', 'maximum']) {
+    if (s[key] !== undefined && typeof s[key] !== 'number') errors.push(`${path}: ${key} must be a number`);
+  }
+  if (s.pattern !== undefined) {
+    try { new RegExp(s.pattern as string); } catch { errors.push(`${path}: pattern is not a valid regular expression`); }
+  }
+  for (const key of ['anyOf', 'oneOf', 'allOf']) {
+    const v = s[key];
+    if (v === undefined) continue;
+    if (!Array.isArray(v) || v.length === 0) {
+      errors.push(`${path}: ${key} must be a non-empty array of schemas`);
+      continue;
+    }
+    v.forEach((sub, i) => errors.push(...validateOutputSchema(sub, `${path}/${key}/${i}`)));
+  }
+  return errors;
+}
+
+/** Validate a skill's structured-output settings. Returns error messages (empty = valid). */
+export function validateOutputConfig(skill: Pick<SkillDefinition, 'outputSchema' | 'outputRepairAttempts'>): string[] {
+  const errors = skill.outputSchema !== undefined ? validateOutputSchema(skill.outputSchema) : [];
+  const attempts = skill.outputRepairAttempts;
+  if (attempts !== undefined && (!Number.isInteger(attempts) || attempts < 0 || attempts > MAX_REPAIR_ATTEMPTS)) {
+    errors.push(`outputRepairAttempts must be an integer from 0 to ${MAX_REPAIR_ATTEMPTS}`);
+  }
+  return errors;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeOf(value) === type;
+  }
+}
+
+/** Validate a JSON value against a schema. Errors are prefixed with the JSON path ($, $.a, $.list[0]). */
+export function validateJson(value: unknown, schema: OutputSchema, path = '$'): string[] {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  const errors: string[] = [];
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match /${schema.pattern}/`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: needs at least ${schema.minItems} item(s)`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: allows at most ${schema.maxItems} item(s)`);
+    if (schema.items) value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+  }
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (!(name in obj)) errors.push(`${path}: missing required property "${name}"`);
+    }
+    for (const [name, v] of Object.entries(obj)) {
+      const sub = schema.properties?.[name];
+      if (sub) {
+        errors.push(...validateJson(v, sub, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${name}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJson(v, schema.additionalProperties, `${path}.${name}`));
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    for (const sub of schema.allOf) errors.push(...validateJson(value, sub, path));
+  }
+  if (schema.anyOf && !schema.anyOf.some(sub => validateJson(value, sub, path).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema (anyOf)`);
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(sub => validateJson(value, sub, path).length === 0).length;
+    if (matches !== 1) errors.push(`${path}: must match exactly one schema (oneOf), matched ${matches}`);
+  }
+  return errors;
+}
+
+/** Index just past the bracket that closes the one at `start`, or -1 - skips brackets inside strings */
+function closingIndex(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      if (--depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Extract a JSON value from a model response: the whole response, a ```json fenced
+ * block, or the first balanced {...} / [...] that parses. Returns undefined when none is found.
+ */
+export function extractJson(content: string): { value: unknown } | undefined {
+  const candidates: string[] = [content.trim()];
+  for (const m of content.matchAll(/```(?:json|JSON)?[ \t]*\r?\n([\s\S]*?)```/g)) candidates.push(m[1].trim());
+
+  for (const text of candidates) {
+    try { return { value: JSON.parse(text) }; } catch { /* try next candidate */ }
+  }
+
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] !== '{' && content[i] !== '[') continue;
+    const end = closingIndex(content, i);
+    if (end < 0) continue;
+    try { return { value: JSON.parse(content.slice(i, end)) }; } catch { /* keep scanning */ }
+  }
+  return undefined;
+}
+
+/** Extract and validate structured output from a response */
+export function parseStructuredOutput(content: string, schema: OutputSchema): { value?: unknown; errors: string[] } {
+  const extracted = extractJson(content);
+  if (!extracted) return { errors: ['Response does not contain valid JSON'] };
+  const errors = validateJson(extracted.value, schema);
+  return errors.length > 0 ? { errors } : { value: extracted.value, errors };
+}
+
+/** Instructions appended to a prompt so the agent answers in JSON matching the schema */
+export function outputInstructions(schema: OutputSchema): string {
+  return `\n\nRespond with a single JSON value that conforms to this JSON Schema. ` +
+    `Return only the JSON, optionally in a \`\`\`json code block, with no other text.\n` +
+    `\`\`\`json\n${JSON.stringify(schema, null, 2)}\n\`\`\``;
+}
+
+/** Follow-up prompt asking the agent to fix output that failed validation */
+export function repairPrompt(errors: string[], schema: OutputSchema): string {
+  return `Your previous response did not satisfy the required JSON Schema:\n` +
+    errors.map(e => `- ${e}`).join('\n') +
+    `\n\nReply again with the corrected answer.` + outputInstructions(schema);
+}
+
+/** True when a task can use the response - the provider call succeeded and any output schema validated */
+export function isUsable(response: AgentResponse): boolean {
+  return response.success && !response.schemaError;
+}
+
+/** Why a response cannot be used - the provider error, else the schema failure */
+export function responseError(response: AgentResponse): string | undefined {
+  return response.error ?? response.schemaError;
+}
@@ -0,0 +1,383 @@
+// mcp-agent-manager/src/services/promptTemplate.ts
+// Skill prompt template engine. Plain {param} substitution stays valid; on top of it:
+//   {name | filter:arg}           filters: default, truncate, indent, json, join, upper, lower, trim
+//   {#if cond}..{:else}..{/if}    cond: name, !name, name == "x", name != "x"
+//   {#each list as item}..{:else}..{/each}   list params: JSON array or one item per line; {@index}, {@first}, {@last}
+//   {> fragment}                  include <skillsDir>/fragments/<fragment>.md
+// Values are inserted as text and never re-parsed. Errors carry line/column.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getSkillsDir } from './dataDir.js';
+
+export const FRAGMENTS_DIR = path.join(getSkillsDir(), 'fragments');
+
+/** Returns fragment source by name, or undefined when it does not exist */
+export type FragmentLoader = (name: string) => string | undefined;
+
+interface Pos { line: number; column: number }
+interface Filter { name: string; arg?: string | number }
+type Expr = { path: string[]; filters: Filter[] };
+type Cond = { path: string[]; negate: boolean; op?: '==' | '!='; value?: string };
+
+type Node =
+  | { kind: 'text'; value: string }
+  | { kind: 'var'; expr: Expr; pos: Pos }
+  | { kind: 'if'; cond: Cond; then: Node[]; else: Node[]; pos: Pos }
+  | { kind: 'each'; path: string[]; alias: string; body: Node[]; else: Node[]; pos: Pos }
+  | { kind: 'include'; name: string; pos: Pos };
+
+/** Filter name → whether it requires an argument */
+const FILTERS: Record<string, 'none' | 'int' | 'string' | 'optional-int' | 'optional-string'> = {
+  default: 'string',
+  truncate: 'int',
+  indent: 'optional-int',
+  json: 'none',
+  join: 'optional-string',
+  upper: 'none',
+  lower: 'none',
+  trim: 'none',
+};
+
+/** A tag: starts with one of # / : > @ or an identifier, no braces or newlines inside */
+const TAG = /\{([#/:>@A-Za-z_][^{}\n]*)\}/g;
+const PATH = /^@?[A-Za-z_]\w*(?:\.\w+)*$/;
+const FRAGMENT_NAME = /^[\w-]+$/;
+
+/** Default loader: <skillsDir>/fragments/<name>.md */
+export function loadFragment(name: string): string | undefined {
+  if (!FRAGMENT_NAME.test(name)) return undefined;
+  const file = path.join(FRAGMENTS_DIR, `${name}.md`);
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function positionAt(source: string, offset: number): Pos {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+function fail(pos: Pos, message: string, name?: string): never {
+  throw new Error(`${name ? `${name}: ` : ''}line ${pos.line}, column ${pos.column}: ${message}`);
+}
+
+function parsePath(text: string, pos: Pos, name?: string): string[] {
+  if (!PATH.test(text)) fail(pos, `Invalid variable "${text}"`, name);
+  return text.split('.');
+}
+
+function parseFilter(text: string, pos: Pos, name?: string): Filter {
+  const m = /^(\w+)\s*(?::\s*(.+))?$/.exec(text.trim());
+  if (!m) fail(pos, `Invalid filter "${text.trim()}"`, name);
+  const [, filterName, rawArg] = m;
+  const kind = FILTERS[filterName];
+  if (!kind) fail(pos, `Unknown filter "${filterName}" (expected ${Object.keys(FILTERS).join(', ')})`, name);
+  if (rawArg === undefined) {
+    if (kind === 'int' || kind === 'string') fail(pos, `Filter "${filterName}" requires an argument`, name);
+    return { name: filterName };
+  }
+  if (kind === 'none') fail(pos, `Filter "${filterName}" takes no argument`, name);
+  if (kind === 'int' || kind === 'optional-int') {
+    if (!/^\d+$/.test(rawArg)) fail(pos, `Filter "${filterName}" needs a non-negative integer (got ${rawArg})`, name);
+    return { name: filterName, arg: Number(rawArg) };
+  }
+  try {
+    const arg = JSON.parse(rawArg);
+    if (typeof arg !== 'string') throw new Error();
+    return { name: filterName, arg };
+  } catch {
+    return fail(pos, `Filter "${filterName}" needs a double-quoted string (got ${rawArg})`, name);
+  }
+}
+
+function parseCond(text: string, pos: Pos, name?: string): Cond {
+  const m = /^(!?)\s*([^\s!=]+)\s*(?:(==|!=)\s*(.+))?$/.exec(text.trim());
+  if (!m) fail(pos, `Invalid condition "${text.trim()}"`, name);
+  const [, bang, target, op, rawValue] = m;
+  const cond: Cond = { path: parsePath(target, pos, name), negate: bang === '!' };
+  if (op) {
+    if (cond.negate) fail(pos, 'Cannot combine ! with a comparison', name);
+    let value: unknown;
+    try { value = JSON.parse(rawValue); } catch { /* reported below */ }
+    if (typeof value !== 'string') fail(pos, `Comparison needs a double-quoted string (got ${rawValue})`, name);
+    cond.op = op as '==' | '!=';
+    cond.value = value;
+  }
+  return cond;
+}
+
+/** Parse a template. Throws with line/column on syntax errors. */
+function parse(source: string, name?: string): Node[] {
+  type Frame = { node: Extract<Node, { kind: 'if' | 'each' }>; inElse: boolean };
+  const root: Node[] = [];
+  const stack: Frame[] = [];
+  const current = (): Node[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.else : top.node.kind === 'if' ? top.node.then : top.node.body;
+  };
+
+  let last = 0;
+  for (const m of source.matchAll(TAG)) {
+    const content = m[1];
+    const pos = positionAt(source, m.index!);
+    const head = content[0];
+
+    // Identifier-led text that isn't a valid expression (e.g. code in a prompt) stays literal
+    let expr: Expr | undefined;
+    if (head !== '#' && head !== '/' && head !== ':' && head !== '>') {
+      const [target, ...filters] = content.split('|');
+      if (!PATH.test(target.trim())) continue;
+      expr = { path: target.trim().split('.'), filters: filters.map(f => parseFilter(f, pos, name)) };
+    }
+
+    if (m.index! > last) current().push({ kind: 'text', value: source.slice(last, m.index) });
+    last = m.index! + m[0].length;
+
+    if (expr) {
+      current().push({ kind: 'var', expr, pos });
+      continue;
+    }
+
+    const body = content.slice(1).trim();
+    if (head === '#') {
+      const [keyword, ...rest] = body.split(/\s+/);
+      const args = rest.join(' ');
+      if (keyword === 'if') {
+        if (!args) fail(pos, '{#if} needs a condition', name);
+        const node: Frame['node'] = { kind: 'if', cond: parseCond(args, pos, name), then: [], else: [], pos };
+        current().push(node);
+        stack.push({ node, inElse: false });
+      } else if (keyword === 'each') {
+        const em = /^(\S+)\s+as\s+([A-Za-z_]\w*)$/.exec(args);
+        if (!em) fail(pos, '{#each} expects "{#each list as item}"', name);
+        const node: Frame['node'] = { kind: 'each', path: parsePath(em[1], pos, name), alias: em[2], body: [], else: [], pos };
+        current().push(node);
+        stack.push({ node, inElse: false });
+      } else {
+        fail(pos, `Unknown block "{#${keyword}}" (expected #if or #each)`, name);
+      }
+    } else if (head === ':') {
+      if (body !== 'else') fail(pos, `Unknown tag "{:${body}}" (expected {:else})`, name);
+      const top = stack[stack.length - 1];
+      if (!top) fail(pos, '{:else} outside of {#if} or {#each}', name);
+      if (top.inElse) fail(pos, `Duplicate {:else} in {#${top.node.kind}} opened at line ${top.node.pos.line}`, name);
+      top.inElse = true;
+    } else if (head === '/') {
+      const top = stack.pop();
+      if (!top) fail(pos, `{/${body}} without an open block`, name);
+      if (top.node.kind !== body) {
+        fail(pos, `{/${body}} closes {#${top.node.kind}} opened at line ${top.node.pos.line}, column ${top.node.pos.column}`, name);
+      }
+    } else {
+      if (!FRAGMENT_NAME.test(body)) fail(pos, `Invalid fragment name "${body}"`, name);
+      current().push({ kind: 'include', name: body, pos });
+    }
+  }
+
+  if (last < source.length) current().push({ kind: 'text', value: source.slice(last) });
+  const open = stack[stack.length - 1];
+  if (open) fail(open.node.pos, `Unclosed {#${open.node.kind}}`, name);
+  return root;
+}
+
+// ── Rendering ───────────────────────────────────────────────────────
+
+type Scope = Map<string, unknown>;
+
+function lookup(scopes: Scope[], segments: string[], params: Record<string, string>): unknown {
+  const [root, ...rest] = segments;
+  let value: unknown;
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (scopes[i].has(root)) { value = scopes[i].get(root); break; }
+  }
+  if (value === undefined) value = params[root];
+  for (const key of rest) {
+    if (typeof value === 'string') {
+      try { value = JSON.parse(value); } catch { return undefined; }
+    }
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function asText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** List params: a JSON array, or one item per non-empty line */
+function asList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string') return value === undefined || value === null ? [] : [value];
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed;
+    } catch { /* fall through to lines */ }
+  }
+  return trimmed.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+}
+
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') {
+    const t = value.trim();
+    return t !== '' && t !== 'false' && t !== '0' && t !== '[]';
+  }
+  return !!value;
+}
+
+function applyFilter(value: unknown, filter: Filter): unknown {
+  switch (filter.name) {
+    case 'default': return truthy(value) ? value : filter.arg;
+    case 'truncate': {
+      const text = asText(value);
+      const max = filter.arg as number;
+      return text.length > max ? text.slice(0, max) + '...' : text;
+    }
+    case 'indent': {
+      const pad = ' '.repeat((filter.arg as number | undefined) ?? 2);
+      return asText(value).split('\n').map(l => (l ? pad + l : l)).join('\n');
+    }
+    case 'json': return JSON.stringify(value ?? null, null, 2);
+    case 'join': return asList(value).map(asText).join((filter.arg as string | undefined) ?? ', ');
+    case 'upper': return asText(value).toUpperCase();
+    case 'lower': return asText(value).toLowerCase();
+    case 'trim': return asText(value).trim();
+    default: return value;
+  }
+}
+
+interface RenderContext {
+  params: Record<string, string>;
+  loader: FragmentLoader;
+  /** Fragment include chain, for cycle detection */
+  including: string[];
+}
+
+function renderNodes(nodes: Node[], scopes: Scope[], ctx: RenderContext, name?: string): string {
+  let out = '';
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        out += node.value;
+        break;
+      case 'var': {
+        let value = lookup(scopes, node.expr.path, ctx.params);
+        for (const filter of node.expr.filters) value = applyFilter(value, filter);
+        out += asText(value);
+        break;
+      }
+      case 'if': {
+        const value = lookup(scopes, node.cond.path, ctx.params);
+        let pass = node.cond.op
+          ? (asText(value) === node.cond.value) === (node.cond.op === '==')
+          : truthy(value);
+        if (node.cond.negate) pass = !pass;
+        out += renderNodes(pass ? node.then : node.else, scopes, ctx, name);
+        break;
+      }
+      case 'each': {
+        const items = asList(lookup(scopes, node.path, ctx.params));
+        if (items.length === 0) {
+          out += renderNodes(node.else, scopes, ctx, name);
+          break;
+        }
+        items.forEach((item, index) => {
+          const scope: Scope = new Map<string, unknown>([
+            [node.alias, item],
+            ['@index', index],
+            ['@first', index === 0],
+            ['@last', index === items.length - 1],
+          ]);
+          out += renderNodes(node.body, [...scopes, scope], ctx, name);
+        });
+        break;
+      }
+      case 'include': {
+        if (ctx.including.includes(node.name)) {
+          fail(node.pos, `Include cycle: ${[...ctx.including, node.name].join(' -> ')}`, name);
+        }
+        const source = ctx.loader(node.name);
+        if (source === undefined) fail(node.pos, `Fragment not found: ${node.name}`, name);
+        const fragmentName = `fragment "${node.name}"`;
+        out += renderNodes(parse(source, fragmentName), scopes, { ...ctx, including: [...ctx.including, node.name] }, fragmentName);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Render a template with string params. Throws on syntax errors, missing fragments, and include cycles. */
+export function renderTemplate(
+  source: string,
+  params: Record<string, string>,
+  loader: FragmentLoader = loadFragment
+): string {
+  return renderNodes(parse(source), [], { params, loader, including: [] });
+}
+
+/** Walk a template and its includes. Calls visit for every variable root not bound by an enclosing {#each}. */
+function walk(
+  nodes: Node[],
+  bound: Set<string>,
+  loader: FragmentLoader,
+  including: string[],
+  visit: (root: string) => void,
+  name?: string
+): void {
+  const see = (segments: string[]) => {
+    if (!segments[0].startsWith('@') && !bound.has(segments[0])) visit(segments[0]);
+  };
+  for (const node of nodes) {
+    if (node.kind === 'var') see(node.expr.path);
+    else if (node.kind === 'if') {
+      see(node.cond.path);
+      walk(node.then, bound, loader, including, visit, name);
+      walk(node.else, bound, loader, including, visit, name);
+    } else if (node.kind === 'each') {
+      see(node.path);
+      walk(node.body, new Set([...bound, node.alias]), loader, including, visit, name);
+      walk(node.else, bound, loader, including, visit, name);
+    } else if (node.kind === 'include') {
+      if (including.includes(node.name)) {
+        fail(node.pos, `Include cycle: ${[...including, node.name].join(' -> ')}`, name);
+      }
+      const source = loader(node.name);
+      if (source === undefined) fail(node.pos, `Fragment not found: ${node.name}`, name);
+      const fragmentName = `fragment "${node.name}"`;
+      walk(parse(source, fragmentName), bound, loader, [...including, node.name], visit, fragmentName);
+    }
+  }
+}
+
+/** Syntax-check a template and its includes. Returns error messages with line/column (empty = valid). */
+export function validateTemplate(source: string, loader: FragmentLoader = loadFragment): string[] {
+  try {
+    walk(parse(source), new Set(), loader, [], () => {});
+    return [];
+  } catch (err: any) {
+    return [err.message];
+  }
+}
+
+/** Param names a template reads (including via fragments), in first-seen order. Empty for invalid templates. */
+export function templateVariables(source: string, loader: FragmentLoader = loadFragment): string[] {
+  const names = new Set<string>();
+  try {
+    walk(parse(source), new Set(), loader, [], root => names.add(root));
+  } catch {
+    return [];
+  }
+  return Array.from(names);
+}
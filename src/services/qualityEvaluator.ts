@@ -0,0 +1,253 @@
+// mcp-agent-manager/src/services/qualityEvaluator.ts
+// Pluggable response quality evaluators for cost-optimized escalation and fallback:
+// keyword heuristic, LLM judge agent, regex/assertion checks, and JSON-schema checks.
+
+import type {
+  AgentConfig,
+  AgentResponse,
+  QualityEvaluation,
+  QualityEvaluatorConfig,
+  ResponseAssertion,
+  SkillDefinition,
+} from '../types/index.js';
+import { agentRegistry } from './agentRegistry.js';
+import { extractJson, parseStructuredOutput, validateOutputSchema } from './outputSchema.js';
+import { logger } from './logger.js';
+
+/** Sends a grading prompt to a judge agent - supplied by the router so usage counts toward the task */
+export type JudgeFn = (agent: AgentConfig, prompt: string) => Promise<AgentResponse>;
+
+export interface EvaluationInput {
+  response: AgentResponse;
+  /** Prompt the response answers */
+  prompt: string;
+  skill: SkillDefinition;
+  config: QualityEvaluatorConfig;
+  /** Resolved passing score (config, then skill.qualityThreshold, then 0.5) */
+  threshold: number;
+  judge: JudgeFn;
+}
+
+/** Evaluator result - pass defaults to score >= threshold */
+export interface EvaluatorScore {
+  score: number;
+  pass?: boolean;
+  reason?: string;
+  judgeAgentId?: string;
+}
+
+export type EvaluatorFn = (input: EvaluationInput) => Promise<EvaluatorScore> | EvaluatorScore;
+
+const ASSERTION_KINDS: ResponseAssertion['kind'][] = ['contains', 'not-contains', 'matches', 'not-matches', 'min-length', 'max-length'];
+const DEFAULT_RUBRIC = 'Correctness, completeness, and whether the response directly answers the question.';
+
+/** Registry of evaluator functions */
+const evaluators: Map<string, EvaluatorFn> = new Map();
+
+/** Register a quality evaluator, selectable by skills as evaluator.type */
+export function registerEvaluator(name: string, fn: EvaluatorFn): void {
+  evaluators.set(name, fn);
+  logger.info(`Registered quality evaluator: ${name}`);
+}
+
+/** Names of all registered evaluators */
+export function listEvaluators(): string[] {
+  return [...evaluators.keys()];
+}
+
+/** Validate a skill's evaluator config. Returns error messages (empty = valid). */
+export function validateEvaluatorConfig(skill: Pick<SkillDefinition, 'evaluator' | 'outputSchema'>): string[] {
+  const config = skill.evaluator;
+  if (!config) return [];
+  const errors: string[] = [];
+
+  if (!evaluators.has(config.type)) {
+    errors.push(`Unknown evaluator "${config.type}" (expected ${listEvaluators().join(' | ')})`);
+  }
+  if (config.threshold !== undefined && !(config.threshold >= 0 && config.threshold <= 1)) {
+    errors.push('threshold must be between 0 and 1');
+  }
+  if (config.type === 'llm-judge' && !config.judgeTags?.length) {
+    errors.push('llm-judge requires judgeTags');
+  }
+  if (config.type === 'assertions') {
+    if (!config.assertions?.length) errors.push('assertions evaluator requires at least one assertion');
+    for (const a of config.assertions ?? []) {
+      if (!ASSERTION_KINDS.includes(a.kind)) {
+        errors.push(`Unknown assertion kind "${a.kind}" (expected ${ASSERTION_KINDS.join(' | ')})`);
+      } else if (a.kind.endsWith('matches')) {
+        try { new RegExp(a.value, a.flags); } catch { errors.push(`Invalid regex in ${a.kind} assertion: ${a.value}`); }
+      } else if (a.kind.endsWith('length') && !/^\d+$/.test(a.value)) {
+        errors.push(`${a.kind} assertion needs a character count (got "${a.value}")`);
+      }
+    }
+  }
+  if (config.type === 'json-schema') {
+    if (config.schema) errors.push(...validateOutputSchema(config.schema));
+    else if (!skill.outputSchema) errors.push('json-schema evaluator requires a schema (or a skill outputSchema)');
+  }
+  return errors;
+}
+
+/**
+ * Score a response with the skill's evaluator (heuristic when none is configured).
+ * An unknown or failing evaluator falls back to the heuristic so routing never stalls.
+ */
+export async function evaluateResponse(
+  response: AgentResponse,
+  prompt: string,
+  skill: SkillDefinition,
+  judge: JudgeFn
+): Promise<QualityEvaluation> {
+  const config = skill.evaluator ?? { type: 'heuristic' };
+  const threshold = config.threshold ?? skill.qualityThreshold ?? 0.5;
+  const input: EvaluationInput = { response, prompt, skill, config, threshold, judge };
+
+  let evaluator = config.type;
+  let result: EvaluatorScore;
+  try {
+    const fn = evaluators.get(config.type);
+    if (!fn) throw new Error(`Unknown evaluator: ${config.type}`);
+    result = await fn(input);
+  } catch (err: any) {
+    logger.warn(`Evaluator ${config.type} failed for ${response.agentId}, using heuristic: ${err.message}`);
+    evaluator = 'heuristic';
+    result = { ...heuristicScore(response.content, prompt), reason: `${config.type} unavailable: ${err.message}` };
+  }
+
+  const score = Math.min(1, Math.max(0, Number.isFinite(result.score) ? result.score : 0));
+  return {
+    agentId: response.agentId,
+    evaluator,
+    score,
+    pass: result.pass ?? score >= threshold,
+    reason: result.reason,
+    judgeAgentId: result.judgeAgentId,
+  };
+}
+
+// --- Built-in evaluators ---
+
+/** Keyword/length/structure heuristic - cheap, no extra agent calls */
+function heuristicScore(content: string, prompt: string): EvaluatorScore {
+  content = content.trim();
+  let score = 0;
+
+  // 1. Non-empty check (0.2)
+  if (content.length > 0) score += 0.1;
+  if (content.length > 50) score += 0.1;
+
+  // 2. Length proportionality - response should be proportional to prompt complexity (0.2)
+  const promptWords = prompt.split(/\s+/).length;
+  const responseWords = content.split(/\s+/).length;
+  if (responseWords > Math.min(10, promptWords * 0.5)) score += 0.1;
+  if (responseWords > Math.min(50, promptWords)) score += 0.1;
+
+  // 3. Prompt-relevance - check keyword overlap (0.3)
+  const promptKeywords = extractKeywords(prompt);
+  const responseKeywords = extractKeywords(content);
+  const overlap = promptKeywords.filter(k => responseKeywords.includes(k)).length;
+  const relevancy = promptKeywords.length > 0 ? overlap / promptKeywords.length : 0;
+  score += Math.min(0.3, relevancy * 0.3);
+
+  // 4. Structure indicators - code blocks, headings, lists suggest effort (0.2)
+  if (/```/.test(content)) score += 0.05;
+  if (/^#+\s/m.test(content)) score += 0.05;
+  if (/^[-*]\s/m.test(content) || /^\d+\.\s/m.test(content)) score += 0.05;
+  if (content.includes('\n')) score += 0.05;
+
+  // 5. No error indicators (0.1)
+  const errorPatterns = /\b(error|sorry|cannot|unable|don't know|i'm not sure)\b/i;
+  if (!errorPatterns.test(content)) score += 0.1;
+
+  return { score };
+}
+
+/** Extract meaningful keywords from text for relevance checking */
+function extractKeywords(text: string): string[] {
+  const stopWords = new Set(['the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been',
+    'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+    'should', 'may', 'might', 'can', 'shall', 'to', 'of', 'in', 'for', 'on', 'with',
+    'at', 'by', 'from', 'as', 'into', 'through', 'during', 'before', 'after',
+    'and', 'but', 'or', 'nor', 'not', 'so', 'yet', 'both', 'either', 'neither',
+    'this', 'that', 'these', 'those', 'it', 'its', 'i', 'you', 'he', 'she', 'we', 'they',
+    'what', 'which', 'who', 'whom', 'how', 'when', 'where', 'why']);
+
+  return text.toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(w => w.length > 2 && !stopWords.has(w))
+    .slice(0, 30); // limit for performance
+}
+
+/** Ask a judge agent (selected by tags, preferring one other than the responder) to grade 0-10 against a rubric */
+async function llmJudgeScore({ response, prompt, config, judge }: EvaluationInput): Promise<EvaluatorScore> {
+  const available = agentRegistry.findByTags(config.judgeTags ?? [])
+    .filter(i => (i.state === 'idle' || i.state === 'running') && i.activeTasks < i.config.maxConcurrency)
+    .map(i => i.config);
+  const judgeAgent = available.find(a => a.id !== response.agentId) ?? available[0];
+  if (!judgeAgent) throw new Error(`No available judge agent for tags: ${(config.judgeTags ?? []).join(',')}`);
+
+  const judgePrompt =
+    `You are grading another AI agent's response. Be strict and objective.\n\n` +
+    `RUBRIC:\n${config.rubric || DEFAULT_RUBRIC}\n\n` +
+    `ORIGINAL QUESTION:\n${prompt}\n\n` +
+    `AGENT RESPONSE:\n${response.content}\n\n` +
+    `Reply with only JSON: {"score": <integer 0-10>, "reason": "<one sentence>"}`;
+
+  const verdict = await judge(judgeAgent, judgePrompt);
+  if (!verdict.success) throw new Error(`judge ${judgeAgent.id} failed: ${verdict.error || 'no response'}`);
+  const parsed = extractJson(verdict.content)?.value as { score?: unknown; reason?: unknown } | undefined;
+  const raw = Number(parsed?.score);
+  if (!parsed || !Number.isFinite(raw)) throw new Error(`judge ${judgeAgent.id} returned no score`);
+
+  return {
+    score: raw / 10,
+    reason: typeof parsed.reason === 'string' ? parsed.reason : undefined,
+    judgeAgentId: judgeAgent.id,
+  };
+}
+
+/** Fraction of assertions that hold - passes only when all do */
+function assertionsScore({ response, config }: EvaluationInput): EvaluatorScore {
+  const assertions = config.assertions ?? [];
+  const content = response.content;
+  const failed: string[] = [];
+
+  for (const a of assertions) {
+    let ok: boolean;
+    switch (a.kind) {
+      case 'contains': ok = content.includes(a.value); break;
+      case 'not-contains': ok = !content.includes(a.value); break;
+      case 'matches': ok = new RegExp(a.value, a.flags).test(content); break;
+      case 'not-matches': ok = !new RegExp(a.value, a.flags).test(content); break;
+      case 'min-length': ok = content.trim().length >= Number(a.value); break;
+      case 'max-length': ok = content.trim().length <= Number(a.value); break;
+      default: ok = false;
+    }
+    if (!ok) failed.push(`${a.kind} ${a.value}`);
+  }
+
+  return {
+    score: assertions.length > 0 ? (assertions.length - failed.length) / assertions.length : 0,
+    pass: assertions.length > 0 && failed.length === 0,
+    reason: failed.length > 0 ? `Failed: ${failed.join('; ')}` : undefined,
+  };
+}
+
+/** Response must contain JSON matching the schema */
+function jsonSchemaScore({ response, skill, config }: EvaluationInput): EvaluatorScore {
+  const schema = config.schema ?? skill.outputSchema;
+  if (!schema) throw new Error('no schema configured');
+  const { errors } = parseStructuredOutput(response.content, schema);
+  return {
+    score: errors.length === 0 ? 1 : 0,
+    pass: errors.length === 0,
+    reason: errors.length > 0 ? errors.join('; ') : undefined,
+  };
+}
+
+registerEvaluator('heuristic', ({ response, prompt }) => heuristicScore(response.content, prompt));
+registerEvaluator('llm-judge', llmJudgeScore);
+registerEvaluator('assertions', assertionsScore);
+registerEvaluator('json-schema', jsonSchemaScore);
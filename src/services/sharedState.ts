@@ -12,6 +12,10 @@
 //   crossrepo-history.jsonl  - one CrossRepoResult per line
 //   router-metrics.json      - { totalTasks, totalTokens, totalCost }
 //   agent-stats.json         - aggregated per-agent stats
+//   task-queue.json          - queued/running tasks awaiting agent capacity
+//   adaptive-routing.json    - learned per-skill, per-agent stats for adaptive routing
+//   budgets.json             - budget definitions + usage in the current window
+//   agent-health.json        - health probe history per agent
 //   .state-version           - monotonic counter (integer in file), mtime = last mutation
 
 import * as fs from 'fs';
@@ -20,6 +24,7 @@ import * as os from 'os';
 import { getStateDir } from './dataDir.js';
 import { logger } from './logger.js';
 import type { TaskHistoryEntry } from './taskRouter.js';
+import type { AdaptiveArmStats, AgentHealthReport, BudgetDefinition, QueuedTask } from '../types/index.js';
 
 // ---------------------------------------------------------------------------
 // Paths
@@ -31,6 +36,10 @@ const TASK_HISTORY_FILE = path.join(stateDir, 'task-history.jsonl');
 const CROSSREPO_HISTORY_FILE = path.join(stateDir, 'crossrepo-history.jsonl');
 const ROUTER_METRICS_FILE = path.join(stateDir, 'router-metrics.json');
 const AGENT_STATS_FILE = path.join(stateDir, 'agent-stats.json');
+const TASK_QUEUE_FILE = path.join(stateDir, 'task-queue.json');
+const ADAPTIVE_ROUTING_FILE = path.join(stateDir, 'adaptive-routing.json');
+const BUDGETS_FILE = path.join(stateDir, 'budgets.json');
+const AGENT_HEALTH_FILE = path.join(stateDir, 'agent-health.json');
 const VERSION_SENTINEL = path.join(stateDir, '.state-version');
 
 // ---------------------------------------------------------------------------
@@ -262,6 +271,86 @@ export function readAgentStats(): AgentStatsSnapshot | null {
   return readJson<AgentStatsSnapshot>(AGENT_STATS_FILE);
 }
 
+// ---------------------------------------------------------------------------
+// Task Queue
+// ---------------------------------------------------------------------------
+
+/** Persist the task queue (full overwrite, atomic rename) */
+export function persistTaskQueue(entries: QueuedTask[]): void {
+  atomicWriteJson(TASK_QUEUE_FILE, entries);
+  bumpVersion();
+}
+
+/** Read the persisted task queue from disk */
+export function readTaskQueue(): QueuedTask[] {
+  const entries = readJson<QueuedTask[]>(TASK_QUEUE_FILE);
+  return Array.isArray(entries) ? entries : [];
+}
+
+// ---------------------------------------------------------------------------
+// Adaptive Routing
+// ---------------------------------------------------------------------------
+
+export interface AdaptiveRoutingSnapshot {
+  /** skillId -> agentId -> learned stats */
+  skills: Record<string, Record<string, AdaptiveArmStats>>;
+  lastUpdated: string;
+}
+
+/** Persist learned adaptive routing stats (full overwrite, atomic rename) */
+export function persistAdaptiveRouting(snapshot: AdaptiveRoutingSnapshot): void {
+  atomicWriteJson(ADAPTIVE_ROUTING_FILE, snapshot);
+  bumpVersion();
+}
+
+/** Read learned adaptive routing stats from disk */
+export function readAdaptiveRouting(): AdaptiveRoutingSnapshot | null {
+  return readJson<AdaptiveRoutingSnapshot>(ADAPTIVE_ROUTING_FILE);
+}
+
+// ---------------------------------------------------------------------------
+// Budgets
+// ---------------------------------------------------------------------------
+
+export interface BudgetsSnapshot {
+  budgets: BudgetDefinition[];
+  /** budgetId -> usage in the window starting at windowStart */
+  usage: Record<string, { windowStart: string; used: number; warned?: boolean; exceeded?: boolean }>;
+  lastUpdated: string;
+}
+
+/** Persist budgets and their usage (full overwrite, atomic rename) */
+export function persistBudgets(snapshot: BudgetsSnapshot): void {
+  atomicWriteJson(BUDGETS_FILE, snapshot);
+  bumpVersion();
+}
+
+/** Read budgets and their usage from disk */
+export function readBudgets(): BudgetsSnapshot | null {
+  return readJson<BudgetsSnapshot>(BUDGETS_FILE);
+}
+
+// ---------------------------------------------------------------------------
+// Agent health probes
+// ---------------------------------------------------------------------------
+
+export interface AgentHealthSnapshot {
+  /** agentId -> probe history and current health */
+  agents: Record<string, AgentHealthReport>;
+  lastUpdated: string;
+}
+
+/** Persist health probe history (full overwrite, atomic rename) */
+export function persistAgentHealth(snapshot: AgentHealthSnapshot): void {
+  atomicWriteJson(AGENT_HEALTH_FILE, snapshot);
+  bumpVersion();
+}
+
+/** Read health probe history from disk */
+export function readAgentHealth(): AgentHealthSnapshot | null {
+  return readJson<AgentHealthSnapshot>(AGENT_HEALTH_FILE);
+}
+
 // ---------------------------------------------------------------------------
 // Initialization - sync version from disk on startup
 // ---------------------------------------------------------------------------
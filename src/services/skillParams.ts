@@ -0,0 +1,147 @@
+// mcp-agent-manager/src/services/skillParams.ts
+// Skill parameter schemas - validation of declared parameters, caller params
+// (required, type, enum, defaults), and automation param mappings.
+
+import type { SkillDefinition, SkillParameter, SkillParameterType } from '../types/index.js';
+import { templateVariables } from './promptTemplate.js';
+
+const PARAM_TYPES: SkillParameterType[] = ['string', 'number', 'integer', 'boolean', 'json', 'list'];
+const PARAM_NAME = /^\w+$/;
+
+/** The skill's declared parameters, or untyped optional ones inferred from its template */
+export function skillParameters(skill: SkillDefinition): SkillParameter[] {
+  if (skill.parameters) return skill.parameters;
+  return templateVariables(skill.promptTemplate).map(name => ({ name, type: 'string' as const }));
+}
+
+/** Check a single value against a parameter's type and enum. Returns an error message or undefined. */
+function checkValue(param: SkillParameter, value: string): string | undefined {
+  switch (param.type ?? 'string') {
+    case 'number':
+      if (value.trim() === '' || !Number.isFinite(Number(value))) return `"${param.name}" must be a number (got "${value}")`;
+      break;
+    case 'integer':
+      if (!/^-?\d+$/.test(value.trim())) return `"${param.name}" must be an integer (got "${value}")`;
+      break;
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') return `"${param.name}" must be "true" or "false" (got "${value}")`;
+      break;
+    case 'json':
+      try { JSON.parse(value); } catch { return `"${param.name}" must be valid JSON`; }
+      break;
+    case 'list':
+      if (value.trim().startsWith('[')) {
+        let parsed: unknown;
+        try { parsed = JSON.parse(value); } catch { /* reported below */ }
+        if (!Array.isArray(parsed)) return `"${param.name}" must be a JSON array or one item per line`;
+      }
+      break;
+  }
+  if (param.enum && !param.enum.includes(value)) {
+    return `"${param.name}" must be one of: ${param.enum.join(', ')} (got "${value}")`;
+  }
+  return undefined;
+}
+
+/** Validate a skill's parameter schema against itself and its prompt template. Returns error messages (empty = valid). */
+export function validateParameterSchema(skill: Pick<SkillDefinition, 'promptTemplate' | 'parameters'>): string[] {
+  if (!skill.parameters) return [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const param of skill.parameters) {
+    if (!PARAM_NAME.test(param.name || '')) {
+      errors.push(`Invalid parameter name "${param.name}" (letters, digits, underscore)`);
+      continue;
+    }
+    if (seen.has(param.name)) errors.push(`Duplicate parameter: ${param.name}`);
+    seen.add(param.name);
+
+    if (param.type && !PARAM_TYPES.includes(param.type)) {
+      errors.push(`Parameter "${param.name}" has unknown type "${param.type}" (expected ${PARAM_TYPES.join(' | ')})`);
+      continue;
+    }
+    for (const value of param.enum ?? []) {
+      const err = checkValue({ ...param, enum: undefined }, value);
+      if (err) errors.push(`Parameter "${param.name}" enum value invalid: ${err}`);
+    }
+    if (param.default !== undefined) {
+      const err = checkValue(param, param.default);
+      if (err) errors.push(`Parameter "${param.name}" default invalid: ${err}`);
+    }
+  }
+
+  for (const name of templateVariables(skill.promptTemplate)) {
+    if (!seen.has(name)) errors.push(`Template variable {${name}} is not a declared parameter`);
+  }
+  return errors;
+}
+
+/**
+ * Apply defaults and validate caller params against the skill's schema.
+ * Skills without a schema pass params through unchanged. Undeclared params are passed through.
+ */
+export function resolveSkillParams(
+  skill: SkillDefinition,
+  params: Record<string, string>
+): { params: Record<string, string>; errors: string[] } {
+  if (!skill.parameters) return { params, errors: [] };
+  const resolved: Record<string, string> = { ...params };
+  const errors: string[] = [];
+
+  for (const param of skill.parameters) {
+    const value = resolved[param.name];
+    if (value === undefined || (value === '' && param.required)) {
+      if (param.default !== undefined) {
+        resolved[param.name] = param.default;
+      } else if (param.required) {
+        errors.push(`Missing required parameter "${param.name}"${param.description ? ` - ${param.description}` : ''}`);
+      } else {
+        resolved[param.name] = '';
+      }
+      continue;
+    }
+    const err = checkValue(param, value);
+    if (err) errors.push(err);
+  }
+  return { params: resolved, errors };
+}
+
+/** Error message for invalid params, listing what the skill expects */
+export function formatParamErrors(skill: SkillDefinition, errors: string[]): string {
+  const expected = skillParameters(skill).map(p =>
+    `${p.name}: ${p.type ?? 'string'}${p.required ? ' (required)' : ''}` +
+    `${p.default !== undefined ? ` = "${p.default}"` : ''}` +
+    `${p.enum ? ` [${p.enum.join('|')}]` : ''}`
+  );
+  return `Invalid params for skill ${skill.id}: ${errors.join('; ')}. Expected: ${expected.join(', ') || '(none)'}`;
+}
+
+/**
+ * Validate an automation param mapping against the skill's schema: every required
+ * parameter without a default must be mapped, and static values must be valid.
+ */
+export function paramMappingErrors(
+  skill: SkillDefinition,
+  mapping: { static?: Record<string, string>; fromEvent?: Record<string, string>; templates?: Record<string, string> }
+): string[] {
+  if (!skill.parameters) return [];
+  const errors: string[] = [];
+  const mapped = new Set([
+    ...Object.keys(mapping.static ?? {}),
+    ...Object.keys(mapping.fromEvent ?? {}),
+    ...Object.keys(mapping.templates ?? {}),
+  ]);
+
+  for (const param of skill.parameters) {
+    if (param.required && param.default === undefined && !mapped.has(param.name)) {
+      errors.push(`Required parameter "${param.name}" is not mapped (staticParams, eventParams or templateParams)`);
+    }
+    const staticValue = mapping.static?.[param.name];
+    if (staticValue !== undefined) {
+      const err = checkValue(param, staticValue);
+      if (err) errors.push(`Static param ${err}`);
+    }
+  }
+  return errors;
+}
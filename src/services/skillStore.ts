@@ -11,6 +11,13 @@ import { eventBus } from './events.js';
 import { getSkillsDir } from './dataDir.js';
 import { watchConfigFile, ConfigWatcher } from './configWatcher.js';
 import { indexClient } from './indexClient.js';
+import { validateParameterSchema, resolveSkillParams } from './skillParams.js';
+import { renderTemplate, validateTemplate } from './promptTemplate.js';
+import { validateOutputConfig } from './outputSchema.js';
+import { validateEvaluatorConfig } from './qualityEvaluator.js';
+import { validateConsensusConfig } from './consensusVote.js';
+import { validateAdaptiveConfig } from './adaptiveRouter.js';
+import { validateToolConfig } from './managerTools.js';
 
 const SKILLS_DIR = getSkillsDir();
 const SKILLS_FILE = path.join(SKILLS_DIR, 'skills.json');
@@ -106,11 +113,19 @@ class SkillStore {
         return;
       }
 
-      this.skills.clear();
-      for (const skill of arr) {
-        this.skills.set(skill.id, skill);
-      }
+      const previous = this.skills;
+      this.skills = new Map(arr.map(skill => [skill.id, skill]));
       logger.info(`Reloaded ${this.skills.size} skills from disk (external change)`);
+
+      // Announce differences so listeners (dashboard, per-skill MCP tools) stay in sync
+      for (const skillId of previous.keys()) {
+        if (!this.skills.has(skillId)) eventBus.emitEvent('skill:removed', { skillId });
+      }
+      for (const skill of this.skills.values()) {
+        if (JSON.stringify(previous.get(skill.id)) !== JSON.stringify(skill)) {
+          eventBus.emitEvent('skill:registered', { skillId: skill.id, name: skill.name, strategy: skill.strategy });
+        }
+      }
     } catch (err) {
       logger.error('Failed to reload skills', { error: String(err) });
     }
@@ -152,8 +167,40 @@ class SkillStore {
     this.configWatcher = null;
   }
 
-  /** Register or update a skill */
+  /** Register or update a skill. Throws if its template or parameter schema is invalid. */
   register(skill: SkillDefinition): void {
+    const templateErrors = validateTemplate(skill.promptTemplate);
+    if (templateErrors.length > 0) {
+      throw new Error(`Invalid prompt template for skill ${skill.id}: ${templateErrors.join('; ')}`);
+    }
+    const systemErrors = skill.systemPrompt ? validateTemplate(skill.systemPrompt) : [];
+    if (systemErrors.length > 0) {
+      throw new Error(`Invalid system prompt for skill ${skill.id}: ${systemErrors.join('; ')}`);
+    }
+    const errors = validateParameterSchema(skill);
+    if (errors.length > 0) {
+      throw new Error(`Invalid parameter schema for skill ${skill.id}: ${errors.join('; ')}`);
+    }
+    const outputErrors = validateOutputConfig(skill);
+    if (outputErrors.length > 0) {
+      throw new Error(`Invalid output schema for skill ${skill.id}: ${outputErrors.join('; ')}`);
+    }
+    const evaluatorErrors = validateEvaluatorConfig(skill);
+    if (evaluatorErrors.length > 0) {
+      throw new Error(`Invalid evaluator for skill ${skill.id}: ${evaluatorErrors.join('; ')}`);
+    }
+    const consensusErrors = validateConsensusConfig(skill);
+    if (consensusErrors.length > 0) {
+      throw new Error(`Invalid consensus settings for skill ${skill.id}: ${consensusErrors.join('; ')}`);
+    }
+    const adaptiveErrors = validateAdaptiveConfig(skill);
+    if (adaptiveErrors.length > 0) {
+      throw new Error(`Invalid adaptive routing settings for skill ${skill.id}: ${adaptiveErrors.join('; ')}`);
+    }
+    const toolErrors = validateToolConfig(skill);
+    if (toolErrors.length > 0) {
+      throw new Error(`Invalid tool settings for skill ${skill.id}: ${toolErrors.join('; ')}`);
+    }
     this.skills.set(skill.id, skill);
     this.persist();
     logger.info(`Registered skill: ${skill.id} (${skill.strategy})`);
@@ -197,13 +244,15 @@ class SkillStore {
     });
   }
 
-  /** Resolve a prompt template with parameters */
+  /** Render a skill's prompt template (declared defaults fill omitted params). Throws on template errors. */
   resolvePrompt(skill: SkillDefinition, params: Record<string, string>): string {
-    let prompt = skill.promptTemplate;
-    for (const [key, value] of Object.entries(params)) {
-      prompt = prompt.replace(new RegExp(`\\{${key}\\}`, 'g'), value);
-    }
-    return prompt;
+    return renderTemplate(skill.promptTemplate, resolveSkillParams(skill, params).params);
+  }
+
+  /** Resolve the skill's systemPrompt template (undefined when the skill has none) */
+  resolveSystemPrompt(skill: SkillDefinition, params: Record<string, string>): string | undefined {
+    if (!skill.systemPrompt) return undefined;
+    return renderTemplate(skill.systemPrompt, resolveSkillParams(skill, params).params);
   }
 
   // ── Index-server dual-write (MI-3 recovery, redundancy) ───────────
@@ -261,6 +310,7 @@ class SkillStore {
         name: 'Multi-Model Query',
         description: 'Ask the same question to multiple models and compare their responses side-by-side',
         promptTemplate: 'Answer the following question thoroughly. Provide concrete examples where applicable.\n\nQuestion: {question}',
+        parameters: [{ name: 'question', required: true, description: 'Question to ask every agent' }],
         strategy: 'fan-out' as RoutingStrategy,
         mergeResults: false,
         maxTokens: 4000,
@@ -272,6 +322,7 @@ class SkillStore {
         name: 'Consensus Check',
         description: 'Ask multiple models the same question and synthesize consensus - identifies agreement, disagreement, and confidence level',
         promptTemplate: 'Answer the following question carefully and precisely. If uncertain, state your confidence level.\n\nQuestion: {question}',
+        parameters: [{ name: 'question', required: true, description: 'Question to reach consensus on' }],
         strategy: 'consensus' as RoutingStrategy,
         mergeResults: true,
         maxTokens: 4000,
@@ -292,6 +343,10 @@ class SkillStore {
           '### 4. Maintainability\n- Code duplication, unclear naming, missing error handling, excessive complexity\n\n' +
           '### 5. Suggested Improvements\n- Concrete refactoring suggestions with before/after code snippets\n\n' +
           '## Summary\nProvide an overall quality score (1-10) and the top 3 action items.',
+        parameters: [
+          { name: 'code', required: true, description: 'Code to review' },
+          { name: 'context', description: 'What the code does, where it lives, or what changed' },
+        ],
         strategy: 'fan-out' as RoutingStrategy,
         targetTags: ['code', 'review'],
         mergeResults: true,
@@ -304,6 +359,7 @@ class SkillStore {
         name: 'Fast Answer',
         description: 'Get the fastest response from any available agent - races all agents and returns first result',
         promptTemplate: 'Answer concisely: {question}',
+        parameters: [{ name: 'question', required: true, description: 'Question to answer' }],
         strategy: 'race' as RoutingStrategy,
         maxTokens: 2000,
         timeoutMs: 15000,
@@ -315,6 +371,7 @@ class SkillStore {
         name: 'Cost-Optimized Query',
         description: 'Try cheapest agent first, escalate to more capable agent only if response quality is below threshold',
         promptTemplate: 'Answer the following question thoroughly. Include relevant details, examples, and explanations.\n\nQuestion: {question}',
+        parameters: [{ name: 'question', required: true, description: 'Question to answer' }],
         strategy: 'cost-optimized' as RoutingStrategy,
         qualityThreshold: 0.4,
         maxTokens: 4000,
@@ -344,6 +401,7 @@ class SkillStore {
           '7. **SSRF** - Server-side request forgery vectors\n' +
           '8. **Supply Chain** - Dependency confusion, typosquatting, integrity checks\n\n' +
           '## Summary\nProvide a risk rating (CRITICAL/HIGH/MEDIUM/LOW) and prioritized remediation plan.',
+        parameters: [{ name: 'input', required: true, description: 'Code, configuration, or system description to audit' }],
         strategy: 'fan-out' as RoutingStrategy,
         targetTags: ['security', 'code'],
         mergeResults: true,
@@ -363,6 +421,7 @@ class SkillStore {
           '### 3. Step-by-Step Walkthrough\nWalk through the logic flow, explaining what each significant section does and why.\n\n' +
           '### 4. Inputs & Outputs\n- What does this code expect as input?\n- What does it produce as output?\n- What side effects does it have?\n\n' +
           '### 5. Potential Gotchas\nNote any non-obvious behavior, edge cases, or common mistakes when working with this code.',
+        parameters: [{ name: 'code', required: true, description: 'Code to explain' }],
         strategy: 'single' as RoutingStrategy,
         mergeResults: false,
         maxTokens: 6000,
@@ -383,6 +442,10 @@ class SkillStore {
           '4. **Style** - Does it follow the project\'s conventions?\n' +
           '5. **Commit Hygiene** - Is the commit message descriptive? Should this be split into multiple commits?\n\n' +
           '## Verdict\nProvide: APPROVE, REQUEST_CHANGES, or NEEDS_DISCUSSION with specific line-level comments.',
+        parameters: [
+          { name: 'diff', required: true, description: 'Unified diff of the change' },
+          { name: 'message', description: 'Commit message' },
+        ],
         strategy: 'evaluate' as RoutingStrategy,
         targetTags: ['code', 'review'],
         mergeResults: false,
@@ -405,6 +468,10 @@ class SkillStore {
           '3. **Why**: What problem it solves\n' +
           '4. **How**: Show before/after code\n\n' +
           '### Priority Order\nRank suggestions by impact-to-effort ratio.',
+        parameters: [
+          { name: 'code', required: true, description: 'Code to analyze' },
+          { name: 'goals', default: 'Improve readability and maintainability', description: 'Refactoring goals' },
+        ],
         strategy: 'cost-optimized' as RoutingStrategy,
         qualityThreshold: 0.5,
         targetTags: ['code'],
@@ -0,0 +1,377 @@
+// mcp-agent-manager/src/services/taskQueue.ts
+// Priority queue in front of routeTask - tasks wait here until a candidate agent
+// has capacity, highest priority first. Persisted to the state dir so queued
+// tasks survive restarts. Also tracks task status for polling and cancellation.
+
+import {
+  QueuedTask,
+  RouteTaskOptions,
+  SkillDefinition,
+  TaskRequest,
+  TaskResult,
+  TaskRunStatus,
+  TaskStatusInfo,
+} from '../types/index.js';
+import { logger } from './logger.js';
+import { eventBus } from './events.js';
+import { agentRegistry } from './agentRegistry.js';
+import { skillStore } from './skillStore.js';
+import { resolveSkillParams, formatParamErrors } from './skillParams.js';
+import { responseError } from './outputSchema.js';
+import { routeTask, getRouterMetrics } from './taskRouter.js';
+import { persistTaskQueue, readTaskQueue } from './sharedState.js';
+
+/** Safety-net rescan interval - capacity changes normally trigger a dispatch pass directly */
+const PUMP_INTERVAL_MS = 2000;
+
+/** Finished tasks kept in memory for status polling (older ones fall back to task history) */
+const MAX_FINISHED = 200;
+
+/** Agent states that can eventually free capacity */
+const LIVE_STATES = new Set(['idle', 'running', 'busy']);
+
+interface Waiter {
+  resolve: (result: TaskResult) => void;
+  reject: (err: Error) => void;
+  options: RouteTaskOptions;
+}
+
+/** Priority desc, then submission order */
+function byPriority(a: QueuedTask, b: QueuedTask): number {
+  return b.priority - a.priority || a.enqueuedAt.localeCompare(b.enqueuedAt);
+}
+
+class TaskQueue {
+  /** Queued and running entries, in submission order */
+  private entries: QueuedTask[] = [];
+  private waiters: Map<string, Waiter> = new Map();
+  /** Abort handles for dispatched tasks */
+  private controllers: Map<string, AbortController> = new Map();
+  /** Outcomes of recently finished tasks, oldest first */
+  private finished: Map<string, TaskStatusInfo> = new Map();
+  private loaded = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /** Restore persisted entries - tasks interrupted mid-run are queued again */
+  load(): void {
+    this.loaded = true;
+    const restored = readTaskQueue();
+    for (const entry of restored) {
+      if (this.entries.some(e => e.taskId === entry.taskId)) continue;
+      this.entries.push({ ...entry, status: 'queued', startedAt: undefined, restored: true });
+    }
+    if (restored.length > 0) {
+      logger.info(`Restored ${restored.length} queued task(s) from disk`);
+      this.persist();
+    }
+    this.start();
+    this.pump();
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) this.load();
+  }
+
+  /** Wire capacity signals and the rescan timer */
+  private start(): void {
+    if (this.timer) return;
+    eventBus.onEvent('agent:registered', () => this.pump());
+    eventBus.onEvent('agent:state-changed', () => this.pump());
+    eventBus.onEvent('skill:removed', () => this.pump());
+    this.timer = setInterval(() => this.pump(), PUMP_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /** Stop the rescan timer (shutdown) - queued entries stay on disk */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private persist(): void {
+    persistTaskQueue(this.entries);
+  }
+
+  /** Queue a task and resolve with its result once it has run */
+  submit(request: TaskRequest, options: RouteTaskOptions = {}): Promise<TaskResult> {
+    this.ensureLoaded();
+    const skill = skillStore.get(request.skillId);
+    if (!skill) {
+      return Promise.reject(new Error(`Skill not found: ${request.skillId}`));
+    }
+    // Reject bad params up front rather than after waiting for capacity
+    const checked = resolveSkillParams(skill, request.params);
+    if (checked.errors.length > 0) {
+      return Promise.reject(new Error(formatParamErrors(skill, checked.errors)));
+    }
+    if (this.entries.some(e => e.taskId === request.taskId)) {
+      return Promise.reject(new Error(`Task already queued: ${request.taskId}`));
+    }
+    this.finished.delete(request.taskId);
+
+    const entry: QueuedTask = {
+      taskId: request.taskId,
+      skillId: request.skillId,
+      params: checked.params,
+      ...(request.resolvedPrompt ? { resolvedPrompt: request.resolvedPrompt } : {}),
+      priority: request.priority,
+      status: 'queued',
+      callerContext: request.callerContext,
+      enqueuedAt: request.createdAt.toISOString(),
+    };
+
+    const promise = new Promise<TaskResult>((resolve, reject) => {
+      this.waiters.set(entry.taskId, { resolve, reject, options });
+    });
+    // A caller that gives up (e.g. MCP request cancellation) stops waiting for capacity too
+    options.signal?.addEventListener('abort', () => {
+      if (entry.status === 'queued') this.cancel(entry.taskId);
+    }, { once: true });
+
+    this.entries.push(entry);
+    this.persist();
+    eventBus.emitEvent('task:queued', {
+      taskId: entry.taskId,
+      skillId: entry.skillId,
+      priority: entry.priority,
+      position: this.positionOf(entry.taskId),
+    });
+    this.pump();
+    return promise;
+  }
+
+  /** Queued entries in dispatch order, followed by running entries */
+  list(): QueuedTask[] {
+    this.ensureLoaded();
+    const queued = this.entries.filter(e => e.status === 'queued').sort(byPriority);
+    const running = this.entries.filter(e => e.status === 'running');
+    return [...queued, ...running];
+  }
+
+  get(taskId: string): QueuedTask | undefined {
+    this.ensureLoaded();
+    return this.entries.find(e => e.taskId === taskId);
+  }
+
+  /** 1-based position among queued entries (0 when not queued) */
+  positionOf(taskId: string): number {
+    const queued = this.entries.filter(e => e.status === 'queued').sort(byPriority);
+    return queued.findIndex(e => e.taskId === taskId) + 1;
+  }
+
+  /** Change the priority of a queued task - throws once it has been dispatched */
+  reprioritize(taskId: string, priority: number): QueuedTask | undefined {
+    this.ensureLoaded();
+    const entry = this.entries.find(e => e.taskId === taskId);
+    if (!entry) return undefined;
+    if (entry.status !== 'queued') {
+      throw new Error(`Task ${taskId} is already running`);
+    }
+    const previousPriority = entry.priority;
+    entry.priority = priority;
+    this.persist();
+    eventBus.emitEvent('task:reprioritized', {
+      taskId,
+      skillId: entry.skillId,
+      previousPriority,
+      priority,
+      position: this.positionOf(taskId),
+    });
+    this.pump();
+    return entry;
+  }
+
+  /**
+   * Cancel a task. Queued tasks are removed; running tasks have their provider calls
+   * aborted and finish as 'cancelled'. The waiting caller receives an error either way.
+   */
+  cancel(taskId: string): QueuedTask | undefined {
+    this.ensureLoaded();
+    const entry = this.entries.find(e => e.taskId === taskId);
+    if (!entry || this.finished.has(taskId)) return undefined;
+
+    if (entry.status === 'running') {
+      this.controllers.get(taskId)?.abort();
+      logger.info(`Cancelling running task ${taskId}`);
+      return entry;
+    }
+
+    this.entries = this.entries.filter(e => e !== entry);
+    this.persist();
+    eventBus.emitEvent('task:dequeued', {
+      taskId,
+      skillId: entry.skillId,
+      reason: 'cancelled',
+      waitMs: Date.now() - new Date(entry.enqueuedAt).getTime(),
+    });
+    this.recordFinished(entry, 'cancelled', { error: 'Cancelled while queued' });
+    const waiter = this.waiters.get(taskId);
+    this.waiters.delete(taskId);
+    waiter?.reject(new Error(`Task ${taskId} was cancelled while queued`));
+    logger.info(`Cancelled queued task ${taskId}`);
+    return entry;
+  }
+
+  /** Status of a queued, running, or recently finished task (falls back to task history) */
+  getStatus(taskId: string): TaskStatusInfo | undefined {
+    this.ensureLoaded();
+    // Checked first: an entry stays in the queue until its dispatch settles
+    const done = this.finished.get(taskId);
+    if (done) return done;
+
+    const entry = this.entries.find(e => e.taskId === taskId);
+    if (entry) {
+      return {
+        taskId,
+        skillId: entry.skillId,
+        status: entry.status,
+        priority: entry.priority,
+        position: entry.status === 'queued' ? this.positionOf(taskId) : undefined,
+        enqueuedAt: entry.enqueuedAt,
+        startedAt: entry.startedAt,
+      };
+    }
+
+    const hist = getRouterMetrics().recentTasks.find(t => t.taskId === taskId);
+    if (!hist) return undefined;
+    return {
+      taskId,
+      skillId: hist.skillId,
+      status: hist.success ? 'completed' : 'failed',
+      completedAt: hist.completedAt,
+      success: hist.success,
+      strategy: hist.strategy,
+      content: hist.contentPreview,
+      totalTokens: hist.totalTokens,
+      totalCost: hist.totalCost,
+      latencyMs: hist.totalLatencyMs,
+      error: hist.error,
+    };
+  }
+
+  private recordFinished(
+    entry: QueuedTask,
+    status: TaskRunStatus,
+    outcome: { result?: TaskResult; error?: string }
+  ): void {
+    const { result } = outcome;
+    this.finished.set(entry.taskId, {
+      taskId: entry.taskId,
+      skillId: entry.skillId,
+      status,
+      priority: entry.priority,
+      enqueuedAt: entry.enqueuedAt,
+      startedAt: entry.startedAt,
+      completedAt: new Date().toISOString(),
+      success: result?.success,
+      strategy: result?.strategy,
+      content: result?.finalContent,
+      parsed: result?.parsed,
+      totalTokens: result?.totalTokens,
+      totalCost: result?.totalCost,
+      latencyMs: result?.totalLatencyMs,
+      agents: result?.responses.map(r => ({ agentId: r.agentId, success: r.success, latencyMs: r.latencyMs, error: r.error, schemaError: r.schemaError })),
+      error: outcome.error ?? (result && !result.success
+        ? result.responses.map(responseError).filter(Boolean).join('; ') || 'No successful response'
+        : undefined),
+    });
+    while (this.finished.size > MAX_FINISHED) {
+      this.finished.delete(this.finished.keys().next().value!);
+    }
+  }
+
+  /** Dispatch every queued task whose skill has a candidate agent with free capacity */
+  pump(): void {
+    const queued = this.entries.filter(e => e.status === 'queued').sort(byPriority);
+    for (const entry of queued) {
+      // A nested pass (triggered by an agent event during dispatch) may have taken it already
+      if (entry.status !== 'queued') continue;
+      const skill = skillStore.get(entry.skillId);
+      // A removed skill can never be satisfied - dispatch so routeTask fails the task
+      if (skill && !hasCapacity(skill)) continue;
+      this.dispatch(entry);
+    }
+  }
+
+  private dispatch(entry: QueuedTask): void {
+    entry.status = 'running';
+    entry.startedAt = new Date().toISOString();
+    this.persist();
+
+    const waitMs = Date.now() - new Date(entry.enqueuedAt).getTime();
+    eventBus.emitEvent('task:dequeued', { taskId: entry.taskId, skillId: entry.skillId, reason: 'dispatched', waitMs });
+    logger.debug(`Dispatching queued task ${entry.taskId} (priority ${entry.priority}, waited ${waitMs}ms)`);
+
+    const waiter = this.waiters.get(entry.taskId);
+    const request: TaskRequest = {
+      taskId: entry.taskId,
+      skillId: entry.skillId,
+      params: entry.params,
+      resolvedPrompt: entry.resolvedPrompt,
+      priority: entry.priority,
+      createdAt: new Date(entry.enqueuedAt),
+      callerContext: entry.callerContext,
+    };
+
+    // Cancellation comes from cancel() or from the caller's own signal (e.g. MCP request cancellation)
+    const controller = new AbortController();
+    this.controllers.set(entry.taskId, controller);
+    const callerSignal = waiter?.options.signal;
+    if (callerSignal?.aborted) controller.abort();
+    callerSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    // routeTask marks the chosen agent(s) busy synchronously, so the rest of this pass sees the reduced capacity
+    routeTask(request, { ...waiter?.options, signal: controller.signal })
+      .then(
+        result => {
+          if (controller.signal.aborted) {
+            this.recordFinished(entry, 'cancelled', { result, error: 'Cancelled while running' });
+            waiter?.reject(new Error(`Task ${entry.taskId} was cancelled`));
+            return;
+          }
+          this.recordFinished(entry, result.success ? 'completed' : 'failed', { result });
+          waiter?.resolve(result);
+        },
+        err => {
+          this.recordFinished(entry, 'failed', { error: err.message });
+          if (waiter) waiter.reject(err);
+          else logger.warn(`Task ${entry.taskId} failed: ${err.message}`);
+        }
+      )
+      .finally(() => {
+        this.controllers.delete(entry.taskId);
+        this.waiters.delete(entry.taskId);
+        this.entries = this.entries.filter(e => e !== entry);
+        this.persist();
+        this.pump();
+      });
+  }
+}
+
+/**
+ * True when at least one of the skill's candidate agents is available.
+ * Tasks wait while no candidate is registered or live - an agent may still be
+ * registered, restarted or spawned by a pool (waiters can be cancelled meanwhile).
+ */
+function hasCapacity(skill: SkillDefinition): boolean {
+  const candidates = new Map<string, string>();
+  for (const id of skill.targetAgents || []) {
+    const inst = agentRegistry.get(id);
+    if (inst) candidates.set(id, inst.state);
+  }
+  if (skill.targetTags && skill.targetTags.length > 0) {
+    for (const inst of agentRegistry.findByTags(skill.targetTags)) candidates.set(inst.config.id, inst.state);
+  }
+  if (candidates.size === 0) {
+    for (const inst of agentRegistry.getAll()) candidates.set(inst.config.id, inst.state);
+  }
+
+  const live = Array.from(candidates).filter(([, state]) => LIVE_STATES.has(state)).map(([id]) => id);
+  if (live.length === 0) return false;
+
+  const available = new Set(agentRegistry.findAvailable().map(a => a.config.id));
+  return live.some(id => available.has(id));
+}
+
+/** Singleton task queue */
+export const taskQueue = new TaskQueue();
@@ -4,28 +4,80 @@
 import {
   AgentConfig,
   AgentResponse,
+  AgentToolDefinition,
+  ChatMessage,
+  ConsensusReport,
+  QualityEvaluation,
+  RouteTaskOptions,
   RoutingStrategy,
+  SendPromptOptions,
   SkillDefinition,
   TaskRequest,
   TaskResult,
+  ToolLoopOptions,
 } from '../types/index.js';
 import { agentRegistry } from './agentRegistry.js';
 import { skillStore } from './skillStore.js';
+import { resolveSkillParams, formatParamErrors } from './skillParams.js';
+import { DEFAULT_REPAIR_ATTEMPTS, isUsable, outputInstructions, parseStructuredOutput, repairPrompt, responseError } from './outputSchema.js';
+import { evaluateResponse } from './qualityEvaluator.js';
+import { tallyVotes } from './consensusVote.js';
+import { getAgentSuccessRate } from './metaCollector.js';
+import { adaptiveRouter } from './adaptiveRouter.js';
+import { budgetManager, describeBudget } from './budgetManager.js';
 import { logger } from './logger.js';
 import { eventBus } from './events.js';
+import { trimHistory } from './contextWindow.js';
+import { DEFAULT_TOOL_ITERATIONS, executeManagerTool, resolveSkillTools } from './managerTools.js';
 import { persistTaskHistoryEntry, persistRouterMetrics, readTaskHistory, readRouterMetrics } from './sharedState.js';
 
-/** Provider send function signature - providers implement this */
+/**
+ * Provider send function signature - providers implement this.
+ * Streaming providers deliver partial content through options.onChunk before resolving.
+ */
 export type SendPromptFn = (
   agent: AgentConfig,
   prompt: string,
   maxTokens: number,
-  timeoutMs: number
+  timeoutMs: number,
+  options?: SendPromptOptions
 ) => Promise<AgentResponse>;
 
+/** Per-task state threaded through strategies down to provider calls */
+interface RouteContext {
+  taskId: string;
+  /** Forward a streamed chunk from an agent to the event bus and caller */
+  emitChunk: (agentId: string, chunk: string) => void;
+  /** The caller asked for progress - providers only stream when set */
+  stream: boolean;
+  /** Prior conversation turns - trimmed per agent before each send */
+  history: ChatMessage[];
+  /** The skill's resolved systemPrompt - combined with each agent's own before sending */
+  systemPrompt?: string;
+  /** Manager tools the skill allows - offered to providers that support function calling */
+  tools?: AgentToolDefinition[];
+  /** Nesting depth of this task under mgr_run_skill tool calls */
+  toolDepth: number;
+  /** Task cancellation - checked before each send and forwarded to providers */
+  signal?: AbortSignal;
+  /** Quality scores recorded by evaluate() */
+  evaluations: QualityEvaluation[];
+  /** Judge calls made while evaluating - counted in task totals but never selected as output */
+  judgeResponses: AgentResponse[];
+  /** Second-pass calls (consensus synthesis, evaluate critiques) - they answer another prompt, so adaptive learning skips them */
+  reviews: AgentResponse[];
+  /** Set by fallback / cost-optimized / adaptive / vote consensus when a response other than the first success is selected */
+  accepted?: AgentResponse;
+  /** Vote outcome for majority / weighted consensus */
+  consensus?: ConsensusReport;
+}
+
 /** Registry of provider send functions */
 const providerFns: Map<string, SendPromptFn> = new Map();
 
+/** Sequence for task IDs of skills started by mgr_run_skill tool calls */
+let nestedTaskSeq = 0;
+
 /** Register a provider backend */
 export function registerProvider(name: string, fn: SendPromptFn): void {
   providerFns.set(name, fn);
@@ -43,8 +95,9 @@ let totalEstimatedTokens = 0;
 const MAX_TASK_HISTORY = 50;
 export interface TaskHistoryEntry {
   taskId: string;
+  /** Skill ID, or the workflow ID for workflow runs */
   skillId: string;
-  strategy: RoutingStrategy;
+  strategy: RoutingStrategy | 'workflow';
   success: boolean;
   totalTokens: number;
   totalCost: number;
@@ -58,9 +111,22 @@ export interface TaskHistoryEntry {
   premiumRequests?: number;
   /** Whether token counts in this task are estimated */
   tokensEstimated?: boolean;
+  /** Per-step outcomes when this entry records a workflow run */
+  workflowSteps?: Array<{ stepId: string; skillId: string; status: string; taskId?: string }>;
+  /** Quality scores from the skill's evaluator (cost-optimized / fallback) */
+  evaluations?: QualityEvaluation[];
+  /** Tool calls agents made during the task, in call order (results omitted) */
+  toolCalls?: Array<{ agentId: string; iteration: number; name: string; success: boolean; latencyMs: number; error?: string }>;
 }
 const taskHistory: TaskHistoryEntry[] = [];
 
+/** Append an entry to the in-memory ring buffer and persist it for cross-process visibility */
+export function recordTaskHistory(entry: TaskHistoryEntry): void {
+  taskHistory.unshift(entry);
+  if (taskHistory.length > MAX_TASK_HISTORY) taskHistory.pop();
+  persistTaskHistoryEntry(entry);
+}
+
 /** Clear in-memory task history */
 export function clearTaskHistory(): void {
   taskHistory.length = 0;
@@ -95,7 +161,7 @@ export function getRouterMetrics() {
 }
 
 /** Route a task according to its skill's strategy */
-export async function routeTask(request: TaskRequest): Promise<TaskResult> {
+export async function routeTask(request: TaskRequest, options: RouteTaskOptions = {}): Promise<TaskResult> {
   const startTime = Date.now();
   totalTasks++;
 
@@ -104,15 +170,32 @@ export async function routeTask(request: TaskRequest): Promise<TaskResult> {
     throw new Error(`Skill not found: ${request.skillId}`);
   }
 
-  // Resolve prompt template
-  const prompt = request.resolvedPrompt || skillStore.resolvePrompt(skill, request.params);
+  // Validate params against the skill's schema once - pre-rendered prompts included - then
+  // render the user and system prompts from the checked params
+  const checked = resolveSkillParams(skill, request.params);
+  if (checked.errors.length > 0) {
+    throw new Error(formatParamErrors(skill, checked.errors));
+  }
+  const prompt = request.resolvedPrompt || skillStore.resolvePrompt(skill, checked.params);
+  const systemPrompt = skillStore.resolveSystemPrompt(skill, checked.params);
+  const tools = resolveSkillTools(skill);
 
   // Find candidate agents
-  const agents = resolveCandidateAgents(skill);
-  if (agents.length === 0) {
+  const candidates = resolveCandidateAgents(skill);
+  if (candidates.length === 0) {
     throw new Error(`No available agents for skill: ${skill.id} (tags: ${skill.targetTags?.join(',')})`);
   }
 
+  // Hard budget limits reject the task or narrow the candidates
+  const budget = budgetManager.check(skill, candidates);
+  if (budget.rejected) {
+    throw new Error(`Budget exceeded for skill ${skill.id}: ${describeBudget(budget.rejected)}`);
+  }
+  for (const b of budget.rerouted) {
+    logger.warn(`Task ${request.taskId} rerouted by budget ${describeBudget(b)}`);
+  }
+  const agents = budget.agents;
+
   logger.info(`Routing task ${request.taskId} via strategy=${skill.strategy} to ${agents.length} agent(s)`);
   eventBus.emitEvent('task:started', {
     taskId: request.taskId,
@@ -121,56 +204,98 @@ export async function routeTask(request: TaskRequest): Promise<TaskResult> {
     agentCount: agents.length,
   });
 
+  let chunkIndex = 0;
+  const ctx: RouteContext = {
+    taskId: request.taskId,
+    emitChunk: (agentId, chunk) => {
+      if (!chunk) return;
+      const event = { taskId: request.taskId, skillId: skill.id, agentId, index: chunkIndex++, chunk };
+      eventBus.emitEvent('task:chunk', event);
+      if (options.onChunk) {
+        try { options.onChunk(event); } catch { /* caller sink must not break routing */ }
+      }
+    },
+    stream: !!options.onChunk || options.stream === true,
+    history: options.history || [],
+    systemPrompt,
+    tools: tools.length > 0 ? tools : undefined,
+    toolDepth: options.toolDepth ?? 0,
+    signal: options.signal,
+    evaluations: [],
+    judgeResponses: [],
+    reviews: [],
+  };
+
   let responses: AgentResponse[];
 
   switch (skill.strategy) {
     case 'single':
-      responses = await strategySingle(agents, prompt, skill);
+      responses = await strategySingle(agents, prompt, skill, ctx);
       break;
     case 'race':
-      responses = await strategyRace(agents, prompt, skill);
+      responses = await strategyRace(agents, prompt, skill, ctx);
       break;
     case 'fan-out':
-      responses = await strategyFanOut(agents, prompt, skill);
+      responses = await strategyFanOut(agents, prompt, skill, ctx);
       break;
     case 'consensus':
-      responses = await strategyConsensus(agents, prompt, skill);
+      responses = await strategyConsensus(agents, prompt, skill, ctx);
       break;
     case 'fallback':
-      responses = await strategyFallback(agents, prompt, skill);
+      responses = await strategyFallback(agents, prompt, skill, ctx);
       break;
     case 'cost-optimized':
-      responses = await strategyCostOptimized(agents, prompt, skill);
+      responses = await strategyCostOptimized(agents, prompt, skill, ctx);
       break;
     case 'evaluate':
-      responses = await strategyEvaluate(agents, prompt, skill);
+      responses = await strategyEvaluate(agents, prompt, skill, ctx);
+      break;
+    case 'adaptive':
+      responses = await strategyAdaptive(agents, prompt, skill, ctx);
       break;
     default:
       throw new Error(`Unknown routing strategy: ${skill.strategy}`);
   }
 
-  const successResponses = responses.filter(r => r.success);
+  const successResponses = responses.filter(isUsable);
+  // The response a strategy accepted after evaluation, else the first success
+  const primary = ctx.accepted ?? successResponses[0];
   const finalContent = skill.mergeResults && successResponses.length > 1
     ? mergeResponses(successResponses)
-    : successResponses[0]?.content || '';
+    : primary?.content || '';
+  // Structured output follows finalContent: one parsed value, or one per response when merged
+  const parsed = !skill.outputSchema || !primary ? undefined
+    : skill.mergeResults && successResponses.length > 1
+      ? successResponses.map(r => r.parsed)
+      : primary.parsed;
+
+  // Every strategy feeds the adaptive router's learned stats with the answers of the agents it chose -
+  // cancelled tasks say nothing about the agents
+  if (!ctx.signal?.aborted) {
+    const answers = responses.filter(r => !ctx.reviews.includes(r));
+    adaptiveRouter.recordOutcome(request.taskId, skill.id, answers, ctx.evaluations, primary && answers.includes(primary) ? primary : undefined);
+  }
 
-  const taskTokens = responses.reduce((sum, r) => sum + r.tokenCount, 0);
-  const taskCost = responses.reduce((sum, r) => sum + r.costUnits, 0);
-  const taskPremiumRequests = responses.reduce((sum, r) => sum + (r.premiumRequests || 0), 0);
-  const anyEstimated = responses.some(r => r.tokenCountEstimated);
-  const estimatedTokensInTask = responses.filter(r => r.tokenCountEstimated).reduce((sum, r) => sum + r.tokenCount, 0);
+  // Usage includes judge calls made by evaluators
+  const billed = [...responses, ...ctx.judgeResponses];
+  const taskTokens = billed.reduce((sum, r) => sum + r.tokenCount, 0);
+  const taskCost = billed.reduce((sum, r) => sum + r.costUnits, 0);
+  const taskPremiumRequests = billed.reduce((sum, r) => sum + (r.premiumRequests || 0), 0);
+  const anyEstimated = billed.some(r => r.tokenCountEstimated);
+  const estimatedTokensInTask = billed.filter(r => r.tokenCountEstimated).reduce((sum, r) => sum + r.tokenCount, 0);
 
   totalTokens += taskTokens;
   totalCost += taskCost;
   totalPremiumRequests += taskPremiumRequests;
   totalEstimatedTokens += estimatedTokensInTask;
+  budgetManager.recordUsage(skill.id, billed);
 
   // Record completions in registry
-  for (const r of responses) {
+  for (const r of billed) {
     if (r.success) {
       agentRegistry.recordTaskComplete(r.agentId, r.tokenCount, r.costUnits, true, r.premiumRequests || 0);
     } else {
-      agentRegistry.recordTaskComplete(r.agentId, r.tokenCount, r.costUnits, false, r.premiumRequests || 0);
+      agentRegistry.recordTaskComplete(r.agentId, r.tokenCount, r.costUnits, false, r.premiumRequests || 0, r.error);
     }
   }
 
@@ -180,11 +305,14 @@ export async function routeTask(request: TaskRequest): Promise<TaskResult> {
     strategy: skill.strategy,
     responses,
     finalContent,
+    parsed,
     totalTokens: taskTokens,
     totalCost: taskCost,
     totalLatencyMs: Date.now() - startTime,
     success: successResponses.length > 0,
     completedAt: new Date(),
+    evaluations: ctx.evaluations.length > 0 ? ctx.evaluations : undefined,
+    consensus: ctx.consensus,
   };
 
   // Record in task history
@@ -199,16 +327,14 @@ export async function routeTask(request: TaskRequest): Promise<TaskResult> {
     agentCount: responses.length,
     agents: responses.map(r => r.agentId),
     contentPreview: finalContent.substring(0, 200),
-    error: successResponses.length === 0 ? responses.map(r => r.error).filter(Boolean).join('; ').substring(0, 200) : undefined,
+    error: successResponses.length === 0 ? responses.map(responseError).filter(Boolean).join('; ').substring(0, 200) : undefined,
     completedAt: new Date().toISOString(),
     premiumRequests: taskPremiumRequests,
     tokensEstimated: anyEstimated,
+    evaluations: result.evaluations,
+    toolCalls: toolCallTrace(responses),
   };
-  taskHistory.unshift(historyEntry);
-  if (taskHistory.length > MAX_TASK_HISTORY) taskHistory.pop();
-
-  // Persist to disk for cross-process visibility
-  persistTaskHistoryEntry(historyEntry);
+  recordTaskHistory(historyEntry);
   persistRouterMetrics({ totalTasks, totalTokens, totalCost, totalPremiumRequests, totalEstimatedTokens });
 
   logger.info(
@@ -225,6 +351,10 @@ export async function routeTask(request: TaskRequest): Promise<TaskResult> {
     totalCost: taskCost,
     totalLatencyMs: result.totalLatencyMs,
     agentCount: responses.length,
+    evaluations: result.evaluations,
+    agentResults: responses.map(r => ({
+      agentId: r.agentId, success: r.success, tokenCount: r.tokenCount, costUnits: r.costUnits, latencyMs: r.latencyMs,
+    })),
   });
 
   return result;
@@ -236,10 +366,11 @@ export async function routeTask(request: TaskRequest): Promise<TaskResult> {
 async function strategySingle(
   agents: AgentConfig[],
   prompt: string,
-  skill: SkillDefinition
+  skill: SkillDefinition,
+  ctx: RouteContext
 ): Promise<AgentResponse[]> {
   const agent = pickBestAgent(agents);
-  const response = await sendToAgent(agent, prompt, skill);
+  const response = await sendToAgent(agent, prompt, skill, ctx);
   return [response];
 }
 
@@ -247,14 +378,15 @@ async function strategySingle(
 async function strategyRace(
   agents: AgentConfig[],
   prompt: string,
-  skill: SkillDefinition
+  skill: SkillDefinition,
+  ctx: RouteContext
 ): Promise<AgentResponse[]> {
   const timeout = skill.timeoutMs || 30000;
 
   const promises = agents.map(agent =>
-    sendToAgent(agent, prompt, skill).then(r => {
-      if (r.success) return r;
-      throw new Error(r.error || 'Agent failed');
+    sendToAgent(agent, prompt, skill, ctx).then(r => {
+      if (isUsable(r)) return r;
+      throw new Error(responseError(r) || 'Agent failed');
     })
   );
 
@@ -265,7 +397,7 @@ async function strategyRace(
   } catch {
     // All failed - collect all errors
     const results = await Promise.allSettled(
-      agents.map(agent => sendToAgent(agent, prompt, skill))
+      agents.map(agent => sendToAgent(agent, prompt, skill, ctx))
     );
     return results
       .filter((r): r is PromiseFulfilledResult<AgentResponse> => r.status === 'fulfilled')
@@ -277,10 +409,11 @@ async function strategyRace(
 async function strategyFanOut(
   agents: AgentConfig[],
   prompt: string,
-  skill: SkillDefinition
+  skill: SkillDefinition,
+  ctx: RouteContext
 ): Promise<AgentResponse[]> {
   const results = await Promise.allSettled(
-    agents.map(agent => sendToAgent(agent, prompt, skill))
+    agents.map(agent => sendToAgent(agent, prompt, skill, ctx))
   );
 
   return results
@@ -292,15 +425,31 @@ async function strategyFanOut(
 async function strategyConsensus(
   agents: AgentConfig[],
   prompt: string,
-  skill: SkillDefinition
+  skill: SkillDefinition,
+  ctx: RouteContext
 ): Promise<AgentResponse[]> {
   // Need at least 2 for consensus
   const candidateAgents = agents.slice(0, Math.max(2, agents.length));
-  const responses = await strategyFanOut(candidateAgents, prompt, skill);
+  const responses = await strategyFanOut(candidateAgents, prompt, skill, ctx);
 
-  const successful = responses.filter(r => r.success);
+  const successful = responses.filter(isUsable);
   if (successful.length <= 1) return responses;
 
+  // Vote modes decide without a synthesizer unless agreement is too low
+  const mode = skill.consensusMode ?? 'synthesis';
+  if (mode !== 'synthesis') {
+    const { report, winner } = tallyVotes(successful, skill, mode, agentId => getAgentSuccessRate(agentId, skill.id));
+    ctx.consensus = report;
+    const threshold = skill.agreementThreshold ?? 0;
+    if (report.agreement >= threshold) {
+      logger.info(`Consensus (${mode}): "${report.answer.substring(0, 60)}" with agreement ${report.agreement}`);
+      ctx.accepted = winner;
+      return responses;
+    }
+    logger.info(`Consensus (${mode}): agreement ${report.agreement} below ${threshold}, escalating to synthesis`);
+    report.escalated = true;
+  }
+
   // Build a synthesis prompt for a second-pass evaluation
   const responseSummaries = successful.map((r, i) =>
     `--- Response ${i + 1} (Agent: ${r.agentId}, Model: ${r.model}) ---\n${r.content}`
@@ -315,7 +464,9 @@ async function strategyConsensus(
     `2. Identify points of DISAGREEMENT or unique insights.\n` +
     `3. Produce a FINAL SYNTHESIZED ANSWER that combines the best parts.\n` +
     `4. Note confidence level (high/medium/low) based on agreement.\n\n` +
-    `Format:\n## Consensus Analysis\n**Agreement:** ...\n**Disagreements:** ...\n**Confidence:** ...\n\n## Synthesized Answer\n...`;
+    (skill.outputSchema
+      ? `Return only the synthesized answer.`
+      : `Format:\n## Consensus Analysis\n**Agreement:** ...\n**Disagreements:** ...\n**Confidence:** ...\n\n## Synthesized Answer\n...`);
 
   // Pick a synthesizer agent - prefer agents tagged with synthesizerTags, else use pickBestAgent
   let synthAgent: AgentConfig;
@@ -330,8 +481,9 @@ async function strategyConsensus(
     synthAgent = pickBestAgent(candidateAgents);
   }
 
-  const synthResponse = await sendToAgent(synthAgent, synthesisPrompt, skill);
-  if (synthResponse.success) {
+  const synthResponse = await sendToAgent(synthAgent, synthesisPrompt, skill, ctx);
+  ctx.reviews.push(synthResponse);
+  if (isUsable(synthResponse)) {
     synthResponse.content = `[Consensus from ${successful.length} agents, synthesized by ${synthAgent.id}]\n\n${synthResponse.content}`;
     responses.push(synthResponse);
     // The synthesis response becomes the primary content
@@ -348,22 +500,32 @@ async function strategyConsensus(
 async function strategyFallback(
   agents: AgentConfig[],
   prompt: string,
-  skill: SkillDefinition
+  skill: SkillDefinition,
+  ctx: RouteContext
 ): Promise<AgentResponse[]> {
   const sorted = [...agents].sort((a, b) => a.costMultiplier - b.costMultiplier);
   const allResponses: AgentResponse[] = [];
   const minContentLength = 20; // minimum substantive response length
 
   for (const agent of sorted) {
-    const response = await sendToAgent(agent, prompt, skill);
+    const response = await sendToAgent(agent, prompt, skill, ctx);
     allResponses.push(response);
 
-    if (response.success) {
+    if (isUsable(response)) {
       // Also fall back when response is empty/too short if fallbackOnEmpty is set
       if (skill.fallbackOnEmpty && response.content.trim().length < minContentLength) {
         logger.warn(`Fallback: agent ${agent.id} returned near-empty response (${response.content.trim().length} chars), trying next...`);
         continue;
       }
+      // With an evaluator configured, a response that fails it also falls through
+      if (skill.evaluator) {
+        const quality = await evaluate(response, prompt, skill, ctx);
+        if (!quality.pass) {
+          logger.warn(`Fallback: agent ${agent.id} failed ${quality.evaluator} evaluation (score=${quality.score.toFixed(2)}), trying next...`);
+          continue;
+        }
+      }
+      ctx.accepted = response;
       return allResponses;
     }
     logger.warn(`Fallback: agent ${agent.id} failed, trying next...`);
@@ -376,23 +538,24 @@ async function strategyFallback(
 async function strategyCostOptimized(
   agents: AgentConfig[],
   prompt: string,
-  skill: SkillDefinition
+  skill: SkillDefinition,
+  ctx: RouteContext
 ): Promise<AgentResponse[]> {
   const sorted = [...agents].sort((a, b) => a.costMultiplier - b.costMultiplier);
   const allResponses: AgentResponse[] = [];
-  const threshold = skill.qualityThreshold || 0.5;
 
   for (const agent of sorted) {
-    const response = await sendToAgent(agent, prompt, skill);
+    const response = await sendToAgent(agent, prompt, skill, ctx);
     allResponses.push(response);
 
-    if (response.success) {
-      const quality = evaluateResponseQuality(response, prompt, threshold);
+    if (isUsable(response)) {
+      const quality = await evaluate(response, prompt, skill, ctx);
       if (quality.pass) {
-        logger.info(`Cost-optimized: agent ${agent.id} passed quality check (score=${quality.score.toFixed(2)})`);
+        logger.info(`Cost-optimized: agent ${agent.id} passed ${quality.evaluator} check (score=${quality.score.toFixed(2)})`);
+        ctx.accepted = response;
         return allResponses;
       }
-      logger.info(`Cost-optimized: agent ${agent.id} quality too low (score=${quality.score.toFixed(2)}, threshold=${threshold}), escalating...`);
+      logger.info(`Cost-optimized: agent ${agent.id} quality too low (${quality.evaluator} score=${quality.score.toFixed(2)}), escalating...`);
     } else {
       logger.info(`Cost-optimized: escalating from ${agent.id} (cost ${agent.costMultiplier}x)`);
     }
@@ -401,81 +564,61 @@ async function strategyCostOptimized(
   return allResponses;
 }
 
-/** Heuristic quality evaluation for cost-optimized strategy */
-function evaluateResponseQuality(
-  response: AgentResponse,
+/** Try agents best-first by learned score (see adaptiveRouter.ts) until one succeeds and passes any evaluator */
+async function strategyAdaptive(
+  agents: AgentConfig[],
   prompt: string,
-  threshold: number
-): { pass: boolean; score: number } {
-  const content = response.content.trim();
-  let score = 0;
-
-  // 1. Non-empty check (0.2)
-  if (content.length > 0) score += 0.1;
-  if (content.length > 50) score += 0.1;
-
-  // 2. Length proportionality - response should be proportional to prompt complexity (0.2)
-  const promptWords = prompt.split(/\s+/).length;
-  const responseWords = content.split(/\s+/).length;
-  if (responseWords > Math.min(10, promptWords * 0.5)) score += 0.1;
-  if (responseWords > Math.min(50, promptWords)) score += 0.1;
-
-  // 3. Prompt-relevance - check keyword overlap (0.3)
-  const promptKeywords = extractKeywords(prompt);
-  const responseKeywords = extractKeywords(content);
-  const overlap = promptKeywords.filter(k => responseKeywords.includes(k)).length;
-  const relevancy = promptKeywords.length > 0 ? overlap / promptKeywords.length : 0;
-  score += Math.min(0.3, relevancy * 0.3);
-
-  // 4. Structure indicators - code blocks, headings, lists suggest effort (0.2)
-  if (/```/.test(content)) score += 0.05;
-  if (/^#+\s/m.test(content)) score += 0.05;
-  if (/^[-*]\s/m.test(content) || /^\d+\.\s/m.test(content)) score += 0.05;
-  if (content.includes('\n')) score += 0.05;
-
-  // 5. No error indicators (0.1)
-  const errorPatterns = /\b(error|sorry|cannot|unable|don't know|i'm not sure)\b/i;
-  if (!errorPatterns.test(content)) score += 0.1;
-
-  return { pass: score >= threshold, score };
-}
+  skill: SkillDefinition,
+  ctx: RouteContext
+): Promise<AgentResponse[]> {
+  const decision = adaptiveRouter.decide(ctx.taskId, skill, agents);
+  logger.info(`Adaptive: ${decision.reason}`);
+  const byId = new Map(agents.map(a => [a.id, a]));
+  const allResponses: AgentResponse[] = [];
+
+  for (const candidate of decision.candidates) {
+    const agent = byId.get(candidate.agentId)!;
+    const response = await sendToAgent(agent, prompt, skill, ctx);
+    allResponses.push(response);
+
+    if (!isUsable(response)) {
+      logger.warn(`Adaptive: agent ${agent.id} failed, trying next-best...`);
+      continue;
+    }
+    if (skill.evaluator) {
+      const quality = await evaluate(response, prompt, skill, ctx);
+      if (!quality.pass) {
+        logger.warn(`Adaptive: agent ${agent.id} failed ${quality.evaluator} evaluation (score=${quality.score.toFixed(2)}), trying next-best...`);
+        continue;
+      }
+    }
+    ctx.accepted = response;
+    return allResponses;
+  }
 
-/** Extract meaningful keywords from text for relevance checking */
-function extractKeywords(text: string): string[] {
-  const stopWords = new Set(['the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been',
-    'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-    'should', 'may', 'might', 'can', 'shall', 'to', 'of', 'in', 'for', 'on', 'with',
-    'at', 'by', 'from', 'as', 'into', 'through', 'during', 'before', 'after',
-    'and', 'but', 'or', 'nor', 'not', 'so', 'yet', 'both', 'either', 'neither',
-    'this', 'that', 'these', 'those', 'it', 'its', 'i', 'you', 'he', 'she', 'we', 'they',
-    'what', 'which', 'who', 'whom', 'how', 'when', 'where', 'why']);
-
-  return text.toLowerCase()
-    .replace(/[^a-z0-9\s]/g, '')
-    .split(/\s+/)
-    .filter(w => w.length > 2 && !stopWords.has(w))
-    .slice(0, 30); // limit for performance
+  return allResponses;
 }
 
 /** Send to first agent, then have second agent evaluate/critique the response */
 async function strategyEvaluate(
   agents: AgentConfig[],
   prompt: string,
-  skill: SkillDefinition
+  skill: SkillDefinition,
+  ctx: RouteContext
 ): Promise<AgentResponse[]> {
   if (agents.length < 2) {
     // Not enough agents - fall back to single
-    return strategySingle(agents, prompt, skill);
+    return strategySingle(agents, prompt, skill, ctx);
   }
 
   const allResponses: AgentResponse[] = [];
 
   // Step 1: Send to first agent (the doer)
   const doer = agents[0];
-  const doerResponse = await sendToAgent(doer, prompt, skill);
+  const doerResponse = await sendToAgent(doer, prompt, skill, ctx);
   allResponses.push(doerResponse);
 
-  if (!doerResponse.success) {
+  if (!isUsable(doerResponse)) {
     return allResponses;
   }
 
@@ -490,12 +633,15 @@ async function strategyEvaluate(
     `2. Identify any errors, omissions, or inaccuracies\n` +
     `3. Suggest specific improvements\n` +
     `4. Provide a final improved answer if the original has issues\n\n` +
-    `Format:\n## Evaluation\n**Quality:** X/10\n**Issues:** ...\n**Improvements:** ...\n\n## Revised Answer (if needed)\n...`;
+    (skill.outputSchema
+      ? `Return only the final answer - the original if it has no issues, otherwise your revised version.`
+      : `Format:\n## Evaluation\n**Quality:** X/10\n**Issues:** ...\n**Improvements:** ...\n\n## Revised Answer (if needed)\n...`);
 
-  const evalResponse = await sendToAgent(evaluator, evalPrompt, skill);
+  const evalResponse = await sendToAgent(evaluator, evalPrompt, skill, ctx);
+  ctx.reviews.push(evalResponse);
   allResponses.push(evalResponse);
 
-  if (evalResponse.success) {
+  if (isUsable(evalResponse)) {
     // Combine: original + evaluation
     evalResponse.content =
       `## Original Response (${doer.id})\n${doerResponse.content}\n\n` +
@@ -510,13 +656,19 @@ async function strategyEvaluate(
 
 // --- Helpers ---
 
-/** Send prompt to a specific agent via its provider */
+/**
+ * Send prompt to a specific agent via its provider.
+ * For skills with an outputSchema, the JSON in the response is validated and the agent is
+ * re-prompted with the errors (outputRepairAttempts times). A response that never validates
+ * carries schemaError: the task cannot use it, but the agent's health and circuit breaker
+ * still see the provider call's own success.
+ */
 async function sendToAgent(
   agent: AgentConfig,
   prompt: string,
-  skill: SkillDefinition
+  skill: SkillDefinition,
+  ctx: RouteContext
 ): Promise<AgentResponse> {
-  const startTime = Date.now();
   const sendFn = providerFns.get(agent.provider);
 
   if (!sendFn) {
@@ -525,7 +677,7 @@ async function sendToAgent(
       model: agent.model,
       content: '',
       tokenCount: 0,
-      latencyMs: Date.now() - startTime,
+      latencyMs: 0,
       costUnits: 0,
       success: false,
       error: `No provider registered for: ${agent.provider}`,
@@ -535,11 +687,124 @@ async function sendToAgent(
 
   agentRegistry.recordTaskStart(agent.id);
 
+  // Cancelled before this agent was reached (e.g. later fallback / evaluate steps)
+  if (ctx.signal?.aborted) {
+    return {
+      agentId: agent.id,
+      model: agent.model,
+      content: '',
+      tokenCount: 0,
+      latencyMs: 0,
+      costUnits: 0,
+      success: false,
+      error: 'Task cancelled',
+      timestamp: new Date(),
+    };
+  }
+
+  const schema = skill.outputSchema;
+  if (!schema) return callProvider(sendFn, agent, prompt, skill, ctx, ctx.history);
+
+  const maxRepairs = skill.outputRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+  // Providers with a JSON mode are asked for a JSON object when the schema expects one
+  const responseFormat = schema.type === 'object' ? 'json' : undefined;
+  let turnPrompt = prompt + outputInstructions(schema);
+  let history = ctx.history;
+  let response = await callProvider(sendFn, agent, turnPrompt, skill, ctx, history, responseFormat);
+  const totals = { tokenCount: 0, latencyMs: 0, costUnits: 0, premiumRequests: 0 };
+
+  for (let repairs = 0; ; repairs++) {
+    totals.tokenCount += response.tokenCount;
+    totals.latencyMs += response.latencyMs;
+    totals.costUnits += response.costUnits;
+    totals.premiumRequests += response.premiumRequests || 0;
+    const withTotals = { ...response, ...totals, repairAttempts: repairs };
+
+    if (!response.success) return withTotals;
+    const output = parseStructuredOutput(response.content, schema);
+    if (output.errors.length === 0) return { ...withTotals, parsed: output.value };
+    if (repairs >= maxRepairs || ctx.signal?.aborted) {
+      return {
+        ...withTotals,
+        schemaError: `Output failed schema validation after ${repairs} repair attempt(s): ${output.errors.join('; ')}`,
+      };
+    }
+
+    logger.info(`Agent ${agent.id} output failed schema validation (${output.errors.length} error(s)), re-prompting`);
+    history = [
+      ...history,
+      { role: 'user', content: turnPrompt },
+      { role: 'assistant', content: response.content, agentId: agent.id },
+    ];
+    turnPrompt = repairPrompt(output.errors, schema);
+    response = await callProvider(sendFn, agent, turnPrompt, skill, ctx, history, responseFormat);
+  }
+}
+
+/**
+ * Send a short prompt straight to an agent's provider, outside any task - used by circuit
+ * breaker and health probes. Not counted in router metrics or agent stats.
+ */
+export async function probeAgent(
+  agent: AgentConfig,
+  prompt: string,
+  maxTokens = 16,
+  timeoutMs = agent.timeoutMs || 180000
+): Promise<AgentResponse> {
+  const sendFn = providerFns.get(agent.provider);
+  const failed = (error: string, latencyMs = 0): AgentResponse => ({
+    agentId: agent.id,
+    model: agent.model,
+    content: '',
+    tokenCount: 0,
+    latencyMs,
+    costUnits: 0,
+    success: false,
+    error,
+    timestamp: new Date(),
+  });
+  if (!sendFn) return failed(`No provider registered for: ${agent.provider}`);
+
+  const startTime = Date.now();
+  try {
+    return await sendFn(agent, prompt, maxTokens, timeoutMs);
+  } catch (err) {
+    return failed(String(err), Date.now() - startTime);
+  }
+}
+
+/**
+ * System prompt for one agent call: the agent's persona / guardrails first, then the skill's
+ * role instructions, separated by a blank line. Undefined when neither is set.
+ */
+export function buildSystemPrompt(agent: AgentConfig, skillSystemPrompt?: string): string | undefined {
+  const parts = [agent.systemPrompt, skillSystemPrompt].map(p => p?.trim()).filter(Boolean);
+  return parts.length > 0 ? parts.join('\n\n') : undefined;
+}
+
+/** One provider call - failures are returned as unsuccessful responses */
+async function callProvider(
+  sendFn: SendPromptFn,
+  agent: AgentConfig,
+  prompt: string,
+  skill: SkillDefinition,
+  ctx: RouteContext,
+  history: ChatMessage[],
+  responseFormat?: SendPromptOptions['responseFormat']
+): Promise<AgentResponse> {
+  const startTime = Date.now();
   try {
     const maxTokens = skill.maxTokens || 4000;
     // Default 180s for copilot --yolo mode (tool execution takes longer)
     const timeout = skill.timeoutMs || agent.timeoutMs || 180000;
-    return await sendFn(agent, prompt, maxTokens, timeout);
+    return await sendFn(agent, prompt, maxTokens, timeout, {
+      onChunk: ctx.stream ? (chunk) => ctx.emitChunk(agent.id, chunk) : undefined,
+      history: history.length > 0 ? trimHistory(history, agent, prompt, maxTokens) : undefined,
+      signal: ctx.signal,
+      systemPrompt: buildSystemPrompt(agent, ctx.systemPrompt),
+      responseFormat,
+      tools: ctx.tools && toolLoop(agent, skill, ctx, ctx.tools),
+    });
   } catch (err) {
     return {
       agentId: agent.id,
@@ -555,6 +820,85 @@ async function sendToAgent(
   }
 }
 
+/**
+ * Tool settings for one agent call. Calls run as the agent (mailbox reader / sender) and are
+ * emitted as task:tool-call events; mgr_run_skill routes a nested task one level deeper.
+ */
+function toolLoop(agent: AgentConfig, skill: SkillDefinition, ctx: RouteContext, definitions: AgentToolDefinition[]): ToolLoopOptions {
+  const offered = new Set(definitions.map(t => t.name));
+  return {
+    definitions,
+    maxIterations: skill.maxToolIterations ?? DEFAULT_TOOL_ITERATIONS,
+    execute: async (name, input) => {
+      const startTime = Date.now();
+      try {
+        if (!offered.has(name)) throw new Error(`Tool ${name} is not available to this skill`);
+        const output = await executeManagerTool(name, input, {
+          taskId: ctx.taskId,
+          skillId: skill.id,
+          agentId: agent.id,
+          depth: ctx.toolDepth,
+          runSkill: (skillId, params) => routeTask(
+            {
+              taskId: `${ctx.taskId}-tool-${++nestedTaskSeq}`,
+              skillId,
+              params,
+              priority: 0,
+              createdAt: new Date(),
+              callerContext: `mgr_run_skill from ${agent.id} in task ${ctx.taskId}`,
+            },
+            { signal: ctx.signal, toolDepth: ctx.toolDepth + 1 }
+          ),
+        });
+        eventBus.emitEvent('task:tool-call', {
+          taskId: ctx.taskId, skillId: skill.id, agentId: agent.id, tool: name, success: true, latencyMs: Date.now() - startTime,
+        });
+        return output;
+      } catch (err: any) {
+        const error = err?.message || String(err);
+        eventBus.emitEvent('task:tool-call', {
+          taskId: ctx.taskId, skillId: skill.id, agentId: agent.id, tool: name, success: false, latencyMs: Date.now() - startTime, error,
+        });
+        throw err;
+      }
+    },
+  };
+}
+
+/** Task-history view of the tool calls in a task's responses */
+function toolCallTrace(responses: AgentResponse[]): TaskHistoryEntry['toolCalls'] {
+  const trace = responses.flatMap(r => (r.toolCalls ?? []).map(c => ({
+    agentId: r.agentId,
+    iteration: c.iteration,
+    name: c.name,
+    success: c.success,
+    latencyMs: c.latencyMs,
+    ...(c.error ? { error: c.error } : {}),
+  })));
+  return trace.length > 0 ? trace : undefined;
+}
+
+/** Score a response with the skill's evaluator; judge calls are billed to the task */
+async function evaluate(
+  response: AgentResponse,
+  prompt: string,
+  skill: SkillDefinition,
+  ctx: RouteContext
+): Promise<QualityEvaluation> {
+  // Judges keep their own persona but not the skill's role instructions
+  const quiet: RouteContext = { ...ctx, emitChunk: () => {}, systemPrompt: undefined, tools: undefined };
+  const evaluation = await evaluateResponse(response, prompt, skill, async (judgeAgent, judgePrompt) => {
+    const sendFn = providerFns.get(judgeAgent.provider);
+    if (!sendFn) throw new Error(`No provider registered for: ${judgeAgent.provider}`);
+    agentRegistry.recordTaskStart(judgeAgent.id);
+    const verdict = await callProvider(sendFn, judgeAgent, judgePrompt, skill, quiet, []);
+    ctx.judgeResponses.push(verdict);
+    return verdict;
+  });
+  ctx.evaluations.push(evaluation);
+  return evaluation;
+}
+
 /** Pick the best available agent (lowest load, highest capacity) */
 function pickBestAgent(agents: AgentConfig[]): AgentConfig {
   // Sort by: active tasks ascending, then cost ascending
@@ -585,7 +929,7 @@ function mergeResponses(responses: AgentResponse[]): string {
 }
 
 /** Resolve which agents should handle this skill */
-function resolveCandidateAgents(skill: SkillDefinition): AgentConfig[] {
+export function resolveCandidateAgents(skill: SkillDefinition): AgentConfig[] {
   let agents: AgentConfig[] = [];
 
   // Explicit agent IDs first
@@ -0,0 +1,210 @@
+// mcp-agent-manager/src/services/workflowRunner.ts
+// Executes workflow DAGs - each step is submitted to the task queue as soon as its own dependencies settle
+
+import {
+  RouteTaskOptions,
+  WorkflowDefinition,
+  WorkflowRunResult,
+  WorkflowStep,
+  WorkflowStepCondition,
+  WorkflowStepResult,
+} from '../types/index.js';
+import { logger } from './logger.js';
+import { responseError } from './outputSchema.js';
+import { recordTaskHistory } from './taskRouter.js';
+import { taskQueue } from './taskQueue.js';
+import { stepDependencies, validateWorkflow } from './workflowStore.js';
+
+let runCounter = 0;
+
+/** Substitute {{inputs.x}} and {{steps.<id>.output|status}} references */
+function interpolate(
+  value: string,
+  inputs: Record<string, string>,
+  results: Map<string, WorkflowStepResult>
+): string {
+  return value.replace(/\{\{\s*(inputs|steps)\.([\w-]+)(?:\.(output|status))?\s*\}\}/g, (_m, scope, key, field) => {
+    if (scope === 'inputs') return inputs[key] ?? '';
+    const r = results.get(key);
+    if (!r) return '';
+    return field === 'status' ? r.status : r.content;
+  });
+}
+
+/** Evaluate a step condition against the referenced step's result */
+function conditionHolds(cond: WorkflowStepCondition, target: WorkflowStepResult): boolean {
+  switch (cond.when) {
+    case 'success':
+      return target.status === 'success';
+    case 'failure':
+      return target.status === 'failed';
+    case 'contains':
+      return target.status === 'success' && target.content.toLowerCase().includes((cond.value || '').toLowerCase());
+    case 'not-contains':
+      return target.status === 'success' && !target.content.toLowerCase().includes((cond.value || '').toLowerCase());
+    case 'matches':
+      return target.status === 'success' && new RegExp(cond.value || '').test(target.content);
+    default:
+      return false;
+  }
+}
+
+function skipped(step: WorkflowStep, reason: string): WorkflowStepResult {
+  return {
+    stepId: step.id,
+    skillId: step.skillId,
+    status: 'skipped',
+    content: '',
+    agents: [],
+    totalTokens: 0,
+    totalCost: 0,
+    latencyMs: 0,
+    skipReason: reason,
+  };
+}
+
+/** Run one step once all of its dependencies have results */
+async function runStep(
+  step: WorkflowStep,
+  runId: string,
+  workflowId: string,
+  inputs: Record<string, string>,
+  results: Map<string, WorkflowStepResult>,
+  options: RouteTaskOptions
+): Promise<WorkflowStepResult> {
+  for (const dep of stepDependencies(step)) {
+    const r = results.get(dep)!;
+    if (r.status === 'skipped') return skipped(step, `dependency ${dep} was skipped`);
+    // A failed dependency only blocks the step when it is not the step's branch condition
+    if (r.status === 'failed' && step.condition?.step !== dep) {
+      return skipped(step, `dependency ${dep} failed`);
+    }
+  }
+
+  if (step.condition) {
+    const target = results.get(step.condition.step)!;
+    if (!conditionHolds(step.condition, target)) {
+      const detail = step.condition.value !== undefined ? ` "${step.condition.value}"` : '';
+      return skipped(step, `condition not met: ${step.condition.step} ${step.condition.when}${detail}`);
+    }
+  }
+
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(step.params || {})) {
+    params[key] = interpolate(value, inputs, results);
+  }
+
+  const taskId = `${runId}-${step.id}`;
+  const startTime = Date.now();
+  try {
+    const result = await taskQueue.submit({
+      taskId,
+      skillId: step.skillId,
+      params,
+      priority: 0,
+      createdAt: new Date(),
+      callerContext: `workflow:${workflowId}:${runId}`,
+    }, options);
+
+    return {
+      stepId: step.id,
+      skillId: step.skillId,
+      status: result.success ? 'success' : 'failed',
+      taskId,
+      content: result.finalContent,
+      agents: result.responses.map(r => r.agentId),
+      totalTokens: result.totalTokens,
+      totalCost: result.totalCost,
+      latencyMs: result.totalLatencyMs,
+      error: result.success ? undefined : result.responses.map(responseError).filter(Boolean).join('; ') || 'No successful response',
+    };
+  } catch (err: any) {
+    return {
+      stepId: step.id,
+      skillId: step.skillId,
+      status: 'failed',
+      taskId,
+      content: '',
+      agents: [],
+      totalTokens: 0,
+      totalCost: 0,
+      latencyMs: Date.now() - startTime,
+      error: err.message || String(err),
+    };
+  }
+}
+
+/** Execute a workflow - each step starts once its own dependencies have results, independently of unrelated steps */
+export async function runWorkflow(
+  def: WorkflowDefinition,
+  inputs: Record<string, string> = {},
+  options: RouteTaskOptions = {}
+): Promise<WorkflowRunResult> {
+  const errors = validateWorkflow(def);
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow ${def.id}: ${errors.join('; ')}`);
+  }
+
+  const runId = `wf-${++runCounter}-${Date.now()}`;
+  const startTime = Date.now();
+  const results = new Map<string, WorkflowStepResult>();
+  const byId = new Map(def.steps.map(s => [s.id, s]));
+  const started = new Map<string, Promise<WorkflowStepResult>>();
+
+  logger.info(`Running workflow ${def.id} (${def.steps.length} steps) as ${runId}`);
+
+  // Each step waits only for its own dependencies (the graph is validated acyclic above)
+  const settle = (step: WorkflowStep): Promise<WorkflowStepResult> => {
+    let promise = started.get(step.id);
+    if (!promise) {
+      promise = Promise.all(stepDependencies(step).map(d => settle(byId.get(d)!)))
+        .then(() => runStep(step, runId, def.id, inputs, results, options))
+        .then(r => {
+          results.set(r.stepId, r);
+          logger.info(`Workflow ${runId} step ${r.stepId}: ${r.status}${r.skipReason ? ` (${r.skipReason})` : ''}`);
+          return r;
+        });
+      started.set(step.id, promise);
+    }
+    return promise;
+  };
+  await Promise.all(def.steps.map(settle));
+
+  // Report steps in definition order
+  const steps = def.steps.map(s => results.get(s.id)!);
+  const success = steps.every(r => r.status !== 'failed' || def.steps.find(s => s.id === r.stepId)?.continueOnError);
+  const outputResult = def.outputStep
+    ? results.get(def.outputStep)
+    : [...steps].reverse().find(r => r.status === 'success');
+
+  const run: WorkflowRunResult = {
+    runId,
+    workflowId: def.id,
+    success,
+    steps,
+    finalContent: outputResult?.content || '',
+    totalTokens: steps.reduce((sum, r) => sum + r.totalTokens, 0),
+    totalCost: steps.reduce((sum, r) => sum + r.totalCost, 0),
+    totalLatencyMs: Date.now() - startTime,
+    completedAt: new Date(),
+  };
+
+  recordTaskHistory({
+    taskId: runId,
+    skillId: def.id,
+    strategy: 'workflow',
+    success,
+    totalTokens: run.totalTokens,
+    totalCost: run.totalCost,
+    totalLatencyMs: run.totalLatencyMs,
+    agentCount: new Set(steps.flatMap(r => r.agents)).size,
+    agents: Array.from(new Set(steps.flatMap(r => r.agents))),
+    contentPreview: run.finalContent.substring(0, 200),
+    error: success ? undefined : steps.filter(r => r.status === 'failed').map(r => `${r.stepId}: ${r.error}`).join('; ').substring(0, 200),
+    completedAt: run.completedAt.toISOString(),
+    workflowSteps: steps.map(r => ({ stepId: r.stepId, skillId: r.skillId, status: r.status, taskId: r.taskId })),
+  });
+
+  logger.info(`Workflow ${runId} completed: ${success ? 'OK' : 'FAIL'} ${run.totalTokens} tokens, ${run.totalLatencyMs}ms`);
+  return run;
+}
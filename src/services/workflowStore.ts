@@ -0,0 +1,161 @@
+// mcp-agent-manager/src/services/workflowStore.ts
+// Manages workflow definitions - DAGs of skill steps persisted alongside skills.json
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkflowDefinition, WorkflowStep } from '../types/index.js';
+import { logger } from './logger.js';
+import { getSkillsDir } from './dataDir.js';
+
+const WORKFLOWS_FILE = path.join(getSkillsDir(), 'workflows.json');
+
+/** Matches {{steps.<id>.output}} / {{steps.<id>.status}} references */
+const STEP_REF = /\{\{\s*steps\.([\w-]+)\.(output|status)\s*\}\}/g;
+
+/** Step IDs a step depends on: explicit dependsOn + params references + condition step */
+export function stepDependencies(step: WorkflowStep): string[] {
+  const deps = new Set(step.dependsOn || []);
+  for (const value of Object.values(step.params || {})) {
+    for (const m of value.matchAll(STEP_REF)) deps.add(m[1]);
+  }
+  if (step.condition) deps.add(step.condition.step);
+  return Array.from(deps);
+}
+
+/** Structural validation: unique IDs, known references, valid regexes, no cycles */
+export function validateWorkflow(def: WorkflowDefinition): string[] {
+  const errors: string[] = [];
+  if (!def.id) errors.push('Workflow id is required');
+  if (!Array.isArray(def.steps) || def.steps.length === 0) {
+    errors.push('Workflow must have at least one step');
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  for (const step of def.steps) {
+    if (!step.id) errors.push('Every step needs an id');
+    else if (ids.has(step.id)) errors.push(`Duplicate step id: ${step.id}`);
+    ids.add(step.id);
+    if (!step.skillId) errors.push(`Step ${step.id}: skillId is required`);
+  }
+
+  for (const step of def.steps) {
+    for (const dep of stepDependencies(step)) {
+      if (!ids.has(dep)) errors.push(`Step ${step.id}: references unknown step "${dep}"`);
+      if (dep === step.id) errors.push(`Step ${step.id}: cannot depend on itself`);
+    }
+    const cond = step.condition;
+    if (cond && ['contains', 'not-contains', 'matches'].includes(cond.when) && cond.value === undefined) {
+      errors.push(`Step ${step.id}: condition "${cond.when}" requires a value`);
+    }
+    if (cond?.when === 'matches' && cond.value !== undefined) {
+      try { new RegExp(cond.value); } catch { errors.push(`Step ${step.id}: invalid regex "${cond.value}"`); }
+    }
+  }
+
+  if (def.outputStep && !ids.has(def.outputStep)) {
+    errors.push(`outputStep references unknown step "${def.outputStep}"`);
+  }
+
+  // Cycle detection (Kahn) - only meaningful once references are valid
+  if (errors.length === 0) {
+    const remaining = new Map(def.steps.map(s => [s.id, new Set(stepDependencies(s))]));
+    let progressed = true;
+    while (remaining.size > 0 && progressed) {
+      progressed = false;
+      for (const [id, deps] of remaining) {
+        if ([...deps].every(d => !remaining.has(d))) {
+          remaining.delete(id);
+          progressed = true;
+        }
+      }
+    }
+    if (remaining.size > 0) {
+      errors.push(`Dependency cycle between steps: ${Array.from(remaining.keys()).join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+class WorkflowStore {
+  private workflows: Map<string, WorkflowDefinition> = new Map();
+  private loaded = false;
+
+  /** Load workflows from disk */
+  load(): void {
+    this.loaded = true;
+    if (!fs.existsSync(WORKFLOWS_FILE)) return;
+    try {
+      const arr: WorkflowDefinition[] = JSON.parse(fs.readFileSync(WORKFLOWS_FILE, 'utf-8'));
+      if (!Array.isArray(arr)) throw new Error('workflows.json is not an array');
+      for (const wf of arr) this.workflows.set(wf.id, wf);
+      logger.info(`Loaded ${this.workflows.size} workflows from disk`);
+    } catch (err) {
+      logger.error('Failed to load workflows', { error: String(err) });
+    }
+  }
+
+  /** Atomic write - a crash mid-write leaves the previous file intact */
+  private persist(): void {
+    try {
+      fs.mkdirSync(path.dirname(WORKFLOWS_FILE), { recursive: true });
+      const arr = Array.from(this.workflows.values());
+
+      // Safety: backup before overwriting non-empty file with empty array
+      if (arr.length === 0 && fs.existsSync(WORKFLOWS_FILE)) {
+        try {
+          const existing = fs.readFileSync(WORKFLOWS_FILE, 'utf-8').trim();
+          if (existing !== '[]' && existing !== '') {
+            const backupFile = WORKFLOWS_FILE + '.bak';
+            fs.copyFileSync(WORKFLOWS_FILE, backupFile);
+            logger.warn(`[WorkflowStore] Writing empty workflows array — backed up ${WORKFLOWS_FILE} → ${backupFile}`);
+          }
+        } catch { /* file unreadable, skip backup */ }
+      }
+
+      const tmp = WORKFLOWS_FILE + '.tmp';
+      fs.writeFileSync(tmp, JSON.stringify(arr, null, 2), 'utf-8');
+      fs.renameSync(tmp, WORKFLOWS_FILE);
+      logger.debug(`Persisted ${arr.length} workflows`);
+    } catch (err) {
+      logger.error('Failed to persist workflows', { error: String(err) });
+    }
+  }
+
+  /** Register or replace a workflow - throws with all validation errors */
+  register(def: WorkflowDefinition): void {
+    if (!this.loaded) this.load();
+    const errors = validateWorkflow(def);
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow ${def.id}: ${errors.join('; ')}`);
+    }
+    this.workflows.set(def.id, def);
+    this.persist();
+    logger.info(`Registered workflow: ${def.id} (${def.steps.length} steps)`);
+  }
+
+  remove(id: string): boolean {
+    if (!this.loaded) this.load();
+    const existed = this.workflows.delete(id);
+    if (existed) {
+      this.persist();
+      logger.info(`Removed workflow: ${id}`);
+    }
+    return existed;
+  }
+
+  get(id: string): WorkflowDefinition | undefined {
+    if (!this.loaded) this.load();
+    return this.workflows.get(id);
+  }
+
+  list(category?: string): WorkflowDefinition[] {
+    if (!this.loaded) this.load();
+    const all = Array.from(this.workflows.values());
+    return category ? all.filter(w => w.categories.includes(category)) : all;
+  }
+}
+
+/** Singleton workflow store */
+export const workflowStore = new WorkflowStore();
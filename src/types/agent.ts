@@ -1,8 +1,11 @@
 // mcp-agent-manager/src/types/agent.ts
 // Agent domain types - configuration, instance state, and health
 
-/** Supported LLM provider backends */
-export type ProviderName = 'anthropic' | 'copilot' | 'openai' | 'custom';
+/** Built-in LLM provider backends */
+export type BuiltinProviderName = 'anthropic' | 'copilot' | 'openai' | 'ollama' | 'custom';
+
+/** Provider backend - a built-in, or the name of a loaded provider plugin */
+export type ProviderName = BuiltinProviderName | (string & {});
 
 /** Agent connection modes */
 export type AgentTransport = 'stdio' | 'tcp' | 'http';
@@ -10,6 +13,24 @@ export type AgentTransport = 'stdio' | 'tcp' | 'http';
 /** Agent lifecycle states */
 export type AgentState = 'idle' | 'starting' | 'running' | 'busy' | 'error' | 'stopped';
 
+/** Circuit breaker states - open and half-open agents are excluded from routing */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Per-agent circuit breaker - opened by consecutive failures, closed again by a successful probe */
+export interface AgentCircuit {
+  state: CircuitState;
+  /** Consecutive failed responses */
+  failures: number;
+  /** When the circuit last opened (ms since epoch), or 0 if closed */
+  openedAt: number;
+  /** Times the circuit has opened */
+  trips: number;
+  /** Why the circuit last opened */
+  reason?: string;
+  /** When the last half-open probe started (ms since epoch) */
+  lastProbeAt?: number;
+}
+
 /** Registered agent configuration */
 export interface AgentConfig {
   id: string;
@@ -17,7 +38,7 @@ export interface AgentConfig {
   provider: ProviderName;
   model: string;
   transport: AgentTransport;
-  /** stdio command + args, or TCP host:port, or HTTP endpoint */
+  /** stdio command (+ args), or TCP host:port, or HTTP endpoint */
   endpoint: string;
   args?: string[];
   env?: Record<string, string>;
@@ -37,6 +58,203 @@ export interface AgentConfig {
   cliArgs?: string[];
   /** Optional: working directory override for process spawn (used by cross-repo dispatch) */
   cwd?: string;
+  /** Optional: context window in tokens (overrides the built-in per-model table) */
+  contextWindow?: number;
+  /** Optional: request/token rate limits and retry count (overrides provider env defaults) */
+  rateLimit?: AgentRateLimit;
+  /** Optional: scheduled health probes (interval, checks, circuit behavior) */
+  healthCheck?: AgentHealthCheckConfig;
+  /** Optional: Azure OpenAI deployment routing (openai provider; implied by *.openai.azure.com endpoints) */
+  azure?: AzureOpenAIConfig;
+  /** Optional: persona / guardrail instructions sent as the system prompt, ahead of the skill's systemPrompt */
+  systemPrompt?: string;
+  /** Optional: native Ollama settings (ollama provider) */
+  ollama?: OllamaConfig;
+  /** Optional: what to call on an MCP server / JSON-RPC agent process (custom provider) */
+  mcp?: McpAgentConfig;
+  /** Optional: the agent template this agent was created from, and the settings it overrides */
+  template?: AgentTemplateRef;
+  /** Optional: the autoscaling pool that spawned this agent and may stop it again */
+  pool?: string;
+}
+
+/** Agent settings a template can carry - everything but the agent's identity */
+export type AgentTemplateSettings = Partial<Omit<AgentConfig, 'id' | 'name' | 'template' | 'pool'>>;
+
+/** Per-agent settings on top of a template - null marks a template setting the agent cleared */
+export type AgentTemplateOverrides = { [K in keyof AgentTemplateSettings]?: AgentTemplateSettings[K] | null };
+
+/** Named, reusable agent settings (agents/templates.json) */
+export interface AgentTemplate {
+  /** Template ID (kebab-case, e.g. copilot-readonly-sonnet) */
+  id: string;
+  description?: string;
+  /** Parent template - its settings apply first and this template's override them */
+  extends?: string;
+  settings: AgentTemplateSettings;
+  /** Bumped whenever the template or a template it extends changes */
+  version: number;
+  updatedAt: string;
+}
+
+/** Link from an agent to the template it was created from */
+export interface AgentTemplateRef {
+  id: string;
+  /** Template version the agent's config was last built from */
+  version: number;
+  /** Agent-specific settings kept on top of the template (spawn overrides and later mgr_update_agent changes) */
+  overrides?: AgentTemplateOverrides;
+}
+
+/** Autoscaling pool - keeps between min and max agents from a template serving a tag (agents/pools.json) */
+export interface AgentPoolDefinition {
+  /** Pool ID - also the prefix of the agents it spawns ({id}-1, {id}-2, ...) */
+  id: string;
+  /** Agent template the pool spawns from */
+  template: string;
+  /** Tag the pool serves - added to every pool agent, and the tag whose queued tasks drive scale-up */
+  tag: string;
+  minInstances: number;
+  maxInstances: number;
+  /** Queued tasks for the tag per extra agent started (default 1) */
+  scaleUpQueueDepth?: number;
+  /** Share of the pool's concurrency in use (activeTasks / maxConcurrency) that adds an agent (default 0.8) */
+  scaleUpUtilization?: number;
+  /** How long an agent above minInstances stays idle before it is stopped (default 300000) */
+  scaleDownIdleMs?: number;
+  /** Minimum time between scale actions, except scaling up to minInstances (default 30000) */
+  cooldownMs?: number;
+  /** Disabled pools keep their agents but never scale (default true) */
+  enabled?: boolean;
+}
+
+/** Direction of a pool scale action */
+export type PoolScaleDirection = 'up' | 'down';
+
+/** One pool scale action - also emitted as pool:scaled */
+export interface PoolScaleAction {
+  poolId: string;
+  tag: string;
+  direction: PoolScaleDirection;
+  /** Agents started or stopped */
+  agentIds: string[];
+  /** Pool size after the action */
+  instances: number;
+  reason: string;
+}
+
+/** How the custom provider turns a task into a call on an MCP server or JSON-RPC process */
+export interface McpAgentConfig {
+  /** tools/call (default), prompts/get, or a plain JSON-RPC method with no MCP handshake */
+  call?: 'tool' | 'prompt' | 'rpc';
+  /** Tool, prompt or method name */
+  name: string;
+  /** Argument that receives the task prompt (default "prompt") */
+  promptArgument?: string;
+  /** Argument that receives the system prompt - when unset it is prepended to the prompt text */
+  systemArgument?: string;
+  /** Fixed arguments merged into every call */
+  arguments?: Record<string, unknown>;
+  /** Extra request headers (http transport) */
+  headers?: Record<string, string>;
+}
+
+/** Ollama model settings sent with each /api/chat request */
+export interface OllamaConfig {
+  /** How long the model stays loaded after a request - duration string ("10m", "-1" = forever) or seconds */
+  keepAlive?: string | number;
+  /** Context size (num_ctx) - default: the agent's contextWindow, else the model's Ollama default */
+  numCtx?: number;
+  /** Pull the model when the server reports it is not installed, then retry (default false) */
+  autoPull?: boolean;
+}
+
+/** Azure OpenAI settings - requests go to {endpoint}/openai/deployments/{deployment}/chat/completions */
+export interface AzureOpenAIConfig {
+  /** Deployment name (default: the agent's model) */
+  deployment?: string;
+  /** api-version query parameter (default AZURE_OPENAI_API_VERSION env, else 2024-10-21) */
+  apiVersion?: string;
+}
+
+/** Health probe checks: a cheap prompt, Copilot binary existence, ACP initialize handshake, custom agent connection */
+export type HealthCheckKind = 'ping' | 'binary' | 'acp' | 'connect';
+
+/** Scheduled health probe settings for an agent */
+export interface AgentHealthCheckConfig {
+  /** Run scheduled probes (default true) */
+  enabled?: boolean;
+  /** Time between probes in ms (default 300000) */
+  intervalMs?: number;
+  /** Timeout per check in ms (default 15000) */
+  timeoutMs?: number;
+  /** Checks to run (default: copilot ['binary'] plus 'acp' for --acp agents, custom ['connect'], none for other providers - 'ping' is opt-in) */
+  checks?: HealthCheckKind[];
+  /** Open the agent's circuit when a probe fails (default true) */
+  openCircuitOnFailure?: boolean;
+}
+
+/** Probe-derived health - unknown until the first probe */
+export type AgentHealthStatus = 'healthy' | 'unhealthy' | 'unknown';
+
+/** Outcome of one check within a probe */
+export interface HealthCheckResult {
+  kind: HealthCheckKind;
+  success: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+/** One health probe - all of an agent's checks */
+export interface HealthProbeRecord {
+  at: string;
+  status: Exclude<AgentHealthStatus, 'unknown'>;
+  latencyMs: number;
+  checks: HealthCheckResult[];
+}
+
+/** Probe history and current health for an agent */
+export interface AgentHealthReport {
+  agentId: string;
+  status: AgentHealthStatus;
+  lastProbeAt?: string;
+  nextProbeAt?: string;
+  consecutiveFailures: number;
+  /** Average total probe latency over the history */
+  avgLatencyMs?: number;
+  /** Recent probes, oldest first */
+  history: HealthProbeRecord[];
+}
+
+/** Rate limits for an agent's API key (Anthropic / OpenAI providers) */
+export interface AgentRateLimit {
+  /** Requests per minute allowed on the API key */
+  requestsPerMinute?: number;
+  /** Tokens (prompt + max output) per minute allowed on the API key */
+  tokensPerMinute?: number;
+  /** Retries after a 429 / overloaded response (default 3) */
+  maxRetries?: number;
+}
+
+/** Rate-limit state for one agent - its API key's bucket plus the agent's own throttling counters */
+export interface RateLimitState {
+  /** Bucket shared by every agent using the same provider + API key (key shown as a fingerprint) */
+  bucket: string;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxRetries: number;
+  /** Requests / tokens that can be sent right now (absent when unlimited) */
+  availableRequests?: number;
+  availableTokens?: number;
+  /** Set while the bucket is paused by a retry-after / backoff */
+  pausedUntil?: string;
+  /** 429 / overloaded responses received by this agent */
+  throttled: number;
+  /** Retries made by this agent */
+  retries: number;
+  /** Total time this agent waited for the bucket or backoff */
+  waitedMs: number;
+  lastThrottledAt?: string;
 }
 
 /** Runtime agent instance state */
@@ -57,6 +275,12 @@ export interface AgentInstance {
   /** Premium requests consumed (Copilot CLI billing: 1 per invocation) */
   premiumRequests: number;
   error?: string;
+  /** Circuit breaker - quarantines the agent after repeated failures */
+  circuit: AgentCircuit;
+  /** ACP session processes that exited unexpectedly (replaced on the next task) */
+  sessionCrashes?: number;
+  /** Most recent ACP session crash */
+  lastSessionCrash?: { at: string; reason: string };
 }
 
 /** Health check result */
@@ -68,4 +292,7 @@ export interface AgentHealth {
   tasksCompleted: number;
   tasksFailed: number;
   avgLatencyMs?: number;
+  circuit?: AgentCircuit;
+  sessionCrashes?: number;
+  lastSessionCrash?: { at: string; reason: string };
 }
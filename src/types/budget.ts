@@ -0,0 +1,49 @@
+// mcp-agent-manager/src/types/budget.ts
+// Budget domain types - spending limits per agent, skill, provider or globally
+
+/** What a budget applies to */
+export type BudgetScope = 'global' | 'agent' | 'skill' | 'provider';
+
+/** Calendar window a budget resets on (UTC): day, ISO week starting Monday, or month */
+export type BudgetWindow = 'daily' | 'weekly' | 'monthly';
+
+/** What a budget counts */
+export type BudgetMetric = 'cost' | 'tokens' | 'premiumRequests';
+
+/**
+ * Hard-limit behaviour: reject the task, or reroute it - agent/provider budgets drop
+ * the exhausted agents from the candidates, global/skill budgets keep only the cheapest.
+ * Unset, global/skill budgets reject and agent/provider budgets reroute.
+ */
+export type BudgetAction = 'reject' | 'reroute';
+
+/** A spending limit - persisted under the state dir */
+export interface BudgetDefinition {
+  id: string;
+  scope: BudgetScope;
+  /** Agent, skill or provider ID (not used for global budgets) */
+  target?: string;
+  window: BudgetWindow;
+  metric: BudgetMetric;
+  /** Usage at which a budget:warning event is emitted (once per window) */
+  softLimit?: number;
+  /** Usage at which routing rejects or reroutes tasks */
+  hardLimit?: number;
+  /** Hard-limit behaviour (default 'reject' for global/skill budgets, 'reroute' for agent/provider) */
+  onExceeded?: BudgetAction;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+/** A budget with its usage in the current window */
+export interface BudgetStatus extends BudgetDefinition {
+  used: number;
+  windowStart: string;
+  /** When the current window ends and usage resets */
+  resetsAt: string;
+  /** used / hardLimit (or softLimit when there is no hard limit), 0-1+ */
+  utilization: number;
+  state: BudgetState;
+}
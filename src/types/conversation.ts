@@ -0,0 +1,36 @@
+// mcp-agent-manager/src/types/conversation.ts
+// Conversation domain types - persisted multi-turn sessions against an agent or skill
+
+/** Speaker of a conversation turn */
+export type ChatRole = 'user' | 'assistant';
+
+/** A single turn in a conversation */
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  /** ISO timestamp when the turn was recorded */
+  timestamp?: string;
+  /** Agent that produced an assistant turn */
+  agentId?: string;
+}
+
+export type ConversationStatus = 'open' | 'closed';
+
+/** A persisted multi-turn session - targets exactly one agent or one skill */
+export interface Conversation {
+  id: string;
+  title?: string;
+  /** Direct agent target (raw prompts, single strategy) */
+  agentId?: string;
+  /** Skill target (first turn fills the template, follow-ups reuse its routing) */
+  skillId?: string;
+  /** Checked params of the first skill turn - follow-ups are validated and system prompts rendered with them */
+  params?: Record<string, string>;
+  status: ConversationStatus;
+  messages: ChatMessage[];
+  totalTokens: number;
+  totalCost: number;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string;
+}
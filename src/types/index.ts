@@ -6,6 +6,9 @@ export * from './skill.js';
 export * from './task.js';
 export * from './metrics.js';
 export * from './crossRepo.js';
+export * from './conversation.js';
+export * from './workflow.js';
+export * from './budget.js';
 
 /** Feedback submission types */
 export type FeedbackType = 'issue' | 'bug' | 'feature-request' | 'security' | 'general';
@@ -3,13 +3,104 @@
 
 import type { RoutingStrategy } from './task.js';
 
+/** Value type of a skill parameter - params are passed as strings and checked against this.
+ *  'list' is a JSON array or one item per line, iterated with {#each} in templates. */
+export type SkillParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'json' | 'list';
+
+/** Declared input of a skill's prompt template */
+export interface SkillParameter {
+  name: string;
+  /** Defaults to 'string' */
+  type?: SkillParameterType;
+  /** Must be supplied (non-empty) unless a default is set */
+  required?: boolean;
+  /** Used when the caller omits the parameter */
+  default?: string;
+  /** Allowed values */
+  enum?: string[];
+  description?: string;
+}
+
+/** JSON type names accepted by OutputSchema.type ('integer' is a whole number) */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/** JSON Schema subset used to validate structured skill output (see outputSchema.ts) */
+export interface OutputSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, OutputSchema>;
+  required?: string[];
+  /** false rejects unlisted properties; a schema validates them */
+  additionalProperties?: boolean | OutputSchema;
+  items?: OutputSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: OutputSchema[];
+  oneOf?: OutputSchema[];
+  allOf?: OutputSchema[];
+  title?: string;
+  description?: string;
+}
+
+/** A check run against response content by the 'assertions' evaluator */
+export interface ResponseAssertion {
+  kind: 'contains' | 'not-contains' | 'matches' | 'not-matches' | 'min-length' | 'max-length';
+  /** Substring, regex source, or character count */
+  value: string;
+  /** Regex flags for matches / not-matches */
+  flags?: string;
+}
+
+/** Built-in response quality evaluators (see qualityEvaluator.ts) */
+export type QualityEvaluatorType = 'heuristic' | 'llm-judge' | 'assertions' | 'json-schema';
+
+/** How cost-optimized and fallback decide whether a response is good enough */
+export interface QualityEvaluatorConfig {
+  /** A built-in evaluator or one added with registerEvaluator() */
+  type: QualityEvaluatorType | string;
+  /** Minimum passing score 0-1 - defaults to the skill's qualityThreshold, then 0.5 */
+  threshold?: number;
+  /** llm-judge: tags selecting the judge agent */
+  judgeTags?: string[];
+  /** llm-judge: grading rubric included in the judge prompt */
+  rubric?: string;
+  /** assertions: every check must pass */
+  assertions?: ResponseAssertion[];
+  /** json-schema: schema the response JSON must match (defaults to the skill's outputSchema) */
+  schema?: OutputSchema;
+}
+
+/** How the consensus strategy combines responses: a synthesizer agent, or a deterministic vote */
+export type ConsensusMode = 'synthesis' | 'majority' | 'weighted';
+
+/** Relative weight of each signal in an adaptive routing score - normalized to sum to 1 */
+export interface AdaptiveWeights {
+  success?: number;
+  latency?: number;
+  cost?: number;
+}
+
 /** Skill definition - a reusable prompt template with routing config */
 export interface SkillDefinition {
   id: string;
   name: string;
   description: string;
-  /** Prompt template with {param} placeholders */
+  /** Prompt template - {param} placeholders plus filters, {#if}/{#each} blocks and {> fragment} includes (see promptTemplate.ts) */
   promptTemplate: string;
+  /** Role instructions sent as the system prompt after the agent's own systemPrompt - same template syntax as promptTemplate */
+  systemPrompt?: string;
+  /** Parameter schema - when set, params are validated and defaults applied before routing */
+  parameters?: SkillParameter[];
+  /** JSON Schema for structured output - responses must contain JSON that validates, or the agent is re-prompted with the errors */
+  outputSchema?: OutputSchema;
+  /** Re-prompts per agent call when output fails outputSchema validation (default 2, max 5) */
+  outputRepairAttempts?: number;
   /** Which agents or agent tags to route to */
   targetAgents?: string[];
   targetTags?: string[];
@@ -29,8 +120,24 @@ export interface SkillDefinition {
   categories: string[];
   /** Tags to identify the synthesizer agent for consensus strategy */
   synthesizerTags?: string[];
+  /** Consensus strategy mode (default 'synthesis'); majority/weighted vote on normalized answers */
+  consensusMode?: ConsensusMode;
+  /** Vote modes: escalate to synthesis when the winning share of votes is below this (0-1, default 0 = never) */
+  agreementThreshold?: number;
+  /** Vote modes: regex whose first capture group (or whole match) is the answer to vote on */
+  voteExtract?: string;
   /** Minimum quality threshold (0-1) for cost-optimized strategy */
   qualityThreshold?: number;
+  /** Quality evaluator for cost-optimized escalation and fallback (default: heuristic for cost-optimized, none for fallback) */
+  evaluator?: QualityEvaluatorConfig;
   /** Also fall back when response is empty/too short, not just on errors */
   fallbackOnEmpty?: boolean;
+  /** Adaptive strategy: exploration bonus strength for rarely-tried agents (default 0.5, 0 = always exploit) */
+  exploration?: number;
+  /** Adaptive strategy: score weights (default success 0.6, latency 0.25, cost 0.15) */
+  adaptiveWeights?: AdaptiveWeights;
+  /** Manager tools agents may call while running this skill (e.g. mgr_search_knowledge) - Anthropic and OpenAI agents only */
+  tools?: string[];
+  /** Rounds of tool calls allowed per agent call before the agent must answer (default 5, max 20) */
+  maxToolIterations?: number;
 }
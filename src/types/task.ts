@@ -1,8 +1,11 @@
 // mcp-agent-manager/src/types/task.ts
 // Task domain types - routing, requests, responses, and results
 
+import type { ChatMessage } from './conversation.js';
+import type { AdaptiveWeights } from './skill.js';
+
 /** Orchestration strategies for multi-agent skill execution */
-export type RoutingStrategy = 'single' | 'race' | 'fan-out' | 'consensus' | 'fallback' | 'cost-optimized' | 'evaluate';
+export type RoutingStrategy = 'single' | 'race' | 'fan-out' | 'consensus' | 'fallback' | 'cost-optimized' | 'evaluate' | 'adaptive';
 
 /** Task: a single invocation of a skill against agent(s) */
 export interface TaskRequest {
@@ -33,6 +36,160 @@ export interface AgentResponse {
   success: boolean;
   error?: string;
   timestamp: Date;
+  /** JSON value extracted from content that validated against the skill's outputSchema */
+  parsed?: unknown;
+  /** Schema repair re-prompts made for this response (token, cost and latency totals include them) */
+  repairAttempts?: number;
+  /** Set when the output never validated against the skill's outputSchema - the task cannot use the response, but `success` still reports the provider call */
+  schemaError?: string;
+  /** Manager tools the agent called while producing this response, in call order */
+  toolCalls?: ToolCallRecord[];
+}
+
+/** A manager capability offered to an agent as a callable tool */
+export interface AgentToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool's arguments (type: object) */
+  inputSchema: Record<string, unknown>;
+}
+
+/** Runs one tool call for a provider - resolves with the text result, rejects on failure */
+export type ToolExecutor = (name: string, input: Record<string, unknown>) => Promise<string>;
+
+/** Tool-calling settings for one provider call */
+export interface ToolLoopOptions {
+  definitions: AgentToolDefinition[];
+  execute: ToolExecutor;
+  /** Rounds of tool calls allowed before the agent must answer */
+  maxIterations: number;
+}
+
+/** One tool call made by an agent during a task - part of the task trace */
+export interface ToolCallRecord {
+  /** Tool-calling round (1-based) the call was made in */
+  iteration: number;
+  name: string;
+  input: Record<string, unknown>;
+  success: boolean;
+  /** Result text returned to the agent (truncated) */
+  output?: string;
+  error?: string;
+  latencyMs: number;
+}
+
+/** Receives partial text as a provider streams its completion */
+export type StreamChunkCallback = (chunk: string) => void;
+
+/** Optional per-call settings passed to provider send functions */
+export interface SendPromptOptions {
+  /** When set, providers that support streaming deliver partial content here as it arrives */
+  onChunk?: StreamChunkCallback;
+  /** Prior conversation turns (oldest first), already trimmed to the model's context window */
+  history?: ChatMessage[];
+  /** Aborts the in-flight provider call (request, stream, or CLI process) when the task is cancelled */
+  signal?: AbortSignal;
+  /** System instructions, sent as a system message by providers that support one */
+  systemPrompt?: string;
+  /** 'json' asks for a JSON object response where the API supports it (OpenAI response_format) */
+  responseFormat?: 'text' | 'json';
+  /** Manager tools the model may call - providers with function calling run the tool loop (Anthropic, OpenAI) */
+  tools?: ToolLoopOptions;
+}
+
+/** A partial response chunk from one agent while a task is running */
+export interface TaskChunk {
+  taskId: string;
+  skillId: string;
+  agentId: string;
+  /** Monotonic chunk counter within the task (across all agents) */
+  index: number;
+  chunk: string;
+}
+
+/** Optional per-call settings for routeTask */
+export interface RouteTaskOptions {
+  /** Receives every streamed chunk for this task (also emitted as task:chunk events) - implies `stream` */
+  onChunk?: (chunk: TaskChunk) => void;
+  /** Ask providers to stream, emitting task:chunk events, without a caller sink (e.g. dashboard live output) */
+  stream?: boolean;
+  /** Prior conversation turns sent ahead of the prompt (trimmed per agent model) */
+  history?: ChatMessage[];
+  /** Cancels the task - agents not yet called are skipped, in-flight provider calls are aborted */
+  signal?: AbortSignal;
+  /** Nesting depth when the task was started by an agent's mgr_run_skill tool call (0 = top level) */
+  toolDepth?: number;
+}
+
+/** Quality score given to one agent response by the skill's evaluator */
+export interface QualityEvaluation {
+  agentId: string;
+  /** Evaluator type that produced the score */
+  evaluator: string;
+  /** 0-1 */
+  score: number;
+  pass: boolean;
+  reason?: string;
+  /** Agent that graded the response (llm-judge) */
+  judgeAgentId?: string;
+}
+
+/** Outcome of a majority / weighted consensus vote */
+export interface ConsensusReport {
+  mode: 'majority' | 'weighted';
+  /** Normalized winning answer */
+  answer: string;
+  /** Winning share of the total vote weight (0-1) */
+  agreement: number;
+  /** Each distinct normalized answer with its weight and voters, strongest first */
+  votes: Array<{ answer: string; weight: number; agents: string[] }>;
+  /** Agents whose answer lost the vote */
+  dissenters: string[];
+  /** Agreement was below agreementThreshold, so a synthesizer produced the final answer */
+  escalated: boolean;
+}
+
+/** Learned record of one agent on one skill - an arm of the adaptive router's bandit */
+export interface AdaptiveArmStats {
+  pulls: number;
+  /** Successful responses that also passed any quality evaluation */
+  successes: number;
+  totalLatencyMs: number;
+  totalCost: number;
+  lastUpdated: string;
+}
+
+/** How one candidate scored in an adaptive routing decision - components are 0-1 */
+export interface AdaptiveCandidateScore {
+  agentId: string;
+  /** Where the stats came from: learned by the router, seeded from meta insights, or none yet */
+  source: 'learned' | 'meta' | 'none';
+  pulls: number;
+  successRate: number;
+  avgLatencyMs?: number;
+  avgCost?: number;
+  successScore: number;
+  latencyScore: number;
+  costScore: number;
+  /** Weighted sum of the component scores */
+  exploitation: number;
+  /** UCB bonus - shrinks as the agent is tried more */
+  exploration: number;
+  total: number;
+}
+
+/** Why the adaptive strategy ranked agents the way it did for a task */
+export interface RoutingExplanation {
+  taskId?: string;
+  skillId: string;
+  /** Agent that produced the accepted response (set once the task completes) */
+  chosenAgentId?: string;
+  weights: Required<AdaptiveWeights>;
+  exploration: number;
+  /** Candidates, best first */
+  candidates: AdaptiveCandidateScore[];
+  reason: string;
+  decidedAt: string;
 }
 
 /** Aggregated task result after routing strategy applied */
@@ -43,9 +200,63 @@ export interface TaskResult {
   responses: AgentResponse[];
   /** Final merged/selected result */
   finalContent: string;
+  /** Structured output for skills with an outputSchema - the final response's parsed JSON (an array of them when results are merged) */
+  parsed?: unknown;
   totalTokens: number;
   totalCost: number;
   totalLatencyMs: number;
   success: boolean;
   completedAt: Date;
+  /** Quality scores from cost-optimized / fallback evaluation, in the order responses were graded */
+  evaluations?: QualityEvaluation[];
+  /** Vote details for consensus skills in majority / weighted mode */
+  consensus?: ConsensusReport;
+}
+
+/** Lifecycle of an entry in the task queue */
+export type QueuedTaskStatus = 'queued' | 'running';
+
+/** A task waiting for (or holding) agent capacity - serializable for state-dir persistence */
+export interface QueuedTask {
+  taskId: string;
+  skillId: string;
+  params: Record<string, string>;
+  /** Pre-rendered prompt (conversation turns) - sent instead of the skill template */
+  resolvedPrompt?: string;
+  /** Higher runs first; ties run in submission order */
+  priority: number;
+  status: QueuedTaskStatus;
+  callerContext?: string;
+  enqueuedAt: string;
+  startedAt?: string;
+  /** Restored from disk after a restart - no caller is waiting on the result */
+  restored?: boolean;
+}
+
+/** Overall lifecycle of a submitted task, from queue to outcome */
+export type TaskRunStatus = QueuedTaskStatus | 'completed' | 'failed' | 'cancelled';
+
+/** Point-in-time view of a submitted task - returned by mgr_get_task and /api/tasks/:id */
+export interface TaskStatusInfo {
+  taskId: string;
+  skillId: string;
+  status: TaskRunStatus;
+  priority?: number;
+  /** 1-based dispatch position while queued */
+  position?: number;
+  enqueuedAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+  /** Outcome - present once the task has finished routing */
+  success?: boolean;
+  strategy?: string;
+  /** Final content (a 200-char preview when only task history still knows the task) */
+  content?: string;
+  /** Structured output when the skill declares an outputSchema */
+  parsed?: unknown;
+  totalTokens?: number;
+  totalCost?: number;
+  latencyMs?: number;
+  agents?: Array<{ agentId: string; success: boolean; latencyMs: number; error?: string; schemaError?: string }>;
+  error?: string;
 }
@@ -0,0 +1,74 @@
+// mcp-agent-manager/src/types/workflow.ts
+// Workflow domain types - DAGs of skill invocations with output passing and branching
+
+/** How a step's condition tests an earlier step's outcome */
+export type WorkflowConditionKind = 'success' | 'failure' | 'contains' | 'not-contains' | 'matches';
+
+/** Gate a step on the outcome of an earlier step */
+export interface WorkflowStepCondition {
+  /** ID of the step whose outcome is tested (becomes an implicit dependency) */
+  step: string;
+  when: WorkflowConditionKind;
+  /** Substring (contains/not-contains, case-insensitive) or regex source (matches) */
+  value?: string;
+}
+
+/** One node of a workflow - invokes a registered skill */
+export interface WorkflowStep {
+  id: string;
+  skillId: string;
+  /**
+   * Skill params. Values may reference workflow inputs and earlier steps:
+   * {{inputs.name}}, {{steps.<id>.output}}, {{steps.<id>.status}}
+   */
+  params?: Record<string, string>;
+  /** Explicit dependencies - steps referenced in params/condition are added automatically */
+  dependsOn?: string[];
+  /** Run only when the condition holds; otherwise the step is skipped */
+  condition?: WorkflowStepCondition;
+  /** A failure of this step does not fail the workflow */
+  continueOnError?: boolean;
+}
+
+/** A reusable pipeline of skills - independent steps run in parallel */
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description: string;
+  steps: WorkflowStep[];
+  /** Step whose output becomes the run's finalContent (default: last step that ran successfully) */
+  outputStep?: string;
+  version: string;
+  categories: string[];
+}
+
+export type WorkflowStepStatus = 'success' | 'failed' | 'skipped';
+
+/** Outcome of a single workflow step */
+export interface WorkflowStepResult {
+  stepId: string;
+  skillId: string;
+  status: WorkflowStepStatus;
+  taskId?: string;
+  content: string;
+  agents: string[];
+  totalTokens: number;
+  totalCost: number;
+  latencyMs: number;
+  error?: string;
+  /** Why a step did not run */
+  skipReason?: string;
+}
+
+/** Aggregated result of a workflow run */
+export interface WorkflowRunResult {
+  runId: string;
+  workflowId: string;
+  success: boolean;
+  steps: WorkflowStepResult[];
+  finalContent: string;
+  totalTokens: number;
+  totalCost: number;
+  totalLatencyMs: number;
+  completedAt: Date;
+}
@@ -0,0 +1,166 @@
+// tests/acp-session-pool.test.ts
+// ACP session pooling for copilot --acp agents against a fake copilot binary: one process per
+// concurrent task up to maxConcurrency, reuse across tasks, streamed session/update chunks,
+// crash tracking and replacement, idle eviction, cancellation of a single session, and failing
+// waiting tasks when the agent is stopped.
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, type MockInstance } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { getAcpPoolStatus, killAllSessions, killSession, sendCopilotPrompt } from '../src/providers/copilot.js';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import type { AgentConfig } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+// Fake copilot --acp: streams the prompt back in two chunks, then answers with its pid.
+// "slow" delays the answer, "crash" exits mid-task, "stream-only" answers through updates only.
+const FAKE_ACP = [
+  `#!${process.execPath}`,
+  `const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...msg }) + '\\n');`,
+  `require('readline').createInterface({ input: process.stdin }).on('line', (line) => {`,
+  `  const msg = JSON.parse(line);`,
+  `  if (msg.method === 'initialize') return send({ id: msg.id, result: { protocolVersion: 1 } });`,
+  `  if (msg.method === 'session/create') return send({ id: msg.id, result: { sessionId: 's-' + process.pid } });`,
+  `  const text = msg.params.messages.at(-1).content.text;`,
+  `  if (text.includes('crash')) process.exit(3);`,
+  `  const chunk = (t) => send({ method: 'session/update', params: { sessionId: msg.params.sessionId, update: { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text: t } } } });`,
+  `  send({ method: 'session/update', params: { sessionId: msg.params.sessionId, update: { sessionUpdate: 'agent_thought_chunk', content: { type: 'text', text: 'hmm' } } } });`,
+  `  chunk(text.slice(0, 2));`,
+  `  chunk(text.slice(2));`,
+  `  const result = text.includes('stream-only') ? { stopReason: 'end_turn' } : { messages: [{ role: 'assistant', content: 'pid ' + process.pid }] };`,
+  `  setTimeout(() => send({ id: msg.id, result }), text.includes('slow') ? 300 : 0);`,
+  `});`,
+].join('\n');
+
+let tmpDir: string;
+let binary: string;
+let spies: MockInstance[] = [];
+
+function agent(id: string, maxConcurrency = 2): AgentConfig {
+  return makeAgent(id, { model: 'claude-sonnet-4', binaryPath: binary, cliArgs: ['--acp'], maxConcurrency });
+}
+
+const pidOf = (content: string) => Number(content.replace('pid ', ''));
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acp-pool-'));
+  binary = path.join(tmpDir, 'fake-copilot');
+  fs.writeFileSync(binary, FAKE_ACP);
+  fs.chmodSync(binary, 0o755);
+  spies = createStoreSpies();
+});
+
+afterEach(() => {
+  killAllSessions();
+  delete process.env.COPILOT_ACP_IDLE_MS;
+});
+
+afterAll(() => {
+  agentRegistry.unregister('acp-crash');
+  restoreSpies(spies);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === 'win32')('ACP session pool', () => {
+  it('runs concurrent tasks on separate sessions up to maxConcurrency, queueing the rest', async () => {
+    const a = agent('acp-concurrent', 2);
+    const tasks = [1, 2, 3].map(n => sendCopilotPrompt(a, `slow ${n}`, 10, 5000));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(getAcpPoolStatus(a.id)).toMatchObject({ maxSessions: 2, busy: 2, idle: 0, waiting: 1 });
+
+    const pids = (await Promise.all(tasks)).map(r => pidOf(r.content));
+    expect(new Set(pids.slice(0, 2)).size).toBe(2);
+    // The queued task ran on one of the two pooled processes
+    expect(pids.slice(0, 2)).toContain(pids[2]);
+    expect(getAcpPoolStatus(a.id)).toMatchObject({ busy: 0, idle: 2, waiting: 0 });
+  });
+
+  it('reuses an idle session for sequential tasks', async () => {
+    const a = agent('acp-reuse');
+    const first = await sendCopilotPrompt(a, 'one', 10, 5000);
+    const second = await sendCopilotPrompt(a, 'two', 10, 5000);
+    expect(first.success).toBe(true);
+    expect(pidOf(second.content)).toBe(pidOf(first.content));
+    expect(getAcpPoolStatus(a.id)!.sessions).toHaveLength(1);
+  });
+
+  it('forwards agent message chunks to onChunk and falls back to them when the result has no text', async () => {
+    const chunks: string[] = [];
+    const response = await sendCopilotPrompt(agent('acp-stream'), 'stream-only please', 10, 5000, { onChunk: (c) => chunks.push(c) });
+    expect(chunks).toEqual(['st', 'ream-only please']);
+    expect(response).toMatchObject({ success: true, content: 'stream-only please' });
+  });
+
+  it('records a crashed session on the agent and replaces it on the next task', async () => {
+    const a = agent('acp-crash');
+    agentRegistry.register(a);
+    const before = pidOf((await sendCopilotPrompt(a, 'hello', 10, 5000)).content);
+
+    const crashed = await sendCopilotPrompt(a, 'crash now', 10, 5000);
+    expect(crashed).toMatchObject({ success: false, error: 'ACP process exited (code=3, signal=null)' });
+    expect(agentRegistry.get(a.id)).toMatchObject({
+      sessionCrashes: 1,
+      lastSessionCrash: { reason: 'ACP session exited unexpectedly (code=3, signal=null)' },
+    });
+    expect(getAcpPoolStatus(a.id)).toBeUndefined();
+
+    const after = await sendCopilotPrompt(a, 'again', 10, 5000);
+    expect(after.success).toBe(true);
+    expect(pidOf(after.content)).not.toBe(before);
+  });
+
+  it('stops sessions after COPILOT_ACP_IDLE_MS without counting a crash', async () => {
+    process.env.COPILOT_ACP_IDLE_MS = '100';
+    const a = agent('acp-idle');
+    agentRegistry.register(a);
+    try {
+      await sendCopilotPrompt(a, 'hello', 10, 5000);
+      expect(getAcpPoolStatus(a.id)!.idle).toBe(1);
+      await new Promise(resolve => setTimeout(resolve, 400));
+      expect(getAcpPoolStatus(a.id)).toBeUndefined();
+      expect(agentRegistry.get(a.id)!.sessionCrashes).toBeUndefined();
+    } finally {
+      agentRegistry.unregister(a.id);
+    }
+  });
+
+  it('cancelling a task stops only its own session', async () => {
+    const a = agent('acp-cancel', 2);
+    const controller = new AbortController();
+    const cancelled = sendCopilotPrompt(a, 'slow cancel me', 10, 5000, { signal: controller.signal });
+    const other = sendCopilotPrompt(a, 'slow keep me', 10, 5000);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    controller.abort();
+
+    expect(await cancelled).toMatchObject({ success: false, error: 'Task cancelled' });
+    expect((await other).success).toBe(true);
+    expect(getAcpPoolStatus(a.id)!.sessions).toHaveLength(1);
+  });
+
+  it('fails tasks waiting for a session as soon as the agent is stopped', async () => {
+    const a = agent('acp-kill', 1);
+    const running = sendCopilotPrompt(a, 'slow running', 10, 5000);
+    const waiting = sendCopilotPrompt(a, 'slow waiting', 10, 5000);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(getAcpPoolStatus(a.id)).toMatchObject({ busy: 1, waiting: 1 });
+
+    const started = Date.now();
+    expect(killSession(a.id)).toBe(true);
+    expect(await waiting).toMatchObject({ success: false, error: 'Agent acp-kill stopped' });
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect((await running).success).toBe(false);
+  });
+
+  it('killAllSessions fails waiting tasks too', async () => {
+    const a = agent('acp-kill-all', 1);
+    const running = sendCopilotPrompt(a, 'slow running', 10, 5000);
+    const waiting = sendCopilotPrompt(a, 'slow waiting', 10, 5000);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    killAllSessions();
+    expect(await waiting).toMatchObject({ success: false, error: 'Agent acp-kill-all stopped' });
+    expect(getAcpPoolStatus(a.id)).toBeUndefined();
+    await running;
+  });
+});
@@ -0,0 +1,188 @@
+// tests/adaptive-routing.test.ts
+// Adaptive routing: learned success/latency/cost scores, UCB exploration of untried
+// agents, learning from answering agents only, seeding from meta insights, persistence of
+// learned stats, and explanations.
+
+import { describe, it, expect, beforeAll, afterAll, vi, type MockInstance } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { eventBus } from '../src/services/events.js';
+import { registerProvider, routeTask } from '../src/services/taskRouter.js';
+import { adaptiveRouter } from '../src/services/adaptiveRouter.js';
+import { initMetaCollector, shutdownMetaCollector } from '../src/services/metaCollector.js';
+import * as sharedState from '../src/services/sharedState.js';
+import type { AgentConfig, SkillDefinition } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+const AGENTS = ['adapt-fast', 'adapt-slow', 'adapt-pricey'];
+
+function agent(id: string, costMultiplier: number): AgentConfig {
+  return makeAgent(id, { provider: 'mock-adaptive', costMultiplier, tags: ['adaptive-test'] });
+}
+
+/** Agents whose next call fails */
+const failing = new Set<string>();
+const calls: string[] = [];
+let spies: MockInstance[] = [];
+let persistSpy: MockInstance;
+let readSpy: MockInstance;
+let metaDir: string;
+let counter = 0;
+
+function skill(id: string, extra: Partial<SkillDefinition> = {}): SkillDefinition {
+  const def: SkillDefinition = {
+    id,
+    name: id,
+    description: '',
+    promptTemplate: 'Summarize {text}',
+    targetTags: ['adaptive-test'],
+    strategy: 'adaptive',
+    version: '1.0.0',
+    categories: [],
+    ...extra,
+  };
+  skillStore.register(def);
+  return def;
+}
+
+function run(skillId: string) {
+  calls.length = 0;
+  return routeTask({ taskId: `adapt-${++counter}`, skillId, params: { text: 'notes' }, priority: 0, createdAt: new Date() });
+}
+
+const candidates = () => AGENTS.map(id => agentRegistry.get(id)!.config);
+
+beforeAll(() => {
+  metaDir = mkdtempSync(join(tmpdir(), 'adaptive-meta-'));
+  process.env.META_DIR = metaDir;
+  spies = createStoreSpies();
+  persistSpy = vi.mocked(sharedState.persistAdaptiveRouting);
+  readSpy = vi.spyOn(sharedState, 'readAdaptiveRouting').mockReturnValue(null);
+  spies.push(readSpy);
+  initMetaCollector();
+  registerProvider('mock-adaptive', async (a) => {
+    calls.push(a.id);
+    const ok = !failing.delete(a.id);
+    return {
+      agentId: a.id,
+      model: a.model,
+      content: ok ? `summary from ${a.id}` : '',
+      tokenCount: 10,
+      latencyMs: 50,
+      costUnits: 0,
+      success: ok,
+      error: ok ? undefined : 'provider error',
+      timestamp: new Date(),
+    };
+  });
+  agentRegistry.register(agent('adapt-fast', 1));
+  agentRegistry.register(agent('adapt-slow', 1));
+  agentRegistry.register(agent('adapt-pricey', 4));
+});
+
+afterAll(() => {
+  shutdownMetaCollector();
+  for (const s of skillStore.list()) if (s.id.startsWith('adapt-')) skillStore.remove(s.id);
+  for (const id of AGENTS) agentRegistry.unregister(id);
+  restoreSpies(spies);
+  delete process.env.META_DIR;
+  rmSync(metaDir, { recursive: true, force: true });
+});
+
+describe('adaptive routing', () => {
+  it('falls through to the next-best agent and prefers it once it has the better record', async () => {
+    const s = skill('adapt-learn', { exploration: 0 });
+    failing.add('adapt-fast');
+
+    const first = await run(s.id);
+    expect(calls).toEqual(['adapt-fast', 'adapt-slow']);
+    expect(first.finalContent).toBe('summary from adapt-slow');
+    expect(adaptiveRouter.getStats(s.id)).toMatchObject({
+      'adapt-fast': { pulls: 1, successes: 0, totalLatencyMs: 50 },
+      'adapt-slow': { pulls: 1, successes: 1, totalLatencyMs: 50 },
+    });
+
+    const second = await run(s.id);
+    expect(calls).toEqual(['adapt-slow']);
+    const explanation = adaptiveRouter.explain(second.taskId);
+    expect(explanation).toMatchObject({ taskId: second.taskId, skillId: s.id, chosenAgentId: 'adapt-slow', exploration: 0 });
+    expect(explanation?.candidates.map(c => [c.agentId, c.source, c.successRate])).toEqual([
+      ['adapt-slow', 'learned', 0.667],
+      ['adapt-fast', 'learned', 0.333],
+      ['adapt-pricey', 'none', 0.5],
+    ]);
+    expect(explanation?.reason).toBe('adapt-slow has the best learned score (success 67% over 1 task(s), avg 50ms)');
+  });
+
+  it('gives rarely-tried agents an exploration bonus', async () => {
+    const s = skill('adapt-explore', { exploration: 1 });
+    await run(s.id);
+    expect(calls).toEqual(['adapt-fast']);
+
+    const ranking = adaptiveRouter.rank(s, candidates());
+    expect(ranking.candidates[0]).toMatchObject({ agentId: 'adapt-slow', pulls: 0, exploration: 0.833 });
+    expect(ranking.reason).toBe('adapt-slow has no history on adapt-explore - tried first to explore');
+    expect(adaptiveRouter.rank({ ...s, exploration: 0 }, candidates()).candidates[0].agentId).toBe('adapt-fast');
+  });
+
+  it('learns only from the agents that answered, not from synthesis or critique calls', async () => {
+    const pair = { targetAgents: ['adapt-fast', 'adapt-slow'], targetTags: undefined };
+    const evaluated = skill('adapt-evaluate', { ...pair, strategy: 'evaluate' });
+    await run(evaluated.id);
+    expect(calls).toEqual(['adapt-fast', 'adapt-slow']);
+    expect(Object.keys(adaptiveRouter.getStats(evaluated.id))).toEqual(['adapt-fast']);
+
+    const consensus = skill('adapt-consensus', { ...pair, strategy: 'consensus' });
+    await run(consensus.id);
+    expect(calls).toHaveLength(3);
+    expect(adaptiveRouter.getStats(consensus.id)).toMatchObject({
+      'adapt-fast': { pulls: 1, successes: 1 },
+      'adapt-slow': { pulls: 1, successes: 1 },
+    });
+  });
+
+  it('scores agents from meta insights before it has learned anything itself', () => {
+    const s = skill('adapt-meta', { exploration: 0, adaptiveWeights: { success: 1, latency: 0, cost: 0 } });
+    for (let i = 0; i < 5; i++) {
+      eventBus.emitEvent('task:completed', {
+        taskId: `meta-${i}`, skillId: s.id, strategy: 'fan-out', success: true,
+        totalTokens: 0, totalCost: 0, totalLatencyMs: 0, agentCount: 2,
+        agentResults: [
+          { agentId: 'adapt-fast', success: false, tokenCount: 0, costUnits: 0, latencyMs: 10 },
+          { agentId: 'adapt-pricey', success: true, tokenCount: 0, costUnits: 0, latencyMs: 10 },
+        ],
+      });
+    }
+
+    const ranking = adaptiveRouter.rank(s, candidates());
+    expect(ranking.weights).toEqual({ success: 1, latency: 0, cost: 0 });
+    expect(ranking.candidates.map(c => [c.agentId, c.source, c.pulls])).toEqual([
+      ['adapt-pricey', 'meta', 5],
+      ['adapt-slow', 'none', 0],
+      ['adapt-fast', 'meta', 5],
+    ]);
+  });
+
+  it('persists learned stats and restores them on load', () => {
+    persistSpy.mockClear();
+    adaptiveRouter.flush();
+    expect(persistSpy).toHaveBeenCalledTimes(1);
+    expect(persistSpy.mock.calls[0][0].skills['adapt-learn']['adapt-slow']).toMatchObject({ pulls: 2, successes: 2 });
+
+    readSpy.mockReturnValueOnce({
+      skills: { 'adapt-restored': { 'adapt-pricey': { pulls: 8, successes: 8, totalLatencyMs: 80, totalCost: 0, lastUpdated: '2026-01-01T00:00:00.000Z' } } },
+      lastUpdated: '2026-01-01T00:00:00.000Z',
+    });
+    adaptiveRouter.load();
+    const s = skill('adapt-restored', { exploration: 0 });
+    expect(adaptiveRouter.rank(s, candidates()).candidates[0]).toMatchObject({ agentId: 'adapt-pricey', source: 'learned', pulls: 8 });
+  });
+
+  it('validates adaptive settings on registration', () => {
+    expect(() => skill('adapt-bad', { exploration: -1, adaptiveWeights: { success: 0, latency: 0, cost: 0 } }))
+      .toThrow('Invalid adaptive routing settings for skill adapt-bad: exploration must be a number >= 0; adaptiveWeights must not all be 0');
+  });
+});
@@ -0,0 +1,196 @@
+// tests/agent-pools.test.ts
+// Autoscaling agent pools: validation, scaling to minInstances, the pool tag across template
+// upgrades, scale-up on queue depth and saturation, cooldown, scale-up from zero, idle scale-down, pool:scaled
+// events and the MCP tools.
+
+import { describe, it, expect, beforeAll, afterAll, vi, type MockInstance } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { PoolScaleAction, QueuedTask, SkillDefinition } from '../src/types/index.js';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { agentTemplateStore } from '../src/services/agentTemplateStore.js';
+import { agentPools } from '../src/services/agentPools.js';
+import { eventBus } from '../src/services/events.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { taskQueue } from '../src/services/taskQueue.js';
+import { registerPoolTools } from '../src/server/tools/poolTools.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const MINUTE = 60_000;
+
+let spies: MockInstance[] = [];
+let queued: QueuedTask[] = [];
+const events: PoolScaleAction[] = [];
+const onScaled = (data: PoolScaleAction) => { events.push(data); };
+let client: Client;
+
+function queuedTask(n: number, skillId = 'pool-review'): QueuedTask {
+  return { taskId: `t${n}`, skillId, params: {}, priority: 0, status: 'queued', enqueuedAt: new Date().toISOString() };
+}
+
+function poolAgents(poolId: string): string[] {
+  return agentRegistry.getAll().filter(a => a.config.pool === poolId).map(a => a.config.id).sort();
+}
+
+beforeAll(async () => {
+  spies = [
+    vi.spyOn(agentPools as any, 'persist').mockImplementation(() => {}),
+    vi.spyOn(agentPools, 'load').mockImplementation(() => { (agentPools as any).loaded = true; }),
+    vi.spyOn(agentTemplateStore as any, 'persist').mockImplementation(() => {}),
+    vi.spyOn(agentTemplateStore, 'load').mockImplementation(() => { (agentTemplateStore as any).loaded = true; }),
+    ...createStoreSpies(),
+    vi.spyOn(taskQueue, 'list').mockImplementation(() => queued),
+    vi.spyOn(skillStore, 'get').mockImplementation(id =>
+      id === 'pool-review' ? { id, targetTags: ['review'] } as SkillDefinition
+        : id === 'pool-burst' ? { id, targetTags: ['burst'] } as SkillDefinition
+        : undefined),
+  ];
+  eventBus.on('pool:scaled', onScaled);
+  agentTemplateStore.save({ id: 'pool-reviewer', settings: { provider: 'copilot', model: 'claude-sonnet-4', tags: ['code'] } });
+
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerPoolTools(server);
+  client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+  for (const p of agentPools.list()) agentPools.remove(p.id);
+  agentTemplateStore.remove('pool-reviewer');
+  eventBus.off('pool:scaled', onScaled);
+  restoreSpies(spies);
+});
+
+async function callTool(name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args }) as { content: Array<{ text: string }>; isError?: boolean };
+  return { text: result.content[0].text, isError: !!result.isError };
+}
+
+describe('pool definitions', () => {
+  it('rejects unknown templates, bad bounds and thresholds', () => {
+    expect(agentPools.validate({
+      id: 'Bad', template: 'missing', tag: '', minInstances: 3, maxInstances: 2, scaleUpUtilization: 1.5,
+    })).toEqual([
+      'Pool id "Bad" must be lowercase letters, digits, ".", "_" or "-"',
+      'Unknown template "missing"',
+      'tag is required',
+      'minInstances (3) exceeds maxInstances (2)',
+      'scaleUpUtilization must be greater than 0 and at most 1',
+    ]);
+    expect(() => agentPools.save({ id: 'p', template: 'pool-reviewer', tag: 'review', minInstances: 0, maxInstances: 0 }))
+      .toThrow('Invalid pool p: maxInstances must be an integer >= 1');
+  });
+
+  it('spawns minInstances agents from the template when saved, tagged with the pool tag', async () => {
+    const saved = JSON.parse((await callTool('mgr_save_agent_pool', {
+      id: 'reviewers', template: 'pool-reviewer', tag: 'review', minInstances: 1, maxInstances: 4,
+    })).text);
+    expect(saved.actions).toEqual([{
+      poolId: 'reviewers', tag: 'review', direction: 'up', agentIds: ['reviewers-1'], instances: 1, reason: 'below minInstances (0/1)',
+    }]);
+    expect(saved.pool).toMatchObject({ instances: ['reviewers-1'], available: ['reviewers-1'], capacity: 1, utilization: 0 });
+    expect(agentRegistry.get('reviewers-1')!.config).toMatchObject({
+      pool: 'reviewers', provider: 'copilot', tags: ['code', 'review'],
+      template: { id: 'pool-reviewer', version: 1 },
+    });
+    expect(agentRegistry.get('reviewers-1')!.config.template!.overrides).toBeUndefined();
+    expect(events.map(e => e.direction)).toEqual(['up']);
+  });
+
+  it('re-applies the pool tag on upgrade, so template tag changes reach pool agents', () => {
+    agentTemplateStore.save({ id: 'pool-reviewer', settings: { provider: 'copilot', model: 'claude-sonnet-4', tags: ['code', 'typescript'] } });
+    expect(agentTemplateStore.upgradeAgents('pool-reviewer')).toEqual([{
+      agentId: 'reviewers-1', template: 'pool-reviewer', fromVersion: 1, toVersion: 2, changedFields: ['tags'],
+    }]);
+    expect(agentRegistry.get('reviewers-1')!.config).toMatchObject({
+      pool: 'reviewers', tags: ['code', 'typescript', 'review'], template: { id: 'pool-reviewer', version: 2 },
+    });
+  });
+});
+
+describe('scaling', () => {
+  it('scales up for tasks waiting beyond free slots, capped and then held by the cooldown', () => {
+    queued = [queuedTask(1), queuedTask(2), queuedTask(3), queuedTask(4, 'other-skill')];
+    const now = Date.now() + MINUTE;
+    const [action] = agentPools.evaluate(now);
+    expect(action).toMatchObject({ direction: 'up', agentIds: ['reviewers-2', 'reviewers-3'], instances: 3, reason: '2 task(s) waiting for tag review' });
+    expect(agentPools.status('reviewers')!.queuedTasks).toBe(3);
+
+    queued = [...queued, queuedTask(5), queuedTask(6)];
+    expect(agentPools.evaluate(now + 1000)).toEqual([]);
+    queued = [];
+  });
+
+  it('adds an agent when the pool is saturated', () => {
+    for (const id of poolAgents('reviewers')) agentRegistry.recordTaskStart(id);
+    const [action] = agentPools.evaluate(Date.now() + 2 * MINUTE);
+    expect(action).toMatchObject({ direction: 'up', agentIds: ['reviewers-4'], instances: 4, reason: '3/3 slots busy' });
+    expect(agentPools.evaluate(Date.now() + 3 * MINUTE)).toEqual([]); // at maxInstances
+  });
+
+  it('stops agents idle past scaleDownIdleMs, newest first, keeping minInstances', () => {
+    for (const id of ['reviewers-1', 'reviewers-2', 'reviewers-3']) agentRegistry.recordTaskComplete(id, 10, 0, true);
+    agentRegistry.recordTaskStart('reviewers-2');
+    const [action] = agentPools.evaluate(Date.now() + 10 * MINUTE);
+    expect(action).toMatchObject({ direction: 'down', agentIds: ['reviewers-4', 'reviewers-3', 'reviewers-1'], instances: 1, reason: 'idle for 300s' });
+    expect(poolAgents('reviewers')).toEqual(['reviewers-2']);
+    expect(events.map(e => e.direction)).toEqual(['up', 'up', 'up', 'down']);
+  });
+
+  it('leaves disabled pools alone', () => {
+    agentPools.save({ ...agentPools.get('reviewers')!, minInstances: 3, enabled: false });
+    expect(agentPools.evaluate(Date.now() + 20 * MINUTE)).toEqual([]);
+  });
+
+  it('scales up from zero within the cooldown and below the queue depth', () => {
+    agentPools.save({
+      id: 'burst', template: 'pool-reviewer', tag: 'burst', minInstances: 0, maxInstances: 2,
+      scaleUpQueueDepth: 3, scaleDownIdleMs: 1000, cooldownMs: 10 * MINUTE,
+    });
+    const now = Date.now();
+    queued = [queuedTask(10, 'pool-burst')];
+    expect(agentPools.evaluate(now)).toEqual([
+      expect.objectContaining({ poolId: 'burst', direction: 'up', agentIds: ['burst-1'], instances: 1 }),
+    ]);
+
+    queued = [];
+    expect(agentPools.evaluate(now + 11 * MINUTE)).toEqual([
+      expect.objectContaining({ poolId: 'burst', direction: 'down', agentIds: ['burst-1'], instances: 0 }),
+    ]);
+
+    // A task right after scaling to zero must not wait out the cooldown
+    queued = [queuedTask(11, 'pool-burst')];
+    expect(agentPools.evaluate(now + 11 * MINUTE + 1000)).toEqual([
+      expect.objectContaining({ poolId: 'burst', direction: 'up', agentIds: ['burst-1'], instances: 1 }),
+    ]);
+    queued = [];
+    agentPools.remove('burst');
+  });
+});
+
+describe('tools', () => {
+  it('lists pools with their agents and load', async () => {
+    const [pool] = JSON.parse((await callTool('mgr_list_agent_pools')).text);
+    expect(pool).toMatchObject({
+      id: 'reviewers', enabled: false, instances: ['reviewers-2'], activeTasks: 1, capacity: 1,
+      utilization: 1, lastScale: { direction: 'down', instances: 1 },
+    });
+  });
+
+  it('removes a pool, keeping or stopping its agents', async () => {
+    expect((await callTool('mgr_remove_agent_pool', { poolId: 'nope' })).isError).toBe(true);
+    const removed = await callTool('mgr_remove_agent_pool', { poolId: 'reviewers', stopAgents: false });
+    expect(removed.text).toBe('Pool reviewers removed - kept reviewers-2.');
+    expect(agentRegistry.get('reviewers-2')!.config.pool).toBeUndefined();
+    agentRegistry.unregister('reviewers-2');
+
+    await callTool('mgr_save_agent_pool', { id: 'temp', template: 'pool-reviewer', tag: 'code', minInstances: 2, maxInstances: 2 });
+    expect(poolAgents('temp')).toEqual(['temp-1', 'temp-2']);
+    expect(agentRegistry.get('temp-1')!.config.tags).toEqual(['code', 'typescript']); // template already has the tag
+    await callTool('mgr_remove_agent_pool', { poolId: 'temp' });
+    expect(poolAgents('temp')).toEqual([]);
+  });
+});
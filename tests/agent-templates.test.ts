@@ -0,0 +1,161 @@
+// tests/agent-templates.test.ts
+// Agent templates: inheritance and validation, spawning agents with overrides, override tracking
+// on later updates (cleared settings included), and bulk upgrades of derived agents through the MCP tools.
+
+import { describe, it, expect, beforeAll, afterAll, vi, type MockInstance } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { agentTemplateStore } from '../src/services/agentTemplateStore.js';
+import { initializeProviders } from '../src/providers/index.js';
+import { registerAgentTools } from '../src/server/tools/agentTools.js';
+import { registerTemplateTools } from '../src/server/tools/templateTools.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const AGENT_IDS = ['tpl-reviewer-1', 'tpl-reviewer-2', 'tpl-base-agent'];
+
+let spies: MockInstance[] = [];
+let client: Client;
+
+beforeAll(async () => {
+  spies = [
+    vi.spyOn(agentTemplateStore as any, 'persist').mockImplementation(() => {}),
+    vi.spyOn(agentTemplateStore, 'load').mockImplementation(() => { (agentTemplateStore as any).loaded = true; }),
+    ...createStoreSpies(),
+  ];
+  initializeProviders();
+
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerAgentTools(server);
+  registerTemplateTools(server);
+  client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  await callTool('mgr_save_agent_template', {
+    id: 'copilot-base', description: 'Copilot over ACP', provider: 'copilot', model: 'claude-sonnet-4',
+    cliArgs: ['--acp'], tags: ['code'], timeoutMs: 120000, systemPrompt: 'Be concise.',
+  });
+  await callTool('mgr_save_agent_template', {
+    id: 'copilot-readonly-sonnet', extends: 'copilot-base', canMutate: false, tags: ['code', 'review'], costMultiplier: 0.5,
+  });
+});
+
+afterAll(async () => {
+  await client.close();
+  for (const id of AGENT_IDS) agentRegistry.unregister(id);
+  for (const id of ['copilot-readonly-sonnet', 'copilot-base']) agentTemplateStore.remove(id);
+  restoreSpies(spies);
+});
+
+async function callTool(name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args }) as { content: Array<{ text: string }>; isError?: boolean };
+  return { text: result.content[0].text, isError: !!result.isError };
+}
+
+describe('templates', () => {
+  it('resolves inherited settings, the child overriding its parent', async () => {
+    const listed = JSON.parse((await callTool('mgr_list_agent_templates')).text);
+    const child = listed.find((t: any) => t.id === 'copilot-readonly-sonnet');
+    expect(child).toMatchObject({ extends: 'copilot-base', version: 1, agents: [] });
+    expect(child.resolved).toEqual({
+      provider: 'copilot', model: 'claude-sonnet-4', cliArgs: ['--acp'], tags: ['code', 'review'],
+      timeoutMs: 120000, systemPrompt: 'Be concise.', canMutate: false, costMultiplier: 0.5,
+    });
+  });
+
+  it('rejects unknown parents, inheritance cycles, invalid IDs and identity settings', async () => {
+    const unknown = await callTool('mgr_save_agent_template', { id: 'orphan', extends: 'missing', provider: 'copilot' });
+    expect(unknown.text).toContain('extends unknown template \\"missing\\"');
+
+    const cycle = await callTool('mgr_save_agent_template', { id: 'copilot-base', extends: 'copilot-readonly-sonnet', provider: 'copilot' });
+    expect(cycle.isError).toBe(true);
+    expect(cycle.text).toContain('Inheritance cycle: copilot-base -> copilot-readonly-sonnet -> copilot-base');
+
+    expect(agentTemplateStore.validate({ id: 'Bad Id', settings: { name: 'x' } as any })).toEqual([
+      'Template id "Bad Id" must be lowercase letters, digits, ".", "_" or "-"',
+      'settings cannot set name - it belongs to each agent',
+    ]);
+    expect(await callTool('mgr_save_agent_template', { id: 'ghost', provider: 'nope' })).toMatchObject({ isError: true });
+  });
+
+  it('refuses to remove a template that others extend', async () => {
+    const removed = await callTool('mgr_remove_agent_template', { templateId: 'copilot-base' });
+    expect(removed.isError).toBe(true);
+    expect(removed.text).toContain('Template copilot-base is extended by copilot-readonly-sonnet');
+  });
+});
+
+describe('spawning and upgrading', () => {
+  it('spawns agents with spawn defaults, template settings and per-agent overrides', async () => {
+    const spawned = await callTool('mgr_spawn_from_template', { templateId: 'copilot-readonly-sonnet', id: 'tpl-reviewer-1', model: 'gpt-5' });
+    expect(spawned.isError).toBe(false);
+    await callTool('mgr_spawn_from_template', { templateId: 'copilot-readonly-sonnet', id: 'tpl-reviewer-2', name: 'Reviewer 2' });
+    await callTool('mgr_spawn_from_template', { templateId: 'copilot-base', id: 'tpl-base-agent' });
+
+    expect(agentRegistry.get('tpl-reviewer-1')!.config).toEqual({
+      id: 'tpl-reviewer-1', name: 'tpl-reviewer-1', provider: 'copilot', model: 'gpt-5', transport: 'stdio', endpoint: '',
+      tags: ['code', 'review'], canMutate: false, costMultiplier: 0.5, maxConcurrency: 1, timeoutMs: 120000,
+      cliArgs: ['--acp'], args: ['--acp'], systemPrompt: 'Be concise.',
+      template: { id: 'copilot-readonly-sonnet', version: 1, overrides: { model: 'gpt-5' } },
+    });
+    expect(agentRegistry.get('tpl-reviewer-2')!.config).toMatchObject({ name: 'Reviewer 2', model: 'claude-sonnet-4' });
+  });
+
+  it('keeps later agent updates as overrides, except the name', async () => {
+    await callTool('mgr_update_agent', { agentId: 'tpl-reviewer-2', name: 'Second reviewer', maxConcurrency: 3, timeoutMs: 120000 });
+    expect(agentRegistry.get('tpl-reviewer-2')!.config.template).toEqual({
+      id: 'copilot-readonly-sonnet', version: 1, overrides: { maxConcurrency: 3 },
+    });
+  });
+
+  it('fails clearly for unknown templates and templates without a model', async () => {
+    expect((await callTool('mgr_spawn_from_template', { templateId: 'nope', id: 'x' })).text).toContain('Template not found: nope');
+    agentTemplateStore.save({ id: 'no-model', settings: { provider: 'copilot' } });
+    expect((await callTool('mgr_spawn_from_template', { templateId: 'no-model', id: 'x' })).text)
+      .toContain('Template no-model does not set a model - pass one as an override');
+    agentTemplateStore.remove('no-model');
+  });
+
+  it('bumps descendant versions and upgrades every derived agent, keeping overrides and runtime state', async () => {
+    agentRegistry.recordTaskComplete('tpl-reviewer-1', 100, 0, true);
+    const saved = JSON.parse((await callTool('mgr_save_agent_template', {
+      id: 'copilot-base', provider: 'copilot', model: 'claude-sonnet-4.5', cliArgs: ['--acp'], tags: ['code'], timeoutMs: 90000,
+    })).text);
+    expect(saved).toMatchObject({ version: 2, outdatedAgents: ['tpl-reviewer-1', 'tpl-reviewer-2', 'tpl-base-agent'] });
+    expect(agentTemplateStore.get('copilot-readonly-sonnet')!.version).toBe(2);
+
+    const preview = JSON.parse((await callTool('mgr_upgrade_template_agents', { templateId: 'copilot-base', dryRun: true })).text);
+    expect(preview.agents.find((a: any) => a.agentId === 'tpl-reviewer-1')).toEqual({
+      agentId: 'tpl-reviewer-1', template: 'copilot-readonly-sonnet', fromVersion: 1, toVersion: 2, changedFields: ['timeoutMs', 'systemPrompt'],
+    });
+    expect(agentRegistry.get('tpl-reviewer-1')!.config.timeoutMs).toBe(120000);
+
+    const upgraded = JSON.parse((await callTool('mgr_upgrade_template_agents', { templateId: 'copilot-base', agentIds: ['tpl-reviewer-1', 'tpl-reviewer-2'] })).text);
+    expect(upgraded.agents.map((a: any) => a.agentId)).toEqual(['tpl-reviewer-1', 'tpl-reviewer-2']);
+
+    const reviewer = agentRegistry.get('tpl-reviewer-1')!;
+    expect(reviewer.config).toMatchObject({ model: 'gpt-5', timeoutMs: 90000, template: { version: 2, overrides: { model: 'gpt-5' } } });
+    expect(reviewer.config.systemPrompt).toBeUndefined();
+    expect(reviewer.tasksCompleted).toBe(1);
+    expect(agentRegistry.get('tpl-reviewer-2')!.config).toMatchObject({ model: 'claude-sonnet-4.5', maxConcurrency: 3 });
+    // Not selected, so still on the old version
+    expect(agentTemplateStore.isOutdated(agentRegistry.get('tpl-base-agent')!.config)).toBe(true);
+  });
+
+  it('records cleared settings as null overrides so upgrades do not restore them', async () => {
+    agentRegistry.update('tpl-reviewer-2', { cliArgs: undefined, args: undefined });
+    expect(agentRegistry.get('tpl-reviewer-2')!.config.template!.overrides).toEqual({ maxConcurrency: 3, cliArgs: null, args: null });
+
+    await callTool('mgr_save_agent_template', {
+      id: 'copilot-base', provider: 'copilot', model: 'claude-sonnet-4.5', cliArgs: ['--acp'], tags: ['code'], timeoutMs: 60000,
+    });
+    await callTool('mgr_upgrade_template_agents', { templateId: 'copilot-base', agentIds: ['tpl-reviewer-2'] });
+
+    const config = agentRegistry.get('tpl-reviewer-2')!.config;
+    expect(config).toMatchObject({ timeoutMs: 60000, maxConcurrency: 3, template: { version: 3 } });
+    expect(config.cliArgs).toBeUndefined();
+    expect(config.args).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+// tests/budgets.test.ts
+// Budgets: UTC windows, validation, soft-limit warnings, hard-limit rerouting and
+// rejection in routeTask, and persistence of budgets and usage.
+
+import { describe, it, expect, beforeAll, afterAll, vi, type MockInstance } from 'vitest';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { eventBus, type BudgetEvent } from '../src/services/events.js';
+import { registerProvider, routeTask } from '../src/services/taskRouter.js';
+import { budgetManager, windowStart } from '../src/services/budgetManager.js';
+import * as sharedState from '../src/services/sharedState.js';
+import type { AgentConfig, RoutingStrategy, SkillDefinition } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+function agent(id: string, costMultiplier: number): AgentConfig {
+  return makeAgent(id, { provider: 'mock-budget', costMultiplier, tags: ['budget-test'] });
+}
+
+const events: Array<{ event: string } & BudgetEvent> = [];
+let spies: MockInstance[] = [];
+let persistSpy: MockInstance;
+let readSpy: MockInstance;
+let counter = 0;
+
+function skill(id: string, strategy: RoutingStrategy = 'single'): SkillDefinition {
+  const def: SkillDefinition = {
+    id,
+    name: id,
+    description: '',
+    promptTemplate: 'Answer {q}',
+    targetTags: ['budget-test'],
+    strategy,
+    version: '1.0.0',
+    categories: [],
+  };
+  skillStore.register(def);
+  return def;
+}
+
+function run(skillId: string) {
+  return routeTask({ taskId: `budget-${++counter}`, skillId, params: { q: 'x' }, priority: 0, createdAt: new Date() });
+}
+
+beforeAll(() => {
+  spies = createStoreSpies();
+  persistSpy = vi.mocked(sharedState.persistBudgets);
+  readSpy = vi.spyOn(sharedState, 'readBudgets').mockReturnValue(null);
+  spies.push(readSpy);
+  eventBus.onEvent('budget:warning', e => events.push({ event: 'budget:warning', ...e }));
+  eventBus.onEvent('budget:exceeded', e => events.push({ event: 'budget:exceeded', ...e }));
+  registerProvider('mock-budget', async (a) => ({
+    agentId: a.id,
+    model: a.model,
+    content: `answer from ${a.id}`,
+    tokenCount: 100,
+    latencyMs: 1,
+    costUnits: a.costMultiplier * 0.01,
+    success: true,
+    timestamp: new Date(),
+  }));
+  agentRegistry.register(agent('budget-cheap', 1));
+  agentRegistry.register(agent('budget-pricey', 3));
+});
+
+afterAll(() => {
+  for (const b of budgetManager.list()) budgetManager.remove(b.id);
+  for (const s of skillStore.list()) if (s.id.startsWith('budget-')) skillStore.remove(s.id);
+  agentRegistry.unregister('budget-cheap');
+  agentRegistry.unregister('budget-pricey');
+  restoreSpies(spies);
+});
+
+describe('budget windows and validation', () => {
+  it('starts windows at UTC midnight, Monday, and the 1st of the month', () => {
+    const at = new Date('2026-10-15T18:30:00Z'); // a Thursday
+    expect(windowStart('daily', at).toISOString()).toBe('2026-10-15T00:00:00.000Z');
+    expect(windowStart('weekly', at).toISOString()).toBe('2026-10-12T00:00:00.000Z');
+    expect(windowStart('weekly', new Date('2026-10-18T23:59:00Z')).toISOString()).toBe('2026-10-12T00:00:00.000Z');
+    expect(windowStart('monthly', at).toISOString()).toBe('2026-10-01T00:00:00.000Z');
+  });
+
+  it('rejects incomplete or inconsistent budgets', () => {
+    expect(() => budgetManager.set({ id: 'budget-bad', scope: 'agent', window: 'daily', metric: 'cost', softLimit: 5, hardLimit: 2 }))
+      .toThrow('Invalid budget budget-bad: agent budgets require a target; softLimit must not exceed hardLimit');
+    expect(() => budgetManager.set({ id: 'budget-bad', scope: 'global', window: 'yearly' as any, metric: 'cost' }))
+      .toThrow(/window must be one of daily \| weekly \| monthly; softLimit or hardLimit is required/);
+  });
+});
+
+describe('budget enforcement', () => {
+  it('warns at the soft limit and reroutes away from an agent at its hard limit', async () => {
+    const s = skill('budget-single');
+    budgetManager.set({ id: 'budget-agent', scope: 'agent', target: 'budget-cheap', window: 'daily', metric: 'cost', softLimit: 0.015, hardLimit: 0.02 });
+
+    expect((await run(s.id)).responses[0].agentId).toBe('budget-cheap');
+    expect(events).toEqual([]);
+    expect((await run(s.id)).responses[0].agentId).toBe('budget-cheap');
+    expect(events.map(e => [e.event, e.budgetId, e.used, e.limit])).toEqual([
+      ['budget:warning', 'budget-agent', 0.02, 0.015],
+      ['budget:exceeded', 'budget-agent', 0.02, 0.02],
+    ]);
+
+    const rerouted = await run(s.id);
+    expect(rerouted.responses[0].agentId).toBe('budget-pricey');
+    expect(budgetManager.get('budget-agent')).toMatchObject({ used: 0.02, state: 'exceeded', utilization: 1 });
+    expect(events).toHaveLength(2);
+    budgetManager.remove('budget-agent');
+  });
+
+  it('rejects tasks once a global reject budget is exhausted', async () => {
+    const s = skill('budget-reject');
+    budgetManager.set({ id: 'budget-global', scope: 'global', window: 'monthly', metric: 'tokens', hardLimit: 150, onExceeded: 'reject' });
+    await run(s.id);
+    await run(s.id);
+    await expect(run(s.id)).rejects.toThrow(
+      'Budget exceeded for skill budget-reject: "budget-global" (global, monthly tokens) used 200 of 150'
+    );
+    budgetManager.remove('budget-global');
+  });
+
+  it('blocks tasks once a global budget on default settings is exhausted', async () => {
+    const s = skill('budget-default');
+    budgetManager.set({ id: 'budget-global-default', scope: 'global', window: 'daily', metric: 'cost', hardLimit: 0.01 });
+    await run(s.id);
+    await expect(run(s.id)).rejects.toThrow(
+      'Budget exceeded for skill budget-default: "budget-global-default" (global, daily cost) used 0.01 of 0.01'
+    );
+    budgetManager.remove('budget-global-default');
+  });
+
+  it('narrows an exhausted skill budget set to reroute to the cheapest agents', async () => {
+    const s = skill('budget-fanout', 'fan-out');
+    budgetManager.set({ id: 'budget-skill', scope: 'skill', target: s.id, window: 'weekly', metric: 'cost', hardLimit: 0.01, onExceeded: 'reroute' });
+    expect((await run(s.id)).responses.map(r => r.agentId)).toEqual(['budget-cheap', 'budget-pricey']);
+    expect((await run(s.id)).responses.map(r => r.agentId)).toEqual(['budget-cheap']);
+    budgetManager.remove('budget-skill');
+  });
+});
+
+describe('budget persistence', () => {
+  it('persists budgets with usage and restores only the current window', () => {
+    persistSpy.mockClear();
+    budgetManager.set({ id: 'budget-persisted', scope: 'provider', target: 'mock-budget', window: 'daily', metric: 'premiumRequests', softLimit: 10 });
+    expect(persistSpy.mock.calls[0][0].budgets).toEqual([expect.objectContaining({ id: 'budget-persisted', target: 'mock-budget' })]);
+
+    const today = windowStart('daily').toISOString();
+    const definition = (id: string) => ({ id, scope: 'global' as const, window: 'daily' as const, metric: 'cost' as const, hardLimit: 5, createdAt: today });
+    readSpy.mockReturnValueOnce({
+      budgets: [definition('budget-today'), definition('budget-stale')],
+      usage: {
+        'budget-today': { windowStart: today, used: 4 },
+        'budget-stale': { windowStart: '2020-01-01T00:00:00.000Z', used: 9, exceeded: true },
+      },
+      lastUpdated: today,
+    });
+    budgetManager.load();
+    expect(budgetManager.get('budget-today')).toMatchObject({ used: 4, state: 'ok', utilization: 0.8 });
+    expect(budgetManager.get('budget-stale')).toMatchObject({ used: 0, state: 'ok', windowStart: today });
+  });
+});
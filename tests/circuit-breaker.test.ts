@@ -0,0 +1,176 @@
+// tests/circuit-breaker.test.ts
+// Agent circuit breaker: opening after consecutive failures, exclusion from routing,
+// half-open probes after the cooldown (connection-only for custom agents), and
+// agent:state-changed events with reasons.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import * as net from 'node:net';
+import * as readline from 'node:readline';
+import type { AddressInfo } from 'node:net';
+import { closeAllMcpAgents } from '../src/providers/mcpAgent.js';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { eventBus } from '../src/services/events.js';
+import { registerProvider, routeTask } from '../src/services/taskRouter.js';
+import { PROBE_PROMPT, runDueProbes } from '../src/services/circuitBreaker.js';
+import type { AgentConfig, AgentHealth } from '../src/types/index.js';
+// @ts-expect-error - plain ESM test helper without type declarations
+import { handleMessage } from './helpers/fakeMcpAgent.mjs';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+function agent(id: string): AgentConfig {
+  return makeAgent(id, { provider: 'mock-circuit', costMultiplier: id === 'circuit-flaky' ? 1 : 2, tags: ['circuit-test'] });
+}
+
+/** Agents whose calls fail */
+const down = new Set<string>();
+const prompts: Array<[string, string]> = [];
+const changes: Array<{ agentId: string; newState: string; circuit?: string; reason?: string }> = [];
+let spies: MockInstance[] = [];
+let counter = 0;
+let mcpServer: net.Server;
+/** JSON-RPC methods the custom agent received */
+const mcpMethods: string[] = [];
+
+function run() {
+  return routeTask({ taskId: `circuit-${++counter}`, skillId: 'circuit-skill', params: {}, priority: 0, createdAt: new Date() });
+}
+
+const circuit = (id: string) => agentRegistry.get(id)!.circuit;
+
+beforeAll(async () => {
+  mcpServer = net.createServer((socket) => {
+    readline.createInterface({ input: socket }).on('line', async (line) => {
+      const message = JSON.parse(line);
+      mcpMethods.push(message.method);
+      const response = await handleMessage(message);
+      if (response) socket.write(JSON.stringify(response) + '\n');
+    });
+  });
+  await new Promise<void>((resolve) => mcpServer.listen(0, '127.0.0.1', resolve));
+  process.env.MCP_CIRCUIT_FAILURE_THRESHOLD = '2';
+  process.env.MCP_CIRCUIT_COOLDOWN_MS = '1000';
+  spies = createStoreSpies();
+  eventBus.onEvent('agent:state-changed', (e) => {
+    if (e.agentId.startsWith('circuit-')) changes.push({ agentId: e.agentId, newState: e.newState, circuit: e.circuit, reason: e.reason });
+  });
+  registerProvider('mock-circuit', async (a, prompt) => {
+    prompts.push([a.id, prompt]);
+    const ok = !down.has(a.id);
+    return {
+      agentId: a.id,
+      model: a.model,
+      content: ok ? `ok from ${a.id}` : '',
+      tokenCount: 1,
+      latencyMs: 3,
+      costUnits: 0,
+      success: ok,
+      error: ok ? undefined : 'provider down',
+      timestamp: new Date(),
+    };
+  });
+  agentRegistry.register(agent('circuit-flaky'));
+  agentRegistry.register(agent('circuit-backup'));
+  skillStore.register({
+    id: 'circuit-skill',
+    name: 'circuit-skill',
+    description: '',
+    promptTemplate: 'Do the thing',
+    targetTags: ['circuit-test'],
+    strategy: 'single',
+    version: '1.0.0',
+    categories: [],
+  });
+});
+
+afterAll(async () => {
+  skillStore.remove('circuit-skill');
+  agentRegistry.unregister('circuit-flaky');
+  agentRegistry.unregister('circuit-backup');
+  agentRegistry.unregister('circuit-custom');
+  closeAllMcpAgents();
+  await new Promise<void>((resolve) => mcpServer.close(() => resolve()));
+  restoreSpies(spies);
+  delete process.env.MCP_CIRCUIT_FAILURE_THRESHOLD;
+  delete process.env.MCP_CIRCUIT_COOLDOWN_MS;
+});
+
+describe('agent circuit breaker', () => {
+  it('counts consecutive failures only - a success or a cancellation does not trip it', async () => {
+    down.add('circuit-flaky');
+    await run();
+    expect(circuit('circuit-flaky')).toMatchObject({ state: 'closed', failures: 1 });
+
+    down.delete('circuit-flaky');
+    await run();
+    expect(circuit('circuit-flaky').failures).toBe(0);
+
+    agentRegistry.recordTaskStart('circuit-flaky');
+    agentRegistry.recordTaskComplete('circuit-flaky', 0, 0, false, 0, 'Task cancelled');
+    expect(circuit('circuit-flaky').failures).toBe(0);
+  });
+
+  it('opens after the threshold and routes around the quarantined agent', async () => {
+    down.add('circuit-flaky');
+    changes.length = 0;
+    await run();
+    await run();
+
+    expect(circuit('circuit-flaky')).toMatchObject({ state: 'open', failures: 2, trips: 1 });
+    expect(agentRegistry.get('circuit-flaky')!.state).toBe('error');
+    expect(changes).toEqual([{
+      agentId: 'circuit-flaky', newState: 'error', circuit: 'open',
+      reason: '2 consecutive failures (last: provider down)',
+    }]);
+    expect(agentRegistry.findAvailable(['circuit-test']).map(a => a.config.id)).toEqual(['circuit-backup']);
+
+    prompts.length = 0;
+    const result = await run();
+    expect(result.responses.map(r => r.agentId)).toEqual(['circuit-backup']);
+    expect((agentRegistry.getHealth('circuit-flaky') as AgentHealth).circuit?.state).toBe('open');
+  });
+
+  it('probes after the cooldown, re-opening on failure and closing on success', async () => {
+    const openedAt = circuit('circuit-flaky').openedAt;
+    prompts.length = 0;
+    changes.length = 0;
+
+    await runDueProbes(openedAt + 500);
+    expect(prompts).toEqual([]);
+
+    await runDueProbes(openedAt + 1000);
+    expect(prompts).toEqual([['circuit-flaky', PROBE_PROMPT]]);
+    expect(circuit('circuit-flaky')).toMatchObject({ state: 'open', trips: 1, reason: 'Probe failed: provider down' });
+
+    down.delete('circuit-flaky');
+    await runDueProbes(circuit('circuit-flaky').openedAt + 1000);
+    expect(circuit('circuit-flaky')).toMatchObject({ state: 'closed', failures: 0, trips: 1 });
+    expect(agentRegistry.get('circuit-flaky')!.state).toBe('idle');
+    expect(changes.map(c => [c.circuit, c.newState])).toEqual([
+      ['half-open', 'error'], ['open', 'error'],
+      ['half-open', 'error'], ['closed', 'idle'],
+    ]);
+    expect(changes[3].reason).toMatch(/^Probe succeeded in \d+ms$/);
+    expect(agentRegistry.findAvailable(['circuit-test'])).toHaveLength(2);
+  });
+
+  it('treats setState error as a trip so probes can recover the agent', async () => {
+    agentRegistry.setState('circuit-backup', 'error', 'process crashed');
+    expect(circuit('circuit-backup')).toMatchObject({ state: 'open', trips: 1, reason: 'process crashed' });
+
+    agentRegistry.setState('circuit-backup', 'idle');
+    expect(circuit('circuit-backup')).toMatchObject({ state: 'closed', trips: 1 });
+    expect(changes.at(-1)).toMatchObject({ agentId: 'circuit-backup', newState: 'idle', circuit: 'closed', reason: 'Agent state reset' });
+  });
+
+  it('probes custom agents by connecting, without re-running their tool', async () => {
+    agentRegistry.register(makeAgent('circuit-custom', {
+      provider: 'custom', transport: 'tcp', endpoint: `127.0.0.1:${(mcpServer.address() as AddressInfo).port}`, mcp: { name: 'echo' },
+    }));
+    agentRegistry.setState('circuit-custom', 'error', 'tool failed');
+    await runDueProbes(circuit('circuit-custom').openedAt + 1000);
+
+    expect(circuit('circuit-custom').state).toBe('closed');
+    expect(mcpMethods).toEqual(['initialize', 'notifications/initialized', 'ping']);
+  });
+});
@@ -0,0 +1,145 @@
+// tests/consensus-vote.test.ts
+// Vote-based consensus: answer normalization, majority and success-rate-weighted
+// voting, agreement/dissent reporting, and escalation to synthesis below the threshold.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { eventBus } from '../src/services/events.js';
+import { registerProvider, routeTask } from '../src/services/taskRouter.js';
+import { normalizeAnswer } from '../src/services/consensusVote.js';
+import { initMetaCollector, shutdownMetaCollector, getAgentSuccessRate } from '../src/services/metaCollector.js';
+import type { AgentConfig, AgentResponse, SkillDefinition } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+const VOTERS = ['vote-a', 'vote-b', 'vote-c'];
+
+function agent(id: string): AgentConfig {
+  return makeAgent(id, { provider: 'mock-vote', tags: ['vote-test'] });
+}
+
+function response(content: string, parsed?: unknown): AgentResponse {
+  return { agentId: 'x', model: 'm', content, parsed, tokenCount: 1, latencyMs: 1, costUnits: 0, success: true, timestamp: new Date() };
+}
+
+/** Scripted replies per agent, consumed in order */
+const replies = new Map<string, string[]>();
+const prompts: string[] = [];
+let spies: MockInstance[] = [];
+let metaDir: string;
+let counter = 0;
+
+function skill(id: string, extra: Partial<SkillDefinition>): SkillDefinition {
+  const def: SkillDefinition = {
+    id,
+    name: id,
+    description: '',
+    promptTemplate: 'Classify the sentiment of: {text}',
+    targetTags: ['vote-test'],
+    strategy: 'consensus',
+    version: '1.0.0',
+    categories: [],
+    ...extra,
+  };
+  skillStore.register(def);
+  return def;
+}
+
+function run(skillId: string, answers: string[]) {
+  VOTERS.forEach((id, i) => replies.set(id, [answers[i]]));
+  prompts.length = 0;
+  return routeTask({ taskId: `vote-${++counter}`, skillId, params: { text: 'great product' }, priority: 0, createdAt: new Date() });
+}
+
+beforeAll(() => {
+  metaDir = mkdtempSync(join(tmpdir(), 'vote-meta-'));
+  process.env.META_DIR = metaDir;
+  spies = createStoreSpies();
+  initMetaCollector();
+  registerProvider('mock-vote', async (a, prompt) => {
+    prompts.push(prompt);
+    return { ...response(replies.get(a.id)?.shift() ?? 'synthesized answer'), agentId: a.id };
+  });
+  for (const id of VOTERS) agentRegistry.register(agent(id));
+});
+
+afterAll(() => {
+  shutdownMetaCollector();
+  for (const s of skillStore.list()) if (s.id.startsWith('vote-')) skillStore.remove(s.id);
+  for (const id of VOTERS) agentRegistry.unregister(id);
+  restoreSpies(spies);
+  delete process.env.META_DIR;
+  rmSync(metaDir, { recursive: true, force: true });
+});
+
+describe('normalizeAnswer', () => {
+  it('ignores case, markdown, quotes and surrounding punctuation', () => {
+    expect(normalizeAnswer(response('**Positive.**'), {})).toBe('positive');
+    expect(normalizeAnswer(response('  "Needs   review"!\n'), {})).toBe('needs review');
+  });
+
+  it('votes on the voteExtract match or on canonical structured output', () => {
+    expect(normalizeAnswer(response('Reasoning...\nLabel: NEGATIVE\nDone'), { voteExtract: '^label:\\s*(\\w+)' })).toBe('negative');
+    expect(normalizeAnswer(response('', { b: [1], a: 'x' }), {})).toBe(normalizeAnswer(response('', { a: 'x', b: [1] }), {}));
+  });
+});
+
+describe('vote consensus', () => {
+  it('picks the majority answer without a synthesizer call and reports dissent', async () => {
+    const s = skill('vote-majority', { consensusMode: 'majority' });
+    const result = await run(s.id, ['Negative', 'Positive.', '**positive**']);
+
+    expect(prompts).toHaveLength(3);
+    expect(result.finalContent).toBe('Positive.');
+    expect(result.consensus).toEqual({
+      mode: 'majority',
+      answer: 'positive',
+      agreement: 0.667,
+      votes: [
+        { answer: 'positive', weight: 2, agents: ['vote-b', 'vote-c'] },
+        { answer: 'negative', weight: 1, agents: ['vote-a'] },
+      ],
+      dissenters: ['vote-a'],
+      escalated: false,
+    });
+  });
+
+  it('weights votes by historical success rate from the meta collector', async () => {
+    const s = skill('vote-weighted', { consensusMode: 'weighted' });
+    // vote-a has a strong record on this skill, vote-b and vote-c a poor one
+    for (let i = 0; i < 10; i++) {
+      eventBus.emitEvent('task:completed', {
+        taskId: `history-${i}`, skillId: s.id, strategy: 'consensus', success: true,
+        totalTokens: 0, totalCost: 0, totalLatencyMs: 0, agentCount: 3,
+        agentResults: VOTERS.map(agentId => ({ agentId, success: agentId === 'vote-a' || i === 0, tokenCount: 0, costUnits: 0, latencyMs: 1 })),
+      });
+    }
+    expect(getAgentSuccessRate('vote-a', s.id)).toBeCloseTo(11 / 12);
+    expect(getAgentSuccessRate('vote-b', s.id)).toBeCloseTo(2 / 12);
+    expect(getAgentSuccessRate('unknown-agent')).toBe(0.5);
+
+    const result = await run(s.id, ['Positive', 'Negative', 'negative']);
+    expect(result.finalContent).toBe('Positive');
+    expect(result.consensus?.answer).toBe('positive');
+    expect(result.consensus?.agreement).toBeCloseTo((11 / 12) / (11 / 12 + 4 / 12), 2);
+    expect(result.consensus?.dissenters).toEqual(['vote-b', 'vote-c']);
+  });
+
+  it('escalates to synthesis when agreement is below the threshold', async () => {
+    const s = skill('vote-escalate', { consensusMode: 'majority', agreementThreshold: 0.8 });
+    const result = await run(s.id, ['Positive', 'Negative', 'Mixed']);
+
+    expect(prompts).toHaveLength(4);
+    expect(prompts[3]).toMatch(/^You are evaluating multiple agent responses/);
+    expect(result.consensus).toMatchObject({ agreement: 0.333, escalated: true });
+    expect(result.finalContent).toMatch(/^\[Consensus from 3 agents, synthesized by vote-\w\]\n\nsynthesized answer$/);
+  });
+
+  it('validates vote settings on registration', () => {
+    expect(() => skill('vote-bad', { consensusMode: 'majority', agreementThreshold: 2, voteExtract: '(' }))
+      .toThrow(/Invalid consensus settings for skill vote-bad: agreementThreshold must be between 0 and 1; voteExtract is not a valid regular expression/);
+  });
+});
@@ -0,0 +1,198 @@
+// tests/conversations.test.ts
+// Multi-turn conversations: context-window trimming, history threading to providers,
+// persistence under CONVERSATIONS_DIR, and close semantics.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { registerProvider } from '../src/services/taskRouter.js';
+import { conversationStore } from '../src/services/conversationStore.js';
+import { getContextWindow, trimHistory } from '../src/services/contextWindow.js';
+import type { AgentConfig, ChatMessage, SendPromptOptions } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const CONV_AGENT: AgentConfig = {
+  id: 'conv-agent-1',
+  name: 'Conversation Agent',
+  provider: 'mock-conv',
+  model: 'mock-conv-model',
+  transport: 'stdio',
+  endpoint: '',
+  maxConcurrency: 2,
+  costMultiplier: 1,
+  tags: ['conversation-test'],
+  canMutate: false,
+  timeoutMs: 5000,
+};
+
+/** History seen by the mock provider on each call */
+const seenHistory: Array<ChatMessage[] | undefined> = [];
+const seenPrompts: string[] = [];
+
+let spies: MockInstance[] = [];
+let tmpDir: string;
+const originalDir = process.env.CONVERSATIONS_DIR;
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conv-test-'));
+  process.env.CONVERSATIONS_DIR = tmpDir;
+
+  spies = createStoreSpies();
+
+  registerProvider('mock-conv', async (agent, prompt, _maxTokens, _timeoutMs, options?: SendPromptOptions) => {
+    seenHistory.push(options?.history);
+    seenPrompts.push(prompt);
+    return {
+      agentId: agent.id,
+      model: agent.model,
+      content: `reply #${seenPrompts.length} to: ${prompt}`,
+      tokenCount: 10,
+      latencyMs: 1,
+      costUnits: 0.01,
+      success: true,
+      timestamp: new Date(),
+    };
+  });
+
+  agentRegistry.register(CONV_AGENT);
+  skillStore.register({
+    id: 'conv-skill',
+    name: 'Conversation Skill',
+    description: 'Template for first turn',
+    promptTemplate: 'Review {file}: {message}',
+    targetAgents: [CONV_AGENT.id],
+    strategy: 'single',
+    version: '1.0.0',
+    categories: [],
+  });
+  skillStore.register({
+    id: 'conv-typed-skill',
+    name: 'Typed Conversation Skill',
+    description: 'First turn with a parameter schema',
+    promptTemplate: 'Review {file} at depth {depth}: {message}',
+    parameters: [
+      { name: 'file', required: true },
+      { name: 'depth', type: 'integer', default: '2' },
+      { name: 'message' },
+    ],
+    targetAgents: [CONV_AGENT.id],
+    strategy: 'single',
+    version: '1.0.0',
+    categories: [],
+  });
+});
+
+afterAll(() => {
+  skillStore.remove('conv-skill');
+  skillStore.remove('conv-typed-skill');
+  agentRegistry.unregister(CONV_AGENT.id);
+  restoreSpies(spies);
+  if (originalDir === undefined) delete process.env.CONVERSATIONS_DIR;
+  else process.env.CONVERSATIONS_DIR = originalDir;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('contextWindow', () => {
+  it('resolves context windows by config, then longest model prefix, then default', () => {
+    expect(getContextWindow({ ...CONV_AGENT, contextWindow: 1234 })).toBe(1234);
+    expect(getContextWindow({ ...CONV_AGENT, model: 'claude-sonnet-4-20250514' })).toBe(200_000);
+    expect(getContextWindow({ ...CONV_AGENT, model: 'gpt-4o-mini' })).toBe(128_000);
+    expect(getContextWindow({ ...CONV_AGENT, model: 'gpt-4' })).toBe(8_192);
+    expect(getContextWindow({ ...CONV_AGENT, model: 'unknown' })).toBe(32_000);
+  });
+
+  it('drops the oldest turns first and never starts with an assistant turn', () => {
+    const turn = 'x'.repeat(400); // ~100 tokens each
+    const history: ChatMessage[] = [
+      { role: 'user', content: `1${turn}` },
+      { role: 'assistant', content: `2${turn}` },
+      { role: 'user', content: `3${turn}` },
+      { role: 'assistant', content: `4${turn}` },
+    ];
+    // Window fits ~2.5 turns after prompt + response budget
+    const agent = { ...CONV_AGENT, contextWindow: 100 + 10 + 260 };
+    const trimmed = trimHistory(history, agent, 'x'.repeat(40), 100);
+    expect(trimmed.map(m => m.content[0])).toEqual(['3', '4']);
+
+    // A window that only fits the last (assistant) turn yields no history at all
+    const tiny = trimHistory(history, { ...CONV_AGENT, contextWindow: 100 + 10 + 110 }, 'x'.repeat(40), 100);
+    expect(tiny).toEqual([]);
+  });
+
+  it('returns all history when it fits', () => {
+    const history: ChatMessage[] = [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }];
+    expect(trimHistory(history, CONV_AGENT, 'next', 100)).toEqual(history);
+  });
+});
+
+describe('conversationStore', () => {
+  it('requires exactly one of agentId or skillId', () => {
+    expect(() => conversationStore.create({})).toThrow(/exactly one/);
+    expect(() => conversationStore.create({ agentId: CONV_AGENT.id, skillId: 'conv-skill' })).toThrow(/exactly one/);
+    expect(() => conversationStore.create({ agentId: 'nope' })).toThrow(/Agent not found/);
+  });
+
+  it('threads prior turns as history and persists the transcript', async () => {
+    const conv = conversationStore.create({ agentId: CONV_AGENT.id, title: 'agent chat' });
+    seenHistory.length = 0;
+
+    await conversationStore.send(conv.id, 'first question');
+    const { conversation, result } = await conversationStore.send(conv.id, 'follow up');
+
+    expect(result.success).toBe(true);
+    expect(seenHistory[0]).toBeUndefined();
+    expect(seenHistory[1]?.map(m => m.role)).toEqual(['user', 'assistant']);
+    expect(seenHistory[1]?.[0].content).toBe('first question');
+    expect(conversation.messages).toHaveLength(4);
+    expect(conversation.messages[3].agentId).toBe(CONV_AGENT.id);
+    expect(conversation.totalTokens).toBe(20);
+
+    const onDisk = JSON.parse(fs.readFileSync(path.join(tmpDir, `${conv.id}.json`), 'utf-8'));
+    expect(onDisk.messages).toHaveLength(4);
+    expect(onDisk.title).toBe('agent chat');
+
+    // Ephemeral per-turn skills are cleaned up
+    expect(skillStore.list().some(s => s.id.startsWith('_conv_'))).toBe(false);
+  });
+
+  it('fills the skill template on the first turn only', async () => {
+    const conv = conversationStore.create({ skillId: 'conv-skill' });
+    seenPrompts.length = 0;
+
+    await conversationStore.send(conv.id, 'is this safe?', { file: 'a.ts' });
+    await conversationStore.send(conv.id, 'and now?');
+
+    expect(seenPrompts).toEqual(['Review a.ts: is this safe?', 'and now?']);
+    expect(conversationStore.get(conv.id)!.messages[0].content).toBe('Review a.ts: is this safe?');
+  });
+
+  it('validates first-turn params against the skill schema and applies defaults', async () => {
+    const conv = conversationStore.create({ skillId: 'conv-typed-skill' });
+    seenPrompts.length = 0;
+
+    await expect(conversationStore.send(conv.id, 'ok?', { depth: 'deep' })).rejects.toThrow(
+      'Invalid params for skill conv-typed-skill: Missing required parameter "file"; "depth" must be an integer (got "deep")'
+    );
+    expect(seenPrompts).toEqual([]);
+    expect(conversationStore.get(conv.id)!.messages).toEqual([]);
+
+    await conversationStore.send(conv.id, 'ok?', { file: 'a.ts' });
+    // Follow-ups reuse the first turn's params, so they pass the same validation
+    await conversationStore.send(conv.id, 'and the tests?');
+    expect(seenPrompts).toEqual(['Review a.ts at depth 2: ok?', 'and the tests?']);
+    expect(conversationStore.get(conv.id)!.params).toMatchObject({ file: 'a.ts', depth: '2' });
+  });
+
+  it('rejects turns after close and lists by status', async () => {
+    const conv = conversationStore.create({ agentId: CONV_AGENT.id });
+    conversationStore.close(conv.id);
+
+    await expect(conversationStore.send(conv.id, 'hello?')).rejects.toThrow(/closed/);
+    expect(conversationStore.list('closed').map(c => c.id)).toContain(conv.id);
+    expect(conversationStore.list('open').map(c => c.id)).not.toContain(conv.id);
+    expect(conversationStore.get(conv.id)!.closedAt).toBeDefined();
+  });
+});
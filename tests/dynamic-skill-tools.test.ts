@@ -0,0 +1,132 @@
+// tests/dynamic-skill-tools.test.ts
+// Per-skill MCP tools: derived input schemas, live add/remove with list_changed
+// notifications, and calling a skill directly through its tool.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { registerProvider } from '../src/services/taskRouter.js';
+import { taskQueue } from '../src/services/taskQueue.js';
+import { registerDynamicSkillTools } from '../src/server/tools/dynamicSkillTools.js';
+import type { AgentConfig, SkillDefinition } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const TOOL_AGENT: AgentConfig = {
+  id: 'skill-tool-agent',
+  name: 'Skill Tool Agent',
+  provider: 'mock-skill-tool',
+  model: 'mock-model',
+  transport: 'stdio',
+  endpoint: '',
+  maxConcurrency: 2,
+  costMultiplier: 1,
+  tags: [],
+  canMutate: false,
+  timeoutMs: 5000,
+};
+
+const SUMMARIZE: SkillDefinition = {
+  id: 'summarize-text',
+  name: 'Summarize',
+  description: 'Summarize text',
+  promptTemplate: 'Summarize in {words} words{#if bullets} as bullets{/if}: {text}',
+  parameters: [
+    { name: 'text', required: true, description: 'Text to summarize' },
+    { name: 'words', type: 'integer', default: '50' },
+    { name: 'bullets', type: 'boolean' },
+  ],
+  targetAgents: [TOOL_AGENT.id],
+  strategy: 'single',
+  version: '1.0.0',
+  categories: [],
+};
+
+let spies: MockInstance[] = [];
+let client: Client;
+let listChanged = 0;
+
+beforeAll(async () => {
+  spies = createStoreSpies();
+
+  registerProvider('mock-skill-tool', async (agent, prompt) => ({
+    agentId: agent.id,
+    model: agent.model,
+    content: `echo: ${prompt}`,
+    tokenCount: 3,
+    latencyMs: 1,
+    costUnits: 0,
+    success: true,
+    timestamp: new Date(),
+  }));
+  agentRegistry.register(TOOL_AGENT);
+  skillStore.register(SUMMARIZE);
+
+  const server = new McpServer({ name: 'test', version: '0.0.0' });
+  server.tool('mgr_builtin', 'Built-in tool', {}, async () => ({ content: [] }));
+  registerDynamicSkillTools(server);
+
+  client = new Client({ name: 'test-client', version: '0.0.0' });
+  client.setNotificationHandler(ToolListChangedNotificationSchema, () => { listChanged++; });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+  taskQueue.stop();
+  skillStore.remove(SUMMARIZE.id);
+  agentRegistry.unregister(TOOL_AGENT.id);
+  restoreSpies(spies);
+});
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) await new Promise(r => setTimeout(r, 5));
+  expect(check()).toBe(true);
+}
+
+describe('dynamic skill tools', () => {
+  it('lists one tool per skill with a schema derived from its parameters', async () => {
+    const { tools } = await client.listTools();
+    const tool = tools.find(t => t.name === SUMMARIZE.id);
+    expect(tool?.description).toMatch(/Summarize text/);
+    expect(tool?.inputSchema.required).toEqual(['text']);
+    expect(tool?.inputSchema.properties).toMatchObject({
+      text: { type: 'string', description: 'Text to summarize' },
+      words: { type: 'integer', description: 'default: 50' },
+      bullets: { type: 'boolean' },
+    });
+    expect(tools.some(t => t.name === 'mgr_builtin')).toBe(true);
+  });
+
+  it('routes calls through the queue with typed arguments', async () => {
+    const res = await client.callTool({ name: SUMMARIZE.id, arguments: { text: 'long story', bullets: true } });
+    const body = JSON.parse((res.content as Array<{ text: string }>)[0].text);
+    expect(body.success).toBe(true);
+    expect(body.content).toBe('echo: Summarize in 50 words as bullets: long story');
+  });
+
+  it('adds and removes tools live, skipping internal and colliding skills', async () => {
+    const before = listChanged;
+    skillStore.register({ ...SUMMARIZE, id: 'live-skill', parameters: undefined, promptTemplate: 'Say {thing}' });
+    skillStore.register({ ...SUMMARIZE, id: '_direct_internal', parameters: undefined, promptTemplate: '{prompt}' });
+    skillStore.register({ ...SUMMARIZE, id: 'mgr_builtin', parameters: undefined, promptTemplate: '{prompt}' });
+    await waitFor(() => listChanged > before);
+
+    let names = (await client.listTools()).tools.map(t => t.name);
+    expect(names).toContain('live-skill');
+    expect(names).not.toContain('_direct_internal');
+    expect(names.filter(n => n === 'mgr_builtin')).toHaveLength(1);
+
+    const changed = listChanged;
+    skillStore.remove('live-skill');
+    skillStore.remove('_direct_internal');
+    skillStore.remove('mgr_builtin');
+    await waitFor(() => listChanged > changed);
+    names = (await client.listTools()).tools.map(t => t.name);
+    expect(names).not.toContain('live-skill');
+  });
+});
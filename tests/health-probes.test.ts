@@ -0,0 +1,164 @@
+// tests/health-probes.test.ts
+// Agent health probes: opt-in ping, binary and ACP initialize checks, latency history,
+// agent:health-changed events, opening the circuit on failure, and persisted history.
+
+import { describe, it, expect, beforeAll, afterAll, vi, type MockInstance } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { eventBus } from '../src/services/events.js';
+import { registerProvider } from '../src/services/taskRouter.js';
+import { defaultChecks, healthMonitor } from '../src/services/healthMonitor.js';
+import * as sharedState from '../src/services/sharedState.js';
+import type { AgentConfig } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+function agent(id: string, extra: Partial<AgentConfig> = {}): AgentConfig {
+  return makeAgent(id, { provider: 'mock-health', maxConcurrency: 1, tags: ['health-test'], ...extra });
+}
+
+/** Agents whose ping fails */
+const down = new Set<string>();
+const changes: Array<{ agentId: string; previousStatus: string; status: string; failedChecks: string[] }> = [];
+let spies: MockInstance[] = [];
+let persistSpy: MockInstance;
+let tmpDir: string;
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-probes-'));
+  spies = [
+    ...createStoreSpies(),
+    vi.spyOn(sharedState, 'readAgentHealth').mockReturnValue({
+      agents: {
+        'health-restored': {
+          agentId: 'health-restored', status: 'unhealthy', consecutiveFailures: 2, avgLatencyMs: 40,
+          lastProbeAt: '2026-10-19T00:00:00.000Z', history: [],
+        },
+      },
+      lastUpdated: '2026-10-19T00:00:00.000Z',
+    }),
+  ];
+  persistSpy = vi.mocked(sharedState.persistAgentHealth);
+  eventBus.onEvent('agent:health-changed', (e) => {
+    if (e.agentId.startsWith('health-')) changes.push(e);
+  });
+  registerProvider('mock-health', async (a) => {
+    const ok = !down.has(a.id);
+    await new Promise(r => setTimeout(r, 5));
+    return {
+      agentId: a.id, model: a.model, content: ok ? 'OK' : '', tokenCount: 1, latencyMs: 5, costUnits: 0,
+      success: ok, error: ok ? undefined : 'connection refused', timestamp: new Date(),
+    };
+  });
+  agentRegistry.register(agent('health-ping', { healthCheck: { checks: ['ping'] } }));
+  agentRegistry.register(agent('health-no-circuit', { healthCheck: { checks: ['ping'], openCircuitOnFailure: false } }));
+  agentRegistry.register(agent('health-restored', { healthCheck: { checks: ['ping'] } }));
+  agentRegistry.register(agent('health-unchecked'));
+});
+
+afterAll(() => {
+  for (const id of ['health-ping', 'health-no-circuit', 'health-restored', 'health-unchecked', 'health-copilot', 'health-acp']) {
+    agentRegistry.unregister(id);
+  }
+  restoreSpies(spies);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('agent health probes', () => {
+  it('picks checks from the provider unless configured, with ping opt-in', () => {
+    expect(defaultChecks(agent('a'))).toEqual([]);
+    expect(defaultChecks(agent('a', { provider: 'custom' }))).toEqual(['connect']);
+    expect(defaultChecks(agent('a', { provider: 'copilot' }))).toEqual(['binary']);
+    expect(defaultChecks(agent('a', { provider: 'copilot', cliArgs: ['--acp'] }))).toEqual(['binary', 'acp']);
+    expect(defaultChecks(agent('a', { healthCheck: { checks: ['ping', 'binary'] } }))).toEqual(['ping', 'binary']);
+  });
+
+  it('restores history from disk and records ping latency', async () => {
+    expect(healthMonitor.getReport('health-restored')).toMatchObject({ status: 'unhealthy', consecutiveFailures: 2 });
+
+    const report = await healthMonitor.probe('health-ping');
+    expect(report).toMatchObject({ agentId: 'health-ping', status: 'healthy', consecutiveFailures: 0 });
+    expect(report.history).toHaveLength(1);
+    expect(report.history[0].checks).toEqual([{ kind: 'ping', success: true, latencyMs: expect.any(Number) }]);
+    expect(report.avgLatencyMs).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(report.nextProbeAt!) - Date.parse(report.lastProbeAt!)).toBe(300_000);
+    expect(changes.at(-1)).toMatchObject({ agentId: 'health-ping', previousStatus: 'unknown', status: 'healthy' });
+    expect(persistSpy.mock.calls.at(-1)![0].agents['health-ping'].status).toBe('healthy');
+  });
+
+  it('emits health-changed on failure and opens the circuit unless disabled', async () => {
+    down.add('health-ping');
+    down.add('health-no-circuit');
+    changes.length = 0;
+
+    const report = await healthMonitor.probe('health-ping');
+    expect(report).toMatchObject({ status: 'unhealthy', consecutiveFailures: 1 });
+    expect(report.history.map(h => h.status)).toEqual(['healthy', 'unhealthy']);
+    expect(changes).toEqual([{
+      agentId: 'health-ping', previousStatus: 'healthy', status: 'unhealthy', failedChecks: ['ping'],
+      error: 'ping: connection refused',
+    }]);
+    expect(agentRegistry.get('health-ping')!.circuit).toMatchObject({
+      state: 'open', reason: 'Health check failed (ping: connection refused)',
+    });
+
+    await healthMonitor.probe('health-ping');
+    expect(healthMonitor.getReport('health-ping')!.consecutiveFailures).toBe(2);
+    expect(changes).toHaveLength(1);
+
+    await healthMonitor.probe('health-no-circuit');
+    expect(healthMonitor.getReport('health-no-circuit')!.status).toBe('unhealthy');
+    expect(agentRegistry.get('health-no-circuit')!.circuit.state).toBe('closed');
+  });
+
+  it('probes only enabled agents whose interval has elapsed', async () => {
+    agentRegistry.update('health-restored', { healthCheck: { enabled: false } });
+    const before = healthMonitor.getReport('health-no-circuit')!.history.length;
+    await healthMonitor.runDueProbes(Date.now() + 60_000);
+    expect(healthMonitor.getReport('health-no-circuit')!.history).toHaveLength(before);
+
+    await healthMonitor.runDueProbes(Date.now() + 300_000);
+    expect(healthMonitor.getReport('health-no-circuit')!.history).toHaveLength(before + 1);
+    expect(healthMonitor.getReport('health-restored')!.history).toEqual([]);
+  });
+
+  it('never pings an agent that did not opt in', async () => {
+    await healthMonitor.runDueProbes(Date.now() + 600_000);
+    expect(healthMonitor.getReport('health-unchecked')).toBeUndefined();
+    await expect(healthMonitor.probe('health-unchecked')).rejects.toThrow(
+      'No health checks for health-unchecked - list them in healthCheck.checks (ping sends a billed prompt)'
+    );
+  });
+
+  it('fails binary and ACP checks for a missing Copilot binary', async () => {
+    agentRegistry.register(agent('health-copilot', {
+      provider: 'copilot', binaryPath: path.join(tmpDir, 'missing-copilot'), cliArgs: ['--acp'],
+      healthCheck: { openCircuitOnFailure: false, timeoutMs: 2000 },
+    }));
+    const report = await healthMonitor.probe('health-copilot');
+    expect(report.status).toBe('unhealthy');
+    expect(report.history[0].checks.map(c => [c.kind, c.success])).toEqual([['binary', false], ['acp', false]]);
+    expect(report.history[0].checks[0].error).toMatch(/^Copilot binary not found/);
+  });
+
+  it.skipIf(process.platform === 'win32')('completes the ACP initialize handshake with a live binary', async () => {
+    const binary = path.join(tmpDir, 'fake-copilot');
+    fs.writeFileSync(binary, [
+      `#!${process.execPath}`,
+      `require('readline').createInterface({ input: process.stdin }).on('line', (line) => {`,
+      `  const msg = JSON.parse(line);`,
+      `  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: '2025-01-01' } }) + '\\n');`,
+      `});`,
+    ].join('\n'));
+    fs.chmodSync(binary, 0o755);
+
+    agentRegistry.register(agent('health-acp', { provider: 'copilot', binaryPath: binary, cliArgs: ['--acp'] }));
+    const report = await healthMonitor.probe('health-acp');
+    expect(report.history[0].checks).toEqual([
+      { kind: 'binary', success: true, latencyMs: expect.any(Number) },
+      { kind: 'acp', success: true, latencyMs: expect.any(Number) },
+    ]);
+    expect(report.status).toBe('healthy');
+  });
+});
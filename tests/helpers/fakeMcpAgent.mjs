@@ -0,0 +1,61 @@
+// tests/helpers/fakeMcpAgent.mjs
+// Tiny MCP / JSON-RPC agent for custom provider tests. handleMessage() answers one JSON-RPC
+// message; run directly (node tests/helpers/fakeMcpAgent.mjs) it serves newline-delimited
+// JSON-RPC on stdio.
+//
+// tools:   echo (text + structuredContent), fail (isError), slow (answers after 2s)
+// prompts: review (code argument)
+// methods: agent.ask (plain JSON-RPC, no initialize needed)
+
+import * as readline from 'node:readline';
+import { pathToFileURL } from 'node:url';
+
+const text = (t) => ({ content: [{ type: 'text', text: t }] });
+
+/** Resolve a request to its response, or undefined for notifications */
+export async function handleMessage(msg) {
+  if (msg.id === undefined) return undefined;
+  const args = msg.params?.arguments ?? {};
+  const ok = (result) => ({ jsonrpc: '2.0', id: msg.id, result });
+  const fail = (code, message) => ({ jsonrpc: '2.0', id: msg.id, error: { code, message } });
+
+  switch (msg.method) {
+    case 'initialize':
+      return ok({
+        protocolVersion: msg.params.protocolVersion,
+        capabilities: { tools: {}, prompts: {} },
+        serverInfo: { name: 'fake-agent', version: '1.0.0' },
+      });
+    case 'ping':
+      return ok({});
+    case 'tools/call':
+      switch (msg.params.name) {
+        case 'echo':
+          return ok({ ...text(`echo: ${args.prompt}`), structuredContent: { echoed: args.prompt, style: args.style ?? null } });
+        case 'fail':
+          return ok({ ...text('boom'), isError: true });
+        case 'slow':
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+          return ok(text('late'));
+        default:
+          return fail(-32602, `Unknown tool: ${msg.params.name}`);
+      }
+    case 'prompts/get':
+      if (msg.params.name !== 'review') return fail(-32602, `Unknown prompt: ${msg.params.name}`);
+      return ok({ messages: [{ role: 'user', content: { type: 'text', text: `Review this: ${args.code}` } }] });
+    case 'agent.ask':
+      return ok({ content: `answer to ${msg.params.question}` });
+    default:
+      return fail(-32601, `Method not found: ${msg.method}`);
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const rl = readline.createInterface({ input: process.stdin });
+  rl.on('line', async (line) => {
+    if (!line.trim()) return;
+    const response = await handleMessage(JSON.parse(line));
+    if (response) process.stdout.write(JSON.stringify(response) + '\n');
+  });
+  rl.on('close', () => process.exit(0));
+}
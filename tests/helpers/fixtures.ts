@@ -0,0 +1,64 @@
+// tests/helpers/fixtures.ts
+// Persist spies and the agent fixture shared by routing and provider tests. Kept free of the
+// automation engine so those suites only load the services they exercise; setup.ts builds on it.
+
+import { vi, type MockInstance } from 'vitest';
+import { agentRegistry } from '../../src/services/agentRegistry.js';
+import { skillStore } from '../../src/services/skillStore.js';
+import * as sharedState from '../../src/services/sharedState.js';
+import * as mailboxPersistence from '../../src/services/mailboxPersistence.js';
+import type { AgentConfig } from '../../src/types/index.js';
+
+// ---------------------------------------------------------------------------
+// Persist-spy helpers - prevent tests from writing to disk
+// ---------------------------------------------------------------------------
+
+/**
+ * Spies that keep skills, agents, shared state, the task queue and the mailbox log off disk.
+ * Read the shared-state spies back with vi.mocked(sharedState.persistX) to assert on them.
+ */
+export function createStoreSpies(): MockInstance[] {
+  return [
+    vi.spyOn(skillStore as any, 'persist').mockImplementation(() => {}),
+    vi.spyOn(agentRegistry as any, 'save').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'persistCrossRepoEntry').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'persistTaskHistoryEntry').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'persistRouterMetrics').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'persistAgentStats').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'persistAdaptiveRouting').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'persistBudgets').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'persistAgentHealth').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'persistTaskQueue').mockImplementation(() => {}),
+    vi.spyOn(sharedState, 'readTaskQueue').mockReturnValue([]),
+    vi.spyOn(mailboxPersistence, 'appendMessageToLog').mockImplementation(() => {}),
+    vi.spyOn(mailboxPersistence, 'rewriteMessageLog').mockImplementation(() => {}),
+    vi.spyOn(mailboxPersistence, 'broadcastToPeers').mockImplementation(() => {}),
+  ];
+}
+
+/** Restore all persist spies. */
+export function restoreSpies(spies: MockInstance[]): void {
+  for (const spy of spies) spy.mockRestore();
+}
+
+// ---------------------------------------------------------------------------
+// Agent fixtures
+// ---------------------------------------------------------------------------
+
+/** Agent config for a test - stdio, 4 slots, 5s timeout; pass the provider (usually a mock) and anything else in extra */
+export function makeAgent(id: string, extra: Partial<AgentConfig> = {}): AgentConfig {
+  return {
+    id,
+    name: id,
+    provider: 'copilot',
+    model: 'mock-model',
+    transport: 'stdio',
+    endpoint: '',
+    maxConcurrency: 4,
+    costMultiplier: 1,
+    tags: [],
+    canMutate: false,
+    timeoutMs: 5000,
+    ...extra,
+  };
+}
@@ -3,13 +3,13 @@
 
 import { vi, type MockInstance } from 'vitest';
 import { agentRegistry } from '../../src/services/agentRegistry.js';
-import { skillStore } from '../../src/services/skillStore.js';
 import { automationEngine } from '../../src/services/automation/index.js';
 import { registerProvider } from '../../src/services/taskRouter.js';
-import * as sharedState from '../../src/services/sharedState.js';
-import * as mailboxPersistence from '../../src/services/mailboxPersistence.js';
 import type { AgentConfig, AgentResponse } from '../../src/types/index.js';
 import type { AutomationRuleInput } from '../../src/types/automation.js';
+import { createStoreSpies } from './fixtures.js';
+
+export { createStoreSpies, restoreSpies, makeAgent } from './fixtures.js';
 
 // ---------------------------------------------------------------------------
 // Persist-spy helpers - prevent tests from writing to disk
@@ -18,24 +18,11 @@ import type { AutomationRuleInput } from '../../src/types/automation.js';
 /** Create spies that intercept disk-write methods on all store singletons. */
 export function createPersistSpies(): MockInstance[] {
   return [
-    vi.spyOn(skillStore as any, 'persist').mockImplementation(() => {}),
-    vi.spyOn(agentRegistry as any, 'save').mockImplementation(() => {}),
+    ...createStoreSpies(),
     vi.spyOn(automationEngine as any, 'persistRules').mockImplementation(() => {}),
-    vi.spyOn(sharedState, 'persistCrossRepoEntry').mockImplementation(() => {}),
-    vi.spyOn(sharedState, 'persistTaskHistoryEntry').mockImplementation(() => {}),
-    vi.spyOn(sharedState, 'persistRouterMetrics').mockImplementation(() => {}),
-    vi.spyOn(sharedState, 'persistAgentStats').mockImplementation(() => {}),
-    vi.spyOn(mailboxPersistence, 'appendMessageToLog').mockImplementation(() => {}),
-    vi.spyOn(mailboxPersistence, 'rewriteMessageLog').mockImplementation(() => {}),
-    vi.spyOn(mailboxPersistence, 'broadcastToPeers').mockImplementation(() => {}),
   ];
 }
 
-/** Restore all persist spies. */
-export function restoreSpies(spies: MockInstance[]): void {
-  for (const spy of spies) spy.mockRestore();
-}
-
 // ---------------------------------------------------------------------------
 // Clean-state helper - reset singletons between tests
 // ---------------------------------------------------------------------------
@@ -0,0 +1,158 @@
+// tests/mcp-agent-provider.test.ts
+// Custom provider conformance against a fake MCP / JSON-RPC agent (tests/helpers/fakeMcpAgent.mjs)
+// on each transport: stdio (spawned), tcp (newline-delimited JSON-RPC) and http (Streamable HTTP).
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'node:http';
+import * as net from 'node:net';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
+import type { AddressInfo } from 'node:net';
+import { closeAllMcpAgents, parseTcpEndpoint, probeMcpAgent, sendMcpAgentPrompt } from '../src/providers/mcpAgent.js';
+import type { AgentConfig } from '../src/types/index.js';
+// @ts-expect-error - plain ESM test helper without type declarations
+import { handleMessage } from './helpers/fakeMcpAgent.mjs';
+import { makeAgent } from './helpers/fixtures.js';
+
+const FAKE_AGENT = path.resolve(__dirname, 'helpers', 'fakeMcpAgent.mjs');
+
+function agent(extra: Partial<AgentConfig>): AgentConfig {
+  return makeAgent('mcp-test', {
+    provider: 'custom', model: 'fake-agent', endpoint: process.execPath, args: [FAKE_AGENT],
+    maxConcurrency: 1, timeoutMs: 10000, mcp: { name: 'echo' }, ...extra,
+  });
+}
+
+let tcpServer: net.Server;
+let tcpPort: number;
+let tcpConnections = 0;
+const tcpMethods: string[] = [];
+let httpServer: http.Server;
+let httpUrl: string;
+
+beforeAll(async () => {
+  tcpServer = net.createServer((socket) => {
+    tcpConnections++;
+    readline.createInterface({ input: socket }).on('line', async (line) => {
+      const message = JSON.parse(line);
+      tcpMethods.push(message.method);
+      const response = await handleMessage(message);
+      if (response) socket.write(JSON.stringify(response) + '\n');
+    });
+  });
+  await new Promise<void>((resolve) => tcpServer.listen(0, '127.0.0.1', resolve));
+  tcpPort = (tcpServer.address() as AddressInfo).port;
+
+  // Streamable HTTP in its simplest form: JSON responses, no standalone SSE stream
+  httpServer = http.createServer((req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    let raw = '';
+    req.on('data', (c) => { raw += c; });
+    req.on('end', async () => {
+      const response = await handleMessage(JSON.parse(raw));
+      if (!response) {
+        res.writeHead(202).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  httpUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+});
+
+afterAll(async () => {
+  closeAllMcpAgents();
+  await new Promise<void>((resolve) => tcpServer.close(() => resolve()));
+  await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+});
+
+describe('stdio transport', () => {
+  it('spawns the server and maps a tool result into the response', async () => {
+    const a = agent({ id: 'mcp-stdio', mcp: { name: 'echo', systemArgument: 'style', arguments: { style: 'terse' } } });
+    const response = await sendMcpAgentPrompt(a, 'Hi', 100, 10000, { systemPrompt: 'Be brief.' });
+    expect(response).toMatchObject({ success: true, content: 'echo: Hi', model: 'fake-agent', tokenCountEstimated: true });
+    expect(response.tokenCount).toBeGreaterThan(0);
+
+    // JSON mode returns the tool's structured output; the system prompt went to its own argument
+    const json = await sendMcpAgentPrompt(a, 'Hi', 100, 10000, { systemPrompt: 'Be brief.', responseFormat: 'json' });
+    expect(JSON.parse(json.content)).toEqual({ echoed: 'Hi', style: 'Be brief.' });
+  });
+
+  it('reports tool errors and timeouts as failed responses', async () => {
+    const failed = await sendMcpAgentPrompt(agent({ id: 'mcp-stdio', mcp: { name: 'fail' } }), 'Hi', 100, 10000);
+    expect(failed).toMatchObject({ success: false, error: 'Tool fail failed: boom' });
+
+    const slow = await sendMcpAgentPrompt(agent({ id: 'mcp-stdio', mcp: { name: 'slow' } }), 'Hi', 100, 200);
+    expect(slow).toMatchObject({ success: false, error: 'Request timed out after 200ms' });
+  });
+});
+
+describe('tcp transport', () => {
+  it('reuses one connection across calls and prepends the system prompt without systemArgument', async () => {
+    const a = agent({ id: 'mcp-tcp', transport: 'tcp', endpoint: `127.0.0.1:${tcpPort}`, args: undefined });
+    const before = tcpConnections;
+    const first = await sendMcpAgentPrompt(a, 'one', 100, 5000);
+    const second = await sendMcpAgentPrompt(a, 'two', 100, 5000, { systemPrompt: 'Be brief.' });
+
+    expect(first.content).toBe('echo: one');
+    expect(second.content).toBe('echo: System instructions (follow these throughout):\n\nBe brief.\n\n---\n\ntwo');
+    expect(tcpConnections - before).toBe(1);
+  });
+
+  it('calls a plain JSON-RPC method with the prompt in the configured argument', async () => {
+    const a = agent({
+      id: 'mcp-rpc', transport: 'tcp', endpoint: `tcp://127.0.0.1:${tcpPort}`, args: undefined,
+      mcp: { call: 'rpc', name: 'agent.ask', promptArgument: 'question' },
+    });
+    const response = await sendMcpAgentPrompt(a, 'why?', 100, 5000);
+    expect(response).toMatchObject({ success: true, content: 'answer to why?' });
+  });
+
+  it('names the endpoint when nothing is listening', async () => {
+    const closed = net.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const response = await sendMcpAgentPrompt(agent({ id: 'mcp-down', transport: 'tcp', endpoint: `127.0.0.1:${port}` }), 'Hi', 100, 5000);
+    expect(response.error).toBe(`MCP agent not reachable (tcp 127.0.0.1:${port}): ECONNREFUSED`);
+  });
+
+  it('probes the connection without calling the configured tool', async () => {
+    const a = agent({ id: 'mcp-probe', transport: 'tcp', endpoint: `127.0.0.1:${tcpPort}`, args: undefined });
+    tcpMethods.length = 0;
+    await probeMcpAgent(a, 5000);
+    expect(tcpMethods).toEqual(['initialize', 'notifications/initialized', 'ping']);
+
+    await expect(probeMcpAgent(agent({ id: 'mcp-probe-down', transport: 'tcp', endpoint: '127.0.0.1:1' }), 5000))
+      .rejects.toThrow('MCP agent not reachable (tcp 127.0.0.1:1): ECONNREFUSED');
+  });
+
+  it('parses host:port, tcp:// and bare port endpoints', () => {
+    expect(parseTcpEndpoint('agent-box:7000')).toEqual({ host: 'agent-box', port: 7000 });
+    expect(parseTcpEndpoint('tcp://[::1]:7000/')).toEqual({ host: '::1', port: 7000 });
+    expect(parseTcpEndpoint('7000')).toEqual({ host: '127.0.0.1', port: 7000 });
+    expect(() => parseTcpEndpoint('agent-box')).toThrow('expected host:port');
+  });
+});
+
+describe('http transport', () => {
+  it('renders a prompt with the task text in the configured argument', async () => {
+    const a = agent({
+      id: 'mcp-http', transport: 'http', endpoint: httpUrl, args: undefined,
+      mcp: { call: 'prompt', name: 'review', promptArgument: 'code' },
+    });
+    const response = await sendMcpAgentPrompt(a, 'let x = 1', 100, 5000);
+    expect(response).toMatchObject({ success: true, content: 'Review this: let x = 1' });
+  });
+
+  it('fails clearly when the agent has nothing configured to call', async () => {
+    const response = await sendMcpAgentPrompt(agent({ id: 'mcp-none', mcp: undefined }), 'Hi', 100, 5000);
+    expect(response.error).toBe('Agent mcp-none has no mcp.name (tool, prompt or method to call)');
+  });
+});
@@ -0,0 +1,162 @@
+// tests/ollama-provider.test.ts
+// Native Ollama provider against a local stub server: /api/chat options and token counts,
+// NDJSON streaming, auto-pull of missing models, and model listing with load state.
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { listLocalModels, resolveOllamaHost, sendOllamaPrompt } from '../src/providers/ollama.js';
+import { getContextWindow } from '../src/services/contextWindow.js';
+import type { AgentConfig } from '../src/types/index.js';
+import { makeAgent } from './helpers/fixtures.js';
+
+function agent(extra: Partial<AgentConfig> = {}): AgentConfig {
+  return makeAgent('ollama-test', { provider: 'ollama', model: 'llama3.1:8b', transport: 'http', endpoint: base, maxConcurrency: 1, costMultiplier: 0, ...extra });
+}
+
+let server: http.Server;
+let base: string;
+const requests: Array<{ method: string; url: string; body?: any }> = [];
+/** Models the stub reports as installed */
+const installed = new Set(['llama3.1:8b']);
+/** How long the stub takes to pull a model */
+let pullDelayMs = 0;
+
+function json(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c) => { raw += c; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ method: req.method!, url: req.url!, body });
+      switch (req.url) {
+        case '/api/tags':
+          return json(res, 200, {
+            models: [...installed].map(name => ({
+              name, model: name, size: 4_900_000_000, modified_at: '2026-10-01T00:00:00Z', digest: 'sha256:abc',
+              details: { family: 'llama', parameter_size: '8.0B', quantization_level: 'Q4_K_M' },
+            })),
+          });
+        case '/api/ps':
+          return json(res, 200, { models: [{ name: 'llama3.1:8b', expires_at: '2026-10-19T13:00:00Z', size_vram: 5_000_000_000 }] });
+        case '/api/pull':
+          return setTimeout(() => {
+            installed.add(body.model);
+            json(res, 200, { status: 'success' });
+          }, pullDelayMs);
+        case '/api/chat':
+          if (!installed.has(body.model)) return json(res, 404, { error: `model '${body.model}' not found` });
+          if (!body.stream) {
+            return json(res, 200, {
+              model: body.model, message: { role: 'assistant', content: 'Hello there' }, done: true, done_reason: 'stop',
+              prompt_eval_count: 26, eval_count: 3,
+            });
+          }
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+          res.write(JSON.stringify({ message: { role: 'assistant', content: 'Hel' }, done: false }) + '\n');
+          res.write(JSON.stringify({ message: { role: 'assistant', content: 'lo' }, done: false }) + '\n');
+          return res.end(JSON.stringify({ message: { role: 'assistant', content: '' }, done: true, prompt_eval_count: 10, eval_count: 2 }) + '\n');
+        default:
+          return json(res, 404, { error: 'not found' });
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('Ollama host resolution', () => {
+  it('uses the endpoint, then OLLAMA_HOST, and normalizes scheme and suffixes', () => {
+    expect(resolveOllamaHost({ endpoint: 'http://gpu-box:11434/v1/', env: {} })).toBe('http://gpu-box:11434');
+    expect(resolveOllamaHost({ endpoint: '', env: { OLLAMA_HOST: '0.0.0.0:11434' } })).toBe('http://0.0.0.0:11434');
+    const saved = process.env.OLLAMA_HOST;
+    delete process.env.OLLAMA_HOST;
+    try {
+      expect(resolveOllamaHost()).toBe('http://127.0.0.1:11434');
+    } finally {
+      if (saved !== undefined) process.env.OLLAMA_HOST = saved;
+    }
+  });
+});
+
+describe('Ollama chat', () => {
+  it('sends keep_alive, num_ctx and JSON mode, and reports real token counts at no cost', async () => {
+    const a = agent({ ollama: { keepAlive: '30m', numCtx: 16384 } });
+    const response = await sendOllamaPrompt(a, 'Hi', 128, 5000, { systemPrompt: 'Be brief.', responseFormat: 'json' });
+
+    expect(requests.at(-1)!.body).toEqual({
+      model: 'llama3.1:8b',
+      messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }],
+      stream: false,
+      options: { num_predict: 128, num_ctx: 16384 },
+      keep_alive: '30m',
+      format: 'json',
+    });
+    expect(response).toMatchObject({ success: true, content: 'Hello there', tokenCount: 29, tokenCountEstimated: false, costUnits: 0 });
+    // History is trimmed to the same context size the model is given
+    expect(getContextWindow(a)).toBe(16384);
+  });
+
+  it('streams NDJSON chunks and takes counts from the final message', async () => {
+    const chunks: string[] = [];
+    const response = await sendOllamaPrompt(agent(), 'Hi', 50, 5000, { onChunk: (c) => chunks.push(c) });
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(response).toMatchObject({ success: true, content: 'Hello', tokenCount: 12, tokenCountEstimated: false });
+  });
+
+  it('pulls a missing model when autoPull is set', async () => {
+    const missing = await sendOllamaPrompt(agent({ model: 'qwen2.5:7b' }), 'Hi', 10, 5000);
+    expect(missing).toMatchObject({ success: false, error: "HTTP 404: model 'qwen2.5:7b' not found" });
+
+    requests.length = 0;
+    const pulled = await sendOllamaPrompt(agent({ model: 'qwen2.5:7b', ollama: { autoPull: true } }), 'Hi', 10, 5000);
+    expect(pulled.success).toBe(true);
+    expect(requests.map(r => r.url)).toEqual(['/api/chat', '/api/pull', '/api/chat']);
+    expect(requests[1].body).toEqual({ model: 'qwen2.5:7b', stream: false });
+  });
+
+  it('does not count a pull against the request timeout, and cancelling stops it', async () => {
+    pullDelayMs = 300;
+    const slow = await sendOllamaPrompt(agent({ model: 'phi3:mini', ollama: { autoPull: true } }), 'Hi', 10, 150);
+    expect(slow).toMatchObject({ success: true, content: 'Hello there' });
+
+    pullDelayMs = 1000;
+    const cancel = new AbortController();
+    setTimeout(() => cancel.abort(), 50);
+    const cancelled = await sendOllamaPrompt(agent({ model: 'mistral:7b', ollama: { autoPull: true } }), 'Hi', 10, 5000, { signal: cancel.signal });
+    expect(cancelled).toMatchObject({ success: false, error: 'Task cancelled' });
+    expect(cancelled.latencyMs).toBeLessThan(500);
+    pullDelayMs = 0;
+  });
+
+  it('names the host when the server is not running', async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const response = await sendOllamaPrompt(agent({ endpoint: `127.0.0.1:${port}` }), 'Hi', 10, 5000);
+    expect(response.error).toBe(`Ollama not reachable at http://127.0.0.1:${port} (ECONNREFUSED)`);
+  });
+});
+
+describe('local models', () => {
+  it('lists installed models with load state from /api/ps', async () => {
+    const models = await listLocalModels(base);
+    expect(models.find(m => m.name === 'llama3.1:8b')).toEqual({
+      name: 'llama3.1:8b', sizeBytes: 4_900_000_000, modifiedAt: '2026-10-01T00:00:00Z', digest: 'sha256:abc',
+      family: 'llama', parameterSize: '8.0B', quantization: 'Q4_K_M',
+      loaded: true, expiresAt: '2026-10-19T13:00:00Z', sizeVramBytes: 5_000_000_000,
+    });
+    expect(models.find(m => m.name === 'qwen2.5:7b')).toMatchObject({ loaded: false });
+  });
+});
@@ -0,0 +1,200 @@
+// tests/openai-provider.test.ts
+// OpenAI-compatible provider against a local mock server: system messages, JSON mode,
+// per-model costs, Azure deployment routing and api-key auth, and error classification.
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { classifyHttpError, resolveChatTarget, sendOpenAIPrompt } from '../src/providers/openai.js';
+import { RateLimitError } from '../src/providers/rateLimiter.js';
+import type { AgentConfig } from '../src/types/index.js';
+import { makeAgent } from './helpers/fixtures.js';
+
+function agent(extra: Partial<AgentConfig> = {}): AgentConfig {
+  return makeAgent('openai-test', { provider: 'openai', model: 'gpt-4o-mini', transport: 'http', maxConcurrency: 1, ...extra });
+}
+
+interface Captured {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+let server: http.Server;
+let base: string;
+let last: Captured;
+/** Replies for the next requests; an empty queue answers with a normal completion */
+let replies: Array<(res: http.ServerResponse) => void> = [];
+
+function completion(content: string, finishReason = 'stop') {
+  return JSON.stringify({
+    choices: [{ message: { role: 'assistant', content }, finish_reason: finishReason }],
+    usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+  });
+}
+
+function error(status: number, body: unknown) {
+  return (res: http.ServerResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c) => { raw += c; });
+    req.on('end', () => {
+      last = { url: req.url!, headers: req.headers, body: JSON.parse(raw) };
+      const reply = replies.shift();
+      if (reply) return reply(res);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(completion('{"ok":true}'));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('OpenAI requests', () => {
+  it('sends the system prompt, history and JSON mode, and prices known models', async () => {
+    const response = await sendOpenAIPrompt(agent({ endpoint: `${base}/v1/` }), 'Return JSON', 200, 5000, {
+      systemPrompt: 'You are terse.',
+      history: [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }],
+      responseFormat: 'json',
+    });
+
+    expect(last.url).toBe('/v1/chat/completions');
+    expect(last.body.messages).toEqual([
+      { role: 'system', content: 'You are terse.' },
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' },
+      { role: 'user', content: 'Return JSON' },
+    ]);
+    expect(last.body.response_format).toEqual({ type: 'json_object' });
+    expect(last.body.max_tokens).toBe(200);
+    expect(response).toMatchObject({ success: true, content: '{"ok":true}', tokenCount: 1500, tokenCountEstimated: false });
+    // 1000 input x $0.15 + 500 output x $0.60 per Mtok
+    expect(response.costUnits).toBeCloseTo(0.00045, 10);
+  });
+
+  it('uses max_completion_tokens for o-series models and the cost multiplier for unknown ones', async () => {
+    await sendOpenAIPrompt(agent({ endpoint: base, model: 'o3-mini' }), 'hi', 50, 5000);
+    expect(last.body.max_completion_tokens).toBe(50);
+    expect(last.body.max_tokens).toBeUndefined();
+    expect(last.body.response_format).toBeUndefined();
+    expect(last.body.messages).toEqual([{ role: 'user', content: 'hi' }]);
+
+    const local = await sendOpenAIPrompt(agent({ endpoint: base, model: 'llama3.1:8b', costMultiplier: 2 }), 'hi', 50, 5000);
+    expect(local.costUnits).toBeCloseTo(2 * 1500 / 1_000_000, 10);
+  });
+});
+
+describe('Azure OpenAI', () => {
+  it('routes to the deployment with api-version and api-key auth', async () => {
+    const response = await sendOpenAIPrompt(agent({
+      endpoint: base,
+      model: 'gpt-4o',
+      azure: { deployment: 'prod-4o', apiVersion: '2024-06-01' },
+      env: { AZURE_OPENAI_API_KEY: 'azure-secret' },
+    }), 'hi', 10, 5000);
+
+    expect(response.success).toBe(true);
+    expect(last.url).toBe('/openai/deployments/prod-4o/chat/completions?api-version=2024-06-01');
+    expect(last.headers['api-key']).toBe('azure-secret');
+    expect(last.headers.authorization).toBeUndefined();
+  });
+
+  it('recognizes Azure endpoints and endpoints that already name the deployment', () => {
+    const fromHost = resolveChatTarget(agent({ endpoint: 'https://contoso.openai.azure.com/', model: 'gpt-4o', env: { OPENAI_API_KEY: 'k' } }));
+    expect(fromHost).toMatchObject({
+      url: 'https://contoso.openai.azure.com/openai/deployments/gpt-4o/chat/completions?api-version=2024-10-21',
+      headers: { 'api-key': 'k' },
+      azure: true,
+      local: false,
+    });
+
+    const named = resolveChatTarget(agent({ endpoint: 'https://contoso.openai.azure.com/openai/deployments/mini', env: { OPENAI_API_KEY: 'k' } }));
+    expect(named.url).toBe('https://contoso.openai.azure.com/openai/deployments/mini/chat/completions?api-version=2024-10-21');
+
+    const openai = resolveChatTarget(agent({ endpoint: 'https://api.openai.com/v1', env: { OPENAI_API_KEY: 'sk' } }));
+    expect(openai).toMatchObject({ url: 'https://api.openai.com/v1/chat/completions', headers: { Authorization: 'Bearer sk' }, azure: false });
+  });
+
+  it('streams Azure responses that start with prompt filter results', async () => {
+    replies.push((res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[],"prompt_filter_results":[{"prompt_index":0}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"str"},"finish_reason":null}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"eamed"},"finish_reason":"stop"}]}\n\n');
+      res.end('data: [DONE]\n\n');
+    });
+    const chunks: string[] = [];
+    const response = await sendOpenAIPrompt(agent({ endpoint: base, azure: {}, env: { AZURE_OPENAI_API_KEY: 'k' } }), 'hi', 10, 5000, {
+      onChunk: (c) => chunks.push(c),
+    });
+    expect(last.url).toBe('/openai/deployments/gpt-4o-mini/chat/completions?api-version=2024-10-21');
+    expect(chunks).toEqual(['str', 'eamed']);
+    expect(response).toMatchObject({ success: true, content: 'streamed', tokenCountEstimated: true });
+  });
+
+  it('requires a key for remote endpoints', async () => {
+    const saved = [process.env.AZURE_OPENAI_API_KEY, process.env.OPENAI_API_KEY];
+    delete process.env.AZURE_OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    try {
+      const response = await sendOpenAIPrompt(agent({ endpoint: 'https://contoso.openai.azure.com' }), 'hi', 10, 5000);
+      expect(response.error).toBe('AZURE_OPENAI_API_KEY not set and endpoint is not local');
+    } finally {
+      if (saved[0] !== undefined) process.env.AZURE_OPENAI_API_KEY = saved[0];
+      if (saved[1] !== undefined) process.env.OPENAI_API_KEY = saved[1];
+    }
+  });
+});
+
+describe('error classification', () => {
+  it('classifies HTTP errors by status and error code', () => {
+    const body = (message: string, code?: string) => JSON.stringify({ error: { message, code } });
+    expect(classifyHttpError(401, body('Incorrect API key provided')).message).toBe('HTTP 401 (auth): Incorrect API key provided');
+    expect(classifyHttpError(404, body('The API deployment for this resource does not exist.', 'DeploymentNotFound')).message)
+      .toBe('HTTP 404 (not-found): The API deployment for this resource does not exist.');
+    expect(classifyHttpError(400, body("This model's maximum context length is 8192 tokens", 'context_length_exceeded')))
+      .toMatchObject({ kind: 'context-length', status: 400 });
+    expect(classifyHttpError(400, body('filtered', 'content_filter'))).toMatchObject({ kind: 'content-filter' });
+    expect(classifyHttpError(400, body('Unrecognized request argument'))).toMatchObject({ kind: 'bad-request' });
+    expect(classifyHttpError(502, 'Bad Gateway').message).toBe('HTTP 502 (server): Bad Gateway');
+
+    const throttled = classifyHttpError(429, body('slow down'), new Headers({ 'retry-after': '2' }));
+    expect(throttled).toBeInstanceOf(RateLimitError);
+    expect(throttled).toMatchObject({ status: 429, retryAfterMs: 2000, message: 'HTTP 429 (rate-limit): slow down' });
+  });
+
+  it('reports classified, network, timeout and content-filter failures', async () => {
+    replies.push(error(401, { error: { message: 'bad key', code: 'invalid_api_key' } }));
+    const auth = await sendOpenAIPrompt(agent({ endpoint: base }), 'hi', 10, 5000);
+    expect(auth).toMatchObject({ success: false, error: 'HTTP 401 (auth): bad key' });
+
+    replies.push((res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(completion('', 'content_filter'));
+    });
+    const filtered = await sendOpenAIPrompt(agent({ endpoint: base }), 'hi', 10, 5000);
+    expect(filtered.error).toBe('Response blocked by content filter (content-filter)');
+
+    replies.push((res) => { setTimeout(() => res.end(completion('late')), 500); });
+    const slow = await sendOpenAIPrompt(agent({ endpoint: base }), 'hi', 10, 100);
+    expect(slow.error).toBe('Request timed out after 100ms (timeout)');
+
+    // A port nothing listens on
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+    const refused = await sendOpenAIPrompt(agent({ endpoint: `http://127.0.0.1:${port}` }), 'hi', 10, 5000);
+    expect(refused.error).toBe('Connection failed (network): ECONNREFUSED');
+  });
+});
@@ -0,0 +1,91 @@
+// tests/prompt-template.test.ts
+// Prompt template engine: legacy {param} substitution, filters, conditionals,
+// loops over list params, fragment includes, and line/column validation errors.
+
+import { describe, it, expect, afterAll } from 'vitest';
+import { renderTemplate, validateTemplate, templateVariables, type FragmentLoader } from '../src/services/promptTemplate.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const fragments: Record<string, string> = {
+  rules: 'Rules for {lang}:\n{#each rules as r}- {r}\n{/each}',
+  loop: '{> loop}',
+};
+const loader: FragmentLoader = name => fragments[name];
+
+const spies = createStoreSpies();
+afterAll(() => restoreSpies(spies));
+
+describe('renderTemplate', () => {
+  it('keeps plain {param} substitution and leaves non-tag braces alone', () => {
+    expect(renderTemplate('Review {code} in {context}', { code: 'x()', context: 'main.ts' }, loader))
+      .toBe('Review x() in main.ts');
+    expect(renderTemplate('function f() { return {a: 1}; } {{name}}', { name: 'n' }, loader))
+      .toBe('function f() { return {a: 1}; } {n}');
+    // Values are inserted verbatim, never re-parsed
+    expect(renderTemplate('{code}', { code: '{#if x}{/each}' }, loader)).toBe('{#if x}{/each}');
+  });
+
+  it('applies filters', () => {
+    const params = { text: '  Hello World  ', body: 'a\nb', tags: '["x","y"]', empty: '' };
+    expect(renderTemplate('{text | trim | upper}', params, loader)).toBe('HELLO WORLD');
+    expect(renderTemplate('{text | trim | truncate:5}', params, loader)).toBe('Hello...');
+    expect(renderTemplate('{body | indent:4}', params, loader)).toBe('    a\n    b');
+    expect(renderTemplate('{tags | join:" + "}', params, loader)).toBe('x + y');
+    expect(renderTemplate('{empty | default:"n/a"} {missing | default:"none"}', params, loader)).toBe('n/a none');
+    expect(renderTemplate('{text | trim | json}', params, loader)).toBe('"Hello World"');
+  });
+
+  it('renders conditionals, comparisons and else branches', () => {
+    const tpl = '{#if context}Context: {context}{:else}No context{/if} / {#if format == "bullets"}- {:else}{#if !strict}loose{/if}{/if}';
+    expect(renderTemplate(tpl, { context: 'repo', format: 'bullets' }, loader)).toBe('Context: repo / - ');
+    expect(renderTemplate(tpl, { context: '', format: 'prose', strict: 'false' }, loader)).toBe('No context / loose');
+  });
+
+  it('iterates JSON arrays and line lists with loop variables and dotted access', () => {
+    const files = JSON.stringify([{ path: 'a.ts', lines: 10 }, { path: 'b.ts', lines: 3 }]);
+    const tpl = '{#each files as f}{@index}:{f.path}({f.lines}){#if !@last}, {/if}{/each}';
+    expect(renderTemplate(tpl, { files }, loader)).toBe('0:a.ts(10), 1:b.ts(3)');
+    expect(renderTemplate('{#each items as i}[{i}]{:else}none{/each}', { items: 'one\n\n two \n' }, loader)).toBe('[one][two]');
+    expect(renderTemplate('{#each items as i}[{i}]{:else}none{/each}', { items: '' }, loader)).toBe('none');
+  });
+
+  it('includes fragments in the current scope', () => {
+    expect(renderTemplate('{> rules}Go.', { lang: 'TS', rules: 'no any\nstrict' }, loader))
+      .toBe('Rules for TS:\n- no any\n- strict\nGo.');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('reports syntax errors with line and column', () => {
+    expect(validateTemplate('ok\n  {#if a}\nnever closed', loader)).toEqual(['line 2, column 3: Unclosed {#if}']);
+    expect(validateTemplate('{#if a}x{/each}', loader)[0]).toBe('line 1, column 9: {/each} closes {#if} opened at line 1, column 1');
+    expect(validateTemplate('{a | shout}', loader)[0]).toMatch(/^line 1, column 1: Unknown filter "shout"/);
+    expect(validateTemplate('{a | truncate:"x"}', loader)[0]).toMatch(/needs a non-negative integer/);
+    expect(validateTemplate('x {:else}', loader)[0]).toBe('line 1, column 3: {:else} outside of {#if} or {#each}');
+    expect(validateTemplate('{#each items}', loader)[0]).toMatch(/expects "\{#each list as item\}"/);
+  });
+
+  it('checks includes for missing fragments and cycles', () => {
+    expect(validateTemplate('\n{> nope}', loader)).toEqual(['line 2, column 1: Fragment not found: nope']);
+    expect(validateTemplate('{> loop}', loader)[0]).toMatch(/Include cycle: loop -> loop/);
+  });
+
+  it('lists root variables across blocks and fragments, excluding loop aliases', () => {
+    expect(templateVariables('{#each items as it}{it.name}{@index}{/each}{#if flag}{> rules}{/if}', loader))
+      .toEqual(['items', 'flag', 'lang', 'rules']);
+  });
+
+  it('is enforced when skills are registered', () => {
+    expect(() => skillStore.register({
+      id: 'bad-template',
+      name: 'Bad',
+      description: '',
+      promptTemplate: 'line one\n{#each xs as x}{x | nope}{/each}',
+      strategy: 'single',
+      version: '1.0.0',
+      categories: [],
+    })).toThrow('Invalid prompt template for skill bad-template: line 2, column 16: Unknown filter "nope"');
+    expect(skillStore.get('bad-template')).toBeUndefined();
+  });
+});
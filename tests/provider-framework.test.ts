@@ -39,15 +39,30 @@ describe('Provider Framework', () => {
       expect(cap!.supportsConcurrency).toBe(true);
     });
 
+    it('returns capabilities for ollama', () => {
+      const cap = getProviderCapabilities('ollama');
+      expect(cap).toBeDefined();
+      expect(cap!.supportsTokenCounting).toBe(true);
+      expect(cap!.billingModel).toBe('free');
+      expect(cap!.supportsAcp).toBe(false);
+    });
+
+    it('returns capabilities for custom (MCP server / JSON-RPC agents)', () => {
+      const cap = getProviderCapabilities('custom');
+      expect(cap).toBeDefined();
+      expect(cap!.supportsTokenCounting).toBe(false);
+      expect(cap!.billingModel).toBe('unknown');
+    });
+
     it('returns undefined for unknown provider', () => {
       expect(getProviderCapabilities('unknown')).toBeUndefined();
     });
 
-    it('getAllProviderCapabilities returns all 3 providers', () => {
+    it('getAllProviderCapabilities returns all 5 providers', () => {
       const all = getAllProviderCapabilities();
-      expect(all.length).toBe(3);
+      expect(all.length).toBe(5);
       const names = all.map(c => c.name).sort();
-      expect(names).toEqual(['anthropic', 'copilot', 'openai']);
+      expect(names).toEqual(['anthropic', 'copilot', 'custom', 'ollama', 'openai']);
     });
 
     it('all capabilities have required fields', () => {
@@ -0,0 +1,162 @@
+// tests/provider-plugins.test.ts
+// Provider plugins: discovery from a plugins directory and PROVIDER_PLUGINS, contract validation
+// and apiVersion checks, routing to a loaded plugin, and mgr_list_providers / mgr_spawn_agent.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  discoverPluginSources, getProviderCapabilities, getProviderPlugins, initializeProviders,
+  loadProviderPlugins, validateProviderPlugin,
+} from '../src/providers/index.js';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { routeTask } from '../src/services/taskRouter.js';
+import { registerAgentTools } from '../src/server/tools/agentTools.js';
+import type { ProviderPluginInfo } from '../src/providers/index.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const CAPABILITIES = `{
+  supportsTokenCounting: true, supportsStreaming: false, billingModel: 'per-token',
+  supportsConcurrency: true, supportsAcp: false, description: 'Internal gateway',
+}`;
+
+/** Plugin fixtures written to the temp plugins directory */
+const FIXTURES: Record<string, string> = {
+  'a-gateway.mjs': `export default {
+    apiVersion: 1, name: 'gateway', version: '2.3.0', capabilities: ${CAPABILITIES},
+    async sendPrompt(agent, prompt) {
+      return { agentId: agent.id, model: agent.model, content: 'gateway: ' + prompt, tokenCount: 7,
+        latencyMs: 1, costUnits: 0.5, success: true, timestamp: new Date() };
+    },
+  };`,
+  'b-named.cjs': `exports.apiVersion = 1; exports.name = 'named-exports';
+    exports.capabilities = ${CAPABILITIES};
+    exports.sendPrompt = async () => ({ success: false, error: 'unused' });`,
+  'c-future.mjs': `export const apiVersion = 2; export const name = 'future';
+    export const capabilities = ${CAPABILITIES}; export const sendPrompt = async () => ({});`,
+  'd-duplicate.mjs': `export default { apiVersion: 1, name: 'openai', capabilities: ${CAPABILITIES}, sendPrompt: async () => ({}) };`,
+  'e-invalid.mjs': `export default { apiVersion: 1, name: 'Bad Name', capabilities: { billingModel: 'monthly' } };`,
+  'f-broken.mjs': 'export default {',
+  'notes.txt': 'not a plugin',
+};
+
+let tmpDir: string;
+let results: ProviderPluginInfo[];
+let spies: MockInstance[] = [];
+let client: Client;
+
+beforeAll(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'provider-plugins-'));
+  for (const [file, source] of Object.entries(FIXTURES)) fs.writeFileSync(path.join(tmpDir, file), source);
+  // Package directory, loaded through its package.json entry point
+  fs.mkdirSync(path.join(tmpDir, 'pkg-plugin', 'lib'), { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, 'pkg-plugin', 'package.json'), JSON.stringify({ name: 'pkg-plugin', type: 'module', main: 'lib/main.js' }));
+  fs.writeFileSync(path.join(tmpDir, 'pkg-plugin', 'lib', 'main.js'),
+    `export default { apiVersion: 1, name: 'packaged', version: '0.1.0', capabilities: ${CAPABILITIES}, sendPrompt: async () => ({}) };`);
+
+  spies = createStoreSpies();
+
+  initializeProviders();
+  results = await loadProviderPlugins(discoverPluginSources(tmpDir, ` , ${path.join(tmpDir, 'missing.mjs')}`));
+
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerAgentTools(server);
+  client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+  agentRegistry.unregister('gateway-agent');
+  skillStore.remove('gateway-skill');
+  restoreSpies(spies);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function resultFor(file: string): ProviderPluginInfo {
+  return results.find(r => path.basename(r.source) === file)!;
+}
+
+async function callTool(name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args }) as { content: Array<{ text: string }>; isError?: boolean };
+  return { text: result.content[0].text, isError: !!result.isError };
+}
+
+describe('plugin loading', () => {
+  it('discovers plugin files and package directories in name order, then listed sources', () => {
+    expect(results.map(r => path.basename(r.source))).toEqual([
+      'a-gateway.mjs', 'b-named.cjs', 'c-future.mjs', 'd-duplicate.mjs', 'e-invalid.mjs', 'f-broken.mjs', 'pkg-plugin', 'missing.mjs',
+    ]);
+  });
+
+  it('registers valid default-export, CommonJS and packaged plugins with their capabilities', () => {
+    expect(resultFor('a-gateway.mjs')).toEqual({ source: path.join(tmpDir, 'a-gateway.mjs'), status: 'loaded', name: 'gateway', version: '2.3.0', apiVersion: 1 });
+    expect(resultFor('b-named.cjs').status).toBe('loaded');
+    expect(resultFor('pkg-plugin')).toMatchObject({ status: 'loaded', name: 'packaged', version: '0.1.0' });
+    expect(getProviderCapabilities('gateway')).toMatchObject({ name: 'gateway', billingModel: 'per-token', description: 'Internal gateway' });
+    expect(getProviderPlugins()).toHaveLength(results.length);
+  });
+
+  it('rejects unsupported apiVersions, duplicate names, invalid exports and broken modules', () => {
+    expect(resultFor('c-future.mjs')).toMatchObject({ status: 'rejected', error: 'apiVersion 2 is not supported (this manager supports 1)' });
+    expect(resultFor('d-duplicate.mjs')).toMatchObject({ status: 'rejected', error: 'provider "openai" is already registered' });
+    expect(getProviderCapabilities('openai')!.description).not.toBe('Internal gateway');
+    expect(resultFor('e-invalid.mjs').error).toContain('name must be lowercase letters');
+    expect(resultFor('f-broken.mjs').error).toMatch(/^import failed: /);
+    expect(resultFor('missing.mjs').error).toMatch(/^import failed: /);
+    expect(getProviderCapabilities('future')).toBeUndefined();
+  });
+
+  it('lists every contract problem in a plugin', () => {
+    expect(validateProviderPlugin({ apiVersion: 1, name: 'x', sendPrompt: () => {}, capabilities: { name: 'y', billingModel: 'monthly' } })).toEqual([
+      'capabilities.supportsTokenCounting must be a boolean',
+      'capabilities.supportsStreaming must be a boolean',
+      'capabilities.supportsConcurrency must be a boolean',
+      'capabilities.supportsAcp must be a boolean',
+      'capabilities.billingModel must be one of per-token, premium-request, free, unknown',
+      'capabilities.description is required',
+      'capabilities.name "y" does not match name "x"',
+    ]);
+    expect(validateProviderPlugin(undefined)).toEqual(['module does not export a provider plugin']);
+    expect(validateProviderPlugin({ name: 'x' })[0]).toBe('missing apiVersion (this manager supports 1)');
+  });
+});
+
+describe('using plugin providers', () => {
+  it('spawns agents on a plugin provider and routes tasks to its sendPrompt', async () => {
+    const spawned = await callTool('mgr_spawn_agent', { id: 'gateway-agent', name: 'Gateway', provider: 'gateway', model: 'gw-large' });
+    expect(spawned.isError).toBe(false);
+
+    skillStore.register({
+      id: 'gateway-skill', name: 'gateway-skill', description: '', promptTemplate: 'Say {word}',
+      targetAgents: ['gateway-agent'], strategy: 'single', version: '1.0.0', categories: [],
+    });
+    const result = await routeTask({ taskId: 'plugin-task-1', skillId: 'gateway-skill', params: { word: 'hi' }, priority: 0, createdAt: new Date() });
+    expect(result).toMatchObject({ success: true, finalContent: 'gateway: Say hi', totalTokens: 7 });
+  });
+
+  it('refuses agents on providers that are neither built in nor loaded', async () => {
+    const spawned = await callTool('mgr_spawn_agent', { id: 'ghost-agent', name: 'Ghost', provider: 'future', model: 'm' });
+    expect(spawned.isError).toBe(true);
+    expect(spawned.text).toContain('Unknown provider: future');
+  });
+
+  it('mgr_list_providers shows built-ins, loaded plugins with versions and agent counts, and rejections', async () => {
+    const listed = JSON.parse((await callTool('mgr_list_providers')).text);
+    expect(listed.pluginApiVersion).toBe(1);
+    expect(listed.providers.find((p: any) => p.name === 'anthropic')).toMatchObject({ source: 'builtin' });
+    expect(listed.providers.find((p: any) => p.name === 'gateway')).toMatchObject({
+      source: 'plugin', version: '2.3.0', pluginSource: path.join(tmpDir, 'a-gateway.mjs'), agents: 1,
+      capabilities: { billingModel: 'per-token', supportsStreaming: false },
+    });
+    expect(listed.rejectedPlugins.map((p: any) => path.basename(p.source))).toEqual([
+      'c-future.mjs', 'd-duplicate.mjs', 'e-invalid.mjs', 'f-broken.mjs', 'missing.mjs',
+    ]);
+  });
+});
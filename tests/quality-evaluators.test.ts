@@ -0,0 +1,154 @@
+// tests/quality-evaluators.test.ts
+// Pluggable quality evaluators: assertion and schema checks, LLM judge escalation in
+// cost-optimized routing, evaluator-driven fallback, and score recording in history and meta insights.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { registerProvider, routeTask, getRouterMetrics } from '../src/services/taskRouter.js';
+import { evaluateResponse, registerEvaluator, type JudgeFn } from '../src/services/qualityEvaluator.js';
+import { initMetaCollector, shutdownMetaCollector, getSkillInsights, getAgentInsights } from '../src/services/metaCollector.js';
+import type { AgentConfig, AgentResponse, RoutingStrategy, SkillDefinition } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+function agent(id: string, costMultiplier: number, tags: string[]): AgentConfig {
+  return makeAgent(id, { provider: 'mock-eval', costMultiplier, tags });
+}
+
+function response(agentId: string, content: string): AgentResponse {
+  return { agentId, model: 'm', content, tokenCount: 1, latencyMs: 1, costUnits: 0, success: true, timestamp: new Date() };
+}
+
+/** Scripted replies per agent, consumed in order */
+const replies = new Map<string, string[]>();
+const noJudge: JudgeFn = async () => { throw new Error('judge not expected'); };
+let spies: MockInstance[] = [];
+let metaDir: string;
+let counter = 0;
+
+function skill(strategy: RoutingStrategy, evaluator: SkillDefinition['evaluator']): SkillDefinition {
+  const def: SkillDefinition = {
+    id: `eval-${strategy}-${evaluator?.type}`,
+    name: 'Eval',
+    description: '',
+    promptTemplate: 'Explain {topic}',
+    targetTags: ['eval-worker'],
+    strategy,
+    evaluator,
+    version: '1.0.0',
+    categories: [],
+  };
+  skillStore.register(def);
+  return def;
+}
+
+function run(skillId: string) {
+  return routeTask({ taskId: `eval-${++counter}`, skillId, params: { topic: 'closures' }, priority: 0, createdAt: new Date() });
+}
+
+beforeAll(() => {
+  metaDir = mkdtempSync(join(tmpdir(), 'eval-meta-'));
+  process.env.META_DIR = metaDir;
+  spies = createStoreSpies();
+  initMetaCollector();
+  registerProvider('mock-eval', async (a) => ({
+    ...response(a.id, replies.get(a.id)?.shift() ?? 'no reply scripted'),
+    tokenCount: 10,
+  }));
+  agentRegistry.register(agent('eval-cheap', 1, ['eval-worker']));
+  agentRegistry.register(agent('eval-pricey', 5, ['eval-worker']));
+  agentRegistry.register(agent('eval-judge', 1, ['eval-judge']));
+});
+
+afterAll(() => {
+  shutdownMetaCollector();
+  for (const s of skillStore.list()) if (s.id.startsWith('eval-')) skillStore.remove(s.id);
+  for (const id of ['eval-cheap', 'eval-pricey', 'eval-judge']) agentRegistry.unregister(id);
+  restoreSpies(spies);
+  delete process.env.META_DIR;
+  rmSync(metaDir, { recursive: true, force: true });
+});
+
+describe('evaluateResponse', () => {
+  it('scores assertions as the fraction that hold and passes only when all do', async () => {
+    const s: SkillDefinition = {
+      id: 'x', name: 'x', description: '', promptTemplate: '', strategy: 'single', version: '1', categories: [],
+      evaluator: { type: 'assertions', assertions: [
+        { kind: 'matches', value: '^verdict: (pass|fail)$', flags: 'm' },
+        { kind: 'not-contains', value: 'TODO' },
+        { kind: 'min-length', value: '10' },
+      ] },
+    };
+    expect(await evaluateResponse(response('a', 'verdict: pass\nall good'), '', s, noJudge))
+      .toEqual({ agentId: 'a', evaluator: 'assertions', score: 1, pass: true, reason: undefined, judgeAgentId: undefined });
+    const partial = await evaluateResponse(response('a', 'verdict: maybe TODO'), '', s, noJudge);
+    expect(partial.score).toBeCloseTo(1 / 3);
+    expect(partial.pass).toBe(false);
+    expect(partial.reason).toBe('Failed: matches ^verdict: (pass|fail)$; not-contains TODO');
+  });
+
+  it('checks JSON against the evaluator schema', async () => {
+    const s: SkillDefinition = {
+      id: 'x', name: 'x', description: '', promptTemplate: '', strategy: 'single', version: '1', categories: [],
+      evaluator: { type: 'json-schema', schema: { type: 'object', required: ['answer'] } },
+    };
+    expect((await evaluateResponse(response('a', 'Sure: {"answer": 42}'), '', s, noJudge)).pass).toBe(true);
+    expect(await evaluateResponse(response('a', '{"other": 1}'), '', s, noJudge))
+      .toMatchObject({ score: 0, pass: false, reason: '$: missing required property "answer"' });
+  });
+
+  it('supports custom evaluators and falls back to the heuristic when one throws', async () => {
+    registerEvaluator('eval-length', ({ response: r }) => ({ score: Math.min(1, r.content.length / 20) }));
+    registerEvaluator('eval-broken', () => { throw new Error('boom'); });
+    const base = { id: 'x', name: 'x', description: '', promptTemplate: '', strategy: 'single' as const, version: '1', categories: [] };
+    expect(await evaluateResponse(response('a', 'ten chars!'), '', { ...base, evaluator: { type: 'eval-length' } }, noJudge))
+      .toMatchObject({ evaluator: 'eval-length', score: 0.5, pass: true });
+    expect(await evaluateResponse(response('a', 'ok'), 'Explain', { ...base, evaluator: { type: 'eval-broken' } }, noJudge))
+      .toMatchObject({ evaluator: 'heuristic', reason: 'eval-broken unavailable: boom' });
+  });
+
+  it('validates evaluator config on skill registration', () => {
+    expect(() => skill('fallback', { type: 'llm-judge' })).toThrow('Invalid evaluator for skill eval-fallback-llm-judge: llm-judge requires judgeTags');
+    expect(() => skill('fallback', { type: 'assertions', assertions: [{ kind: 'matches', value: '(' }] }))
+      .toThrow(/Invalid regex in matches assertion/);
+    expect(() => skill('fallback', { type: 'nope' })).toThrow(/Unknown evaluator "nope"/);
+  });
+});
+
+describe('evaluator-driven routing', () => {
+  it('escalates cost-optimized tasks on a low judge score and records the scores', async () => {
+    const s = skill('cost-optimized', { type: 'llm-judge', judgeTags: ['eval-judge'], rubric: 'Mentions lexical scope', threshold: 0.7 });
+    replies.set('eval-cheap', ['Closures are great.']);
+    replies.set('eval-pricey', ['A closure captures variables from its lexical scope.']);
+    replies.set('eval-judge', ['{"score": 3, "reason": "vague"}', '```json\n{"score": 9, "reason": "precise"}\n```']);
+
+    const result = await run(s.id);
+    expect(result.finalContent).toBe('A closure captures variables from its lexical scope.');
+    expect(result.evaluations).toEqual([
+      { agentId: 'eval-cheap', evaluator: 'llm-judge', score: 0.3, pass: false, reason: 'vague', judgeAgentId: 'eval-judge' },
+      { agentId: 'eval-pricey', evaluator: 'llm-judge', score: 0.9, pass: true, reason: 'precise', judgeAgentId: 'eval-judge' },
+    ]);
+    // Judge calls are billed to the task but never become the output; the escalated answer wins
+    expect(result.responses.map(r => r.agentId)).toEqual(['eval-cheap', 'eval-pricey']);
+    expect(result.totalTokens).toBe(40);
+    expect(getRouterMetrics().recentTasks[0].evaluations).toEqual(result.evaluations);
+    expect(agentRegistry.get('eval-judge')?.activeTasks).toBe(0);
+
+    const insight = getSkillInsights().find(k => k.skillId === s.id);
+    expect(insight?.quality).toMatchObject({ evaluations: 2, passCount: 1, avgScore: 0.6, evaluators: ['llm-judge'] });
+    expect(getAgentInsights().find(a => a.agentId === 'eval-pricey')?.quality).toMatchObject({ evaluations: 1, avgScore: 0.9 });
+  });
+
+  it('falls through fallback agents whose response fails the evaluator', async () => {
+    const s = skill('fallback', { type: 'assertions', assertions: [{ kind: 'contains', value: 'scope' }] });
+    replies.set('eval-cheap', ['Closures are functions.']);
+    replies.set('eval-pricey', ['Closures keep their defining scope alive.']);
+
+    const result = await run(s.id);
+    expect(result.finalContent).toBe('Closures keep their defining scope alive.');
+    expect(result.evaluations?.map(e => [e.agentId, e.pass])).toEqual([['eval-cheap', false], ['eval-pricey', true]]);
+  });
+});
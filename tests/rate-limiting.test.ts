@@ -0,0 +1,160 @@
+// tests/rate-limiting.test.ts
+// Provider rate limiting: retry-after parsing, jittered backoff, token buckets shared per
+// API key, and 429 retries of OpenAI-compatible requests against a local server.
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { sendOpenAIPrompt } from '../src/providers/openai.js';
+import { backoffDelay, parseRetryAfter, rateLimiter, RateLimitError, throttleInfo } from '../src/providers/rateLimiter.js';
+import type { AgentConfig } from '../src/types/index.js';
+import { makeAgent } from './helpers/fixtures.js';
+
+function agent(id: string, extra: Partial<AgentConfig> = {}): AgentConfig {
+  return makeAgent(id, { provider: 'openai', model: 'gpt-test', transport: 'http', ...extra });
+}
+
+describe('retry-after and backoff', () => {
+  it('reads retry-after-ms, retry-after seconds and HTTP dates', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '250', 'retry-after': '9' }))).toBe(250);
+    expect(parseRetryAfter({ 'retry-after': '2' })).toBe(2000);
+    expect(parseRetryAfter({ 'retry-after': 'Mon, 19 Oct 2026 12:00:03 GMT' }, now)).toBe(3000);
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+
+  it('recognizes throttling errors from both providers', () => {
+    expect(throttleInfo(new RateLimitError('HTTP 429', 429, 100))).toEqual({ retryAfterMs: 100 });
+    expect(throttleInfo({ status: 529, headers: { 'retry-after': '1' } })).toEqual({ retryAfterMs: 1000 });
+    expect(throttleInfo({ error: { type: 'error', error: { type: 'overloaded_error' } } })).toEqual({ retryAfterMs: undefined });
+    expect(throttleInfo({ status: 400 })).toBeUndefined();
+    expect(throttleInfo(new Error('boom'))).toBeUndefined();
+  });
+
+  it('backs off exponentially with jitter, capped, unless the server says when', () => {
+    expect(backoffDelay(0, undefined, () => 0)).toBe(500);
+    expect(backoffDelay(0, undefined, () => 1)).toBe(1000);
+    expect(backoffDelay(3, undefined, () => 1)).toBe(8000);
+    expect(backoffDelay(20, undefined, () => 1)).toBe(60_000);
+    expect(backoffDelay(2, 1500, () => 0)).toBe(1500);
+  });
+});
+
+describe('token buckets', () => {
+  it('waits for tokens and credits back unused ones', async () => {
+    const limited = agent('limit-tpm', { provider: 'custom', rateLimit: { tokensPerMinute: 600 } });
+    const call = (estimatedTokens: number) =>
+      rateLimiter.run({ agent: limited, provider: 'custom', apiKey: 'key-tpm', estimatedTokens }, async () => 'ok', () => estimatedTokens / 2);
+
+    await call(600);
+    expect(rateLimiter.getAgentState('limit-tpm')).toMatchObject({ tokensPerMinute: 600, availableTokens: 300, waitedMs: 0 });
+
+    // 300 tokens left and 304 needed - about 0.4 s at 10 tokens/s
+    await call(304);
+    const state = rateLimiter.getAgentState('limit-tpm')!;
+    expect(state.waitedMs).toBeGreaterThan(0);
+    expect(state.waitedMs).toBeLessThan(1000);
+    expect(state.bucket).toMatch(/^custom:[0-9a-f]{8}$/);
+  });
+
+  it('pauses every agent on a key after a throttled response', async () => {
+    const a = agent('limit-shared-a', { provider: 'custom' });
+    const b = agent('limit-shared-b', { provider: 'custom' });
+    let throttled = false;
+    const first = rateLimiter.run({ agent: a, provider: 'custom', apiKey: 'key-shared', estimatedTokens: 1 }, async () => {
+      if (!throttled) {
+        throttled = true;
+        throw new RateLimitError('HTTP 429', 429, 150);
+      }
+      return 'a';
+    }, () => undefined);
+    // Let the first call fail and pause the bucket before the second starts
+    await new Promise(r => setTimeout(r, 20));
+    const second = rateLimiter.run({ agent: b, provider: 'custom', apiKey: 'key-shared', estimatedTokens: 1 }, async () => 'b', () => undefined);
+
+    expect(await Promise.all([first, second])).toEqual(['a', 'b']);
+    expect(rateLimiter.getAgentState('limit-shared-a')).toMatchObject({ throttled: 1, retries: 1 });
+    expect(rateLimiter.getAgentState('limit-shared-b')).toMatchObject({ throttled: 0, retries: 0 });
+    expect(rateLimiter.getAgentState('limit-shared-b')!.waitedMs).toBeGreaterThan(50);
+  });
+
+  it('holds agents sharing a key to the strictest limit among them', async () => {
+    const loose = agent('limit-mixed-loose', { provider: 'custom', rateLimit: { tokensPerMinute: 6000 } });
+    const strict = agent('limit-mixed-strict', { provider: 'custom', rateLimit: { tokensPerMinute: 600 } });
+    const unset = agent('limit-mixed-unset', { provider: 'custom' });
+    const call = (a: AgentConfig, estimatedTokens: number) =>
+      rateLimiter.run({ agent: a, provider: 'custom', apiKey: 'key-mixed', estimatedTokens }, async () => 'ok', () => estimatedTokens);
+
+    await call(strict, 300);
+    await call(loose, 200);
+    await call(unset, 100);
+    expect(rateLimiter.getAgentState('limit-mixed-loose')).toMatchObject({ tokensPerMinute: 600, availableTokens: 0, waitedMs: 0 });
+
+    // Alternating agents neither raise the limit nor refill the bucket - 5 tokens at 10 tokens/s
+    await call(loose, 5);
+    expect(rateLimiter.getAgentState('limit-mixed-loose')!.waitedMs).toBeGreaterThan(300);
+    expect(rateLimiter.getAgentState('limit-mixed-unset')).toMatchObject({ tokensPerMinute: 600, waitedMs: 0 });
+  });
+});
+
+describe('OpenAI 429 retries', () => {
+  let server: http.Server;
+  let endpoint: string;
+  /** Status codes to answer with before succeeding */
+  let queue: number[] = [];
+  let requests = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        requests++;
+        const status = queue.shift();
+        if (status) {
+          res.writeHead(status, { 'Content-Type': 'application/json', 'retry-after-ms': '20' });
+          res.end(JSON.stringify({ error: { message: 'slow down' } }));
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          choices: [{ message: { content: 'done' } }],
+          usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('retries throttled requests and reports the retries in agent state', async () => {
+    queue = [429, 503];
+    requests = 0;
+    const response = await sendOpenAIPrompt(agent('limit-openai', { endpoint }), 'hi', 10, 5000);
+
+    expect(response.success).toBe(true);
+    expect(response.content).toBe('done');
+    expect(requests).toBe(3);
+    expect(rateLimiter.getAgentState('limit-openai')).toMatchObject({ throttled: 2, retries: 2, maxRetries: 3 });
+  });
+
+  it('gives up after maxRetries and does not retry other errors', async () => {
+    queue = [429, 429, 429];
+    requests = 0;
+    const limited = await sendOpenAIPrompt(agent('limit-giveup', { endpoint, rateLimit: { maxRetries: 1 } }), 'hi', 10, 5000);
+    expect(limited.success).toBe(false);
+    expect(limited.error).toMatch(/^HTTP 429/);
+    expect(requests).toBe(2);
+
+    queue = [400];
+    requests = 0;
+    const rejected = await sendOpenAIPrompt(agent('limit-bad-request', { endpoint }), 'hi', 10, 5000);
+    expect(rejected.error).toMatch(/^HTTP 400/);
+    expect(requests).toBe(1);
+    expect(rateLimiter.getAgentState('limit-bad-request')).toMatchObject({ throttled: 0, retries: 0 });
+  });
+});
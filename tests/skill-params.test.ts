@@ -0,0 +1,124 @@
+// tests/skill-params.test.ts
+// Skill parameter schemas: schema validation at registration, defaults and
+// type/enum checks on caller params, queue rejection, and automation mappings.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import { skillStore } from '../src/services/skillStore.js';
+import { taskQueue } from '../src/services/taskQueue.js';
+import {
+  validateParameterSchema,
+  resolveSkillParams,
+  formatParamErrors,
+  paramMappingErrors,
+  skillParameters,
+} from '../src/services/skillParams.js';
+import type { SkillDefinition } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const TYPED_SKILL: SkillDefinition = {
+  id: 'typed-skill',
+  name: 'Typed Skill',
+  description: '',
+  promptTemplate: 'Summarize {text} in {words} words as {format} (strict: {strict})',
+  parameters: [
+    { name: 'text', required: true, description: 'Text to summarize' },
+    { name: 'words', type: 'integer', default: '50' },
+    { name: 'format', enum: ['bullets', 'prose'], default: 'prose' },
+    { name: 'strict', type: 'boolean' },
+  ],
+  strategy: 'single',
+  version: '1.0.0',
+  categories: [],
+};
+
+let spies: MockInstance[] = [];
+
+beforeAll(() => {
+  spies = createStoreSpies();
+});
+
+afterAll(() => {
+  taskQueue.stop();
+  skillStore.remove(TYPED_SKILL.id);
+  restoreSpies(spies);
+});
+
+describe('validateParameterSchema', () => {
+  it('accepts a consistent schema', () => {
+    expect(validateParameterSchema(TYPED_SKILL)).toEqual([]);
+  });
+
+  it('reports duplicates, bad defaults/enums and undeclared placeholders', () => {
+    const errors = validateParameterSchema({
+      promptTemplate: '{a} {b} {missing}',
+      parameters: [
+        { name: 'a', type: 'number', default: 'ten' },
+        { name: 'a' },
+        { name: 'b', type: 'integer', enum: ['1', 'two'] },
+        { name: 'bad name' },
+      ],
+    }).join('\n');
+    expect(errors).toMatch(/"a" default invalid: "a" must be a number/);
+    expect(errors).toMatch(/Duplicate parameter: a/);
+    expect(errors).toMatch(/"b" enum value invalid: "b" must be an integer \(got "two"\)/);
+    expect(errors).toMatch(/Invalid parameter name "bad name"/);
+    expect(errors).toMatch(/\{missing\} is not a declared parameter/);
+  });
+
+  it('is enforced by skillStore.register', () => {
+    expect(() => skillStore.register({ ...TYPED_SKILL, id: 'typed-bad', parameters: [] }))
+      .toThrow(/Invalid parameter schema for skill typed-bad: Template variable \{text\}/);
+    expect(skillStore.get('typed-bad')).toBeUndefined();
+  });
+});
+
+describe('resolveSkillParams', () => {
+  it('applies defaults and fills optional params', () => {
+    const { params, errors } = resolveSkillParams(TYPED_SKILL, { text: 'hello', extra: 'kept' });
+    expect(errors).toEqual([]);
+    expect(params).toEqual({ text: 'hello', words: '50', format: 'prose', strict: '', extra: 'kept' });
+    expect(skillStore.resolvePrompt(TYPED_SKILL, { text: 'hello' }))
+      .toBe('Summarize hello in 50 words as prose (strict: )');
+  });
+
+  it('reports missing, mistyped and out-of-enum params', () => {
+    const { errors } = resolveSkillParams(TYPED_SKILL, { text: '', words: '5.5', format: 'haiku', strict: 'yes' });
+    expect(errors).toEqual([
+      'Missing required parameter "text" - Text to summarize',
+      '"words" must be an integer (got "5.5")',
+      '"format" must be one of: bullets, prose (got "haiku")',
+      '"strict" must be "true" or "false" (got "yes")',
+    ]);
+    expect(formatParamErrors(TYPED_SKILL, errors.slice(0, 1))).toMatch(
+      /Expected: text: string \(required\), words: integer = "50", format: string = "prose" \[bullets\|prose\], strict: boolean$/
+    );
+  });
+
+  it('passes params through for skills without a schema', () => {
+    const loose: SkillDefinition = { ...TYPED_SKILL, parameters: undefined };
+    expect(resolveSkillParams(loose, {})).toEqual({ params: {}, errors: [] });
+    expect(skillParameters(loose).map(p => p.name)).toEqual(['text', 'words', 'format', 'strict']);
+  });
+
+  it('rejects invalid params before queueing', async () => {
+    skillStore.register(TYPED_SKILL);
+    await expect(taskQueue.submit({
+      taskId: 'typed-task-1',
+      skillId: TYPED_SKILL.id,
+      params: { words: 'many' },
+      priority: 0,
+      createdAt: new Date(),
+    })).rejects.toThrow(/Invalid params for skill typed-skill: Missing required parameter "text".*"words" must be an integer/);
+    expect(taskQueue.get('typed-task-1')).toBeUndefined();
+  });
+});
+
+describe('paramMappingErrors', () => {
+  it('requires every required param without a default to be mapped', () => {
+    expect(paramMappingErrors(TYPED_SKILL, { fromEvent: { text: 'data.summary' } })).toEqual([]);
+    expect(paramMappingErrors(TYPED_SKILL, { static: { format: 'haiku' } })).toEqual([
+      'Required parameter "text" is not mapped (staticParams, eventParams or templateParams)',
+      'Static param "format" must be one of: bullets, prose (got "haiku")',
+    ]);
+  });
+});
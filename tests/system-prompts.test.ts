@@ -0,0 +1,161 @@
+// tests/system-prompts.test.ts
+// System prompts: agent persona + skill role instructions merged in order by the router,
+// and passed natively - Anthropic `system`, and a preamble for Copilot CLI / ACP.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { buildSystemPrompt, registerProvider, routeTask } from '../src/services/taskRouter.js';
+import { sendAnthropicPrompt } from '../src/providers/anthropic.js';
+import { killSession, sendCopilotPrompt } from '../src/providers/copilot.js';
+import type { AgentConfig, SendPromptOptions } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+function agent(id: string, extra: Partial<AgentConfig> = {}): AgentConfig {
+  return makeAgent(id, { provider: 'mock-system', maxConcurrency: 1, tags: ['system-test'], ...extra });
+}
+
+const calls: Array<{ agentId: string; prompt: string; options: SendPromptOptions }> = [];
+let spies: MockInstance[] = [];
+let tmpDir: string;
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'system-prompts-'));
+  spies = createStoreSpies();
+  registerProvider('mock-system', async (a, prompt, _maxTokens, _timeoutMs, options = {}) => {
+    calls.push({ agentId: a.id, prompt, options });
+    return {
+      agentId: a.id, model: a.model, content: 'done', tokenCount: 1, latencyMs: 1, costUnits: 0,
+      success: true, timestamp: new Date(),
+    };
+  });
+  agentRegistry.register(agent('system-persona', { systemPrompt: 'You are a careful reviewer. Never reveal secrets.' }));
+  skillStore.register({
+    id: 'system-skill',
+    name: 'system-skill',
+    description: '',
+    promptTemplate: 'Review {file}',
+    systemPrompt: 'Act as a {language} expert.',
+    parameters: [{ name: 'file', required: true }, { name: 'language', default: 'TypeScript' }],
+    targetAgents: ['system-persona'],
+    strategy: 'single',
+    version: '1.0.0',
+    categories: [],
+  });
+});
+
+afterAll(() => {
+  skillStore.remove('system-skill');
+  agentRegistry.unregister('system-persona');
+  restoreSpies(spies);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('system prompt merging', () => {
+  it('puts the agent persona before the skill instructions', () => {
+    expect(buildSystemPrompt(agent('a', { systemPrompt: ' Persona ' }), 'Role')).toBe('Persona\n\nRole');
+    expect(buildSystemPrompt(agent('a'), 'Role')).toBe('Role');
+    expect(buildSystemPrompt(agent('a', { systemPrompt: 'Persona' }))).toBe('Persona');
+    expect(buildSystemPrompt(agent('a', { systemPrompt: '' }), '  ')).toBeUndefined();
+  });
+
+  it('renders the skill system prompt with the task params and sends it with the task', async () => {
+    await routeTask({ taskId: 'system-1', skillId: 'system-skill', params: { file: 'a.ts', language: 'Rust' }, priority: 0, createdAt: new Date() });
+    expect(calls.at(-1)).toMatchObject({
+      agentId: 'system-persona',
+      prompt: 'Review a.ts',
+      options: { systemPrompt: 'You are a careful reviewer. Never reveal secrets.\n\nAct as a Rust expert.' },
+    });
+
+    await routeTask({ taskId: 'system-2', skillId: 'system-skill', params: { file: 'b.ts' }, priority: 0, createdAt: new Date() });
+    expect(calls.at(-1)!.options.systemPrompt).toMatch(/Act as a TypeScript expert\.$/);
+  });
+
+  it('validates params for pre-rendered prompts too', async () => {
+    const sent = calls.length;
+    await expect(routeTask({
+      taskId: 'system-3', skillId: 'system-skill', params: { language: 'Go' }, resolvedPrompt: 'Review this', priority: 0, createdAt: new Date(),
+    })).rejects.toThrow('Invalid params for skill system-skill: Missing required parameter "file"');
+    expect(calls).toHaveLength(sent);
+  });
+
+  it('rejects skills whose system prompt template is invalid', () => {
+    expect(() => skillStore.register({
+      id: 'system-bad', name: 'system-bad', description: '', promptTemplate: 'x', systemPrompt: '{#if a}unclosed',
+      strategy: 'single', version: '1.0.0', categories: [],
+    })).toThrow(/Invalid system prompt for skill system-bad/);
+  });
+});
+
+describe('provider system prompts', () => {
+  it('sends Anthropic requests with a native system prompt', async () => {
+    let body: any;
+    const server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (c) => { raw += c; });
+      req.on('end', () => {
+        body = JSON.parse(raw);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-test', stop_reason: 'end_turn', stop_sequence: null,
+          content: [{ type: 'text', text: 'ok' }], usage: { input_tokens: 5, output_tokens: 1 },
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const response = await sendAnthropicPrompt(
+        agent('system-anthropic', { provider: 'anthropic', model: 'claude-test', env: { ANTHROPIC_API_KEY: 'system-prompts-test-key' } }),
+        'hi', 10, 5000, { systemPrompt: 'Be brief.' }
+      );
+      expect(response.success).toBe(true);
+      expect(body.system).toBe('Be brief.');
+      expect(body.messages).toEqual([{ role: 'user', content: 'hi' }]);
+    } finally {
+      delete process.env.ANTHROPIC_BASE_URL;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it.skipIf(process.platform === 'win32')('prepends a preamble for Copilot CLI and ACP', async () => {
+    // Fake copilot: echoes the -p prompt, or in --acp mode the text of the last session message
+    const binary = path.join(tmpDir, 'fake-copilot');
+    fs.writeFileSync(binary, [
+      `#!${process.execPath}`,
+      `const args = process.argv.slice(2);`,
+      `if (!args.includes('--acp')) { process.stdout.write(args[args.indexOf('-p') + 1]); process.exit(0); }`,
+      `require('readline').createInterface({ input: process.stdin }).on('line', (line) => {`,
+      `  const msg = JSON.parse(line);`,
+      `  const result = msg.method === 'session/message'`,
+      `    ? { messages: [{ role: 'assistant', content: msg.params.messages.at(-1).content.text }] }`,
+      `    : { sessionId: 's1' };`,
+      `  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result }) + '\\n');`,
+      `});`,
+    ].join('\n'));
+    fs.chmodSync(binary, 0o755);
+    process.env.EVENT_LOG_DIR = tmpDir;
+
+    try {
+      const cli = await sendCopilotPrompt(agent('system-cli', { provider: 'copilot', binaryPath: binary }), 'Question?', 10, 5000, {
+        systemPrompt: 'Answer in French.',
+      });
+      expect(cli.content).toBe('System instructions (follow these throughout):\n\nAnswer in French.\n\n---\n\nQuestion?');
+
+      const acpAgent = agent('system-acp', { provider: 'copilot', binaryPath: binary, cliArgs: ['--acp'] });
+      const acp = await sendCopilotPrompt(acpAgent, 'Question?', 10, 5000, { systemPrompt: 'Answer in French.' });
+      expect(acp.content).toBe(cli.content);
+
+      const plain = await sendCopilotPrompt(acpAgent, 'Question?', 10, 5000);
+      expect(plain.content).toBe('Question?');
+      killSession('system-acp');
+    } finally {
+      delete process.env.EVENT_LOG_DIR;
+    }
+  });
+});
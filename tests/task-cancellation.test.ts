@@ -0,0 +1,161 @@
+// tests/task-cancellation.test.ts
+// Async task submission: status polling through the queue lifecycle, cancellation
+// aborting in-flight provider calls via AbortSignal, and task-history fallback.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { registerProvider, routeTask } from '../src/services/taskRouter.js';
+import { taskQueue } from '../src/services/taskQueue.js';
+import type { AgentConfig, TaskRequest } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const CANCEL_AGENT: AgentConfig = {
+  id: 'cancel-agent-1',
+  name: 'Cancel Agent',
+  provider: 'mock-cancel',
+  model: 'mock-cancel-model',
+  transport: 'stdio',
+  endpoint: '',
+  maxConcurrency: 1,
+  costMultiplier: 1,
+  tags: ['cancel-test'],
+  canMutate: false,
+  timeoutMs: 5000,
+};
+
+/** Release functions for in-flight provider calls, keyed by prompt */
+const gates = new Map<string, () => void>();
+/** Prompts whose provider call observed an abort */
+const aborted: string[] = [];
+
+let spies: MockInstance[] = [];
+let counter = 0;
+
+function request(text: string): TaskRequest {
+  return {
+    taskId: `cancel-test-${++counter}`,
+    skillId: 'cancel-skill',
+    params: { text },
+    priority: 0,
+    createdAt: new Date(),
+  };
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise(r => setTimeout(r, 5));
+  }
+  expect(check()).toBe(true);
+}
+
+beforeAll(() => {
+  spies = createStoreSpies();
+
+  // Blocks until released by the test or aborted through options.signal
+  registerProvider('mock-cancel', async (agent, prompt, _maxTokens, _timeoutMs, options) => {
+    const cancelled = await new Promise<boolean>(resolve => {
+      gates.set(prompt, () => resolve(false));
+      options?.signal?.addEventListener('abort', () => resolve(true), { once: true });
+    });
+    gates.delete(prompt);
+    if (cancelled) aborted.push(prompt);
+    return {
+      agentId: agent.id,
+      model: agent.model,
+      content: cancelled ? '' : `done: ${prompt}`,
+      tokenCount: cancelled ? 0 : 2,
+      latencyMs: 1,
+      costUnits: 0,
+      success: !cancelled,
+      error: cancelled ? 'Task cancelled' : undefined,
+      timestamp: new Date(),
+    };
+  });
+
+  agentRegistry.register(CANCEL_AGENT);
+  skillStore.register({
+    id: 'cancel-skill',
+    name: 'Cancel Skill',
+    description: 'Blocking echo for cancellation tests',
+    promptTemplate: '{text}',
+    targetAgents: [CANCEL_AGENT.id],
+    strategy: 'single',
+    version: '1.0.0',
+    categories: [],
+  });
+});
+
+afterAll(() => {
+  taskQueue.stop();
+  skillStore.remove('cancel-skill');
+  agentRegistry.unregister(CANCEL_AGENT.id);
+  restoreSpies(spies);
+});
+
+describe('async task status', () => {
+  it('reports queued, running, then completed with the result', async () => {
+    const firstReq = request('first');
+    const secondReq = request('second');
+    const first = taskQueue.submit(firstReq);
+    await waitFor(() => gates.has('first'));
+    const second = taskQueue.submit(secondReq);
+
+    expect(taskQueue.getStatus(firstReq.taskId)?.status).toBe('running');
+    expect(taskQueue.getStatus(secondReq.taskId)).toMatchObject({ status: 'queued', position: 1 });
+
+    gates.get('first')!();
+    await first;
+    expect(taskQueue.getStatus(firstReq.taskId)).toMatchObject({
+      status: 'completed',
+      success: true,
+      content: 'done: first',
+      totalTokens: 2,
+      agents: [{ agentId: CANCEL_AGENT.id, success: true }],
+    });
+
+    await waitFor(() => gates.has('second'));
+    gates.get('second')!();
+    await second;
+    expect(taskQueue.getStatus(secondReq.taskId)?.status).toBe('completed');
+  });
+
+  it('falls back to task history for tasks that bypassed the queue', async () => {
+    const direct = request('direct');
+    const pending = routeTask(direct);
+    await waitFor(() => gates.has('direct'));
+    gates.get('direct')!();
+    await pending;
+
+    expect(taskQueue.getStatus(direct.taskId)).toMatchObject({ status: 'completed', content: 'done: direct' });
+    expect(taskQueue.getStatus('never-submitted')).toBeUndefined();
+  });
+});
+
+describe('task cancellation', () => {
+  it('aborts the in-flight provider call of a running task', async () => {
+    const req = request('long');
+    const pending = taskQueue.submit(req);
+    await waitFor(() => gates.has('long'));
+
+    expect(taskQueue.cancel(req.taskId)?.status).toBe('running');
+    await expect(pending).rejects.toThrow(/was cancelled/);
+
+    expect(aborted).toContain('long');
+    expect(taskQueue.getStatus(req.taskId)).toMatchObject({ status: 'cancelled', error: 'Cancelled while running' });
+    // Finished tasks can no longer be cancelled
+    expect(taskQueue.cancel(req.taskId)).toBeUndefined();
+  });
+
+  it('aborts when the caller\'s own signal fires', async () => {
+    const req = request('caller');
+    const controller = new AbortController();
+    const pending = taskQueue.submit(req, { signal: controller.signal });
+    await waitFor(() => gates.has('caller'));
+
+    controller.abort();
+    await expect(pending).rejects.toThrow(/was cancelled/);
+    expect(aborted).toContain('caller');
+    expect(taskQueue.getStatus(req.taskId)?.status).toBe('cancelled');
+  });
+});
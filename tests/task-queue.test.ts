@@ -0,0 +1,259 @@
+// tests/task-queue.test.ts
+// Task queue: capacity-aware dispatch in priority order, reprioritize/cancel,
+// state-dir persistence, and restore after restart.
+
+import { describe, it, expect, beforeAll, afterAll, vi, type MockInstance } from 'vitest';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { registerProvider, getRouterMetrics } from '../src/services/taskRouter.js';
+import { taskQueue } from '../src/services/taskQueue.js';
+import * as sharedState from '../src/services/sharedState.js';
+import type { AgentConfig, QueuedTask, TaskRequest } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const QUEUE_AGENT: AgentConfig = {
+  id: 'queue-agent-1',
+  name: 'Queue Agent',
+  provider: 'mock-queue',
+  model: 'mock-queue-model',
+  transport: 'stdio',
+  endpoint: '',
+  maxConcurrency: 1,
+  costMultiplier: 1,
+  tags: ['queue-test'],
+  canMutate: false,
+  timeoutMs: 5000,
+};
+
+/** Prompts in the order the provider started them */
+const started: string[] = [];
+/** Release functions for in-flight provider calls, keyed by prompt */
+const gates = new Map<string, () => void>();
+
+let spies: MockInstance[] = [];
+let persistSpy: MockInstance;
+let counter = 0;
+
+function request(text: string, priority: number): TaskRequest {
+  return {
+    taskId: `queue-test-${++counter}`,
+    skillId: 'queue-skill',
+    params: { text },
+    priority,
+    createdAt: new Date(Date.now() + counter),
+  };
+}
+
+/** Wait until the provider has started the given prompt */
+async function waitForStart(prompt: string): Promise<void> {
+  for (let i = 0; i < 100 && !gates.has(prompt); i++) {
+    await new Promise(r => setTimeout(r, 5));
+  }
+  expect(gates.has(prompt)).toBe(true);
+}
+
+function release(prompt: string): void {
+  gates.get(prompt)!();
+  gates.delete(prompt);
+}
+
+beforeAll(() => {
+  spies = createStoreSpies();
+  persistSpy = vi.mocked(sharedState.persistTaskQueue);
+
+  // Each call blocks until the test releases it
+  registerProvider('mock-queue', async (agent, prompt) => {
+    started.push(prompt);
+    await new Promise<void>(resolve => gates.set(prompt, resolve));
+    return {
+      agentId: agent.id,
+      model: agent.model,
+      content: `done: ${prompt}`,
+      tokenCount: 1,
+      latencyMs: 1,
+      costUnits: 0,
+      success: true,
+      timestamp: new Date(),
+    };
+  });
+
+  agentRegistry.register(QUEUE_AGENT);
+  skillStore.register({
+    id: 'queue-skill',
+    name: 'Queue Skill',
+    description: 'Echo for queue tests',
+    promptTemplate: '{text}',
+    targetAgents: [QUEUE_AGENT.id],
+    strategy: 'single',
+    version: '1.0.0',
+    categories: [],
+  });
+});
+
+afterAll(() => {
+  taskQueue.stop();
+  skillStore.remove('queue-skill');
+  agentRegistry.unregister(QUEUE_AGENT.id);
+  restoreSpies(spies);
+});
+
+describe('taskQueue', () => {
+  it('holds tasks while the agent is at capacity and dispatches by priority', async () => {
+    started.length = 0;
+    const first = taskQueue.submit(request('first', 0));
+    await waitForStart('first');
+
+    const low = taskQueue.submit(request('low', 1));
+    const high = taskQueue.submit(request('high', 5));
+
+    // Agent is saturated - both wait, high-priority first in line
+    const queued = taskQueue.list().filter(e => e.status === 'queued');
+    expect(queued.map(e => e.params.text)).toEqual(['high', 'low']);
+    expect(started).toEqual(['first']);
+
+    // Persisted snapshot includes the waiting entries
+    const lastPersisted: QueuedTask[] = persistSpy.mock.calls.at(-1)![0];
+    expect(lastPersisted.filter(e => e.status === 'queued').map(e => e.params.text).sort()).toEqual(['high', 'low']);
+
+    release('first');
+    await first;
+    await waitForStart('high');
+    expect(started).toEqual(['first', 'high']);
+
+    release('high');
+    await waitForStart('low');
+    release('low');
+
+    const results = await Promise.all([high, low]);
+    expect(results.map(r => r.finalContent)).toEqual(['done: high', 'done: low']);
+    expect(taskQueue.list()).toHaveLength(0);
+  });
+
+  it('reprioritizes waiting tasks only and cancels them', async () => {
+    started.length = 0;
+    const blockerReq = request('blocker', 0);
+    const blocker = taskQueue.submit(blockerReq);
+    await waitForStart('blocker');
+
+    const aReq = request('a', 1);
+    const bReq = request('b', 2);
+    const a = taskQueue.submit(aReq);
+    const b = taskQueue.submit(bReq);
+    expect(taskQueue.positionOf(bReq.taskId)).toBe(1);
+
+    taskQueue.reprioritize(aReq.taskId, 10);
+    expect(taskQueue.positionOf(aReq.taskId)).toBe(1);
+
+    expect(() => taskQueue.reprioritize(blockerReq.taskId, 99)).toThrow(/already running/);
+    expect(taskQueue.cancel('nope')).toBeUndefined();
+    expect(taskQueue.reprioritize('nope', 1)).toBeUndefined();
+
+    taskQueue.cancel(bReq.taskId);
+    await expect(b).rejects.toThrow(/cancelled while queued/);
+
+    release('blocker');
+    await blocker;
+    await waitForStart('a');
+    release('a');
+    await a;
+    expect(started).toEqual(['blocker', 'a']);
+  });
+
+  it('queues pre-rendered prompts and sends them as-is', async () => {
+    started.length = 0;
+    const blocker = taskQueue.submit(request('busy', 0));
+    await waitForStart('busy');
+
+    // Conversation turns and direct prompts arrive with the prompt already rendered
+    const turnReq = { ...request('ignored', 0), resolvedPrompt: 'turn prompt' };
+    const turn = taskQueue.submit(turnReq);
+    expect(taskQueue.get(turnReq.taskId)).toMatchObject({ status: 'queued', resolvedPrompt: 'turn prompt' });
+
+    release('busy');
+    await blocker;
+    await waitForStart('turn prompt');
+    release('turn prompt');
+    expect((await turn).finalContent).toBe('done: turn prompt');
+    expect(started).toEqual(['busy', 'turn prompt']);
+  });
+
+  it('keeps tasks queued while no candidate agent is registered', async () => {
+    started.length = 0;
+    agentRegistry.unregister(QUEUE_AGENT.id);
+    const req = request('late', 0);
+    const late = taskQueue.submit(req);
+
+    taskQueue.pump();
+    await new Promise(r => setTimeout(r, 20));
+    expect(taskQueue.get(req.taskId)?.status).toBe('queued');
+    expect(started).toEqual([]);
+
+    // Registering a candidate dispatches the waiting task
+    agentRegistry.register(QUEUE_AGENT);
+    await waitForStart('late');
+    release('late');
+    expect((await late).finalContent).toBe('done: late');
+  });
+
+  it('fails waiting tasks once their skill is removed', async () => {
+    agentRegistry.unregister(QUEUE_AGENT.id);
+    skillStore.register({
+      id: 'queue-doomed-skill',
+      name: 'Doomed',
+      description: 'Removed while its task waits',
+      promptTemplate: '{text}',
+      targetAgents: [QUEUE_AGENT.id],
+      strategy: 'single',
+      version: '1.0.0',
+      categories: [],
+    });
+    const doomed = taskQueue.submit({ ...request('doomed', 0), skillId: 'queue-doomed-skill' });
+
+    skillStore.remove('queue-doomed-skill');
+    await expect(doomed).rejects.toThrow(/Skill not found/);
+    agentRegistry.register(QUEUE_AGENT);
+  });
+
+  it('cancels a waiting task when its caller aborts', async () => {
+    agentRegistry.unregister(QUEUE_AGENT.id);
+    const controller = new AbortController();
+    const req = request('abandoned', 0);
+    const abandoned = taskQueue.submit(req, { signal: controller.signal });
+
+    controller.abort();
+    await expect(abandoned).rejects.toThrow(/cancelled while queued/);
+    expect(taskQueue.get(req.taskId)).toBeUndefined();
+    agentRegistry.register(QUEUE_AGENT);
+  });
+
+  it('rejects unknown skills without queueing', async () => {
+    await expect(taskQueue.submit({ ...request('x', 0), skillId: 'missing-skill' })).rejects.toThrow(/Skill not found/);
+    expect(taskQueue.list()).toHaveLength(0);
+  });
+
+  it('restores persisted tasks and re-runs interrupted ones', async () => {
+    started.length = 0;
+    const interrupted: QueuedTask = {
+      taskId: 'queue-restored-1',
+      skillId: 'queue-skill',
+      params: { text: 'restored' },
+      priority: 0,
+      status: 'running',
+      enqueuedAt: new Date().toISOString(),
+      startedAt: new Date().toISOString(),
+    };
+    vi.mocked(sharedState.readTaskQueue).mockReturnValueOnce([interrupted]);
+
+    taskQueue.load();
+    await waitForStart('restored');
+    expect(taskQueue.get('queue-restored-1')).toMatchObject({ status: 'running', restored: true });
+
+    release('restored');
+    for (let i = 0; i < 100 && taskQueue.get('queue-restored-1'); i++) {
+      await new Promise(r => setTimeout(r, 5));
+    }
+    expect(taskQueue.get('queue-restored-1')).toBeUndefined();
+    // No caller is waiting - the result lands in task history
+    expect(getRouterMetrics().recentTasks.find(t => t.taskId === 'queue-restored-1')?.success).toBe(true);
+  });
+});
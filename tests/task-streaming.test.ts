@@ -0,0 +1,199 @@
+// tests/task-streaming.test.ts
+// Streaming provider contract: chunks flow from providers through routeTask to
+// callers and task:chunk events only when progress was requested; OpenAI-compatible
+// SSE parsing against a local server.
+
+import { describe, it, expect, beforeAll, afterAll, type MockInstance } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { eventBus, ALL_EVENT_NAMES, STREAMING_EVENT_NAMES } from '../src/services/events.js';
+import { routeTask, registerProvider } from '../src/services/taskRouter.js';
+import { sendOpenAIPrompt } from '../src/providers/openai.js';
+import type { AgentConfig, SendPromptOptions, TaskChunk } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const STREAM_AGENT: AgentConfig = {
+  id: 'stream-agent-1',
+  name: 'Streaming Agent',
+  provider: 'mock-stream',
+  model: 'mock-stream-model',
+  transport: 'stdio',
+  endpoint: '',
+  maxConcurrency: 2,
+  costMultiplier: 1,
+  tags: ['streaming-test'],
+  canMutate: false,
+  timeoutMs: 5000,
+};
+
+let spies: MockInstance[] = [];
+/** Whether the last provider call was given a chunk sink (i.e. asked to stream) */
+let lastStreamed = false;
+
+beforeAll(() => {
+  spies = createStoreSpies();
+
+  registerProvider('mock-stream', async (agent, prompt, _maxTokens, _timeoutMs, options?: SendPromptOptions) => {
+    const parts = ['Hello', ', ', 'world'];
+    lastStreamed = !!options?.onChunk;
+    for (const p of parts) options?.onChunk?.(p);
+    return {
+      agentId: agent.id,
+      model: agent.model,
+      content: parts.join(''),
+      tokenCount: 3,
+      latencyMs: 1,
+      costUnits: 0,
+      success: true,
+      timestamp: new Date(),
+    };
+  });
+
+  agentRegistry.register(STREAM_AGENT);
+  skillStore.register({
+    id: 'stream-skill',
+    name: 'Stream Skill',
+    description: 'Streaming test skill',
+    promptTemplate: 'Say hello to {name}',
+    targetAgents: [STREAM_AGENT.id],
+    strategy: 'single',
+    version: '1.0.0',
+    categories: [],
+  });
+});
+
+afterAll(() => {
+  skillStore.remove('stream-skill');
+  agentRegistry.unregister(STREAM_AGENT.id);
+  restoreSpies(spies);
+});
+
+describe('task:chunk event registration', () => {
+  it('is registered in ALL_EVENT_NAMES and marked as a streaming event', () => {
+    expect(ALL_EVENT_NAMES).toContain('task:chunk');
+    expect(STREAMING_EVENT_NAMES.has('task:chunk')).toBe(true);
+    expect(STREAMING_EVENT_NAMES.has('task:completed')).toBe(false);
+  });
+});
+
+describe('routeTask streaming', () => {
+  it('forwards provider chunks to the caller in order with a monotonic index', async () => {
+    const received: TaskChunk[] = [];
+    const result = await routeTask(
+      { taskId: 'stream-t1', skillId: 'stream-skill', params: { name: 'x' }, priority: 0, createdAt: new Date() },
+      { onChunk: (c) => received.push(c) },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.finalContent).toBe('Hello, world');
+    expect(received.map(c => c.chunk)).toEqual(['Hello', ', ', 'world']);
+    expect(received.map(c => c.index)).toEqual([0, 1, 2]);
+    expect(received.every(c => c.agentId === STREAM_AGENT.id && c.taskId === 'stream-t1')).toBe(true);
+  });
+
+  it('emits task:chunk events on the bus for stream: true without a caller sink', async () => {
+    const events: TaskChunk[] = [];
+    const handler = (e: TaskChunk) => events.push(e);
+    eventBus.onEvent('task:chunk', handler);
+    try {
+      await routeTask(
+        { taskId: 'stream-t2', skillId: 'stream-skill', params: { name: 'y' }, priority: 0, createdAt: new Date() },
+        { stream: true },
+      );
+    } finally {
+      eventBus.off('task:chunk', handler);
+    }
+    const mine = events.filter(e => e.taskId === 'stream-t2');
+    expect(mine).toHaveLength(3);
+    expect(mine[0].skillId).toBe('stream-skill');
+  });
+
+  it('does not ask providers to stream when the caller wants no progress', async () => {
+    const events: TaskChunk[] = [];
+    const handler = (e: TaskChunk) => events.push(e);
+    eventBus.onEvent('task:chunk', handler);
+    try {
+      const result = await routeTask({ taskId: 'stream-t4', skillId: 'stream-skill', params: { name: 'w' }, priority: 0, createdAt: new Date() });
+      expect(result.finalContent).toBe('Hello, world');
+    } finally {
+      eventBus.off('task:chunk', handler);
+    }
+    expect(lastStreamed).toBe(false);
+    expect(events.filter(e => e.taskId === 'stream-t4')).toHaveLength(0);
+  });
+
+  it('keeps routing when the caller sink throws', async () => {
+    const result = await routeTask(
+      { taskId: 'stream-t3', skillId: 'stream-skill', params: { name: 'z' }, priority: 0, createdAt: new Date() },
+      { onChunk: () => { throw new Error('sink failure'); } },
+    );
+    expect(result.success).toBe(true);
+  });
+});
+
+describe('OpenAI-compatible streaming', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let lastBody: any;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (c) => { raw += c; });
+      req.on('end', () => {
+        lastBody = JSON.parse(raw);
+        if (!lastBody.stream) {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            choices: [{ message: { content: 'whole answer' } }],
+            usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+          }));
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write('data: {"choices":[{"delta":{"content":"par"}}]}\n\n');
+        // Split an event across writes to exercise line buffering
+        res.write('data: {"choices":[{"delta":{"con');
+        res.write('tent":"tial"}}]}\n\n');
+        res.write('data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\n\n');
+        res.end('data: [DONE]\n\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const agent = (): AgentConfig => ({
+    ...STREAM_AGENT,
+    id: 'openai-stream',
+    provider: 'openai',
+    model: 'gpt-test',
+    endpoint,
+  });
+
+  it('streams deltas and reads usage from the final event', async () => {
+    const chunks: string[] = [];
+    const response = await sendOpenAIPrompt(agent(), 'hi', 100, 5000, { onChunk: (c) => chunks.push(c) });
+
+    expect(lastBody.stream).toBe(true);
+    expect(lastBody.stream_options).toEqual({ include_usage: true });
+    expect(response.success).toBe(true);
+    expect(chunks).toEqual(['par', 'tial']);
+    expect(response.content).toBe('partial');
+    expect(response.tokenCount).toBe(7);
+    expect(response.tokenCountEstimated).toBe(false);
+  });
+
+  it('uses a plain request when no chunk sink is given', async () => {
+    const response = await sendOpenAIPrompt(agent(), 'hi', 100, 5000);
+    expect(lastBody.stream).toBeUndefined();
+    expect(response.content).toBe('whole answer');
+    expect(response.tokenCount).toBe(6);
+  });
+});
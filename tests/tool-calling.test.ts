@@ -0,0 +1,228 @@
+// tests/tool-calling.test.ts
+// Agent tool loop: skill tool allowlists, OpenAI function calling and Anthropic tool_use
+// against local mock servers, the iteration limit, and tool calls in the task trace.
+
+import { describe, it, expect, beforeAll, afterAll, vi, type MockInstance } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { agentMailbox } from '../src/services/agentMailbox.js';
+import { eventBus } from '../src/services/events.js';
+import { registerProvider, routeTask, type TaskHistoryEntry } from '../src/services/taskRouter.js';
+import { resolveSkillTools, validateToolConfig } from '../src/services/managerTools.js';
+import { sendOpenAIPrompt } from '../src/providers/openai.js';
+import { sendAnthropicPrompt } from '../src/providers/anthropic.js';
+import * as sharedState from '../src/services/sharedState.js';
+import type { AgentConfig, SendPromptOptions, ToolLoopOptions } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies, makeAgent } from './helpers/fixtures.js';
+
+function agent(id: string, extra: Partial<AgentConfig> = {}): AgentConfig {
+  return makeAgent(id, { provider: 'mock-tools', ...extra });
+}
+
+/** Mock server answering each request with the next queued body */
+async function mockServer(replies: unknown[]) {
+  const bodies: any[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c) => { raw += c; });
+    req.on('end', () => {
+      bodies.push(JSON.parse(raw));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(replies.length > 1 ? replies.shift() : replies[0]));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    bodies,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function toolCallReply(name: string, args: string) {
+  return {
+    choices: [{
+      message: { role: 'assistant', content: null, tool_calls: [{ id: `call_${name}`, type: 'function', function: { name, arguments: args } }] },
+      finish_reason: 'tool_calls',
+    }],
+    usage: { prompt_tokens: 100, completion_tokens: 10, total_tokens: 110 },
+  };
+}
+
+const lookup: ToolLoopOptions['definitions'] = [{
+  name: 'lookup', description: 'Look something up', inputSchema: { type: 'object', properties: { q: { type: 'string' } } },
+}];
+
+let spies: MockInstance[] = [];
+const toolEvents: Array<{ tool: string; success: boolean; error?: string }> = [];
+const history: TaskHistoryEntry[] = [];
+
+beforeAll(() => {
+  spies = [...createStoreSpies(), vi.spyOn(agentMailbox, 'send').mockResolvedValue('msg-1')];
+  vi.mocked(sharedState.persistTaskHistoryEntry).mockImplementation((e) => { history.push(e as TaskHistoryEntry); });
+  eventBus.onEvent('task:tool-call', (e) => {
+    if (e.taskId.startsWith('tools-')) toolEvents.push({ tool: e.tool, success: e.success, error: e.error });
+  });
+
+  // Mock agent that calls the tools it is offered, the way a provider tool loop would
+  registerProvider('mock-tools', async (a, prompt, _maxTokens, _timeoutMs, options: SendPromptOptions = {}) => {
+    const calls: string[] = [];
+    if (options.tools && prompt.startsWith('Coordinate')) {
+      calls.push(await options.tools.execute('mgr_send_message', { channel: 'team', body: 'starting' }));
+      calls.push(await options.tools.execute('mgr_run_skill', { skillId: 'tools-child', params: { topic: 'auth' } }));
+      await options.tools.execute('mgr_read_messages', { channel: 'team' }).catch((err) => calls.push(`error: ${err.message}`));
+    }
+    return {
+      agentId: a.id, model: a.model, content: [prompt, ...calls].join(' | '), tokenCount: 1, latencyMs: 1, costUnits: 0,
+      success: true, timestamp: new Date(),
+      toolCalls: calls.length > 0 ? [{ iteration: 1, name: 'mgr_send_message', input: {}, success: true, latencyMs: 0 }] : undefined,
+    };
+  });
+  agentRegistry.register(agent('tools-agent'));
+  skillStore.register({
+    id: 'tools-parent', name: 'tools-parent', description: '', promptTemplate: 'Coordinate the team',
+    tools: ['mgr_send_message', 'mgr_run_skill'], maxToolIterations: 3,
+    targetAgents: ['tools-agent'], strategy: 'single', version: '1.0.0', categories: [],
+  });
+  skillStore.register({
+    id: 'tools-child', name: 'tools-child', description: '', promptTemplate: 'Summarize {topic}',
+    parameters: [{ name: 'topic', required: true }],
+    targetAgents: ['tools-agent'], strategy: 'single', version: '1.0.0', categories: [],
+  });
+});
+
+afterAll(() => {
+  skillStore.remove('tools-parent');
+  skillStore.remove('tools-child');
+  agentRegistry.unregister('tools-agent');
+  restoreSpies(spies);
+  delete process.env.MCP_AGENT_TOOLS;
+});
+
+describe('skill tool configuration', () => {
+  it('validates tool names and the iteration limit', () => {
+    expect(validateToolConfig({ tools: ['mgr_search_knowledge'], maxToolIterations: 20 })).toEqual([]);
+    expect(validateToolConfig({ tools: ['mgr_delete_everything'], maxToolIterations: 0 })).toEqual([
+      expect.stringMatching(/^unknown tool "mgr_delete_everything" \(available: mgr_search_knowledge, /),
+      'maxToolIterations must be an integer from 1 to 20',
+    ]);
+    expect(() => skillStore.register({
+      id: 'tools-bad', name: 'tools-bad', description: '', promptTemplate: 'x', tools: ['nope'],
+      strategy: 'single', version: '1.0.0', categories: [],
+    })).toThrow(/Invalid tool settings for skill tools-bad: unknown tool "nope"/);
+  });
+
+  it('narrows a skill allowlist with MCP_AGENT_TOOLS', () => {
+    const skill = { id: 's', tools: ['mgr_search_knowledge', 'mgr_send_message'] };
+    expect(resolveSkillTools(skill).map(t => t.name)).toEqual(['mgr_search_knowledge', 'mgr_send_message']);
+    process.env.MCP_AGENT_TOOLS = 'mgr_send_message, mgr_read_messages';
+    expect(resolveSkillTools(skill).map(t => t.name)).toEqual(['mgr_send_message']);
+    delete process.env.MCP_AGENT_TOOLS;
+  });
+});
+
+describe('routing with tools', () => {
+  it('runs allowed tools as the agent, nests skills, and records the trace', async () => {
+    const result = await routeTask({ taskId: 'tools-1', skillId: 'tools-parent', params: {}, priority: 0, createdAt: new Date() });
+
+    expect(agentMailbox.send).toHaveBeenCalledWith({ channel: 'team', sender: 'tools-agent', recipients: ['*'], body: 'starting' });
+    const [, sent, nested, refused] = result.finalContent.split(' | ');
+    expect(JSON.parse(sent)).toEqual({ messageId: 'msg-1', status: 'sent' });
+    expect(JSON.parse(nested)).toMatchObject({ taskId: 'tools-1-tool-1', content: 'Summarize auth' });
+    expect(refused).toBe('error: Tool mgr_read_messages is not available to this skill');
+
+    expect(toolEvents).toEqual([
+      { tool: 'mgr_send_message', success: true },
+      { tool: 'mgr_run_skill', success: true },
+      { tool: 'mgr_read_messages', success: false, error: 'Tool mgr_read_messages is not available to this skill' },
+    ]);
+    expect(history.find(h => h.taskId === 'tools-1')!.toolCalls).toEqual([
+      { agentId: 'tools-agent', iteration: 1, name: 'mgr_send_message', success: true, latencyMs: 0 },
+    ]);
+    // Skills without tools are not offered any
+    expect(history.find(h => h.taskId === 'tools-1-tool-1')!.toolCalls).toBeUndefined();
+  });
+});
+
+describe('OpenAI function calling', () => {
+  it('runs requested tools and sends their results back until the model answers', async () => {
+    const server = await mockServer([
+      toolCallReply('lookup', '{"q":"retry policy"}'),
+      { choices: [{ message: { role: 'assistant', content: 'Use exponential backoff.' }, finish_reason: 'stop' }], usage: { prompt_tokens: 200, completion_tokens: 20, total_tokens: 220 } },
+    ]);
+    const execute = vi.fn(async (_name: string, input: Record<string, unknown>) => `found: ${input.q}`);
+    try {
+      const response = await sendOpenAIPrompt(agent('tools-openai', { provider: 'openai', endpoint: server.url }), 'How do we retry?', 100, 5000, {
+        tools: { definitions: lookup, execute, maxIterations: 3 },
+      });
+
+      expect(response).toMatchObject({ success: true, content: 'Use exponential backoff.', tokenCount: 330 });
+      expect(response.toolCalls).toEqual([{
+        iteration: 1, name: 'lookup', input: { q: 'retry policy' }, success: true, output: 'found: retry policy', latencyMs: expect.any(Number),
+      }]);
+      expect(server.bodies[0].tools).toEqual([{ type: 'function', function: { name: 'lookup', description: 'Look something up', parameters: lookup[0].inputSchema } }]);
+      expect(server.bodies[1].messages.slice(1)).toEqual([
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call_lookup', type: 'function', function: { name: 'lookup', arguments: '{"q":"retry policy"}' } }] },
+        { role: 'tool', tool_call_id: 'call_lookup', content: 'found: retry policy' },
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('stops a model that keeps calling tools past maxIterations', async () => {
+    const server = await mockServer([toolCallReply('lookup', '{"q":')]);
+    const execute = vi.fn(async () => 'ok');
+    try {
+      const response = await sendOpenAIPrompt(agent('tools-openai', { provider: 'openai', endpoint: server.url }), 'loop', 100, 5000, {
+        tools: { definitions: lookup, execute, maxIterations: 1 },
+      });
+      expect(response).toMatchObject({ success: false, error: 'Tool call limit reached after 1 round(s)' });
+      expect(execute).not.toHaveBeenCalled();
+      expect(response.toolCalls!.map(c => c.error)).toEqual([
+        expect.stringMatching(/^Invalid tool arguments: /),
+        'Tool call limit reached (1 rounds) - answer with the information you have',
+      ]);
+      expect(server.bodies).toHaveLength(3);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('Anthropic tool use', () => {
+  it('answers tool_use blocks with tool_result blocks', async () => {
+    const server = await mockServer([
+      {
+        id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-test', stop_reason: 'tool_use', stop_sequence: null,
+        content: [{ type: 'text', text: 'Checking.' }, { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'owners' } }],
+        usage: { input_tokens: 50, output_tokens: 5 },
+      },
+      {
+        id: 'msg_2', type: 'message', role: 'assistant', model: 'claude-test', stop_reason: 'end_turn', stop_sequence: null,
+        content: [{ type: 'text', text: 'The platform team.' }], usage: { input_tokens: 80, output_tokens: 6 },
+      },
+    ]);
+    process.env.ANTHROPIC_BASE_URL = server.url;
+    const execute = vi.fn(async () => { throw new Error('index offline'); });
+    try {
+      const response = await sendAnthropicPrompt(
+        agent('tools-anthropic', { provider: 'anthropic', model: 'claude-test', env: { ANTHROPIC_API_KEY: 'tool-calling-test-key' } }),
+        'Who owns this?', 100, 5000, { tools: { definitions: lookup, execute, maxIterations: 2 } }
+      );
+
+      expect(response).toMatchObject({ success: true, content: 'The platform team.', tokenCount: 141 });
+      expect(response.toolCalls).toEqual([{ iteration: 1, name: 'lookup', input: { q: 'owners' }, success: false, error: 'index offline', latencyMs: expect.any(Number) }]);
+      expect(server.bodies[0].tools).toEqual([{ name: 'lookup', description: 'Look something up', input_schema: lookup[0].inputSchema }]);
+      expect(server.bodies[1].messages.slice(1)).toEqual([
+        { role: 'assistant', content: [{ type: 'text', text: 'Checking.' }, { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'owners' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Error: index offline', is_error: true }] },
+      ]);
+    } finally {
+      delete process.env.ANTHROPIC_BASE_URL;
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,231 @@
+// tests/workflows.test.ts
+// Workflow DAGs: validation (cycles, unknown refs), output passing between steps,
+// conditional branches, dependency-driven parallel steps, continueOnError, and task-history recording.
+
+import { describe, it, expect, beforeAll, afterAll, vi, type MockInstance } from 'vitest';
+import { agentRegistry } from '../src/services/agentRegistry.js';
+import { skillStore } from '../src/services/skillStore.js';
+import { registerProvider, getRouterMetrics } from '../src/services/taskRouter.js';
+import { workflowStore, validateWorkflow, stepDependencies } from '../src/services/workflowStore.js';
+import { runWorkflow } from '../src/services/workflowRunner.js';
+import type { AgentConfig, SkillDefinition, WorkflowDefinition } from '../src/types/index.js';
+import { createStoreSpies, restoreSpies } from './helpers/fixtures.js';
+
+const WF_AGENT: AgentConfig = {
+  id: 'wf-agent-1',
+  name: 'Workflow Agent',
+  provider: 'mock-wf',
+  model: 'mock-wf-model',
+  transport: 'stdio',
+  endpoint: '',
+  maxConcurrency: 4,
+  costMultiplier: 1,
+  tags: ['workflow-test'],
+  canMutate: false,
+  timeoutMs: 5000,
+};
+
+function skill(id: string, promptTemplate: string): SkillDefinition {
+  return {
+    id,
+    name: id,
+    description: '',
+    promptTemplate,
+    targetAgents: [WF_AGENT.id],
+    strategy: 'single',
+    version: '1.0.0',
+    categories: [],
+  };
+}
+
+/** Prompts seen by the mock provider, in call order */
+const prompts: string[] = [];
+/** Prompts the mock provider answered, in completion order */
+const finished: string[] = [];
+let inFlight = 0;
+let maxInFlight = 0;
+
+let spies: MockInstance[] = [];
+
+beforeAll(() => {
+  spies = [
+    ...createStoreSpies(),
+    vi.spyOn(workflowStore as any, 'persist').mockImplementation(() => {}),
+  ];
+
+  // Echoes the prompt upper-cased; prompts starting with FAIL return an error, "slow" ones take longer
+  registerProvider('mock-wf', async (agent, prompt) => {
+    prompts.push(prompt);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(r => setTimeout(r, prompt.includes('slow') ? 100 : 10));
+    inFlight--;
+    finished.push(prompt);
+    const failed = prompt.startsWith('FAIL');
+    return {
+      agentId: agent.id,
+      model: agent.model,
+      content: failed ? '' : prompt.toUpperCase(),
+      tokenCount: 5,
+      latencyMs: 10,
+      costUnits: 0.01,
+      success: !failed,
+      error: failed ? 'forced failure' : undefined,
+      timestamp: new Date(),
+    };
+  });
+
+  agentRegistry.register(WF_AGENT);
+  skillStore.register(skill('wf-echo', '{text}'));
+  skillStore.register(skill('wf-fail', 'FAIL {text}'));
+});
+
+afterAll(() => {
+  skillStore.remove('wf-echo');
+  skillStore.remove('wf-fail');
+  agentRegistry.unregister(WF_AGENT.id);
+  restoreSpies(spies);
+});
+
+describe('validateWorkflow', () => {
+  const base = { id: 'v', name: 'v', description: '', version: '1.0.0', categories: [] };
+
+  it('collects implicit dependencies from params and conditions', () => {
+    expect(stepDependencies({
+      id: 'c',
+      skillId: 'wf-echo',
+      params: { text: '{{steps.a.output}} / {{ steps.b.status }}' },
+      condition: { step: 'x', when: 'success' },
+      dependsOn: ['a'],
+    }).sort()).toEqual(['a', 'b', 'x']);
+  });
+
+  it('rejects unknown references, duplicate ids and bad regexes', () => {
+    const errors = validateWorkflow({
+      ...base,
+      steps: [
+        { id: 'a', skillId: 'wf-echo', params: { text: '{{steps.zzz.output}}' } },
+        { id: 'a', skillId: 'wf-echo' },
+        { id: 'b', skillId: 'wf-echo', condition: { step: 'a', when: 'matches', value: '(' } },
+      ],
+      outputStep: 'nope',
+    });
+    expect(errors.join('\n')).toMatch(/unknown step "zzz"/);
+    expect(errors.join('\n')).toMatch(/Duplicate step id: a/);
+    expect(errors.join('\n')).toMatch(/invalid regex/);
+    expect(errors.join('\n')).toMatch(/outputStep/);
+  });
+
+  it('detects cycles and refuses to register them', () => {
+    const cyclic: WorkflowDefinition = {
+      ...base,
+      id: 'wf-cycle',
+      steps: [
+        { id: 'a', skillId: 'wf-echo', dependsOn: ['b'] },
+        { id: 'b', skillId: 'wf-echo', params: { text: '{{steps.a.output}}' } },
+      ],
+    };
+    expect(validateWorkflow(cyclic)[0]).toMatch(/cycle/);
+    expect(() => workflowStore.register(cyclic)).toThrow(/cycle/);
+    expect(workflowStore.get('wf-cycle')).toBeUndefined();
+  });
+});
+
+describe('runWorkflow', () => {
+  it('passes step output into later steps and runs independent steps in parallel', async () => {
+    prompts.length = 0;
+    maxInFlight = 0;
+    const run = await runWorkflow({
+      id: 'wf-chain',
+      name: 'chain',
+      description: '',
+      version: '1.0.0',
+      categories: [],
+      steps: [
+        { id: 'left', skillId: 'wf-echo', params: { text: 'left {{inputs.topic}}' } },
+        { id: 'right', skillId: 'wf-echo', params: { text: 'right {{inputs.topic}}' } },
+        { id: 'join', skillId: 'wf-echo', params: { text: '{{steps.left.output}} + {{steps.right.output}}' } },
+      ],
+    }, { topic: 'cats' });
+
+    expect(run.success).toBe(true);
+    expect(maxInFlight).toBe(2);
+    expect(prompts[2]).toBe('LEFT CATS + RIGHT CATS');
+    expect(run.finalContent).toBe('LEFT CATS + RIGHT CATS');
+    expect(run.totalTokens).toBe(15);
+    expect(run.steps.map(s => s.taskId)).toEqual(
+      ['left', 'right', 'join'].map(id => `${run.runId}-${id}`)
+    );
+  });
+
+  it('starts each step as soon as its own dependencies settle', async () => {
+    finished.length = 0;
+    const run = await runWorkflow({
+      id: 'wf-lanes',
+      name: 'lanes',
+      description: '',
+      version: '1.0.0',
+      categories: [],
+      steps: [
+        { id: 'long', skillId: 'wf-echo', params: { text: 'slow lane' } },
+        { id: 'quick', skillId: 'wf-echo', params: { text: 'quick lane' } },
+        { id: 'next', skillId: 'wf-echo', params: { text: 'after {{steps.quick.output}}' } },
+      ],
+    });
+
+    expect(run.success).toBe(true);
+    // next runs while the unrelated slow step is still going
+    expect(finished).toEqual(['quick lane', 'after QUICK LANE', 'slow lane']);
+  });
+
+  it('branches on step outcome and skips steps behind a failure', async () => {
+    const run = await runWorkflow({
+      id: 'wf-branch',
+      name: 'branch',
+      description: '',
+      version: '1.0.0',
+      categories: [],
+      steps: [
+        { id: 'check', skillId: 'wf-fail', params: { text: 'x' }, continueOnError: true },
+        { id: 'onFail', skillId: 'wf-echo', params: { text: 'recovered' }, condition: { step: 'check', when: 'failure' } },
+        { id: 'onOk', skillId: 'wf-echo', params: { text: 'fine' }, condition: { step: 'check', when: 'success' } },
+        { id: 'after', skillId: 'wf-echo', params: { text: '{{steps.check.output}}' } },
+        { id: 'tail', skillId: 'wf-echo', params: { text: '{{steps.onOk.output}}' } },
+      ],
+      outputStep: 'onFail',
+    });
+
+    const byId = Object.fromEntries(run.steps.map(s => [s.stepId, s]));
+    expect(byId.check.status).toBe('failed');
+    expect(byId.onFail.status).toBe('success');
+    expect(byId.onOk.skipReason).toMatch(/condition not met/);
+    expect(byId.after.skipReason).toMatch(/dependency check failed/);
+    expect(byId.tail.skipReason).toMatch(/dependency onOk was skipped/);
+    // The only failure is marked continueOnError
+    expect(run.success).toBe(true);
+    expect(run.finalContent).toBe('RECOVERED');
+  });
+
+  it('fails the run on a step failure and records it in task history', async () => {
+    const run = await runWorkflow({
+      id: 'wf-broken',
+      name: 'broken',
+      description: '',
+      version: '1.0.0',
+      categories: [],
+      steps: [
+        { id: 'ok', skillId: 'wf-echo', params: { text: 'fine' } },
+        { id: 'bad', skillId: 'wf-fail', params: { text: '{{steps.ok.output}}' } },
+      ],
+    });
+
+    expect(run.success).toBe(false);
+    expect(run.steps[1].error).toMatch(/forced failure/);
+
+    const entry = getRouterMetrics().recentTasks.find(h => h.taskId === run.runId);
+    expect(entry?.strategy).toBe('workflow');
+    expect(entry?.skillId).toBe('wf-broken');
+    expect(entry?.success).toBe(false);
+    expect(entry?.workflowSteps?.map(s => s.status)).toEqual(['success', 'failed']);
+  });
+});